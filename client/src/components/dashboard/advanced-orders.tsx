@@ -0,0 +1,279 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Layers, X } from "lucide-react";
+
+type GroupType = "BRACKET" | "OCO" | "CHASE" | "TWAP" | "ICEBERG";
+
+interface OrderGroup {
+  id: number;
+  type: GroupType;
+  symbol: string;
+  side: "buy" | "sell";
+  totalSize: string;
+  filledSize: string;
+  status: "ACTIVE" | "COMPLETED" | "CANCELLED" | "FAILED";
+  error: string | null;
+  createdAt: string;
+  children: { id: number; role: string; status: string; filledSize: string }[];
+}
+
+const TYPE_LABELS: Record<GroupType, string> = {
+  BRACKET: "Bracket (entry + stop + target)",
+  OCO: "OCO (one cancels other)",
+  CHASE: "Post-only chase",
+  TWAP: "TWAP",
+  ICEBERG: "Iceberg",
+};
+
+const STATUS_STYLES: Record<OrderGroup["status"], string> = {
+  ACTIVE: "bg-blue-100 text-blue-800",
+  COMPLETED: "bg-green-100 text-green-800",
+  CANCELLED: "bg-gray-100 text-gray-700",
+  FAILED: "bg-red-100 text-red-800",
+};
+
+// Fields shown per order type, sent as-is (numbers where the API expects them)
+const TYPE_FIELDS: Record<GroupType, { key: string; label: string; numeric?: boolean }[]> = {
+  BRACKET: [
+    { key: "entryPrice", label: "Entry price (empty for market)" },
+    { key: "stopPrice", label: "Stop price" },
+    { key: "targetPrice", label: "Target price" },
+  ],
+  OCO: [
+    { key: "limitPrice", label: "Limit leg price" },
+    { key: "stopPrice", label: "Stop leg price" },
+  ],
+  CHASE: [
+    { key: "maxChases", label: "Max re-prices", numeric: true },
+    { key: "chaseIntervalSeconds", label: "Re-price every (s)", numeric: true },
+  ],
+  TWAP: [
+    { key: "durationMinutes", label: "Duration (min)", numeric: true },
+    { key: "slices", label: "Slices", numeric: true },
+  ],
+  ICEBERG: [
+    { key: "price", label: "Limit price" },
+    { key: "visibleSize", label: "Visible size" },
+  ],
+};
+
+function buildRequest(type: GroupType, base: Record<string, string>, fields: Record<string, string>) {
+  const values: Record<string, string | number> = {};
+  for (const field of TYPE_FIELDS[type]) {
+    const value = fields[field.key]?.trim();
+    if (value) values[field.key] = field.numeric ? parseInt(value) : value;
+  }
+
+  if (type === "BRACKET") {
+    return { type, ...base, ...values, entryType: values.entryPrice ? "limit" : "market" };
+  }
+  if (type === "OCO") {
+    return {
+      type,
+      ...base,
+      legs: [
+        { orderType: "limit", price: values.limitPrice },
+        { orderType: "stop", price: values.stopPrice },
+      ],
+    };
+  }
+  return { type, ...base, ...values };
+}
+
+interface AdvancedOrdersProps {
+  defaultSymbol?: string;
+}
+
+export default function AdvancedOrders({ defaultSymbol }: AdvancedOrdersProps) {
+  const { toast } = useToast();
+  const [type, setType] = useState<GroupType>("BRACKET");
+  const [symbol, setSymbol] = useState(defaultSymbol || "BTCUSDT");
+  const [side, setSide] = useState<"buy" | "sell">("buy");
+  const [size, setSize] = useState("");
+  const [fields, setFields] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    if (defaultSymbol) setSymbol(defaultSymbol);
+  }, [defaultSymbol]);
+
+  const { data: groups } = useQuery<OrderGroup[]>({
+    queryKey: ["/api/order-groups"],
+    refetchInterval: 10000,
+  });
+
+  const invalidate = () => {
+    ["/api/order-groups", "/api/orders", "/api/trades/open", "/api/balance"].forEach((key) =>
+      queryClient.invalidateQueries({ queryKey: [key] }),
+    );
+  };
+
+  const submitMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/order-groups", buildRequest(type, { symbol, side, size }, fields));
+      return (await res.json()) as OrderGroup;
+    },
+    onSuccess: (group) => {
+      setSize("");
+      setFields({});
+      invalidate();
+      toast({
+        title: `${group.type} order submitted`,
+        description: `${group.side.toUpperCase()} ${group.totalSize} ${group.symbol}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Order rejected",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/order-groups/${id}`);
+    },
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Order group cancelled" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not cancel order group",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Layers className="h-5 w-5 mr-2 text-blue-500" />
+          Advanced Orders
+        </CardTitle>
+        <CardDescription>Managed by the server, so they keep working while the dashboard is closed</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">Order Type</label>
+            <Select
+              value={type}
+              onValueChange={(value) => {
+                setType(value as GroupType);
+                setFields({});
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Order type" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TYPE_LABELS) as GroupType[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {TYPE_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">Side</label>
+            <Select value={side} onValueChange={(value) => setSide(value as "buy" | "sell")}>
+              <SelectTrigger>
+                <SelectValue placeholder="Side" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="buy">Buy</SelectItem>
+                <SelectItem value="sell">Sell</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">Symbol</label>
+            <Input value={symbol} onChange={(e) => setSymbol(e.target.value.toUpperCase())} />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">Total Size</label>
+            <Input type="number" min="0" step="0.001" value={size} onChange={(e) => setSize(e.target.value)} />
+          </div>
+          {TYPE_FIELDS[type].map((field) => (
+            <div key={field.key} className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">{field.label}</label>
+              <Input
+                type="number"
+                min="0"
+                step={field.numeric ? "1" : "0.01"}
+                value={fields[field.key] ?? ""}
+                onChange={(e) => setFields({ ...fields, [field.key]: e.target.value })}
+              />
+            </div>
+          ))}
+        </div>
+
+        {groups && groups.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Recent Order Groups</p>
+            {groups.slice(0, 10).map((group) => (
+              <div key={group.id} className="flex items-center justify-between text-sm rounded-md border border-gray-100 px-3 py-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant="outline" className={STATUS_STYLES[group.status]}>
+                    {group.status}
+                  </Badge>
+                  <span className="font-medium">{group.type}</span>
+                  <span className={group.side === "buy" ? "text-green-600" : "text-red-600"}>{group.side.toUpperCase()}</span>
+                  <span>{group.symbol}</span>
+                  <span className="text-gray-500">
+                    {parseFloat(group.filledSize)} / {parseFloat(group.totalSize)} filled · {group.children.length} orders
+                  </span>
+                  {group.error && <span className="text-xs text-red-600">{group.error}</span>}
+                </div>
+                {group.status === "ACTIVE" && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={cancelMutation.isPending}
+                    onClick={() => cancelMutation.mutate(group.id)}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="border-t border-gray-100 pt-4">
+        <Button
+          className="w-full"
+          onClick={() => submitMutation.mutate()}
+          disabled={submitMutation.isPending || !symbol.trim() || !(parseFloat(size) > 0)}
+        >
+          {submitMutation.isPending ? "Submitting..." : `Submit ${type} Order`}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
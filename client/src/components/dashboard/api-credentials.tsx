@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { KeyRound } from "lucide-react";
+
+interface CredentialsStatus {
+  configured: boolean;
+  exchange?: string;
+  keyHint?: string;
+  updatedAt?: string;
+}
+
+const EMPTY_FORM = { apiKey: "", apiSecret: "", passphrase: "" };
+
+// Queries that depend on which exchange account the user is connected to
+const ACCOUNT_QUERY_KEYS = ["/api/credentials", "/api/balance", "/api/trading/status"];
+
+export default function ApiCredentials() {
+  const { toast } = useToast();
+  const [form, setForm] = useState(EMPTY_FORM);
+
+  const { data: status, isLoading } = useQuery<CredentialsStatus>({
+    queryKey: ["/api/credentials"],
+  });
+
+  const invalidateAccount = () => {
+    ACCOUNT_QUERY_KEYS.forEach((key) => queryClient.invalidateQueries({ queryKey: [key] }));
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/credentials", form);
+      return (await res.json()) as CredentialsStatus;
+    },
+    onSuccess: () => {
+      setForm(EMPTY_FORM);
+      invalidateAccount();
+      toast({
+        title: "API keys saved",
+        description: "Your Bitget API keys were verified and stored encrypted.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save API keys",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/credentials");
+    },
+    onSuccess: () => {
+      invalidateAccount();
+      toast({
+        title: "API keys removed",
+        description: "Live trading is unavailable until new keys are added.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not remove API keys",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const isComplete = form.apiKey.trim() && form.apiSecret.trim() && form.passphrase.trim();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <KeyRound className="h-5 w-5 mr-2 text-blue-500" />
+          Bitget API Keys
+        </CardTitle>
+        <CardDescription>Live trading and balances use your own Bitget account</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <span className="text-sm font-medium text-gray-700">Status</span>
+          {isLoading ? (
+            <span className="text-sm text-gray-500">Loading...</span>
+          ) : status?.configured ? (
+            <Badge variant="outline" className="bg-green-50 text-green-600 hover:bg-green-50">
+              Connected (key ending {status.keyHint})
+            </Badge>
+          ) : (
+            <Badge variant="outline" className="bg-amber-50 text-amber-600 hover:bg-amber-50">
+              Not configured
+            </Badge>
+          )}
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">API Key</label>
+          <Input
+            value={form.apiKey}
+            onChange={(e) => setForm({ ...form, apiKey: e.target.value })}
+            autoComplete="off"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">API Secret</label>
+          <Input
+            type="password"
+            value={form.apiSecret}
+            onChange={(e) => setForm({ ...form, apiSecret: e.target.value })}
+            autoComplete="new-password"
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">Passphrase</label>
+          <Input
+            type="password"
+            value={form.passphrase}
+            onChange={(e) => setForm({ ...form, passphrase: e.target.value })}
+            autoComplete="new-password"
+          />
+        </div>
+        <p className="text-xs text-gray-500">
+          Keys are checked against Bitget before they are saved and are never shown again. Use a key without withdrawal permission.
+        </p>
+      </CardContent>
+      <CardFooter className="border-t border-gray-100 pt-4 flex gap-2">
+        <Button
+          className="flex-1"
+          onClick={() => saveMutation.mutate()}
+          disabled={!isComplete || saveMutation.isPending}
+        >
+          {saveMutation.isPending ? "Verifying..." : status?.configured ? "Replace Keys" : "Save Keys"}
+        </Button>
+        {status?.configured && (
+          <Button
+            variant="outline"
+            onClick={() => removeMutation.mutate()}
+            disabled={removeMutation.isPending}
+          >
+            Remove
+          </Button>
+        )}
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,384 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useStrategies } from "@/hooks/use-strategies";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { FlaskConical } from "lucide-react";
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+
+interface BacktestTrade {
+  side: string;
+  entryTime: number;
+  entryPrice: number;
+  exitTime: number;
+  exitPrice: number;
+  quantity: number;
+  fees: number;
+  pnl: number;
+  pnlPercentage: number;
+  exitReason: string;
+}
+
+interface BacktestMetrics {
+  initialBalance: number;
+  finalBalance: number;
+  totalReturn: number;
+  maxDrawdown: number;
+  sharpeRatio: number;
+  profitFactor: number | null;
+  winRate: number;
+  totalTrades: number;
+  signalsGenerated: number;
+  signalsBelowThreshold: number;
+}
+
+interface Backtest {
+  id: number;
+  symbol: string;
+  timeframe: string;
+  strategy: string;
+  metrics: BacktestMetrics;
+  results: {
+    equityCurve: { time: number; equity: number }[];
+    trades: BacktestTrade[];
+  };
+  createdAt: string;
+}
+
+interface BacktestPanelProps {
+  defaultSymbol?: string;
+  defaultTimeframe?: string;
+  confidenceThreshold: number;
+  riskPerTrade?: string;
+}
+
+export default function BacktestPanel({
+  defaultSymbol,
+  defaultTimeframe,
+  confidenceThreshold,
+  riskPerTrade,
+}: BacktestPanelProps) {
+  const { toast } = useToast();
+  const [symbol, setSymbol] = useState(defaultSymbol || "BTCUSDT");
+  const [timeframe, setTimeframe] = useState(defaultTimeframe || "1h");
+  const [strategy, setStrategy] = useState("MACD");
+  const [initialBalance, setInitialBalance] = useState("10000");
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const { data: strategies } = useStrategies();
+
+  // Fetch previous backtest runs
+  const { data: backtests, isLoading } = useQuery<Backtest[]>({
+    queryKey: ["/api/backtests"],
+  });
+
+  // Run backtest mutation
+  const runBacktestMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/backtests", {
+        symbol,
+        timeframe,
+        strategy,
+        confidenceThreshold,
+        riskPerTrade: riskPerTrade || "1",
+        initialBalance: parseFloat(initialBalance),
+      });
+      return (await res.json()) as Backtest;
+    },
+    onSuccess: (backtest) => {
+      setSelectedId(backtest.id);
+      queryClient.invalidateQueries({ queryKey: ["/api/backtests"] });
+      toast({
+        title: "Backtest complete",
+        description: `${backtest.metrics.totalTrades} trades, ${backtest.metrics.totalReturn.toFixed(2)}% return.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Backtest failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selected = backtests?.find((b) => b.id === selectedId) || backtests?.[0];
+
+  const formatNumber = (value: number | null | undefined, digits = 2) =>
+    value === null || value === undefined ? "-" : value.toFixed(digits);
+
+  const formatTime = (time: number) => new Date(time).toLocaleString();
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <FlaskConical className="h-5 w-5 mr-2 text-blue-500" />
+            Backtest Strategy
+          </CardTitle>
+          <CardDescription>
+            Replay historical candles through a strategy before enabling live trading
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Trading Pair</label>
+              <Select value={symbol} onValueChange={setSymbol}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select trading pair" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="BTCUSDT">BTC/USDT</SelectItem>
+                  <SelectItem value="ETHUSDT">ETH/USDT</SelectItem>
+                  <SelectItem value="BNBUSDT">BNB/USDT</SelectItem>
+                  <SelectItem value="XRPUSDT">XRP/USDT</SelectItem>
+                  <SelectItem value="DOGEUSDT">DOGE/USDT</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Timeframe</label>
+              <Select value={timeframe} onValueChange={setTimeframe}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select timeframe" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="15m">15 Minutes</SelectItem>
+                  <SelectItem value="1h">1 Hour</SelectItem>
+                  <SelectItem value="4h">4 Hours</SelectItem>
+                  <SelectItem value="1d">1 Day</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Strategy</label>
+              <Select value={strategy} onValueChange={setStrategy}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select strategy" />
+                </SelectTrigger>
+                <SelectContent>
+                  {(strategies || []).map((s) => (
+                    <SelectItem key={s.name} value={s.name}>{s.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Initial Balance (USDT)</label>
+              <Input
+                type="number"
+                value={initialBalance}
+                onChange={(e) => setInitialBalance(e.target.value)}
+                min="100"
+                step="100"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-3">
+            Uses your confidence threshold ({confidenceThreshold}%) and risk per trade ({riskPerTrade || "1"}%),
+            with 0.1% fees and 0.05% slippage per fill.
+          </p>
+        </CardContent>
+        <CardFooter className="border-t border-gray-100 pt-4">
+          <Button
+            className="w-full"
+            onClick={() => runBacktestMutation.mutate()}
+            disabled={runBacktestMutation.isPending}
+          >
+            {runBacktestMutation.isPending ? "Running backtest..." : "Run Backtest"}
+          </Button>
+        </CardFooter>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader>
+            <CardTitle>
+              {selected.strategy} on {selected.symbol} ({selected.timeframe})
+            </CardTitle>
+            <CardDescription>Run at {new Date(selected.createdAt).toLocaleString()}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <span className="text-xs text-gray-500 block">Total Return</span>
+                <span className={`text-lg font-bold ${selected.metrics.totalReturn >= 0 ? "text-green-500" : "text-red-500"}`}>
+                  {formatNumber(selected.metrics.totalReturn)}%
+                </span>
+              </div>
+              <div>
+                <span className="text-xs text-gray-500 block">Max Drawdown</span>
+                <span className="text-lg font-bold text-red-500">{formatNumber(selected.metrics.maxDrawdown)}%</span>
+              </div>
+              <div>
+                <span className="text-xs text-gray-500 block">Sharpe Ratio</span>
+                <span className="text-lg font-bold">{formatNumber(selected.metrics.sharpeRatio)}</span>
+              </div>
+              <div>
+                <span className="text-xs text-gray-500 block">Profit Factor</span>
+                <span className="text-lg font-bold">{formatNumber(selected.metrics.profitFactor)}</span>
+              </div>
+              <div>
+                <span className="text-xs text-gray-500 block">Win Rate</span>
+                <span className="text-lg font-bold">{formatNumber(selected.metrics.winRate, 1)}%</span>
+              </div>
+              <div>
+                <span className="text-xs text-gray-500 block">Trades</span>
+                <span className="text-lg font-bold">{selected.metrics.totalTrades}</span>
+              </div>
+              <div>
+                <span className="text-xs text-gray-500 block">Final Balance</span>
+                <span className="text-lg font-bold">${formatNumber(selected.metrics.finalBalance)}</span>
+              </div>
+              <div>
+                <span className="text-xs text-gray-500 block">Signals (below threshold)</span>
+                <span className="text-lg font-bold">
+                  {selected.metrics.signalsGenerated} ({selected.metrics.signalsBelowThreshold})
+                </span>
+              </div>
+            </div>
+
+            <div className="h-64 w-full">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={selected.results.equityCurve}>
+                  <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                  <XAxis
+                    dataKey="time"
+                    tickFormatter={(time) => new Date(time).toLocaleDateString()}
+                    minTickGap={40}
+                  />
+                  <YAxis domain={["auto", "auto"]} width={70} />
+                  <Tooltip
+                    labelFormatter={(time) => formatTime(time as number)}
+                    formatter={(value) => [`$${(value as number).toFixed(2)}`, "Equity"]}
+                  />
+                  <Line type="monotone" dataKey="equity" stroke="#3b82f6" dot={false} strokeWidth={2} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            {selected.results.trades.length === 0 ? (
+              <div className="text-center py-4 text-gray-500">No trades were taken in this backtest</div>
+            ) : (
+              <div className="overflow-x-auto max-h-80">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Entry</TableHead>
+                      <TableHead>Exit</TableHead>
+                      <TableHead>Entry Price</TableHead>
+                      <TableHead>Exit Price</TableHead>
+                      <TableHead>Quantity</TableHead>
+                      <TableHead>P/L</TableHead>
+                      <TableHead>Exit Reason</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {selected.results.trades.map((trade, i) => (
+                      <TableRow key={i}>
+                        <TableCell className="text-xs">{formatTime(trade.entryTime)}</TableCell>
+                        <TableCell className="text-xs">{formatTime(trade.exitTime)}</TableCell>
+                        <TableCell>{formatNumber(trade.entryPrice, 4)}</TableCell>
+                        <TableCell>{formatNumber(trade.exitPrice, 4)}</TableCell>
+                        <TableCell>{formatNumber(trade.quantity, 5)}</TableCell>
+                        <TableCell className={trade.pnl >= 0 ? "text-green-600" : "text-red-600"}>
+                          {formatNumber(trade.pnl)} ({formatNumber(trade.pnlPercentage)}%)
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{trade.exitReason}</Badge>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Previous Runs</CardTitle>
+          <CardDescription>Select a run to view its results</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="animate-pulse space-y-4">
+              <div className="h-12 bg-gray-200 rounded"></div>
+              <div className="h-12 bg-gray-200 rounded"></div>
+            </div>
+          ) : !backtests || backtests.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">No backtests have been run yet</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Strategy</TableHead>
+                  <TableHead>Pair</TableHead>
+                  <TableHead>Timeframe</TableHead>
+                  <TableHead>Return</TableHead>
+                  <TableHead>Win Rate</TableHead>
+                  <TableHead>Run At</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {backtests.map((backtest) => (
+                  <TableRow
+                    key={backtest.id}
+                    className={`cursor-pointer ${selected?.id === backtest.id ? "bg-blue-50" : ""}`}
+                    onClick={() => setSelectedId(backtest.id)}
+                  >
+                    <TableCell className="font-medium">{backtest.strategy}</TableCell>
+                    <TableCell>{backtest.symbol}</TableCell>
+                    <TableCell>{backtest.timeframe}</TableCell>
+                    <TableCell className={backtest.metrics.totalReturn >= 0 ? "text-green-600" : "text-red-600"}>
+                      {formatNumber(backtest.metrics.totalReturn)}%
+                    </TableCell>
+                    <TableCell>{formatNumber(backtest.metrics.winRate, 1)}%</TableCell>
+                    <TableCell className="text-xs">{new Date(backtest.createdAt).toLocaleString()}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { ListChecks } from "lucide-react";
+
+interface Decision {
+  id: number;
+  symbol: string;
+  strategy: string;
+  timeframe: string;
+  candleTime: number | null;
+  price: string | null;
+  indicators: Record<string, any> | null;
+  signalSide: "buy" | "sell" | null;
+  confidence: string | null;
+  threshold: string;
+  checks: Record<string, any> | null;
+  action: "EXECUTED" | "CLOSED_POSITIONS" | "SKIPPED" | "FAILED";
+  reason: string | null;
+  tradeId: number | null;
+  createdAt: string;
+}
+
+const ACTION_STYLES: Record<Decision["action"], string> = {
+  EXECUTED: "bg-green-100 text-green-800",
+  CLOSED_POSITIONS: "bg-blue-100 text-blue-800",
+  SKIPPED: "bg-gray-100 text-gray-700",
+  FAILED: "bg-red-100 text-red-800",
+};
+
+const REASON_LABELS: Record<string, string> = {
+  NO_SIGNAL: "No signal",
+  BELOW_THRESHOLD: "Confidence below threshold",
+  MAX_TRADES_REACHED: "Max concurrent trades reached",
+  POSITION_TOO_SMALL: "Position size too small",
+  OPPOSITE_SIGNAL: "Closed positions on opposite signal",
+  CLOSE_FAILED: "Could not close all opposing positions",
+  TREND_FILTER: "Higher timeframe trend does not confirm",
+  RISK_MAX_DAILY_LOSS: "Daily loss limit reached, bot halted",
+  RISK_MAX_DRAWDOWN: "Drawdown limit reached, bot halted",
+  RISK_MAX_SYMBOL_EXPOSURE: "Symbol exposure limit reached, bot halted",
+  RISK_MAX_TOTAL_EXPOSURE: "Total exposure limit reached, bot halted",
+  RISK_MAX_ORDERS_PER_HOUR: "Hourly order limit reached, bot halted",
+  SIZE_BELOW_MINIMUM: "Order size below the symbol's minimum",
+  SIZE_ABOVE_MAXIMUM: "Order size above the symbol's maximum",
+  NOTIONAL_BELOW_MINIMUM: "Order value below the symbol's minimum",
+  INSTRUMENT_OFFLINE: "Symbol not tradable",
+};
+
+// Plain numbers are rounded, nested values (like ensemble votes) are left out of the summary
+function formatIndicators(indicators: Record<string, any> | null) {
+  return Object.entries(indicators || {})
+    .filter(([, value]) => typeof value === "number")
+    .map(([key, value]) => `${key} ${Number(value).toFixed(2)}`)
+    .join(" · ");
+}
+
+// Nested checks (like the risk metrics) are flattened to key/value pairs
+function formatCheck(value: unknown): string {
+  if (Array.isArray(value)) return value.join(", ") || "none";
+  if (value && typeof value === "object") {
+    return `(${Object.entries(value)
+      .map(([key, nested]) => `${key} ${typeof nested === "number" ? nested.toFixed(2) : String(nested)}`)
+      .join(", ")})`;
+  }
+  return String(value);
+}
+
+export default function DecisionTimeline() {
+  const [symbol, setSymbol] = useState("");
+  const [action, setAction] = useState("ALL");
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+
+  const params = new URLSearchParams({ limit: "100" });
+  if (symbol.trim()) params.set("symbol", symbol.trim().toUpperCase());
+  if (action !== "ALL") params.set("action", action);
+
+  const { data: decisions, isLoading } = useQuery<Decision[]>({
+    queryKey: [`/api/decisions?${params.toString()}`],
+    refetchInterval: 30000,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ListChecks className="h-5 w-5 mr-2 text-blue-500" />
+          Decision Timeline
+        </CardTitle>
+        <CardDescription>Every evaluation the bot made and why it did or didn't trade</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-3">
+          <Input
+            className="w-40"
+            placeholder="Symbol, e.g. BTCUSDT"
+            value={symbol}
+            onChange={(e) => setSymbol(e.target.value)}
+          />
+          <Select value={action} onValueChange={setAction}>
+            <SelectTrigger className="w-48">
+              <SelectValue placeholder="Action" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="ALL">All actions</SelectItem>
+              <SelectItem value="EXECUTED">Executed</SelectItem>
+              <SelectItem value="CLOSED_POSITIONS">Closed positions</SelectItem>
+              <SelectItem value="SKIPPED">Skipped</SelectItem>
+              <SelectItem value="FAILED">Failed</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {isLoading ? (
+          <div className="text-sm text-gray-500">Loading decisions...</div>
+        ) : !decisions || decisions.length === 0 ? (
+          <div className="text-sm text-gray-500">No decisions recorded yet. They appear once the bot runs its first cycle.</div>
+        ) : (
+          <ol className="relative border-l border-gray-200 ml-2 space-y-4">
+            {decisions.map((decision) => (
+              <li key={decision.id} className="ml-4">
+                <div className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white bg-gray-300" />
+                <button
+                  className="w-full text-left"
+                  onClick={() => setExpandedId(expandedId === decision.id ? null : decision.id)}
+                >
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-gray-500 text-xs">{new Date(decision.createdAt).toLocaleString()}</span>
+                    <span className="font-medium">{decision.symbol}</span>
+                    <span className="text-gray-500">{decision.strategy} · {decision.timeframe}</span>
+                    <Badge className={ACTION_STYLES[decision.action]} variant="outline">
+                      {decision.action.replace(/_/g, " ")}
+                    </Badge>
+                  </div>
+                  <div className="text-sm text-gray-700 mt-1">
+                    {decision.signalSide ? (
+                      <>
+                        <span className={decision.signalSide === "buy" ? "text-green-600" : "text-red-600"}>
+                          {decision.signalSide.toUpperCase()}
+                        </span>{" "}
+                        signal at {parseFloat(decision.confidence || "0").toFixed(0)}% confidence (threshold {parseFloat(decision.threshold).toFixed(0)}%)
+                      </>
+                    ) : (
+                      "No signal"
+                    )}
+                    {decision.reason && decision.reason !== "NO_SIGNAL" && (
+                      <span className="text-gray-500"> — {REASON_LABELS[decision.reason] || decision.reason}</span>
+                    )}
+                    {decision.tradeId && <span className="text-gray-500"> — trade #{decision.tradeId}</span>}
+                  </div>
+                </button>
+                {expandedId === decision.id && (
+                  <div className="mt-2 rounded-md bg-gray-50 p-3 text-xs text-gray-600 space-y-1">
+                    {decision.price && <p>Price: {decision.price}</p>}
+                    {decision.candleTime && <p>Last candle: {new Date(decision.candleTime).toLocaleString()}</p>}
+                    {formatIndicators(decision.indicators) && <p>Indicators: {formatIndicators(decision.indicators)}</p>}
+                    {decision.checks && Object.keys(decision.checks).length > 0 && (
+                      <p>
+                        Checks:{" "}
+                        {Object.entries(decision.checks)
+                          .map(([key, value]) => `${key} ${formatCheck(value)}`)
+                          .join(" · ")}
+                      </p>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
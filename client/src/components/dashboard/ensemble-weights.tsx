@@ -0,0 +1,114 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Bot } from "lucide-react";
+import { useStrategies } from "@/hooks/use-strategies";
+
+// Matches the server's weight for strategies without a saved weight
+const DEFAULT_WEIGHT = 50;
+
+interface EnsembleWeightsProps {
+  tradingParams?: Record<string, any>;
+  disabled?: boolean;
+  isSaving?: boolean;
+  onSave: (tradingParams: Record<string, any>) => void;
+}
+
+export default function EnsembleWeights({
+  tradingParams,
+  disabled,
+  isSaving,
+  onSave,
+}: EnsembleWeightsProps) {
+  const { data: strategies, isLoading } = useStrategies();
+  const [weights, setWeights] = useState<Record<string, number>>({});
+
+  const ensemble = strategies?.find((s) => s.composite);
+  const components = (strategies || []).filter((s) => !s.composite);
+  const savedParams = ensemble ? tradingParams?.strategies?.[ensemble.name] : undefined;
+
+  // Saved weights over the default weight
+  useEffect(() => {
+    const values: Record<string, number> = {};
+    components.forEach((s) => {
+      values[s.name] = savedParams?.weights?.[s.name] ?? DEFAULT_WEIGHT;
+    });
+    setWeights(values);
+  }, [strategies, tradingParams]);
+
+  const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+
+  const handleSave = () => {
+    if (!ensemble) return;
+
+    onSave({
+      ...(tradingParams || {}),
+      strategies: {
+        ...(tradingParams?.strategies || {}),
+        [ensemble.name]: {
+          ...(savedParams || {}),
+          weights,
+        },
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Bot className="h-5 w-5 mr-2 text-blue-500" />
+          Ensemble Strategy Weights
+        </CardTitle>
+        <CardDescription>Adjust how much each strategy's vote counts in the ensemble</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="text-sm text-gray-500">Loading strategies...</div>
+        ) : (
+          <div className="space-y-6">
+            {components.map((s) => (
+              <div key={s.name}>
+                <div className="flex justify-between text-sm mb-2">
+                  <span className="font-medium">{s.label}</span>
+                  <span>
+                    {totalWeight > 0 ? Math.round((weights[s.name] / totalWeight) * 100) : 0}%
+                  </span>
+                </div>
+                <Slider
+                  value={[weights[s.name] ?? DEFAULT_WEIGHT]}
+                  onValueChange={([value]) => setWeights({ ...weights, [s.name]: value })}
+                  max={100}
+                  step={1}
+                  disabled={disabled}
+                  className="h-2"
+                />
+              </div>
+            ))}
+            {totalWeight === 0 && (
+              <p className="text-xs text-red-600">At least one strategy needs a weight for the ensemble to trade</p>
+            )}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="border-t border-gray-100 pt-4">
+        <Button
+          variant="outline"
+          className="w-full"
+          onClick={handleSave}
+          disabled={disabled || isSaving || !ensemble || totalWeight === 0}
+        >
+          {isSaving ? "Saving..." : "Update Weights"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
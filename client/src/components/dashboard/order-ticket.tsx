@@ -0,0 +1,187 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { X } from "lucide-react";
+
+interface WorkingOrder {
+  id: number;
+  symbol: string;
+  side: "buy" | "sell";
+  entryPrice: string;
+  quantity: string;
+  orderStatus: string;
+  filledQuantity: string | null;
+  strategy: string;
+  tradeData?: Record<string, any>;
+}
+
+// Queries that change when an order is placed, fills or is cancelled
+const ORDER_QUERY_KEYS = ["/api/orders", "/api/trades/open", "/api/trades", "/api/balance"];
+
+interface OrderTicketProps {
+  defaultSymbol?: string;
+}
+
+export default function OrderTicket({ defaultSymbol }: OrderTicketProps) {
+  const { toast } = useToast();
+  const [symbol, setSymbol] = useState(defaultSymbol || "BTCUSDT");
+  const [orderType, setOrderType] = useState<"market" | "limit">("market");
+  const [size, setSize] = useState("");
+  const [price, setPrice] = useState("");
+
+  useEffect(() => {
+    if (defaultSymbol) setSymbol(defaultSymbol);
+  }, [defaultSymbol]);
+
+  const { data: workingOrders } = useQuery<WorkingOrder[]>({
+    queryKey: ["/api/orders"],
+    refetchInterval: 10000,
+  });
+
+  const invalidateOrders = () => {
+    ORDER_QUERY_KEYS.forEach((key) => queryClient.invalidateQueries({ queryKey: [key] }));
+  };
+
+  const placeMutation = useMutation({
+    mutationFn: async (side: "buy" | "sell") => {
+      const res = await apiRequest("POST", "/api/orders", {
+        symbol,
+        side,
+        orderType,
+        size,
+        ...(orderType === "limit" && { price }),
+      });
+      return (await res.json()) as WorkingOrder;
+    },
+    onSuccess: (trade) => {
+      setSize("");
+      invalidateOrders();
+      toast({
+        title: `${trade.side.toUpperCase()} order placed`,
+        description: `${trade.quantity} ${trade.symbol} ${orderType === "limit" ? `at ${trade.entryPrice}` : "at market"}`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Order rejected",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/orders/${id}`);
+    },
+    onSuccess: () => {
+      invalidateOrders();
+      toast({ title: "Order cancelled" });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not cancel order",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const canSubmit =
+    symbol.trim() !== "" &&
+    parseFloat(size) > 0 &&
+    (orderType === "market" || parseFloat(price) > 0) &&
+    !placeMutation.isPending;
+
+  return (
+    <div className="space-y-3">
+      <h3 className="text-sm font-medium text-gray-700">Manual Trading</h3>
+      <div className="flex flex-wrap gap-3">
+        <Input
+          className="w-32"
+          placeholder="Symbol"
+          value={symbol}
+          onChange={(e) => setSymbol(e.target.value.toUpperCase())}
+        />
+        <Select value={orderType} onValueChange={(value) => setOrderType(value as "market" | "limit")}>
+          <SelectTrigger className="w-32">
+            <SelectValue placeholder="Order type" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="market">Market</SelectItem>
+            <SelectItem value="limit">Limit</SelectItem>
+          </SelectContent>
+        </Select>
+        <Input
+          type="number"
+          placeholder="Amount"
+          className="flex-1 min-w-24"
+          min="0"
+          step="0.001"
+          value={size}
+          onChange={(e) => setSize(e.target.value)}
+        />
+        {orderType === "limit" && (
+          <Input
+            type="number"
+            placeholder="Limit price"
+            className="flex-1 min-w-24"
+            min="0"
+            step="0.01"
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+          />
+        )}
+        <Button
+          variant="default"
+          className="bg-green-600 hover:bg-green-700"
+          disabled={!canSubmit}
+          onClick={() => placeMutation.mutate("buy")}
+        >
+          Buy
+        </Button>
+        <Button variant="destructive" disabled={!canSubmit} onClick={() => placeMutation.mutate("sell")}>
+          Sell
+        </Button>
+      </div>
+
+      {workingOrders && workingOrders.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-xs font-medium text-gray-500">Working Orders</p>
+          {workingOrders.map((order) => (
+            <div key={order.id} className="flex items-center justify-between text-sm rounded-md border border-gray-100 px-3 py-2">
+              <div className="flex items-center gap-2">
+                <Badge variant={order.side === "buy" ? "default" : "destructive"}>{order.side.toUpperCase()}</Badge>
+                <span className="font-medium">{order.symbol}</span>
+                <span className="text-gray-500">
+                  {order.quantity} @ {order.tradeData?.orderType === "limit" ? order.entryPrice : "market"}
+                </span>
+                {order.strategy !== "MANUAL" && <span className="text-xs text-gray-400">{order.strategy}</span>}
+                <span className="text-xs text-gray-400">{order.orderStatus.replace(/_/g, " ")}</span>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                disabled={cancelMutation.isPending}
+                onClick={() => cancelMutation.mutate(order.id)}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
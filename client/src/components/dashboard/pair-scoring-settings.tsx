@@ -0,0 +1,183 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Trophy } from "lucide-react";
+
+interface PairScoringConfig {
+  weightFactor: number;
+  volatilityFactor: number;
+  successFactor: number;
+  targetVolatility: number;
+  priorTrades: number;
+  lookbackTrades: number;
+}
+
+interface PairScore {
+  symbol: string;
+  score: number;
+  components: { weight: number; volatility: number; successRate: number };
+  weight: number;
+  volatility: number;
+  successRate: number;
+  trades: number;
+  wins: number;
+  measuredAt: string | null;
+}
+
+interface PairRanking {
+  strategy: string;
+  scoring: PairScoringConfig;
+  ranking: PairScore[];
+}
+
+// Matches the server's defaults
+const DEFAULT_SCORING: PairScoringConfig = {
+  weightFactor: 1,
+  volatilityFactor: 0.3,
+  successFactor: 0.5,
+  targetVolatility: 1,
+  priorTrades: 10,
+  lookbackTrades: 100,
+};
+
+const FIELDS: { key: keyof PairScoringConfig; label: string; step: string; integer?: boolean }[] = [
+  { key: "weightFactor", label: "Weight Factor", step: "0.1" },
+  { key: "volatilityFactor", label: "Volatility Factor", step: "0.1" },
+  { key: "successFactor", label: "Success Rate Factor", step: "0.1" },
+  { key: "targetVolatility", label: "Full-Score Volatility (%)", step: "0.1" },
+  { key: "priorTrades", label: "Prior Trades at 50%", step: "1", integer: true },
+  { key: "lookbackTrades", label: "Trades to Learn From", step: "10", integer: true },
+];
+
+interface PairScoringSettingsProps {
+  tradingParams?: Record<string, any>;
+  disabled?: boolean;
+  isSaving?: boolean;
+  onSave: (tradingParams: Record<string, any>) => void;
+}
+
+export default function PairScoringSettings({ tradingParams, disabled, isSaving, onSave }: PairScoringSettingsProps) {
+  const [scoring, setScoring] = useState<PairScoringConfig>(DEFAULT_SCORING);
+
+  const { data: ranking, isLoading } = useQuery<PairRanking>({
+    queryKey: ["/api/market/pairs/ranking"],
+    refetchInterval: 60000,
+  });
+
+  useEffect(() => {
+    setScoring({ ...DEFAULT_SCORING, ...(tradingParams?.pairScoring || {}) });
+  }, [tradingParams]);
+
+  const updateField = (key: keyof PairScoringConfig, value: string, integer?: boolean) => {
+    const parsed = integer ? parseInt(value) : parseFloat(value);
+    setScoring({ ...scoring, [key]: isNaN(parsed) ? DEFAULT_SCORING[key] : parsed });
+  };
+
+  const handleSave = () => {
+    onSave({ ...(tradingParams || {}), pairScoring: scoring });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Trophy className="h-5 w-5 mr-2 text-blue-500" />
+          Pair Ranking
+        </CardTitle>
+        <CardDescription>How auto-selection scores the pairs of your universe</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-xs text-gray-500">
+          Score = weight factor × weight + volatility factor × min(volatility ÷ full-score volatility, 1) + success
+          rate factor × (wins + prior ÷ 2) ÷ (closed trades + prior). Volatility is measured on your trading
+          timeframe; wins and closed trades come from the strategy's recent trades on the pair.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          {FIELDS.map((field) => (
+            <div key={field.key} className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">{field.label}</label>
+              <Input
+                type="number"
+                value={scoring[field.key]}
+                onChange={(e) => updateField(field.key, e.target.value, field.integer)}
+                min="0"
+                step={field.step}
+                disabled={disabled}
+              />
+            </div>
+          ))}
+        </div>
+
+        {isLoading ? (
+          <div className="h-24 bg-gray-100 rounded animate-pulse" />
+        ) : ranking && ranking.ranking.length > 0 ? (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>#</TableHead>
+                  <TableHead>Symbol</TableHead>
+                  <TableHead>Score</TableHead>
+                  <TableHead>Weight</TableHead>
+                  <TableHead>Volatility</TableHead>
+                  <TableHead>Success Rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {ranking.ranking.map((pair, index) => (
+                  <TableRow key={pair.symbol}>
+                    <TableCell>{index + 1}</TableCell>
+                    <TableCell className="font-medium">{pair.symbol}</TableCell>
+                    <TableCell>{pair.score.toFixed(3)}</TableCell>
+                    <TableCell>
+                      {pair.components.weight.toFixed(3)}
+                      <span className="text-xs text-gray-500 ml-1">({Math.round(pair.weight * 100)}%)</span>
+                    </TableCell>
+                    <TableCell>
+                      {pair.components.volatility.toFixed(3)}
+                      <span className="text-xs text-gray-500 ml-1">
+                        ({pair.measuredAt ? `${pair.volatility.toFixed(2)}%` : "not measured"})
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {pair.components.successRate.toFixed(3)}
+                      <span className="text-xs text-gray-500 ml-1">
+                        ({pair.wins}/{pair.trades} won)
+                      </span>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+            <p className="text-xs text-gray-500 mt-2">Ranked for the {ranking.strategy} strategy with the saved factors.</p>
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500">Your trading universe is empty.</p>
+        )}
+      </CardContent>
+      <CardFooter className="border-t border-gray-100 pt-4">
+        <Button className="w-full" variant="outline" onClick={handleSave} disabled={disabled || isSaving}>
+          {isSaving ? "Saving..." : "Save Pair Ranking"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { ShieldCheck } from "lucide-react";
+import { useStrategies } from "@/hooks/use-strategies";
+
+export interface ProtectionConfig {
+  mode: "percent" | "atr";
+  stopLoss: number | null;
+  takeProfit: number | null;
+  trailingStop: number | null;
+  atrPeriod: number;
+}
+
+const DEFAULT_PROTECTION: ProtectionConfig = {
+  mode: "percent",
+  stopLoss: 2,
+  takeProfit: 4,
+  trailingStop: null,
+  atrPeriod: 14,
+};
+
+interface ProtectionSettingsProps {
+  tradingParams?: Record<string, any>;
+  defaultStrategy?: string;
+  disabled?: boolean;
+  isSaving?: boolean;
+  onSave: (tradingParams: Record<string, any>) => void;
+}
+
+export default function ProtectionSettings({
+  tradingParams,
+  defaultStrategy,
+  disabled,
+  isSaving,
+  onSave,
+}: ProtectionSettingsProps) {
+  const { data: strategies } = useStrategies();
+  const [strategy, setStrategy] = useState("MACD");
+
+  // Follow the bot's strategy once the strategy list is known
+  useEffect(() => {
+    if (defaultStrategy && strategies?.some((s) => s.name === defaultStrategy)) {
+      setStrategy(defaultStrategy);
+    }
+  }, [defaultStrategy, strategies]);
+  const [config, setConfig] = useState<ProtectionConfig>(DEFAULT_PROTECTION);
+
+  // Load the saved config whenever the selected strategy or saved params change
+  useEffect(() => {
+    setConfig({ ...DEFAULT_PROTECTION, ...(tradingParams?.protection?.[strategy] || {}) });
+  }, [strategy, tradingParams]);
+
+  const unit = config.mode === "percent" ? "%" : "× ATR";
+
+  const updateLevel = (field: "stopLoss" | "takeProfit" | "trailingStop", value: string) => {
+    const parsed = parseFloat(value);
+    setConfig({ ...config, [field]: isNaN(parsed) || parsed <= 0 ? null : parsed });
+  };
+
+  const handleSave = () => {
+    onSave({
+      ...(tradingParams || {}),
+      protection: {
+        ...(tradingParams?.protection || {}),
+        [strategy]: config,
+      },
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="h-5 w-5 mr-2 text-blue-500" />
+          Trade Protection
+        </CardTitle>
+        <CardDescription>Stop-loss, take-profit and trailing stop placed on every bot trade</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">Strategy</label>
+            <Select value={strategy} onValueChange={setStrategy}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select strategy" />
+              </SelectTrigger>
+              <SelectContent>
+                {(strategies || []).map((s) => (
+                  <SelectItem key={s.name} value={s.name}>{s.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">Distance Mode</label>
+            <Select
+              value={config.mode}
+              onValueChange={(value) => setConfig({ ...config, mode: value as ProtectionConfig["mode"] })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Select mode" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="percent">Percent of entry</SelectItem>
+                <SelectItem value="atr">ATR multiple</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">Stop-Loss ({unit})</label>
+            <Input
+              type="number"
+              value={config.stopLoss ?? ""}
+              placeholder="Off"
+              onChange={(e) => updateLevel("stopLoss", e.target.value)}
+              min="0"
+              step="0.1"
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">Take-Profit ({unit})</label>
+            <Input
+              type="number"
+              value={config.takeProfit ?? ""}
+              placeholder="Off"
+              onChange={(e) => updateLevel("takeProfit", e.target.value)}
+              min="0"
+              step="0.1"
+              disabled={disabled}
+            />
+          </div>
+          <div className="space-y-2">
+            <div className="flex justify-between items-center">
+              <label className="text-sm font-medium text-gray-700">Trailing Stop ({unit})</label>
+              <Switch
+                checked={config.trailingStop !== null}
+                onCheckedChange={(checked) => setConfig({ ...config, trailingStop: checked ? 1 : null })}
+                disabled={disabled}
+              />
+            </div>
+            <Input
+              type="number"
+              value={config.trailingStop ?? ""}
+              placeholder="Off"
+              onChange={(e) => updateLevel("trailingStop", e.target.value)}
+              min="0"
+              step="0.1"
+              disabled={disabled || config.trailingStop === null}
+            />
+          </div>
+          {config.mode === "atr" && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">ATR Period</label>
+              <Input
+                type="number"
+                value={config.atrPeriod}
+                onChange={(e) => setConfig({ ...config, atrPeriod: parseInt(e.target.value) || 14 })}
+                min="2"
+                max="100"
+                step="1"
+                disabled={disabled}
+              />
+            </div>
+          )}
+        </div>
+        <p className="text-xs text-gray-500">
+          Levels are set from the entry price when a trade opens and checked against live prices every 15 seconds.
+        </p>
+      </CardContent>
+      <CardFooter className="border-t border-gray-100 pt-4">
+        <Button className="w-full" variant="outline" onClick={handleSave} disabled={disabled || isSaving}>
+          {isSaving ? "Saving..." : `Save ${strategy} Protection`}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
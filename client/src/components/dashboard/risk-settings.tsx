@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Gauge } from "lucide-react";
+
+export interface RiskLimits {
+  maxDailyLossPercent: number | null;
+  maxDrawdownPercent: number | null;
+  maxSymbolExposurePercent: number | null;
+  maxTotalExposurePercent: number | null;
+  maxOrdersPerHour: number | null;
+}
+
+interface RiskStatus {
+  limits: RiskLimits;
+  metrics: {
+    equity: string;
+    peakEquity: string;
+    dailyRealizedPnl: string;
+    dailyLossPercent: number;
+    drawdownPercent: number;
+    symbolExposurePercent: number;
+    totalExposurePercent: number;
+    ordersLastHour: number;
+  };
+  events: {
+    id: number;
+    rule: string;
+    action: "HALTED" | "REJECTED" | "KILL_SWITCH";
+    message: string;
+    createdAt: string;
+  }[];
+}
+
+const LIMIT_FIELDS: { key: keyof RiskLimits; label: string; step: string }[] = [
+  { key: "maxDailyLossPercent", label: "Max Daily Loss (%)", step: "0.5" },
+  { key: "maxDrawdownPercent", label: "Max Drawdown from Peak (%)", step: "0.5" },
+  { key: "maxSymbolExposurePercent", label: "Max Exposure per Symbol (%)", step: "5" },
+  { key: "maxTotalExposurePercent", label: "Max Total Exposure (%)", step: "5" },
+  { key: "maxOrdersPerHour", label: "Max Orders per Hour", step: "1" },
+];
+
+interface RiskSettingsProps {
+  tradingParams?: Record<string, any>;
+  disabled?: boolean;
+  isSaving?: boolean;
+  onSave: (tradingParams: Record<string, any>) => void;
+}
+
+export default function RiskSettings({ tradingParams, disabled, isSaving, onSave }: RiskSettingsProps) {
+  const { data: status } = useQuery<RiskStatus>({
+    queryKey: ["/api/risk"],
+    refetchInterval: 30000,
+  });
+  const [limits, setLimits] = useState<RiskLimits | null>(null);
+
+  // The server fills in defaults for limits the user never saved
+  useEffect(() => {
+    if (status) {
+      setLimits(status.limits);
+    }
+  }, [status, tradingParams]);
+
+  const updateLimit = (key: keyof RiskLimits, value: string) => {
+    if (!limits) return;
+    const parsed = key === "maxOrdersPerHour" ? parseInt(value) : parseFloat(value);
+    setLimits({ ...limits, [key]: isNaN(parsed) || parsed <= 0 ? null : parsed });
+  };
+
+  const handleSave = () => {
+    if (!limits) return;
+    onSave({ ...(tradingParams || {}), risk: limits });
+  };
+
+  const metrics = status?.metrics;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Gauge className="h-5 w-5 mr-2 text-blue-500" />
+          Portfolio Risk Limits
+        </CardTitle>
+        <CardDescription>Checked before every bot order; a breach stops the bot and disables trading</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {LIMIT_FIELDS.map((field) => (
+            <div key={field.key} className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">{field.label}</label>
+              <Input
+                type="number"
+                value={limits?.[field.key] ?? ""}
+                placeholder="Off"
+                onChange={(e) => updateLimit(field.key, e.target.value)}
+                min="0"
+                step={field.step}
+                disabled={disabled || !limits}
+              />
+            </div>
+          ))}
+        </div>
+
+        {metrics && (
+          <div className="rounded-md bg-gray-50 p-3 text-xs text-gray-600 grid grid-cols-2 gap-1">
+            <p>Daily loss: {metrics.dailyLossPercent.toFixed(2)}%</p>
+            <p>Drawdown: {metrics.drawdownPercent.toFixed(2)}%</p>
+            <p>Total exposure: {metrics.totalExposurePercent.toFixed(2)}%</p>
+            <p>Orders last hour: {metrics.ordersLastHour}</p>
+          </div>
+        )}
+
+        {status && status.events.length > 0 && (
+          <div className="space-y-2">
+            <p className="text-sm font-medium text-gray-700">Recent Risk Events</p>
+            {status.events.slice(0, 5).map((event) => (
+              <div key={event.id} className="flex items-start gap-2 text-xs">
+                <Badge variant="outline" className="bg-red-100 text-red-800 shrink-0">
+                  {event.action === "KILL_SWITCH" ? "Kill switch" : event.rule.replace(/_/g, " ")}
+                </Badge>
+                <span className="text-gray-600">
+                  {new Date(event.createdAt).toLocaleString()} — {event.action === "REJECTED" && "Order rejected: "}
+                  {event.message}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="border-t border-gray-100 pt-4">
+        <Button className="w-full" variant="outline" onClick={handleSave} disabled={disabled || isSaving || !limits}>
+          {isSaving ? "Saving..." : "Save Risk Limits"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
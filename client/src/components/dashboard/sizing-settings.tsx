@@ -0,0 +1,150 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Scale } from "lucide-react";
+
+type SizingModel = "fixed" | "volatility" | "kelly";
+
+interface SizingConfig {
+  model: SizingModel;
+  atrPeriod: number;
+  atrStopMultiple: number;
+  kellyFraction: number;
+  kellyMaxPercent: number;
+  kellyMinTrades: number;
+  kellyLookback: number;
+}
+
+// Matches the server's defaults
+const DEFAULT_SIZING: SizingConfig = {
+  model: "fixed",
+  atrPeriod: 14,
+  atrStopMultiple: 2,
+  kellyFraction: 0.5,
+  kellyMaxPercent: 20,
+  kellyMinTrades: 30,
+  kellyLookback: 100,
+};
+
+const MODEL_LABELS: Record<SizingModel, string> = {
+  fixed: "Fixed fraction of balance",
+  volatility: "Volatility target (ATR)",
+  kelly: "Kelly from trade history",
+};
+
+const MODEL_DESCRIPTIONS: Record<SizingModel, string> = {
+  fixed: "Each position is the risk per trade as a share of the available balance.",
+  volatility: "The risk per trade is lost if price moves the ATR stop distance against the position.",
+  kelly:
+    "Bets a fraction of the Kelly criterion from your closed trades for the strategy and symbol. Uses the fixed fraction until there are enough trades.",
+};
+
+const MODEL_FIELDS: Record<SizingModel, { key: keyof SizingConfig; label: string; step: string; integer?: boolean }[]> = {
+  fixed: [],
+  volatility: [
+    { key: "atrPeriod", label: "ATR Period", step: "1", integer: true },
+    { key: "atrStopMultiple", label: "Stop Distance (ATRs)", step: "0.5" },
+  ],
+  kelly: [
+    { key: "kellyFraction", label: "Kelly Fraction (0-1)", step: "0.05" },
+    { key: "kellyMaxPercent", label: "Max Share of Balance (%)", step: "1" },
+    { key: "kellyMinTrades", label: "Min Closed Trades", step: "1", integer: true },
+    { key: "kellyLookback", label: "Trades to Learn From", step: "10", integer: true },
+  ],
+};
+
+interface SizingSettingsProps {
+  tradingParams?: Record<string, any>;
+  disabled?: boolean;
+  isSaving?: boolean;
+  onSave: (tradingParams: Record<string, any>) => void;
+}
+
+export default function SizingSettings({ tradingParams, disabled, isSaving, onSave }: SizingSettingsProps) {
+  const [sizing, setSizing] = useState<SizingConfig>(DEFAULT_SIZING);
+
+  useEffect(() => {
+    setSizing({ ...DEFAULT_SIZING, ...(tradingParams?.sizing || {}) });
+  }, [tradingParams]);
+
+  const updateField = (key: keyof SizingConfig, value: string, integer?: boolean) => {
+    const parsed = integer ? parseInt(value) : parseFloat(value);
+    setSizing({ ...sizing, [key]: isNaN(parsed) ? DEFAULT_SIZING[key] : parsed });
+  };
+
+  const handleSave = () => {
+    onSave({ ...(tradingParams || {}), sizing });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Scale className="h-5 w-5 mr-2 text-blue-500" />
+          Position Sizing
+        </CardTitle>
+        <CardDescription>How the bot turns the risk per trade into an order size</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">Sizing Model</label>
+          <Select
+            value={sizing.model}
+            onValueChange={(value) => setSizing({ ...sizing, model: value as SizingModel })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Sizing model" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MODEL_LABELS) as SizingModel[]).map((model) => (
+                <SelectItem key={model} value={model}>
+                  {MODEL_LABELS[model]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">{MODEL_DESCRIPTIONS[sizing.model]}</p>
+        </div>
+
+        {MODEL_FIELDS[sizing.model].length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {MODEL_FIELDS[sizing.model].map((field) => (
+              <div key={field.key} className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">{field.label}</label>
+                <Input
+                  type="number"
+                  value={sizing[field.key]}
+                  onChange={(e) => updateField(field.key, e.target.value, field.integer)}
+                  min="0"
+                  step={field.step}
+                  disabled={disabled}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="border-t border-gray-100 pt-4">
+        <Button className="w-full" variant="outline" onClick={handleSave} disabled={disabled || isSaving}>
+          {isSaving ? "Saving..." : "Save Position Sizing"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
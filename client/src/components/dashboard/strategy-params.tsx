@@ -0,0 +1,157 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { SlidersHorizontal } from "lucide-react";
+import { useStrategies, type StrategyDescriptor } from "@/hooks/use-strategies";
+
+interface StrategyParamsProps {
+  tradingParams?: Record<string, any>;
+  defaultStrategy?: string;
+  disabled?: boolean;
+  isSaving?: boolean;
+  onSave: (tradingParams: Record<string, any>) => void;
+}
+
+// Saved values over the strategy's defaults
+function getValues(descriptor: StrategyDescriptor | undefined, saved: Record<string, any> | undefined) {
+  const values: Record<string, string> = {};
+  descriptor?.params.forEach((param) => {
+    values[param.key] = String(saved?.[param.key] ?? param.default);
+  });
+  return values;
+}
+
+export default function StrategyParams({
+  tradingParams,
+  defaultStrategy,
+  disabled,
+  isSaving,
+  onSave,
+}: StrategyParamsProps) {
+  const { data: strategies, isLoading } = useStrategies();
+  const [strategy, setStrategy] = useState("MACD");
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const descriptor = strategies?.find((s) => s.name === strategy);
+
+  // Follow the bot's strategy once the strategy list is known
+  useEffect(() => {
+    if (defaultStrategy && strategies?.some((s) => s.name === defaultStrategy)) {
+      setStrategy(defaultStrategy);
+    }
+  }, [defaultStrategy, strategies]);
+
+  // Load the saved params whenever the selected strategy or saved params change
+  useEffect(() => {
+    setValues(getValues(descriptor, tradingParams?.strategies?.[strategy]));
+  }, [descriptor, strategy, tradingParams]);
+
+  const invalidKeys = (descriptor?.params || [])
+    .filter((param) => {
+      const value = Number(values[param.key]);
+      if (values[param.key] === "" || isNaN(value)) return true;
+      if (param.type === "integer" && !Number.isInteger(value)) return true;
+      return (param.min !== undefined && value < param.min) || (param.max !== undefined && value > param.max);
+    })
+    .map((param) => param.key);
+
+  const handleSave = () => {
+    const params: Record<string, number> = {};
+    descriptor?.params.forEach((param) => {
+      params[param.key] = Number(values[param.key]);
+    });
+
+    onSave({
+      ...(tradingParams || {}),
+      strategies: {
+        ...(tradingParams?.strategies || {}),
+        // Keep saved settings this form does not edit, like the ensemble weights
+        [strategy]: { ...(tradingParams?.strategies?.[strategy] || {}), ...params },
+      },
+    });
+  };
+
+  const handleReset = () => {
+    setValues(getValues(descriptor, undefined));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <SlidersHorizontal className="h-5 w-5 mr-2 text-blue-500" />
+          Strategy Parameters
+        </CardTitle>
+        <CardDescription>{descriptor?.description || "Tune the indicators each strategy uses"}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">Strategy</label>
+          <Select value={strategy} onValueChange={setStrategy}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select strategy" />
+            </SelectTrigger>
+            <SelectContent>
+              {(strategies || []).map((s) => (
+                <SelectItem key={s.name} value={s.name}>{s.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {isLoading ? (
+          <div className="text-sm text-gray-500">Loading strategies...</div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {descriptor?.params.map((param) => (
+              <div key={param.key} className="space-y-2">
+                <label className="text-sm font-medium text-gray-700">{param.label}</label>
+                <Input
+                  type="number"
+                  value={values[param.key] ?? ""}
+                  onChange={(e) => setValues({ ...values, [param.key]: e.target.value })}
+                  min={param.min}
+                  max={param.max}
+                  step={param.type === "integer" ? 1 : 0.1}
+                  disabled={disabled}
+                  className={invalidKeys.includes(param.key) ? "border-red-500" : undefined}
+                />
+                <p className="text-xs text-gray-500">
+                  Default {param.default}
+                  {param.min !== undefined && param.max !== undefined && `, ${param.min}–${param.max}`}
+                </p>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="border-t border-gray-100 pt-4 flex gap-2">
+        <Button
+          className="flex-1"
+          variant="outline"
+          onClick={handleSave}
+          disabled={disabled || isSaving || !descriptor || invalidKeys.length > 0}
+        >
+          {isSaving ? "Saving..." : `Save ${descriptor?.label || strategy} Parameters`}
+        </Button>
+        <Button variant="ghost" onClick={handleReset} disabled={disabled || !descriptor}>
+          Defaults
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,153 @@
+import { useEffect, useState } from "react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { TrendingUp } from "lucide-react";
+
+interface TrendFilter {
+  timeframe: string | null;
+  emaPeriod: number;
+  slopeBars: number;
+  minSlopePercent: number;
+}
+
+// Matches the server's defaults; a null timeframe turns the filter off
+const DEFAULT_TREND_FILTER: TrendFilter = {
+  timeframe: null,
+  emaPeriod: 50,
+  slopeBars: 3,
+  minSlopePercent: 0,
+};
+
+const TIMEFRAMES = [
+  { value: "15m", label: "15 minutes" },
+  { value: "1h", label: "1 hour" },
+  { value: "4h", label: "4 hours" },
+  { value: "1d", label: "1 day" },
+];
+
+interface TrendFilterSettingsProps {
+  tradingParams?: Record<string, any>;
+  tradingTimeframe?: string;
+  disabled?: boolean;
+  isSaving?: boolean;
+  onSave: (tradingParams: Record<string, any>) => void;
+}
+
+export default function TrendFilterSettings({
+  tradingParams,
+  tradingTimeframe,
+  disabled,
+  isSaving,
+  onSave,
+}: TrendFilterSettingsProps) {
+  const [filter, setFilter] = useState<TrendFilter>(DEFAULT_TREND_FILTER);
+
+  useEffect(() => {
+    setFilter({ ...DEFAULT_TREND_FILTER, ...(tradingParams?.trendFilter || {}) });
+  }, [tradingParams]);
+
+  // Only timeframes longer than the traded one can confirm a signal
+  const tradingIndex = TIMEFRAMES.findIndex((tf) => tf.value === tradingTimeframe);
+  const options = TIMEFRAMES.filter((_, index) => index > tradingIndex);
+
+  const updateNumber = (key: "emaPeriod" | "slopeBars" | "minSlopePercent", value: string) => {
+    const parsed = key === "minSlopePercent" ? parseFloat(value) : parseInt(value);
+    setFilter({ ...filter, [key]: isNaN(parsed) ? DEFAULT_TREND_FILTER[key] : parsed });
+  };
+
+  const handleSave = () => {
+    onSave({ ...(tradingParams || {}), trendFilter: filter });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <TrendingUp className="h-5 w-5 mr-2 text-blue-500" />
+          Higher Timeframe Confirmation
+        </CardTitle>
+        <CardDescription>Only open positions when the EMA slope of a longer timeframe agrees with the signal</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">Confirmation Timeframe</label>
+            <Select
+              value={filter.timeframe ?? "off"}
+              onValueChange={(value) => setFilter({ ...filter, timeframe: value === "off" ? null : value })}
+              disabled={disabled}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Timeframe" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="off">Off</SelectItem>
+                {options.map((tf) => (
+                  <SelectItem key={tf.value} value={tf.value}>
+                    {tf.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">EMA Period</label>
+            <Input
+              type="number"
+              value={filter.emaPeriod}
+              onChange={(e) => updateNumber("emaPeriod", e.target.value)}
+              min="2"
+              max="200"
+              step="1"
+              disabled={disabled || !filter.timeframe}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">Slope Measured Over (bars)</label>
+            <Input
+              type="number"
+              value={filter.slopeBars}
+              onChange={(e) => updateNumber("slopeBars", e.target.value)}
+              min="1"
+              max="50"
+              step="1"
+              disabled={disabled || !filter.timeframe}
+            />
+          </div>
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-gray-700">Min Slope (%)</label>
+            <Input
+              type="number"
+              value={filter.minSlopePercent}
+              onChange={(e) => updateNumber("minSlopePercent", e.target.value)}
+              min="0"
+              max="10"
+              step="0.05"
+              disabled={disabled || !filter.timeframe}
+            />
+          </div>
+        </div>
+      </CardContent>
+      <CardFooter className="border-t border-gray-100 pt-4">
+        <Button className="w-full" variant="outline" onClick={handleSave} disabled={disabled || isSaving}>
+          {isSaving ? "Saving..." : "Save Trend Filter"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Globe, X } from "lucide-react";
+
+type UniverseMode = "manual" | "rules";
+
+interface UniverseConfig {
+  mode: UniverseMode;
+  quoteAsset: string;
+  minQuoteVolume: number;
+  exclude: string[];
+  maxPairs: number;
+}
+
+interface PairWeight {
+  symbol: string;
+  weight: number;
+}
+
+interface UniverseResponse {
+  config: UniverseConfig;
+  pairs: PairWeight[];
+  picked: PairWeight[];
+}
+
+interface ExchangeSymbol {
+  symbol: string;
+  quoteVolume24h: string;
+}
+
+// Matches the server's defaults
+const DEFAULT_UNIVERSE: UniverseConfig = {
+  mode: "manual",
+  quoteAsset: "USDT",
+  minQuoteVolume: 1_000_000,
+  exclude: [],
+  maxPairs: 20,
+};
+
+const DEFAULT_WEIGHT = 0.1;
+
+const MODE_DESCRIPTIONS: Record<UniverseMode, string> = {
+  manual: "The bot picks from the symbols listed below.",
+  rules: "The bot picks from every live symbol that passes the rules. Weights below override the default for those symbols.",
+};
+
+interface UniverseSettingsProps {
+  tradingParams?: Record<string, any>;
+  disabled?: boolean;
+  isSaving?: boolean;
+  onSave: (tradingParams: Record<string, any>) => void;
+}
+
+export default function UniverseSettings({ tradingParams, disabled, isSaving, onSave }: UniverseSettingsProps) {
+  const { toast } = useToast();
+  const [config, setConfig] = useState<UniverseConfig>(DEFAULT_UNIVERSE);
+  const [excludeText, setExcludeText] = useState("");
+  const [pairs, setPairs] = useState<PairWeight[]>([]);
+  const [newSymbol, setNewSymbol] = useState("");
+
+  const { data: universe } = useQuery<UniverseResponse>({
+    queryKey: ["/api/universe"],
+  });
+
+  const { data: symbols } = useQuery<ExchangeSymbol[]>({
+    queryKey: ["/api/universe/symbols"],
+    staleTime: 5 * 60 * 1000,
+  });
+
+  useEffect(() => {
+    const saved = { ...DEFAULT_UNIVERSE, ...(tradingParams?.universe || {}) };
+    setConfig(saved);
+    setExcludeText(saved.exclude.join(", "));
+  }, [tradingParams]);
+
+  useEffect(() => {
+    // Until the user picks symbols, a manual universe is the server's default list
+    if (universe) {
+      setPairs(universe.picked.length > 0 || universe.config.mode === "rules" ? universe.picked : universe.pairs);
+    }
+  }, [universe]);
+
+  const savePairsMutation = useMutation({
+    mutationFn: async (nextPairs: PairWeight[]) => {
+      const res = await apiRequest("PUT", "/api/universe/pairs", { pairs: nextPairs });
+      return (await res.json()) as PairWeight[];
+    },
+    onSuccess: () => {
+      const exclude = excludeText
+        .split(",")
+        .map((symbol) => symbol.trim().toUpperCase())
+        .filter(Boolean);
+      onSave({ ...(tradingParams || {}), universe: { ...config, exclude } });
+      queryClient.invalidateQueries({ queryKey: ["/api/universe"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/market/pairs/active"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/market/pairs/ranking"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not save trading universe",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const addSymbol = () => {
+    const symbol = newSymbol.trim().toUpperCase();
+    if (!symbol || pairs.some((pair) => pair.symbol === symbol)) return;
+    setPairs([...pairs, { symbol, weight: DEFAULT_WEIGHT }]);
+    setNewSymbol("");
+  };
+
+  const updateWeight = (symbol: string, value: string) => {
+    const percent = parseFloat(value);
+    const weight = isNaN(percent) ? 0 : Math.min(Math.max(percent, 0), 100) / 100;
+    setPairs(pairs.map((pair) => (pair.symbol === symbol ? { ...pair, weight } : pair)));
+  };
+
+  const updateNumber = (key: "minQuoteVolume" | "maxPairs", value: string) => {
+    const parsed = key === "maxPairs" ? parseInt(value) : parseFloat(value);
+    setConfig({ ...config, [key]: isNaN(parsed) ? DEFAULT_UNIVERSE[key] : parsed });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <Globe className="h-5 w-5 mr-2 text-blue-500" />
+          Trading Universe
+        </CardTitle>
+        <CardDescription>The symbols the bot selects its trading pairs from</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">Universe</label>
+          <Select
+            value={config.mode}
+            onValueChange={(value) => setConfig({ ...config, mode: value as UniverseMode })}
+            disabled={disabled}
+          >
+            <SelectTrigger>
+              <SelectValue placeholder="Universe" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="manual">Symbols I pick</SelectItem>
+              <SelectItem value="rules">Symbols matching rules</SelectItem>
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">{MODE_DESCRIPTIONS[config.mode]}</p>
+        </div>
+
+        {config.mode === "rules" && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Quote Asset</label>
+              <Input
+                value={config.quoteAsset}
+                onChange={(e) => setConfig({ ...config, quoteAsset: e.target.value.toUpperCase() })}
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Min 24h Volume (quote)</label>
+              <Input
+                type="number"
+                value={config.minQuoteVolume}
+                onChange={(e) => updateNumber("minQuoteVolume", e.target.value)}
+                min="0"
+                step="100000"
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Max Symbols</label>
+              <Input
+                type="number"
+                value={config.maxPairs}
+                onChange={(e) => updateNumber("maxPairs", e.target.value)}
+                min="1"
+                max="100"
+                step="1"
+                disabled={disabled}
+              />
+            </div>
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-gray-700">Exclude (comma separated)</label>
+              <Input
+                value={excludeText}
+                onChange={(e) => setExcludeText(e.target.value)}
+                placeholder="e.g. USDCUSDT, BTCDOMUSDT"
+                disabled={disabled}
+              />
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label className="text-sm font-medium text-gray-700">
+            {config.mode === "manual" ? "Symbols and Weights (%)" : "Weight Overrides (%)"}
+          </label>
+          {pairs.map((pair) => (
+            <div key={pair.symbol} className="flex items-center gap-2">
+              <span className="flex-1 text-sm font-medium">{pair.symbol}</span>
+              <Input
+                type="number"
+                className="w-24"
+                value={Math.round(pair.weight * 100)}
+                onChange={(e) => updateWeight(pair.symbol, e.target.value)}
+                min="0"
+                max="100"
+                step="1"
+                disabled={disabled}
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setPairs(pairs.filter((p) => p.symbol !== pair.symbol))}
+                disabled={disabled}
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+          <div className="flex gap-2">
+            <Input
+              list="universe-symbols"
+              value={newSymbol}
+              onChange={(e) => setNewSymbol(e.target.value)}
+              placeholder="Add a symbol, e.g. SOLUSDT"
+              disabled={disabled}
+            />
+            <datalist id="universe-symbols">
+              {symbols?.map((symbol) => <option key={symbol.symbol} value={symbol.symbol} />)}
+            </datalist>
+            <Button variant="outline" onClick={addSymbol} disabled={disabled || !newSymbol.trim()}>
+              Add
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+      <CardFooter className="border-t border-gray-100 pt-4">
+        <Button
+          className="w-full"
+          variant="outline"
+          onClick={() => savePairsMutation.mutate(pairs)}
+          disabled={disabled || isSaving || savePairsMutation.isPending}
+        >
+          {isSaving || savePairsMutation.isPending ? "Saving..." : "Save Trading Universe"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
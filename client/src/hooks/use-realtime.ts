@@ -0,0 +1,91 @@
+import { useEffect, useRef, useState } from "react";
+import { REALTIME_PATH, type RealtimeClientMessage, type RealtimeMessage } from "@shared/realtime";
+import { queryClient } from "../lib/queryClient";
+
+type SignalMessage = Extract<RealtimeMessage, { type: "signal" }>;
+
+const MAX_SIGNALS = 20;
+const MAX_RECONNECT_DELAY = 30000;
+
+/**
+ * Subscribe to the server push channel and feed its messages into the React Query caches.
+ * Reconnects with backoff; `isConnected` lets callers fall back to polling while offline.
+ */
+export function useRealtime(enabled: boolean, symbols: string[]) {
+  const [isConnected, setIsConnected] = useState(false);
+  const [signals, setSignals] = useState<SignalMessage["data"][]>([]);
+  const socketRef = useRef<WebSocket | null>(null);
+  const symbolsKey = symbols.join(",");
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempts = 0;
+    let closedByUs = false;
+
+    const handleMessage = (message: RealtimeMessage) => {
+      switch (message.type) {
+        case "balance":
+          queryClient.setQueryData(["/api/balance"], message.data);
+          break;
+        case "ticker":
+          queryClient.setQueryData([`/api/market/${message.data.symbol}`], message.data);
+          break;
+        case "signal":
+          setSignals((prev) => [message.data, ...prev].slice(0, MAX_SIGNALS));
+          break;
+        case "trade":
+          queryClient.invalidateQueries({ queryKey: ["/api/trades/open"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/trades"] });
+          queryClient.invalidateQueries({ queryKey: ["/api/trading/status"] });
+          break;
+        case "bot":
+          queryClient.invalidateQueries({ queryKey: ["/api/trading/status"] });
+          break;
+      }
+    };
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      const socket = new WebSocket(`${protocol}//${window.location.host}${REALTIME_PATH}`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        attempts = 0;
+        setIsConnected(true);
+        const subscribe: RealtimeClientMessage = { type: "subscribe", symbols: symbolsKey.split(",").filter(Boolean) };
+        socket.send(JSON.stringify(subscribe));
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data));
+        } catch (error) {
+          console.error("Invalid realtime message:", error);
+        }
+      };
+
+      socket.onclose = () => {
+        setIsConnected(false);
+        socketRef.current = null;
+        if (closedByUs) return;
+
+        // Exponential backoff capped at MAX_RECONNECT_DELAY
+        const delay = Math.min(1000 * 2 ** attempts, MAX_RECONNECT_DELAY);
+        attempts++;
+        reconnectTimer = setTimeout(connect, delay);
+      };
+    };
+
+    connect();
+
+    return () => {
+      closedByUs = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+    };
+  }, [enabled, symbolsKey]);
+
+  return { isConnected, signals };
+}
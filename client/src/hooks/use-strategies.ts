@@ -0,0 +1,27 @@
+import { useQuery } from "@tanstack/react-query";
+
+export interface StrategyParamDescriptor {
+  key: string;
+  label: string;
+  type: "integer" | "number";
+  min?: number;
+  max?: number;
+  default: number;
+}
+
+export interface StrategyDescriptor {
+  name: string;
+  label: string;
+  description: string;
+  composite: boolean; // combines the other strategies, e.g. the ensemble
+  params: StrategyParamDescriptor[];
+}
+
+/**
+ * Strategies registered on the server, with their parameter descriptions
+ */
+export function useStrategies() {
+  return useQuery<StrategyDescriptor[]>({
+    queryKey: ["/api/strategies"],
+  });
+}
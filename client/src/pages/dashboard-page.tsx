@@ -1,7 +1,8 @@
 import { useAuth } from "@/hooks/use-auth";
-import { useMutation, useQuery } from "@tanstack/react-query";
+import { useMutation, useQueries, useQuery } from "@tanstack/react-query";
 import { useState, useEffect, useRef } from "react";
 import { useToast } from "@/hooks/use-toast";
+import { useRealtime } from "@/hooks/use-realtime";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
 // Chart.js type declaration
@@ -55,10 +56,36 @@ import {
   Bot,
   MessageCircle,
   Info,
+  FlaskConical,
+  ListChecks,
 } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
+import BacktestPanel from "@/components/dashboard/backtest-panel";
+import ProtectionSettings from "@/components/dashboard/protection-settings";
+import ApiCredentials from "@/components/dashboard/api-credentials";
+import StrategyParams from "@/components/dashboard/strategy-params";
+import EnsembleWeights from "@/components/dashboard/ensemble-weights";
+import OrderTicket from "@/components/dashboard/order-ticket";
+import AdvancedOrders from "@/components/dashboard/advanced-orders";
+import DecisionTimeline from "@/components/dashboard/decision-timeline";
+import RiskSettings from "@/components/dashboard/risk-settings";
+import TrendFilterSettings from "@/components/dashboard/trend-filter-settings";
+import SizingSettings from "@/components/dashboard/sizing-settings";
+import UniverseSettings from "@/components/dashboard/universe-settings";
+import PairScoringSettings from "@/components/dashboard/pair-scoring-settings";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
 
 // Types
 interface Trade {
@@ -74,6 +101,13 @@ interface Trade {
   openedAt: string;
   closedAt?: string;
   strategy: string;
+  orderStatus?: string;
+  fees?: string;
+  marketType?: "spot" | "futures";
+  leverage?: number;
+  liquidationPrice?: string | null;
+  fundingFees?: string;
+  tradeData?: Record<string, any>;
 }
 
 interface TradingSettings {
@@ -85,6 +119,10 @@ interface TradingSettings {
   riskPerTrade: string;
   leverageLevel: number;
   enabledTrading: boolean;
+  tradingMode: "live" | "paper";
+  marketType: "spot" | "futures";
+  marginMode: "crossed" | "isolated";
+  tradingParams?: Record<string, any>;
 }
 
 interface Balance {
@@ -102,20 +140,64 @@ interface MarketData {
   change24h: string;
 }
 
+// Flags trades whose recorded fill did not match what the exchange reported
+function ReconciliationWarning({ trade }: { trade: Trade }) {
+  const mismatches: string[] = trade.tradeData?.reconciliation?.mismatches || [];
+  if (mismatches.length === 0) return null;
+
+  return (
+    <span title={mismatches.map((m) => m.replace(/_/g, " ")).join(", ")}>
+      <AlertTriangle className="h-4 w-4 ml-2 inline text-amber-500" />
+    </span>
+  );
+}
+
+// One line per ensemble component, e.g. "MACD: BUY 80% (weight 50)"
+function formatVotes(votes?: Record<string, { side: string | null; confidence: number; weight: number }>) {
+  if (!votes) return undefined;
+  return Object.entries(votes)
+    .map(([name, vote]) =>
+      `${name}: ${vote.side ? `${vote.side.toUpperCase()} ${vote.confidence.toFixed(0)}%` : "no signal"} (weight ${vote.weight})`
+    )
+    .join("\n");
+}
+
+// A symbol of the user's trading universe with its 24h stats
+interface UniversePair {
+  symbol: string;
+  price: string;
+  change24h: number;
+  volume: string;
+  quoteVolume: string;
+  weight: number;
+}
+
+// The header shows prices for this many symbols of the universe
+const HEADER_PRICE_COUNT = 5;
+
+// BTCUSDT -> BTC/USDT
+function formatPair(symbol: string) {
+  return symbol.replace(/(USDT|USDC|BTC|ETH)$/, "/$1");
+}
+
 export default function DashboardPage() {
   const { user, logoutMutation } = useAuth();
   const { toast } = useToast();
   const [activeTab, setActiveTab] = useState("overview");
   const [confidence, setConfidence] = useState(70);
   const chartRef = useRef(null);
-  const [prices, setPrices] = useState<{[key: string]: string}>({
-    BTCUSDT: "Loading...",
-    ETHUSDT: "Loading...",
-    BNBUSDT: "Loading...",
-    XRPUSDT: "Loading...",
-    DOGEUSDT: "Loading..."
-  });
   const [darkMode, setDarkMode] = useState(true);
+  const [flattenOnStop, setFlattenOnStop] = useState(false);
+  
+  // The symbols the bot selects from; they replace the old fixed list of five pairs
+  const { data: universePairs } = useQuery<UniversePair[]>({
+    queryKey: ["/api/market/pairs/active"],
+    refetchInterval: 60000,
+  });
+  const priceSymbols = (universePairs || []).slice(0, HEADER_PRICE_COUNT).map((pair) => pair.symbol);
+  
+  // Server push channel; polling below only runs as a fallback while it is disconnected
+  const { isConnected: isLive, signals } = useRealtime(!!user, priceSymbols);
   
   // Fetch balance data
   const {
@@ -124,7 +206,7 @@ export default function DashboardPage() {
     error: balanceError,
   } = useQuery<Balance>({
     queryKey: ["/api/balance"],
-    refetchInterval: 30000, // Refresh every 30 seconds
+    refetchInterval: isLive ? false : 30000, // Refresh every 30 seconds
   });
 
   // Fetch market data for BTC
@@ -134,7 +216,7 @@ export default function DashboardPage() {
     error: marketError,
   } = useQuery<MarketData>({
     queryKey: ["/api/market/BTCUSDT"],
-    refetchInterval: 10000, // Refresh every 10 seconds
+    refetchInterval: isLive ? false : 10000, // Refresh every 10 seconds
   });
 
   // Fetch open trades
@@ -144,9 +226,20 @@ export default function DashboardPage() {
     error: tradesError,
   } = useQuery<Trade[]>({
     queryKey: ["/api/trades/open"],
-    refetchInterval: 30000, // Refresh every 30 seconds
+    refetchInterval: isLive ? false : 30000, // Refresh every 30 seconds
   });
   
+  // Fetch all trades (used for closed trade history)
+  const {
+    data: allTrades,
+    isLoading: isAllTradesLoading,
+  } = useQuery<Trade[]>({
+    queryKey: ["/api/trades"],
+    refetchInterval: isLive ? false : 60000, // Refresh every minute
+  });
+  const closedTrades = allTrades?.filter((trade) => trade.status === "CLOSED") || [];
+  const realizedPnl = closedTrades.reduce((sum, trade) => sum + parseFloat(trade.pnl || "0"), 0);
+  
   // Fetch trading settings
   const {
     data: tradingSettings,
@@ -156,6 +249,12 @@ export default function DashboardPage() {
     queryKey: ["/api/trading/settings"],
   });
 
+  // The single-symbol strategies trade a symbol of the universe; a saved symbol outside it stays selectable
+  const tradingPairOptions = (universePairs || []).map((pair) => pair.symbol);
+  if (tradingSettings?.symbol && !tradingPairOptions.includes(tradingSettings.symbol)) {
+    tradingPairOptions.unshift(tradingSettings.symbol);
+  }
+
   // Fetch trading status
   const {
     data: tradingStatus,
@@ -163,7 +262,7 @@ export default function DashboardPage() {
     error: statusError,
   } = useQuery<any>({
     queryKey: ["/api/trading/status"],
-    refetchInterval: 30000, // Refresh every 30 seconds
+    refetchInterval: isLive ? false : 30000, // Refresh every 30 seconds
   });
 
   // Update trading settings mutation
@@ -174,6 +273,10 @@ export default function DashboardPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/trading/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/risk"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/universe"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/market/pairs/active"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/market/pairs/ranking"] });
       toast({
         title: "Settings updated",
         description: "Your trading settings have been updated successfully.",
@@ -232,6 +335,37 @@ export default function DashboardPage() {
     },
   });
 
+  // Kill switch: stops the bot, cancels resting orders and optionally flattens every position
+  const killSwitchMutation = useMutation({
+    mutationFn: async (flatten: boolean) => {
+      const res = await apiRequest("POST", "/api/risk/kill-switch", { flatten });
+      return await res.json();
+    },
+    onSuccess: (result: { cancelledOrders: number[]; closedPositions: number[]; failed: { tradeId: number }[] }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trading/status"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trading/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trades/open"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trades"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/balance"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/risk"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/order-groups"] });
+      toast({
+        title: "All trading stopped",
+        description: `Cancelled ${result.cancelledOrders.length} orders, closed ${result.closedPositions.length} positions` +
+          (result.failed.length > 0 ? `, ${result.failed.length} failed` : "") + ".",
+        variant: result.failed.length > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Kill switch failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Update confidence threshold mutation
   const updateConfidenceMutation = useMutation({
     mutationFn: async (threshold: number) => {
@@ -254,13 +388,37 @@ export default function DashboardPage() {
     },
   });
 
+  // Close position mutation
+  const closeTradeMutation = useMutation({
+    mutationFn: async (tradeId: number) => {
+      const res = await apiRequest("POST", `/api/trades/${tradeId}/close`, {});
+      return await res.json();
+    },
+    onSuccess: (trade: Trade) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/trades/open"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/trades"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/balance"] });
+      toast({
+        title: "Position closed",
+        description: `${trade.symbol} closed with P/L ${formatCurrency(trade.pnl)}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Failed to close position",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   // Handle logout
   const handleLogout = () => {
     logoutMutation.mutate();
   };
 
   // Handle settings update
-  const handleUpdateSettings = (field: string, value: string | number | boolean) => {
+  const handleUpdateSettings = (field: string, value: string | number | boolean | Record<string, any>) => {
     if (tradingSettings) {
       updateSettingsMutation.mutate({
         ...tradingSettings,
@@ -310,53 +468,20 @@ export default function DashboardPage() {
     return parseFloat(pnl) >= 0 ? "text-green-500" : "text-red-500";
   };
   
-  // Update market data to refresh prices
-  useEffect(() => {
-    if (marketData?.price) {
-      setPrices(prevPrices => ({
-        ...prevPrices,
-        [marketData.symbol]: formatCurrency(marketData.price)
-      }));
-    }
-  }, [marketData]);
-  
-  // Function to fetch all symbols' prices
-  const fetchAllPrices = async () => {
-    try {
-      const symbols = ["BTCUSDT", "ETHUSDT", "BNBUSDT", "XRPUSDT", "DOGEUSDT"];
-      const newPrices: {[key: string]: string} = {};
-      
-      for (const symbol of symbols) {
-        if (symbol === "BTCUSDT" && marketData?.price) {
-          newPrices[symbol] = formatCurrency(marketData.price);
-          continue;
-        }
-        
-        try {
-          const res = await fetch(`/api/market/${symbol}`);
-          if (res.ok) {
-            const data = await res.json();
-            newPrices[symbol] = formatCurrency(data.price);
-          } else {
-            newPrices[symbol] = "Error";
-          }
-        } catch (err) {
-          newPrices[symbol] = "Error";
-        }
-      }
-      
-      setPrices(newPrices);
-    } catch (error) {
-      console.error("Failed to fetch prices:", error);
-    }
-  };
-  
-  // Fetch all prices on component mount
-  useEffect(() => {
-    fetchAllPrices();
-    const interval = setInterval(fetchAllPrices, 60000); // Update every minute
-    return () => clearInterval(interval);
-  }, []);
+  // Prices for the header, kept fresh by ticker pushes
+  const priceRefetchInterval: number | false = isLive ? false : 60000; // Refresh every minute
+  const priceQueries = useQueries({
+    queries: priceSymbols.map((symbol) => ({
+      queryKey: [`/api/market/${symbol}`],
+      refetchInterval: priceRefetchInterval,
+    })),
+  });
+  const prices: {[key: string]: string} = {};
+  priceSymbols.forEach((symbol, i) => {
+    const query = priceQueries[i];
+    const data = query.data as MarketData | undefined;
+    prices[symbol] = data ? formatCurrency(data.price) : query.isError ? "Error" : "Loading...";
+  });
   
   // Initialize chart
   useEffect(() => {
@@ -446,6 +571,9 @@ export default function DashboardPage() {
           <div className="flex flex-col md:flex-row justify-between items-start md:items-center">
             <div className="flex items-center mb-4 md:mb-0">
               <h2 className="text-xl font-bold">Live Prices:</h2>
+              <Badge variant="outline" className={`ml-2 ${isLive ? "text-green-600" : "text-gray-500"}`}>
+                {isLive ? "Streaming" : "Polling"}
+              </Badge>
             </div>
             <div className="flex flex-wrap gap-4">
               {Object.entries(prices).map(([symbol, price]) => (
@@ -485,6 +613,26 @@ export default function DashboardPage() {
               Balance: {formatCurrency(balanceData?.totalBalance)}
             </div>
           </div>
+          {signals.length > 0 && (
+            <div className="mt-3 pt-3 border-t border-gray-100">
+              <h3 className="text-sm font-medium mb-2">Latest Signals</h3>
+              <ul className="space-y-1">
+                {signals.slice(0, 5).map((signal) => (
+                  <li key={`${signal.symbol}-${signal.time}-${signal.strategy}`} className="flex justify-between text-sm">
+                    <span>
+                      <span className={signal.side === "buy" ? "text-green-600" : "text-red-600"}>
+                        {signal.side.toUpperCase()}
+                      </span>{" "}
+                      {signal.symbol} @ {formatCurrency(signal.price)}
+                    </span>
+                    <span className="text-gray-500" title={formatVotes(signal.indicators?.votes)}>
+                      {signal.strategy} · {signal.confidence.toFixed(0)}% · {new Date(signal.time).toLocaleTimeString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
         
         <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
@@ -522,6 +670,32 @@ export default function DashboardPage() {
                       <span>Trading</span>
                     </button>
                   </li>
+                  <li>
+                    <button
+                      className={`w-full flex items-center space-x-3 px-3 py-2 rounded-md ${
+                        activeTab === "decisions"
+                          ? "bg-blue-50 text-blue-600"
+                          : "text-gray-700 hover:bg-gray-100"
+                      }`}
+                      onClick={() => setActiveTab("decisions")}
+                    >
+                      <ListChecks className="h-5 w-5" />
+                      <span>Decisions</span>
+                    </button>
+                  </li>
+                  <li>
+                    <button
+                      className={`w-full flex items-center space-x-3 px-3 py-2 rounded-md ${
+                        activeTab === "backtests"
+                          ? "bg-blue-50 text-blue-600"
+                          : "text-gray-700 hover:bg-gray-100"
+                      }`}
+                      onClick={() => setActiveTab("backtests")}
+                    >
+                      <FlaskConical className="h-5 w-5" />
+                      <span>Backtests</span>
+                    </button>
+                  </li>
                   <li>
                     <button
                       className={`w-full flex items-center space-x-3 px-3 py-2 rounded-md ${
@@ -670,8 +844,10 @@ export default function DashboardPage() {
                       <CardTitle className="text-lg">Trading Performance</CardTitle>
                     </CardHeader>
                     <CardContent>
-                      <div className="text-3xl font-bold text-green-500">+$0.00</div>
-                      <p className="text-gray-500 text-sm">Total profit & loss</p>
+                      <div className={`text-3xl font-bold ${getPnlColor(realizedPnl.toString())}`}>
+                        {realizedPnl >= 0 ? "+" : ""}{formatCurrency(realizedPnl.toString())}
+                      </div>
+                      <p className="text-gray-500 text-sm">Total realized profit & loss</p>
                     </CardContent>
                   </Card>
                   <Card>
@@ -704,6 +880,27 @@ export default function DashboardPage() {
                           : "Trading bot is currently inactive"
                         }
                       </p>
+                      {tradingStatus?.isActive && tradingStatus?.botSession && (
+                        <div className="text-gray-500 text-xs mt-2 space-y-1">
+                          <p>Running since {formatDate(tradingStatus.botSession.startedAt)}</p>
+                          <p>
+                            Last cycle: {tradingStatus.botSession.lastCycleAt ? formatDate(tradingStatus.botSession.lastCycleAt) : "waiting for first cycle"}
+                            {tradingStatus.lastRun?.durationMs != null && ` (${(tradingStatus.lastRun.durationMs / 1000).toFixed(1)}s)`}
+                          </p>
+                          {tradingStatus.nextRunAt && (
+                            <p>Next cycle at candle close: {formatDate(tradingStatus.nextRunAt)}</p>
+                          )}
+                          {tradingStatus.botSession.resumeCount > 0 && (
+                            <p>Resumed {tradingStatus.botSession.resumeCount}× after restarts</p>
+                          )}
+                        </div>
+                      )}
+                      {tradingStatus?.botSession?.lastError && (
+                        <p className="text-red-500 text-xs mt-2 flex items-start">
+                          <AlertTriangle className="h-3 w-3 mr-1 mt-0.5 flex-shrink-0" />
+                          <span>{tradingStatus.botSession.lastError} ({formatDate(tradingStatus.botSession.lastErrorAt)})</span>
+                        </p>
+                      )}
                     </CardContent>
                   </Card>
                 </div>
@@ -751,6 +948,12 @@ export default function DashboardPage() {
                                 >
                                   {trade.side.toUpperCase()}
                                 </Badge>
+                                {trade.marketType === "futures" && (
+                                  <div className="text-xs text-gray-500 mt-1">
+                                    {trade.leverage}x
+                                    {trade.liquidationPrice && ` · liq. ${formatCurrency(trade.liquidationPrice)}`}
+                                  </div>
+                                )}
                               </TableCell>
                               <TableCell>{formatCurrency(trade.entryPrice)}</TableCell>
                               <TableCell>{parseFloat(trade.quantity).toFixed(5)}</TableCell>
@@ -799,11 +1002,11 @@ export default function DashboardPage() {
                             <SelectValue placeholder="Select trading pair" />
                           </SelectTrigger>
                           <SelectContent>
-                            <SelectItem value="BTCUSDT">BTC/USDT</SelectItem>
-                            <SelectItem value="ETHUSDT">ETH/USDT</SelectItem>
-                            <SelectItem value="BNBUSDT">BNB/USDT</SelectItem>
-                            <SelectItem value="XRPUSDT">XRP/USDT</SelectItem>
-                            <SelectItem value="DOGEUSDT">DOGE/USDT</SelectItem>
+                            {tradingPairOptions.map((symbol) => (
+                              <SelectItem key={symbol} value={symbol}>
+                                {formatPair(symbol)}
+                              </SelectItem>
+                            ))}
                           </SelectContent>
                         </Select>
                       </div>
@@ -891,33 +1094,32 @@ export default function DashboardPage() {
                     <div className="space-y-2 mt-6">
                       <h3 className="text-sm font-medium text-gray-700">Trading Mode</h3>
                       <div className="flex space-x-3">
-                        <Button variant="outline" className="flex-1">Virtual Account</Button>
-                        <Button variant="outline" className="flex-1">Real Account</Button>
+                        <Button
+                          variant={tradingSettings?.tradingMode === "paper" ? "default" : "outline"}
+                          className="flex-1"
+                          onClick={() => handleUpdateSettings("tradingMode", "paper")}
+                          disabled={tradingStatus?.isActive}
+                        >
+                          Virtual Account
+                        </Button>
+                        <Button
+                          variant={tradingSettings?.tradingMode !== "paper" ? "default" : "outline"}
+                          className="flex-1"
+                          onClick={() => handleUpdateSettings("tradingMode", "live")}
+                          disabled={tradingStatus?.isActive}
+                        >
+                          Real Account
+                        </Button>
                       </div>
+                      <p className="text-xs text-gray-500">
+                        {tradingSettings?.tradingMode === "paper"
+                          ? "Orders are simulated against live prices with fees and slippage. No real funds are used."
+                          : "Orders are sent to your Bitget account."}
+                      </p>
                     </div>
 
-                    <div className="space-y-2 mt-6">
-                      <h3 className="text-sm font-medium text-gray-700">Manual Trading</h3>
-                      <div className="flex space-x-3">
-                        <Select defaultValue="market">
-                          <SelectTrigger className="w-32">
-                            <SelectValue placeholder="Order type" />
-                          </SelectTrigger>
-                          <SelectContent>
-                            <SelectItem value="market">Market</SelectItem>
-                            <SelectItem value="limit">Limit</SelectItem>
-                          </SelectContent>
-                        </Select>
-                        <Input 
-                          type="number" 
-                          placeholder="Amount" 
-                          className="flex-1"
-                          min="0.001"
-                          step="0.001"
-                        />
-                        <Button variant="default" className="bg-green-600 hover:bg-green-700">Buy</Button>
-                        <Button variant="destructive">Sell</Button>
-                      </div>
+                    <div className="mt-6">
+                      <OrderTicket defaultSymbol={tradingSettings?.symbol} />
                     </div>
                   </CardContent>
                   <CardFooter className="border-t border-gray-100 pt-4">
@@ -938,45 +1140,69 @@ export default function DashboardPage() {
                   </CardFooter>
                 </Card>
 
+                <AdvancedOrders defaultSymbol={tradingSettings?.symbol} />
+
+                <ApiCredentials />
+
+                <StrategyParams
+                  tradingParams={tradingSettings?.tradingParams}
+                  defaultStrategy={tradingSettings?.strategy}
+                  disabled={tradingStatus?.isActive}
+                  isSaving={updateSettingsMutation.isPending}
+                  onSave={(tradingParams) => handleUpdateSettings("tradingParams", tradingParams)}
+                />
+
+                <ProtectionSettings
+                  tradingParams={tradingSettings?.tradingParams}
+                  defaultStrategy={tradingSettings?.strategy}
+                  disabled={tradingStatus?.isActive}
+                  isSaving={updateSettingsMutation.isPending}
+                  onSave={(tradingParams) => handleUpdateSettings("tradingParams", tradingParams)}
+                />
+
+                <RiskSettings
+                  tradingParams={tradingSettings?.tradingParams}
+                  disabled={tradingStatus?.isActive}
+                  isSaving={updateSettingsMutation.isPending}
+                  onSave={(tradingParams) => handleUpdateSettings("tradingParams", tradingParams)}
+                />
+
+                <SizingSettings
+                  tradingParams={tradingSettings?.tradingParams}
+                  disabled={tradingStatus?.isActive}
+                  isSaving={updateSettingsMutation.isPending}
+                  onSave={(tradingParams) => handleUpdateSettings("tradingParams", tradingParams)}
+                />
+
+                <UniverseSettings
+                  tradingParams={tradingSettings?.tradingParams}
+                  disabled={tradingStatus?.isActive}
+                  isSaving={updateSettingsMutation.isPending}
+                  onSave={(tradingParams) => handleUpdateSettings("tradingParams", tradingParams)}
+                />
+
+                <PairScoringSettings
+                  tradingParams={tradingSettings?.tradingParams}
+                  disabled={tradingStatus?.isActive}
+                  isSaving={updateSettingsMutation.isPending}
+                  onSave={(tradingParams) => handleUpdateSettings("tradingParams", tradingParams)}
+                />
+
+                <TrendFilterSettings
+                  tradingParams={tradingSettings?.tradingParams}
+                  tradingTimeframe={tradingSettings?.timeframe}
+                  disabled={tradingStatus?.isActive}
+                  isSaving={updateSettingsMutation.isPending}
+                  onSave={(tradingParams) => handleUpdateSettings("tradingParams", tradingParams)}
+                />
+
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                  <Card>
-                    <CardHeader>
-                      <CardTitle className="flex items-center">
-                        <Bot className="h-5 w-5 mr-2 text-blue-500" />
-                        AI Strategy Weights
-                      </CardTitle>
-                      <CardDescription>Adjust the importance of each model in the ensemble</CardDescription>
-                    </CardHeader>
-                    <CardContent>
-                      <div className="space-y-6">
-                        <div>
-                          <div className="flex justify-between text-sm mb-2">
-                            <span className="font-medium">LSTM Model</span>
-                            <span>33%</span>
-                          </div>
-                          <Slider defaultValue={[33]} max={100} step={1} className="h-2" />
-                        </div>
-                        <div>
-                          <div className="flex justify-between text-sm mb-2">
-                            <span className="font-medium">Trading AI</span>
-                            <span>33%</span>
-                          </div>
-                          <Slider defaultValue={[33]} max={100} step={1} className="h-2" />
-                        </div>
-                        <div>
-                          <div className="flex justify-between text-sm mb-2">
-                            <span className="font-medium">Reinforcement Learning</span>
-                            <span>34%</span>
-                          </div>
-                          <Slider defaultValue={[34]} max={100} step={1} className="h-2" />
-                        </div>
-                        
-                        <Button variant="outline" className="w-full mt-4">
-                          Update Strategy
-                        </Button>
-                      </div>
-                    </CardContent>
-                  </Card>
+                  <EnsembleWeights
+                    tradingParams={tradingSettings?.tradingParams}
+                    disabled={tradingStatus?.isActive}
+                    isSaving={updateSettingsMutation.isPending}
+                    onSave={(tradingParams) => handleUpdateSettings("tradingParams", tradingParams)}
+                  />
                   
                   <Card>
                     <CardHeader>
@@ -997,28 +1223,16 @@ export default function DashboardPage() {
                           />
                         </div>
                         
-                        <div className="space-y-3 mt-4">
-                          <div>
-                            <div className="flex justify-between text-sm mb-2">
-                              <span className="font-medium">BTC/USDT</span>
-                              <span>30%</span>
+                        <div className="space-y-3 mt-4 max-h-64 overflow-y-auto">
+                          {(universePairs || []).map((pair) => (
+                            <div key={pair.symbol}>
+                              <div className="flex justify-between text-sm mb-2">
+                                <span className="font-medium">{formatPair(pair.symbol)}</span>
+                                <span>{Math.round(pair.weight * 100)}%</span>
+                              </div>
+                              <Slider value={[Math.round(pair.weight * 100)]} max={100} step={1} disabled className="h-2" />
                             </div>
-                            <Slider defaultValue={[30]} max={100} step={1} disabled className="h-2" />
-                          </div>
-                          <div>
-                            <div className="flex justify-between text-sm mb-2">
-                              <span className="font-medium">ETH/USDT</span>
-                              <span>25%</span>
-                            </div>
-                            <Slider defaultValue={[25]} max={100} step={1} disabled className="h-2" />
-                          </div>
-                          <div>
-                            <div className="flex justify-between text-sm mb-2">
-                              <span className="font-medium">BNB/USDT</span>
-                              <span>20%</span>
-                            </div>
-                            <Slider defaultValue={[20]} max={100} step={1} disabled className="h-2" />
-                          </div>
+                          ))}
                         </div>
                         
                         <div className="bg-blue-50 p-3 rounded-md mt-2">
@@ -1061,16 +1275,16 @@ export default function DashboardPage() {
                       <canvas id="tradingChart" ref={chartRef}></canvas>
                     </div>
                     <div className="mt-4 grid grid-cols-3 gap-3">
-                      {["BTCUSDT", "ETHUSDT", "BNBUSDT"].map((symbol) => (
+                      {(universePairs || []).slice(0, 3).map((pair) => (
                         <div 
-                          key={symbol}
+                          key={pair.symbol}
                           className={`p-2 rounded-md flex items-center justify-between ${
-                            symbol === "BTCUSDT" ? "bg-blue-50 border border-blue-200" : "bg-gray-50 border border-gray-200"
+                            pair.symbol === tradingSettings?.symbol ? "bg-blue-50 border border-blue-200" : "bg-gray-50 border border-gray-200"
                           }`}
                         >
-                          <span className="font-medium">{symbol.replace("USDT", "")}</span>
-                          <Badge variant={Math.random() > 0.5 ? "default" : "destructive"}>
-                            {(Math.random() * 2 - 1).toFixed(2)}%
+                          <span className="font-medium">{formatPair(pair.symbol).split("/")[0]}</span>
+                          <Badge variant={pair.change24h >= 0 ? "default" : "destructive"}>
+                            {pair.change24h.toFixed(2)}%
                           </Badge>
                         </div>
                       ))}
@@ -1112,6 +1326,7 @@ export default function DashboardPage() {
                                   <TableHead>Quantity</TableHead>
                                   <TableHead>Current P/L</TableHead>
                                   <TableHead>Opened At</TableHead>
+                                  <TableHead></TableHead>
                                 </TableRow>
                               </TableHeader>
                               <TableBody>
@@ -1122,11 +1337,26 @@ export default function DashboardPage() {
                                       {trade.side.toUpperCase()}
                                     </TableCell>
                                     <TableCell>{formatCurrency(trade.entryPrice)}</TableCell>
-                                    <TableCell>{trade.quantity}</TableCell>
+                                    <TableCell>
+                                      <div className="flex items-center">
+                                        {trade.quantity}
+                                        <ReconciliationWarning trade={trade} />
+                                      </div>
+                                    </TableCell>
                                     <TableCell className={getPnlColor(trade.pnl)}>
                                       {formatCurrency(trade.pnl)} ({formatPercentage(trade.pnlPercentage)})
                                     </TableCell>
                                     <TableCell>{formatDate(trade.openedAt)}</TableCell>
+                                    <TableCell>
+                                      <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => closeTradeMutation.mutate(trade.id)}
+                                        disabled={closeTradeMutation.isPending}
+                                      >
+                                        Close
+                                      </Button>
+                                    </TableCell>
                                   </TableRow>
                                 ))}
                               </TableBody>
@@ -1140,49 +1370,62 @@ export default function DashboardPage() {
                       </TabsContent>
                       
                       <TabsContent value="closed">
-                        <div className="overflow-x-auto">
-                          <Table>
-                            <TableHeader>
-                              <TableRow>
-                                <TableHead>Symbol</TableHead>
-                                <TableHead>Side</TableHead>
-                                <TableHead>Result</TableHead>
-                                <TableHead>Profit/Loss</TableHead>
-                                <TableHead>Closed At</TableHead>
-                              </TableRow>
-                            </TableHeader>
-                            <TableBody>
-                              {/* Sample closed trades for demonstration */}
-                              <TableRow>
-                                <TableCell className="font-medium">BTCUSDT</TableCell>
-                                <TableCell className="text-green-600">BUY</TableCell>
-                                <TableCell>
-                                  <Badge variant="outline" className="bg-green-50 text-green-600 hover:bg-green-50">PROFIT</Badge>
-                                </TableCell>
-                                <TableCell className="text-green-600">+$245.32 (+2.3%)</TableCell>
-                                <TableCell>2023-04-19 14:32:45</TableCell>
-                              </TableRow>
-                              <TableRow>
-                                <TableCell className="font-medium">ETHUSDT</TableCell>
-                                <TableCell className="text-red-600">SELL</TableCell>
-                                <TableCell>
-                                  <Badge variant="outline" className="bg-red-50 text-red-600 hover:bg-red-50">LOSS</Badge>
-                                </TableCell>
-                                <TableCell className="text-red-600">-$86.75 (-1.2%)</TableCell>
-                                <TableCell>2023-04-18 09:15:22</TableCell>
-                              </TableRow>
-                              <TableRow>
-                                <TableCell className="font-medium">BNBUSDT</TableCell>
-                                <TableCell className="text-green-600">BUY</TableCell>
-                                <TableCell>
-                                  <Badge variant="outline" className="bg-green-50 text-green-600 hover:bg-green-50">PROFIT</Badge>
-                                </TableCell>
-                                <TableCell className="text-green-600">+$132.50 (+3.4%)</TableCell>
-                                <TableCell>2023-04-17 18:47:03</TableCell>
-                              </TableRow>
-                            </TableBody>
-                          </Table>
-                        </div>
+                        {isAllTradesLoading ? (
+                          <div className="animate-pulse space-y-4">
+                            <div className="h-12 bg-gray-200 rounded"></div>
+                            <div className="h-12 bg-gray-200 rounded"></div>
+                          </div>
+                        ) : closedTrades.length > 0 ? (
+                          <div className="overflow-x-auto">
+                            <Table>
+                              <TableHeader>
+                                <TableRow>
+                                  <TableHead>Symbol</TableHead>
+                                  <TableHead>Side</TableHead>
+                                  <TableHead>Entry / Exit</TableHead>
+                                  <TableHead>Result</TableHead>
+                                  <TableHead>Profit/Loss</TableHead>
+                                  <TableHead>Exit</TableHead>
+                                  <TableHead>Closed At</TableHead>
+                                </TableRow>
+                              </TableHeader>
+                              <TableBody>
+                                {closedTrades.map((trade) => (
+                                  <TableRow key={trade.id}>
+                                    <TableCell className="font-medium">{trade.symbol}</TableCell>
+                                    <TableCell className={trade.side === 'buy' ? 'text-green-600' : 'text-red-600'}>
+                                      {trade.side.toUpperCase()}
+                                    </TableCell>
+                                    <TableCell>
+                                      {formatCurrency(trade.entryPrice)} / {formatCurrency(trade.exitPrice)}
+                                    </TableCell>
+                                    <TableCell>
+                                      {parseFloat(trade.pnl || "0") >= 0 ? (
+                                        <Badge variant="outline" className="bg-green-50 text-green-600 hover:bg-green-50">PROFIT</Badge>
+                                      ) : (
+                                        <Badge variant="outline" className="bg-red-50 text-red-600 hover:bg-red-50">LOSS</Badge>
+                                      )}
+                                    </TableCell>
+                                    <TableCell className={getPnlColor(trade.pnl)}>
+                                      {formatCurrency(trade.pnl)} ({formatPercentage(trade.pnlPercentage)})
+                                    </TableCell>
+                                    <TableCell>
+                                      <Badge variant="outline">
+                                        {(trade.tradeData?.exitReason || "-").replace("_", " ")}
+                                      </Badge>
+                                      <ReconciliationWarning trade={trade} />
+                                    </TableCell>
+                                    <TableCell>{formatDate(trade.closedAt)}</TableCell>
+                                  </TableRow>
+                                ))}
+                              </TableBody>
+                            </Table>
+                          </div>
+                        ) : (
+                          <div className="text-center py-8 text-gray-500">
+                            No closed trades yet
+                          </div>
+                        )}
                       </TabsContent>
                     </Tabs>
                   </CardContent>
@@ -1257,8 +1500,35 @@ export default function DashboardPage() {
                       Emergency Controls
                     </CardTitle>
                   </CardHeader>
-                  <CardContent>
-                    <Button variant="destructive" className="w-full">Emergency Stop All Trading</Button>
+                  <CardContent className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <label className="text-sm text-gray-700">Also close all open positions</label>
+                      <Switch checked={flattenOnStop} onCheckedChange={setFlattenOnStop} />
+                    </div>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button variant="destructive" className="w-full" disabled={killSwitchMutation.isPending}>
+                          {killSwitchMutation.isPending ? "Stopping..." : "Emergency Stop All Trading"}
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Stop all trading?</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            The bot is stopped and trading disabled, and every resting order is cancelled.
+                            {flattenOnStop
+                              ? " All open positions are closed at market."
+                              : " Open positions are left as they are."}
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => killSwitchMutation.mutate(flattenOnStop)}>
+                            Stop Everything
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
                   </CardContent>
                 </Card>
                 
@@ -1288,6 +1558,19 @@ export default function DashboardPage() {
               </div>
             )}
 
+            {/* Decisions Tab */}
+            {activeTab === "decisions" && <DecisionTimeline />}
+
+            {/* Backtests Tab */}
+            {activeTab === "backtests" && (
+              <BacktestPanel
+                defaultSymbol={tradingSettings?.symbol}
+                defaultTimeframe={tradingSettings?.timeframe}
+                confidenceThreshold={tradingStatus?.confidenceThreshold ?? confidence}
+                riskPerTrade={tradingSettings?.riskPerTrade}
+              />
+            )}
+
             {/* Settings Tab */}
             {activeTab === "settings" && (
               <Card>
@@ -1297,6 +1580,48 @@ export default function DashboardPage() {
                 </CardHeader>
                 <CardContent className="space-y-6">
                   <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-gray-700">Market</label>
+                      <Select
+                        value={tradingSettings?.marketType || "spot"}
+                        onValueChange={(value) => handleUpdateSettings("marketType", value)}
+                        disabled={tradingStatus?.isActive || tradingSettings?.tradingMode === "paper"}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select market" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="spot">Spot</SelectItem>
+                          <SelectItem value="futures">USDT-M Futures</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-gray-500">
+                        {tradingSettings?.tradingMode === "paper"
+                          ? "Paper trading simulates spot only."
+                          : "Futures can open short positions and apply the leverage below."}
+                      </p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <label className="text-sm font-medium text-gray-700">Margin Mode</label>
+                      <Select
+                        value={tradingSettings?.marginMode || "crossed"}
+                        onValueChange={(value) => handleUpdateSettings("marginMode", value)}
+                        disabled={tradingStatus?.isActive || tradingSettings?.marketType !== "futures"}
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select margin mode" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="crossed">Cross</SelectItem>
+                          <SelectItem value="isolated">Isolated</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-gray-500">
+                        Isolated margin limits a liquidation to the margin of that position.
+                      </p>
+                    </div>
+
                     <div className="space-y-2">
                       <label className="text-sm font-medium text-gray-700">Leverage Level</label>
                       <Select 
@@ -1313,10 +1638,11 @@ export default function DashboardPage() {
                           <SelectItem value="3">3x</SelectItem>
                           <SelectItem value="5">5x</SelectItem>
                           <SelectItem value="10">10x</SelectItem>
+                          <SelectItem value="20">20x</SelectItem>
                         </SelectContent>
                       </Select>
                       <p className="text-xs text-gray-500">
-                        Higher leverage increases both potential profits and risks.
+                        Applies to futures only. Higher leverage increases both potential profits and risks.
                       </p>
                     </div>
                   </div>
@@ -1,6 +1,12 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { protectionWatcher } from "./services/protection-service";
+import { orderReconciler } from "./services/order-reconciler";
+import { candleStore } from "./services/candle-store";
+import { futuresPositionTracker } from "./services/futures-position-tracker";
+import { orderEngine } from "./services/order-engine";
+import { tradingService } from "./services/trading-service";
 
 const app = express();
 app.use(express.json());
@@ -68,5 +74,17 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on ${HOST}:${PORT} in ${process.env.NODE_ENV || 'development'} mode`);
+
+    // Start background workers
+    protectionWatcher.start();
+    orderReconciler.start();
+    candleStore.start();
+    futuresPositionTracker.start();
+    orderEngine.start();
+
+    // Bots only live in memory, so restart the ones that were running before shutdown
+    tradingService.resumeBots().catch((error) => {
+      console.error("Error resuming trading bots:", error);
+    });
   });
 })();
\ No newline at end of file
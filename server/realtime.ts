@@ -0,0 +1,204 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { RequestHandler, Request, Response } from "express";
+import type session from "express-session";
+import { WebSocketServer, WebSocket } from "ws";
+import { REALTIME_PATH, realtimeClientMessageSchema, type RealtimeMessage } from "@shared/realtime";
+import { eventBus } from "./services/event-bus";
+import { bitgetService, type MarketData } from "./services/bitget-service";
+import { getExchangeForUser } from "./services/exchange";
+import { DEFAULT_UNIVERSE } from "./services/universe-service";
+
+// Symbols every client gets tickers for until it subscribes to its own universe
+const DEFAULT_TICKER_SYMBOLS = DEFAULT_UNIVERSE.map(pair => pair.symbol);
+
+const TICKER_INTERVAL_MS = 10000; // 10 seconds
+const BALANCE_INTERVAL_MS = 30000; // 30 seconds
+const HEARTBEAT_INTERVAL_MS = 30000; // 30 seconds
+
+// An upgrade request after the session middleware has loaded the login session into it
+type SessionRequest = IncomingMessage & {
+  session?: session.Session & { passport?: { user?: number } };
+};
+
+interface ClientState {
+  userId: number;
+  symbols: Set<string>;
+  isAlive: boolean;
+}
+
+/**
+ * WebSocket push channel: fans events from the event bus out to the sockets of the
+ * authenticated user they belong to, and polls tickers and balances while clients are connected.
+ */
+export class RealtimeHub {
+  private wss = new WebSocketServer({ noServer: true });
+  private clients = new Map<WebSocket, ClientState>();
+  private intervals: NodeJS.Timeout[] = [];
+  private unsubscribers: (() => void)[] = [];
+
+  constructor(private sessionMiddleware: RequestHandler) {}
+
+  /**
+   * Accept upgrades on the realtime path and start publishing
+   */
+  attach(server: Server): void {
+    server.on("upgrade", (req, socket, head) => {
+      // Other upgrade requests (e.g. the Vite HMR socket) are handled elsewhere
+      const { pathname } = new URL(req.url || "", "http://localhost");
+      if (pathname !== REALTIME_PATH) return;
+
+      this.handleUpgrade(req, socket, head);
+    });
+
+    this.unsubscribers.push(
+      eventBus.subscribe("balance", ({ userId, balance }) => this.sendToUser(userId, { type: "balance", data: balance, timestamp: Date.now() })),
+      eventBus.subscribe("ticker", (ticker) => this.sendTicker(ticker)),
+      eventBus.subscribe("signal", ({ userId, signal }) => this.sendToUser(userId, { type: "signal", data: signal, timestamp: Date.now() })),
+      eventBus.subscribe("trade", ({ userId, event, trade }) => this.sendToUser(userId, { type: "trade", data: { event, trade }, timestamp: Date.now() })),
+      eventBus.subscribe("bot", ({ userId, isActive }) => this.sendToUser(userId, { type: "bot", data: { isActive }, timestamp: Date.now() }))
+    );
+
+    this.intervals.push(
+      setInterval(() => this.pollTickers(), TICKER_INTERVAL_MS),
+      setInterval(() => this.pollBalances(), BALANCE_INTERVAL_MS),
+      setInterval(() => this.heartbeat(), HEARTBEAT_INTERVAL_MS)
+    );
+  }
+
+  close(): void {
+    this.intervals.forEach(clearInterval);
+    this.intervals = [];
+    this.unsubscribers.forEach(unsubscribe => unsubscribe());
+    this.unsubscribers = [];
+    this.wss.close();
+  }
+
+  private handleUpgrade(req: SessionRequest, socket: Duplex, head: Buffer): void {
+    // Reuse the express session so the socket is authenticated with the login cookie
+    this.sessionMiddleware(req as Request, {} as Response, () => {
+      const userId = req.session?.passport?.user;
+      if (!userId) {
+        socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+        socket.destroy();
+        return;
+      }
+
+      this.wss.handleUpgrade(req, socket, head, (ws) => this.handleConnection(ws, userId));
+    });
+  }
+
+  private handleConnection(ws: WebSocket, userId: number): void {
+    const state: ClientState = { userId, symbols: new Set(DEFAULT_TICKER_SYMBOLS), isAlive: true };
+    this.clients.set(ws, state);
+
+    ws.on("pong", () => {
+      state.isAlive = true;
+    });
+
+    ws.on("message", (raw) => {
+      try {
+        const parsed = realtimeClientMessageSchema.safeParse(JSON.parse(raw.toString()));
+        if (!parsed.success) return;
+
+        if (parsed.data.type === "subscribe") {
+          state.symbols = new Set(parsed.data.symbols.map(s => s.toUpperCase()));
+        }
+      } catch (error) {
+        // Ignore malformed client messages
+      }
+    });
+
+    ws.on("close", () => {
+      this.clients.delete(ws);
+    });
+
+    ws.on("error", (error) => {
+      console.error(`Realtime socket error for user ${userId}:`, error);
+    });
+
+    // Send a first balance snapshot right away instead of waiting for the next poll
+    this.pushBalance(userId);
+  }
+
+  private send(ws: WebSocket, message: RealtimeMessage): void {
+    if (ws.readyState === WebSocket.OPEN) {
+      ws.send(JSON.stringify(message));
+    }
+  }
+
+  private sendToUser(userId: number, message: RealtimeMessage): void {
+    this.clients.forEach((state, ws) => {
+      if (state.userId === userId) {
+        this.send(ws, message);
+      }
+    });
+  }
+
+  private sendTicker(ticker: MarketData): void {
+    const message: RealtimeMessage = { type: "ticker", data: ticker, timestamp: Date.now() };
+    this.clients.forEach((state, ws) => {
+      if (state.symbols.has(ticker.symbol)) {
+        this.send(ws, message);
+      }
+    });
+  }
+
+  private async pollTickers(): Promise<void> {
+    if (this.clients.size === 0) return;
+
+    // One lookup per symbol, however many clients follow it
+    const symbols = new Set<string>();
+    this.clients.forEach(state => state.symbols.forEach(symbol => symbols.add(symbol)));
+
+    for (const symbol of Array.from(symbols)) {
+      try {
+        eventBus.publish("ticker", await bitgetService.getMarketData(symbol));
+      } catch (error) {
+        console.warn(`Realtime ticker update failed for ${symbol}:`, error);
+      }
+    }
+  }
+
+  private async pollBalances(): Promise<void> {
+    const userIds = new Set<number>();
+    this.clients.forEach(state => userIds.add(state.userId));
+
+    for (const userId of Array.from(userIds)) {
+      await this.pushBalance(userId);
+    }
+  }
+
+  private async pushBalance(userId: number): Promise<void> {
+    try {
+      const exchange = await getExchangeForUser(userId);
+      if (!exchange.isReady()) return;
+
+      eventBus.publish("balance", { userId, balance: await exchange.getAccountBalance() });
+    } catch (error) {
+      console.warn(`Realtime balance update failed for user ${userId}:`, error);
+    }
+  }
+
+  private heartbeat(): void {
+    // Drop sockets that did not answer the previous ping
+    this.clients.forEach((state, ws) => {
+      if (!state.isAlive) {
+        ws.terminate();
+        this.clients.delete(ws);
+        return;
+      }
+      state.isAlive = false;
+      ws.ping();
+    });
+  }
+}
+
+/**
+ * Attach the realtime push channel to the HTTP server
+ */
+export function setupRealtime(server: Server, sessionMiddleware: RequestHandler): RealtimeHub {
+  const hub = new RealtimeHub(sessionMiddleware);
+  hub.attach(server);
+  return hub;
+}
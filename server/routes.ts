@@ -1,12 +1,85 @@
-import type { Express, Request, Response, NextFunction } from "express";
+import express, { type Express, type Request, type Response, type NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { setupAuth } from "./auth";
+import { setupRealtime } from "./realtime";
 import { storage } from "./storage";
-import { bitgetService } from "./services/bitget-service";
 import { tradingService } from "./services/trading-service";
+import { tradingScheduler } from "./services/trading-scheduler";
+import { getExchangeForUser, getAccountKey, getMarketType, getTradingMode } from "./services/exchange";
+import { credentialsService } from "./services/credentials-service";
+import { positionManager, TradeNotOpenError } from "./services/position-manager";
+import { orderService } from "./services/order-service";
+import { orderEngine, orderGroupRequestSchema } from "./services/order-engine";
+import { protectionSettingsSchema } from "./services/protection-service";
+import { riskEngine, riskLimitsSchema, getRiskLimits } from "./services/risk-engine";
+import { trendFilterSchema } from "./services/trend-filter";
+import { sizingConfigSchema, getSizingConfig } from "./services/position-sizing";
+import { universeService, universeConfigSchema, universePairsRequestSchema, getUniverseConfig, UniverseError } from "./services/universe-service";
+import { bitgetService } from "./services/bitget-service";
+import { pairRankingService, pairScoringSchema, getPairScoringConfig } from "./services/pair-ranking";
+import { intervalToMs } from "./services/candle-store";
+import { OrderRejectedError } from "./services/instruments";
+import { strategyRegistry, strategyParamsSettingsSchema } from "./services/strategies";
+import { backtestService, DEFAULT_BACKTEST_CONFIG, BacktestDataError } from "./services/backtest-service";
+import { candleImportOptionsSchema, importCandles, CandleFileError } from "./services/candle-import";
 import { z } from "zod";
 import { insertTradingSettingsSchema } from "@shared/schema";
 
+const backtestRequestSchema = z.object({
+  symbol: z.string().min(1).default("BTCUSDT"),
+  timeframe: z.enum(["15m", "1h", "4h", "1d"]).default("1h"),
+  strategy: z.string().refine((name) => strategyRegistry.has(name), { message: "Unknown strategy" }),
+  strategyParams: z.record(z.string(), z.unknown()).optional(),
+  riskPerTrade: z.coerce.string().default(DEFAULT_BACKTEST_CONFIG.riskPerTrade),
+  confidenceThreshold: z.number().min(0).max(100).optional(),
+  initialBalance: z.number().positive().default(DEFAULT_BACKTEST_CONFIG.initialBalance),
+  feeRate: z.number().min(0).max(0.05).default(DEFAULT_BACKTEST_CONFIG.feeRate),
+  slippage: z.number().min(0).max(0.05).default(DEFAULT_BACKTEST_CONFIG.slippage),
+  maxConcurrentTrades: z.number().int().min(1).max(20).default(DEFAULT_BACKTEST_CONFIG.maxConcurrentTrades),
+  candleLimit: z.number().int().min(100).max(10000).default(DEFAULT_BACKTEST_CONFIG.candleLimit),
+  sizing: sizingConfigSchema.optional()
+});
+
+const credentialsRequestSchema = z.object({
+  apiKey: z.string().trim().min(1),
+  apiSecret: z.string().trim().min(1),
+  passphrase: z.string().trim().min(1)
+});
+
+const decisionsQuerySchema = z.object({
+  symbol: z.string().trim().toUpperCase().optional(),
+  strategy: z.string().optional(),
+  action: z.enum(["EXECUTED", "CLOSED_POSITIONS", "SKIPPED", "FAILED"]).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(50)
+});
+
+const pairRankingQuerySchema = z.object({
+  strategy: z.string().min(1).optional()
+});
+
+const killSwitchRequestSchema = z.object({
+  flatten: z.boolean().default(false)
+});
+
+const positiveDecimal = z.coerce.string().refine((value) => Number(value) > 0, { message: "Must be a positive number" });
+
+const manualOrderRequestSchema = z.object({
+  symbol: z.string().trim().toUpperCase().min(1),
+  side: z.enum(["buy", "sell"]),
+  orderType: z.enum(["market", "limit"]).default("market"),
+  size: positiveDecimal,
+  price: positiveDecimal.optional(),
+  postOnly: z.boolean().optional()
+}).refine((order) => order.orderType === "market" || order.price !== undefined, {
+  message: "Limit orders require a price",
+  path: ["price"]
+}).refine((order) => !order.postOnly || order.orderType === "limit", {
+  message: "Only limit orders can be post-only",
+  path: ["postOnly"]
+});
+
 // Middleware to ensure user is authenticated
 function ensureAuthenticated(req: Request, res: Response, next: NextFunction) {
   if (req.isAuthenticated()) {
@@ -15,9 +88,19 @@ function ensureAuthenticated(req: Request, res: Response, next: NextFunction) {
   res.status(401).json({ error: "Unauthorized" });
 }
 
+// Imported candles land in the store every user's bots and backtests read, so only the
+// usernames listed in CANDLE_IMPORT_USERS (comma separated) may import over HTTP
+function ensureCandleImporter(req: Request, res: Response, next: NextFunction) {
+  const importers = (process.env.CANDLE_IMPORT_USERS || "").split(",").map((name) => name.trim()).filter(Boolean);
+  if (req.user && importers.includes(req.user.username)) {
+    return next();
+  }
+  res.status(403).json({ error: "Not allowed to import candles" });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up authentication routes
-  setupAuth(app);
+  const sessionMiddleware = setupAuth(app);
 
   // Health check endpoint
   app.get("/api/health", (req, res) => {
@@ -29,8 +112,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
     const forceRefresh = req.query.refresh === 'true';
     try {
       const userId = req.user!.id;
+      const exchange = await getExchangeForUser(userId);
 
-      if (!bitgetService.isReady()) {
+      if (!exchange.isReady()) {
         // If Bitget is not initialized, get from database
         const latestBalance = await storage.getLatestBalance(userId);
         if (!latestBalance) {
@@ -54,15 +138,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Try to get from Bitget
+      // Try to get from the exchange (Bitget or the paper account)
       try {
-        const balance = await bitgetService.getAccountBalance();
+        const balance = await exchange.getAccountBalance();
 
         // Save the balance to the database
         await storage.saveBalance({
           userId,
           totalBalance: balance.totalBalance,
           availableBalance: balance.availableBalance,
+          account: getAccountKey(await storage.getTradingSettings(userId)),
           balanceData: {
             frozenBalance: balance.frozenBalance,
             unrealizedPnl: balance.unrealizedPnl,
@@ -132,9 +217,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Invalid settings", details: validationResult.error });
       }
 
+      // Validate per-strategy stop-loss / take-profit / trailing-stop settings
+      const tradingParams = (validationResult.data.tradingParams || {}) as Record<string, any>;
+      if (tradingParams.protection !== undefined) {
+        const protectionResult = protectionSettingsSchema.safeParse(tradingParams.protection);
+        if (!protectionResult.success) {
+          return res.status(400).json({ error: "Invalid protection settings", details: protectionResult.error });
+        }
+      }
+
+      // Validate portfolio risk limits
+      if (tradingParams.risk !== undefined) {
+        const riskResult = riskLimitsSchema.partial().safeParse(tradingParams.risk);
+        if (!riskResult.success) {
+          return res.status(400).json({ error: "Invalid risk limits", details: riskResult.error });
+        }
+      }
+
+      // Validate per-strategy parameters against each strategy's schema
+      if (tradingParams.strategies !== undefined) {
+        const strategiesResult = strategyParamsSettingsSchema.safeParse(tradingParams.strategies);
+        if (!strategiesResult.success) {
+          return res.status(400).json({ error: "Invalid strategy parameters", details: strategiesResult.error });
+        }
+      }
+
+      // Validate the position sizing model
+      if (tradingParams.sizing !== undefined) {
+        const sizingResult = sizingConfigSchema.safeParse(tradingParams.sizing);
+        if (!sizingResult.success) {
+          return res.status(400).json({ error: "Invalid position sizing", details: sizingResult.error });
+        }
+      }
+
+      // Validate the trading universe rules
+      if (tradingParams.universe !== undefined) {
+        const universeResult = universeConfigSchema.safeParse(tradingParams.universe);
+        if (!universeResult.success) {
+          return res.status(400).json({ error: "Invalid trading universe", details: universeResult.error });
+        }
+      }
+
+      // Validate the pair scoring formula
+      if (tradingParams.pairScoring !== undefined) {
+        const pairScoringResult = pairScoringSchema.safeParse(tradingParams.pairScoring);
+        if (!pairScoringResult.success) {
+          return res.status(400).json({ error: "Invalid pair scoring", details: pairScoringResult.error });
+        }
+      }
+
+      // Validate the higher-timeframe trend filter
+      let trendFilterTimeframe: string | null = null;
+      if (tradingParams.trendFilter !== undefined) {
+        const trendFilterResult = trendFilterSchema.safeParse(tradingParams.trendFilter);
+        if (!trendFilterResult.success) {
+          return res.status(400).json({ error: "Invalid trend filter", details: trendFilterResult.error });
+        }
+        trendFilterTimeframe = trendFilterResult.data.timeframe;
+      }
+
       // Check if settings already exist
       const existingSettings = await storage.getTradingSettings(userId);
 
+      // The trend filter only confirms anything when it reads a longer timeframe than the one traded
+      const timeframe = validationResult.data.timeframe ?? existingSettings?.timeframe ?? "15m";
+      if (trendFilterTimeframe && intervalToMs(trendFilterTimeframe) <= intervalToMs(timeframe)) {
+        return res.status(400).json({ error: "Trend filter timeframe must be longer than the trading timeframe" });
+      }
+
+      // Paper trading simulates spot only
+      const tradingMode = validationResult.data.tradingMode ?? existingSettings?.tradingMode;
+      const marketType = validationResult.data.marketType ?? existingSettings?.marketType;
+      if (getTradingMode(tradingMode) === "paper" && getMarketType(marketType) === "futures") {
+        return res.status(400).json({ error: "Futures trading is only available in live mode" });
+      }
+
       if (existingSettings) {
         // Update existing settings
         const updatedSettings = await storage.updateTradingSettings(
@@ -168,7 +325,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           strategy: "MACD",
           riskPerTrade: "1",
           leverageLevel: 1,
-          enabledTrading: false
+          enabledTrading: false,
+          tradingMode: "live",
+          marketType: "spot",
+          marginMode: "crossed"
         });
       }
 
@@ -179,6 +339,48 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Exchange API credentials endpoints (secrets are never returned)
+  app.get("/api/credentials", ensureAuthenticated, async (req, res) => {
+    try {
+      const status = await credentialsService.getStatus(req.user!.id);
+      res.status(200).json(status);
+    } catch (error) {
+      console.error("Error getting credentials status:", error);
+      res.status(500).json({ error: "Failed to get credentials status" });
+    }
+  });
+
+  app.post("/api/credentials", ensureAuthenticated, async (req, res) => {
+    const validationResult = credentialsRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid credentials", details: validationResult.error });
+    }
+
+    try {
+      const status = await credentialsService.saveCredentials(req.user!.id, validationResult.data);
+      res.status(200).json(status);
+    } catch (error: any) {
+      console.error("Error saving credentials:", error);
+      // Validation against the exchange failed or encryption is not configured
+      res.status(400).json({ error: `Failed to save credentials: ${error.message}` });
+    }
+  });
+
+  app.delete("/api/credentials", ensureAuthenticated, async (req, res) => {
+    try {
+      await credentialsService.removeCredentials(req.user!.id);
+      res.status(200).json({ configured: false });
+    } catch (error) {
+      console.error("Error removing credentials:", error);
+      res.status(500).json({ error: "Failed to remove credentials" });
+    }
+  });
+
+  // Strategy catalogue with parameter descriptions for the settings form
+  app.get("/api/strategies", ensureAuthenticated, (req, res) => {
+    res.status(200).json(strategyRegistry.describe());
+  });
+
   // Trading control endpoints
   app.get("/api/trading/status", ensureAuthenticated, async (req, res) => {
     try {
@@ -186,8 +388,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       // Get trading settings
       const settings = await storage.getTradingSettings(userId);
-      const isActive = tradingService.isActive(); // Global trading service status
+      const isActive = tradingService.isActiveForUser(userId);
       const openTrades = await storage.getOpenTrades(userId);
+      const botSession = await storage.getLatestBotSession(userId);
+      const [lastRun] = await storage.getBotRuns(userId, 1);
 
       res.status(200).json({
         isActive: isActive,
@@ -195,8 +399,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
         maxConcurrentTrades: 3, // Hardcoded to 3 as per requirement
         currentOpenTrades: openTrades.length,
         confidenceThreshold: tradingService.getConfidenceThreshold(),
-        bitgetConnected: bitgetService.isReady(),
-        settings: settings || null
+        tradingMode: getTradingMode(settings?.tradingMode),
+        bitgetConnected: (await credentialsService.getBitgetService(userId)).isReady(),
+        settings: settings || null,
+        botSession: botSession || null,
+        lastRun: lastRun || null,
+        nextRunAt: tradingScheduler.getNextRunAt(userId)
       });
     } catch (error) {
       console.error("Error getting trading status:", error);
@@ -204,10 +412,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Audit trail of the bot's trading decisions, newest first
+  app.get("/api/decisions", ensureAuthenticated, async (req, res) => {
+    const validationResult = decisionsQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid decision filters", details: validationResult.error });
+    }
+
+    try {
+      const decisions = await storage.getDecisions(req.user!.id, validationResult.data);
+      res.status(200).json(decisions);
+    } catch (error) {
+      console.error("Error getting decisions:", error);
+      res.status(500).json({ error: "Failed to get decisions" });
+    }
+  });
+
+  // Recent scheduled bot cycles with their timing and errors
+  app.get("/api/trading/runs", ensureAuthenticated, async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+      const runs = await storage.getBotRuns(req.user!.id, limit);
+      res.status(200).json(runs);
+    } catch (error) {
+      console.error("Error getting bot runs:", error);
+      res.status(500).json({ error: "Failed to get bot runs" });
+    }
+  });
+
   app.post("/api/trading/start", ensureAuthenticated, async (req, res) => {
     try {
       const userId = req.user!.id;
 
+      // Live trading needs the user's own API keys; check them before anything is saved
+      const exchange = await getExchangeForUser(userId);
+      if (!exchange.isReady()) {
+        return res.status(400).json({ error: "Add your Bitget API credentials in Settings before starting live trading" });
+      }
+
       // Make sure trading settings exist
       let settings = await storage.getTradingSettings(userId);
 
@@ -220,14 +462,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           strategy: "ENSEMBLE",
           riskPerTrade: "1",
           leverageLevel: 1,
-          enabledTrading: true
+          enabledTrading: false
         };
 
         settings = await storage.createTradingSettings(defaultSettings);
         console.log("Created default trading settings for user:", userId);
-      } else {
-        // Enable trading in existing settings
-        await storage.updateTradingSettings(settings.id, { enabledTrading: true });
       }
 
       // Start trading
@@ -237,6 +476,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ error: "Failed to start trading" });
       }
 
+      // Enabled only once the bot runs, so a failed start is not resumed on the next boot
+      await storage.updateTradingSettings(settings.id, { enabledTrading: true });
+
       res.status(200).json({ message: "Trading started successfully" });
     } catch (error) {
       console.error("Error starting trading:", error);
@@ -257,7 +499,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Stop trading regardless of settings presence
-      const success = tradingService.stopTradingForUser(userId);
+      const success = await tradingService.stopTradingForUser(userId, "MANUAL");
 
       res.status(200).json({ message: "Trading stopped successfully" });
     } catch (error) {
@@ -266,6 +508,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Current risk limits, the portfolio measured against them and recent breaches
+  app.get("/api/risk", ensureAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const settings = await storage.getTradingSettings(userId);
+      const exchange = await getExchangeForUser(userId);
+      const balance = await exchange.getAccountBalance();
+
+      res.status(200).json({
+        limits: getRiskLimits(settings?.tradingParams),
+        metrics: await riskEngine.measure(userId, getAccountKey(settings), balance),
+        events: await storage.getRiskEvents(userId)
+      });
+    } catch (error) {
+      console.error("Error getting risk status:", error);
+      res.status(500).json({ error: "Failed to get risk status" });
+    }
+  });
+
+  // Emergency stop: halts the bot, cancels resting orders and optionally flattens all positions
+  app.post("/api/risk/kill-switch", ensureAuthenticated, async (req, res) => {
+    const validationResult = killSwitchRequestSchema.safeParse(req.body || {});
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid kill switch request", details: validationResult.error });
+    }
+
+    try {
+      const result = await tradingService.activateKillSwitch(req.user!.id, validationResult.data);
+      res.status(200).json(result);
+    } catch (error) {
+      console.error("Error activating kill switch:", error);
+      res.status(500).json({ error: "Failed to activate kill switch" });
+    }
+  });
+
   // Trades endpoints
   app.get("/api/trades", ensureAuthenticated, async (req, res) => {
     try {
@@ -291,12 +568,135 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Close an open position at market
+  app.post("/api/trades/:id/close", ensureAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const trade = await storage.getTrade(userId, parseInt(req.params.id));
+
+      if (!trade) {
+        return res.status(404).json({ error: "Trade not found" });
+      }
+      if (trade.status !== "OPEN") {
+        return res.status(400).json({ error: "Trade is not open" });
+      }
+
+      const closedTrade = await positionManager.closePosition(userId, trade, "MANUAL");
+      res.status(200).json(closedTrade);
+    } catch (error) {
+      if (error instanceof OrderRejectedError) {
+        return res.status(400).json({ error: `Failed to close trade: ${error.message}` });
+      }
+      if (error instanceof TradeNotOpenError) {
+        return res.status(400).json({ error: "Trade is not open" });
+      }
+      console.error("Error closing trade:", error);
+      res.status(500).json({ error: "Failed to close trade" });
+    }
+  });
+
+  // Manual orders: placed by hand, recorded as MANUAL trades next to the bot's positions
+  app.post("/api/orders", ensureAuthenticated, async (req, res) => {
+    const validationResult = manualOrderRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid order", details: validationResult.error });
+    }
+
+    try {
+      const trade = await orderService.placeOrder(req.user!.id, validationResult.data);
+      res.status(201).json(trade);
+    } catch (error) {
+      if (error instanceof OrderRejectedError) {
+        return res.status(400).json({ error: `Order rejected: ${error.message}`, reason: error.reason });
+      }
+      console.error("Error placing order:", error);
+      res.status(500).json({ error: "Failed to place order" });
+    }
+  });
+
+  // Orders still waiting for a fill, from the bot and placed by hand
+  app.get("/api/orders", ensureAuthenticated, async (req, res) => {
+    try {
+      const orders = await orderService.getWorkingOrders(req.user!.id);
+      res.status(200).json(orders);
+    } catch (error) {
+      console.error("Error getting orders:", error);
+      res.status(500).json({ error: "Failed to get orders" });
+    }
+  });
+
+  app.delete("/api/orders/:id", ensureAuthenticated, async (req, res) => {
+    try {
+      const trade = await orderService.cancelOrder(req.user!.id, parseInt(req.params.id));
+      if (!trade) {
+        return res.status(404).json({ error: "Working order not found" });
+      }
+      res.status(200).json(trade);
+    } catch (error) {
+      console.error("Error cancelling order:", error);
+      res.status(500).json({ error: "Failed to cancel order" });
+    }
+  });
+
+  // Advanced orders (bracket, OCO, chase, TWAP, iceberg), run by the server-side order engine
+  app.post("/api/order-groups", ensureAuthenticated, async (req, res) => {
+    const validationResult = orderGroupRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid order group", details: validationResult.error });
+    }
+
+    try {
+      const group = await orderEngine.submit(req.user!.id, validationResult.data);
+      res.status(201).json(group);
+    } catch (error) {
+      console.error("Error submitting order group:", error);
+      res.status(500).json({ error: "Failed to submit order group" });
+    }
+  });
+
+  app.get("/api/order-groups", ensureAuthenticated, async (req, res) => {
+    try {
+      const groups = await orderEngine.getGroups(req.user!.id);
+      res.status(200).json(groups);
+    } catch (error) {
+      console.error("Error getting order groups:", error);
+      res.status(500).json({ error: "Failed to get order groups" });
+    }
+  });
+
+  app.get("/api/order-groups/:id", ensureAuthenticated, async (req, res) => {
+    try {
+      const group = await orderEngine.getGroup(req.user!.id, parseInt(req.params.id));
+      if (!group) {
+        return res.status(404).json({ error: "Order group not found" });
+      }
+      res.status(200).json(group);
+    } catch (error) {
+      console.error("Error getting order group:", error);
+      res.status(500).json({ error: "Failed to get order group" });
+    }
+  });
+
+  app.delete("/api/order-groups/:id", ensureAuthenticated, async (req, res) => {
+    try {
+      const group = await orderEngine.cancel(req.user!.id, parseInt(req.params.id));
+      if (!group) {
+        return res.status(404).json({ error: "Active order group not found" });
+      }
+      res.status(200).json(group);
+    } catch (error) {
+      console.error("Error cancelling order group:", error);
+      res.status(500).json({ error: "Failed to cancel order group" });
+    }
+  });
+
   // Market data endpoint
   app.get("/api/market/:symbol", ensureAuthenticated, async (req, res) => {
     try {
       const symbol = req.params.symbol || "BTCUSDT";
+      const exchange = await getExchangeForUser(req.user!.id);
 
-      const marketData = await bitgetService.getMarketData(symbol);
+      const marketData = await exchange.getMarketData(symbol);
       res.status(200).json(marketData);
     } catch (error) {
       console.error("Error getting market data:", error);
@@ -304,6 +704,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Import an OHLCV file into the candle store. The file is the raw request body (send it as text/csv
+  // or text/plain), the import options come from the query string. Bars synced from the exchange are kept.
+  app.post(
+    "/api/candles/import",
+    ensureAuthenticated,
+    ensureCandleImporter,
+    express.text({ type: () => true, limit: "50mb" }),
+    async (req, res) => {
+      const validationResult = candleImportOptionsSchema.safeParse(req.query);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Invalid import options", details: validationResult.error });
+      }
+
+      // Small JSON bodies sent as application/json arrive already parsed
+      const content = typeof req.body === "string" ? req.body : JSON.stringify(req.body ?? "");
+      if (!content.trim()) {
+        return res.status(400).json({ error: "No candle data in request body" });
+      }
+
+      try {
+        const report = await importCandles(content, validationResult.data);
+        res.status(200).json(report);
+      } catch (error: any) {
+        if (error instanceof CandleFileError) {
+          return res.status(400).json({ error: `Failed to import candles: ${error.message}` });
+        }
+        console.error("Error importing candles:", error);
+        res.status(500).json({ error: "Failed to import candles" });
+      }
+    }
+  );
+
   // Historical data processing endpoint
   app.get("/api/market/:symbol/analysis", ensureAuthenticated, async (req, res) => {
     try {
@@ -322,31 +754,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/market/pairs/active", ensureAuthenticated, async (req, res) => {
     try {
       const userId = req.user!.id;
-      const activePairs = tradingService.getActiveTradingPairs(userId);
-
-      // Get market data for each pair
-      const pairsWithData = await Promise.all(
-        activePairs.map(async (pair) => {
-          try {
-            const marketData = await bitgetService.getMarketData(pair);
-            return {
-              symbol: pair,
-              price: marketData.price,
-              change24h: marketData.change24h,
-              volume: marketData.volume24h,
-              weight: tradingService.getPairWeight(pair)
-            };
-          } catch (err) {
-            return {
-              symbol: pair,
-              price: "0",
-              change24h: "0",
-              volume: "0",
-              weight: tradingService.getPairWeight(pair)
-            };
-          }
-        })
-      );
+      const settings = await storage.getTradingSettings(userId);
+      const universe = await universeService.getUniverse(userId, settings?.tradingParams);
+
+      // Tickers are best effort: the universe is still listed while the exchange is unreachable
+      const tickers = await bitgetService.getTickers().catch((error) => {
+        console.error("Error getting tickers:", error);
+        return null;
+      });
+
+      const pairsWithData = universe.map((pair) => {
+        const ticker = tickers?.get(pair.symbol);
+        return {
+          symbol: pair.symbol,
+          price: ticker?.price ?? "0",
+          change24h: ticker?.change24h ?? 0,
+          volume: ticker?.volume24h ?? "0",
+          quoteVolume: ticker?.quoteVolume24h ?? "0",
+          weight: pair.weight
+        };
+      });
 
       res.status(200).json(pairsWithData);
     } catch (error) {
@@ -355,6 +782,78 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Rank the pairs of the user's universe for a strategy, with each pair's score breakdown
+  app.get("/api/market/pairs/ranking", ensureAuthenticated, async (req, res) => {
+    const validationResult = pairRankingQuerySchema.safeParse(req.query);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid ranking query", details: validationResult.error });
+    }
+
+    try {
+      const userId = req.user!.id;
+      const settings = await storage.getTradingSettings(userId);
+      const strategy = validationResult.data.strategy ?? settings?.strategy ?? "ENSEMBLE";
+      const scoring = getPairScoringConfig(settings?.tradingParams);
+      const universe = await universeService.getUniverse(userId, settings?.tradingParams);
+      const ranking = await pairRankingService.getRanking(userId, strategy, universe, scoring);
+
+      res.status(200).json({ strategy, scoring, ranking });
+    } catch (error) {
+      console.error("Error ranking trading pairs:", error);
+      res.status(500).json({ error: "Failed to rank trading pairs" });
+    }
+  });
+
+  // Get the user's trading universe: its rules and the symbols they resolve to
+  app.get("/api/universe", ensureAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const settings = await storage.getTradingSettings(userId);
+      const [pairs, picked] = await Promise.all([
+        universeService.getUniverse(userId, settings?.tradingParams),
+        storage.getUniversePairs(userId)
+      ]);
+
+      res.status(200).json({
+        config: getUniverseConfig(settings?.tradingParams),
+        pairs,
+        picked: picked.map((pair) => ({ symbol: pair.symbol, weight: Number(pair.weight) }))
+      });
+    } catch (error) {
+      console.error("Error getting trading universe:", error);
+      res.status(500).json({ error: "Failed to get trading universe" });
+    }
+  });
+
+  // Replace the symbols the user picked and their weights
+  app.put("/api/universe/pairs", ensureAuthenticated, async (req, res) => {
+    const validationResult = universePairsRequestSchema.safeParse(req.body);
+    if (!validationResult.success) {
+      return res.status(400).json({ error: "Invalid universe pairs", details: validationResult.error });
+    }
+
+    try {
+      const pairs = await universeService.setPairs(req.user!.id, validationResult.data.pairs);
+      res.status(200).json(pairs);
+    } catch (error: any) {
+      if (error instanceof UniverseError) {
+        return res.status(400).json({ error: error.message });
+      }
+      console.error("Error saving universe pairs:", error);
+      res.status(500).json({ error: "Failed to save universe pairs" });
+    }
+  });
+
+  // Every symbol the exchange lists, to pick a universe from
+  app.get("/api/universe/symbols", ensureAuthenticated, async (req, res) => {
+    try {
+      res.status(200).json(await universeService.listSymbols());
+    } catch (error) {
+      console.error("Error getting exchange symbols:", error);
+      res.status(500).json({ error: "Failed to get exchange symbols" });
+    }
+  });
+
   // Set confidence threshold
   app.post("/api/trading/confidence", ensureAuthenticated, async (req, res) => {
     try {
@@ -377,8 +876,95 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
 
+  // Backtest endpoints
+  app.post("/api/backtests", ensureAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+
+      const validationResult = backtestRequestSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        return res.status(400).json({ error: "Invalid backtest configuration", details: validationResult.error });
+      }
+
+      // Without explicit params or sizing the backtest uses those saved in the user's settings
+      const { strategy, strategyParams } = validationResult.data;
+      const settings = await storage.getTradingSettings(userId);
+      let resolvedParams: Record<string, any>;
+      if (strategyParams) {
+        const paramsResult = strategyRegistry.get(strategy)!.paramsSchema.safeParse(strategyParams);
+        if (!paramsResult.success) {
+          return res.status(400).json({ error: "Invalid strategy parameters", details: paramsResult.error });
+        }
+        resolvedParams = paramsResult.data;
+      } else {
+        resolvedParams = strategyRegistry.getParamsFromSettings(settings?.tradingParams, strategy);
+      }
+
+      const config = {
+        ...validationResult.data,
+        strategyParams: resolvedParams,
+        sizing: validationResult.data.sizing ?? getSizingConfig(settings?.tradingParams),
+        confidenceThreshold: validationResult.data.confidenceThreshold ?? tradingService.getConfidenceThreshold()
+      };
+
+      const result = await backtestService.run(config);
+
+      const backtest = await storage.createBacktest({
+        userId,
+        symbol: config.symbol,
+        timeframe: config.timeframe,
+        strategy: config.strategy,
+        config,
+        metrics: result.metrics,
+        results: {
+          equityCurve: result.equityCurve,
+          trades: result.trades
+        }
+      });
+
+      res.status(201).json(backtest);
+    } catch (error) {
+      if (error instanceof BacktestDataError) {
+        return res.status(400).json({ error: `Failed to run backtest: ${error.message}` });
+      }
+      console.error("Error running backtest:", error);
+      res.status(500).json({ error: "Failed to run backtest" });
+    }
+  });
+
+  app.get("/api/backtests", ensureAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : 20;
+
+      const backtests = await storage.getBacktests(userId, limit);
+      res.status(200).json(backtests);
+    } catch (error) {
+      console.error("Error getting backtests:", error);
+      res.status(500).json({ error: "Failed to get backtests" });
+    }
+  });
+
+  app.get("/api/backtests/:id", ensureAuthenticated, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const backtest = await storage.getBacktest(userId, parseInt(req.params.id));
+
+      if (!backtest) {
+        return res.status(404).json({ error: "Backtest not found" });
+      }
+
+      res.status(200).json(backtest);
+    } catch (error) {
+      console.error("Error getting backtest:", error);
+      res.status(500).json({ error: "Failed to get backtest" });
+    }
+  });
 
   const httpServer = createServer(app);
 
+  // Push channel for balances, prices, signals and trades, authenticated with the same session
+  setupRealtime(httpServer, sessionMiddleware);
+
   return httpServer;
 }
\ No newline at end of file
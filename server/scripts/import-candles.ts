@@ -0,0 +1,66 @@
+/**
+ * Import an OHLCV file into the candle store, e.g. for offline analysis and backtests:
+ *
+ *   npm run candles:import -- data/btc-15m.csv --symbol BTCUSDT --interval 15m
+ *   npm run candles:import -- export.csv --symbol ETHUSDT --interval 1h --format bitget --dry-run
+ *   npm run candles:import -- klines.json --symbol BTCUSDT --interval 1d --format json --time-column timestamp
+ *
+ * Column flags (--time-column, --open-column, ...) name the CSV header or JSON keys to read.
+ */
+import { readFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { candleImportOptionsSchema, importCandles } from '../services/candle-import';
+import { pool } from '../db';
+
+async function main() {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      symbol: { type: 'string' },
+      interval: { type: 'string' },
+      format: { type: 'string' },
+      delimiter: { type: 'string' },
+      'time-column': { type: 'string' },
+      'open-column': { type: 'string' },
+      'high-column': { type: 'string' },
+      'low-column': { type: 'string' },
+      'close-column': { type: 'string' },
+      'volume-column': { type: 'string' },
+      'time-unit': { type: 'string' },
+      'dry-run': { type: 'boolean' }
+    }
+  });
+
+  const [file] = positionals;
+  if (!file) {
+    throw new Error('Usage: import-candles <file> --symbol SYMBOL --interval INTERVAL [--format csv|bitget|json] [--dry-run]');
+  }
+
+  const validationResult = candleImportOptionsSchema.safeParse({
+    symbol: values.symbol,
+    interval: values.interval,
+    format: values.format,
+    delimiter: values.delimiter,
+    timeColumn: values['time-column'],
+    openColumn: values['open-column'],
+    highColumn: values['high-column'],
+    lowColumn: values['low-column'],
+    closeColumn: values['close-column'],
+    volumeColumn: values['volume-column'],
+    timeUnit: values['time-unit'],
+    dryRun: values['dry-run']
+  });
+  if (!validationResult.success) {
+    throw new Error(validationResult.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('\n'));
+  }
+
+  const report = await importCandles(await readFile(file, 'utf8'), validationResult.data);
+  console.log(JSON.stringify(report, null, 2));
+}
+
+main()
+  .catch((error) => {
+    console.error(error.message || error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
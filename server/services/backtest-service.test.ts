@@ -0,0 +1,25 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MIN_ANALYSIS_CANDLES } from './market-analysis';
+import { scenarioSeries } from '../test/fixtures/candle-series';
+
+// Replaying candles needs no database
+vi.mock('../storage', () => ({ storage: {} }));
+
+const { backtestService, BacktestDataError, DEFAULT_BACKTEST_CONFIG } = await import('./backtest-service');
+
+const CONFIG = { ...DEFAULT_BACKTEST_CONFIG, symbol: 'BTCUSDT', timeframe: '15m', strategy: 'MACD' };
+
+describe('BacktestService', () => {
+  it('rejects a range too short to warm up the indicators as a data error', async () => {
+    const { candles } = scenarioSeries('range', 'BTCUSDT', 60000, MIN_ANALYSIS_CANDLES);
+
+    await expect(backtestService.runOnCandles(candles, CONFIG)).rejects.toBeInstanceOf(BacktestDataError);
+  });
+
+  it('replays a range long enough to warm up', async () => {
+    const { candles } = scenarioSeries('range', 'BTCUSDT', 60000, 200);
+
+    const result = await backtestService.runOnCandles(candles, CONFIG);
+    expect(result.equityCurve.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,274 @@
+import Decimal from 'decimal.js';
+import { tradingService, type HistoricalCandle, type Strategy, type TradeSignal } from './trading-service';
+import { analyzeSeries, MIN_ANALYSIS_CANDLES } from './market-analysis';
+import { calculatePositionSize, calculateTradeStats, DEFAULT_SIZING_CONFIG, type SizingConfig } from './position-sizing';
+
+export interface BacktestConfig {
+  symbol: string;
+  timeframe: string;
+  strategy: Strategy;
+  strategyParams?: Record<string, unknown>; // Defaults of the strategy when omitted
+  riskPerTrade: string; // Percentage of available balance risked per trade
+  confidenceThreshold: number; // 0-100, signals below are ignored
+  initialBalance: number; // Starting quote balance
+  feeRate: number; // Fee per fill, as a fraction of notional
+  slippage: number; // Adverse price move per fill, as a fraction of price
+  maxConcurrentTrades: number;
+  candleLimit: number; // Number of candles to replay
+  sizing?: SizingConfig; // Fixed fraction of the balance when omitted
+}
+
+export const DEFAULT_BACKTEST_CONFIG: Omit<BacktestConfig, 'symbol' | 'timeframe' | 'strategy'> = {
+  riskPerTrade: '1',
+  confidenceThreshold: 70,
+  initialBalance: 10000,
+  feeRate: 0.001,
+  slippage: 0.0005,
+  maxConcurrentTrades: 3,
+  candleLimit: 1000
+};
+
+export interface BacktestTrade {
+  side: 'buy';
+  entryTime: number;
+  entryPrice: number;
+  exitTime: number;
+  exitPrice: number;
+  quantity: number;
+  fees: number;
+  pnl: number;
+  pnlPercentage: number;
+  confidence: number;
+  exitReason: 'SIGNAL' | 'END_OF_DATA';
+}
+
+export interface EquityPoint {
+  time: number;
+  equity: number;
+}
+
+export interface BacktestMetrics {
+  initialBalance: number;
+  finalBalance: number;
+  totalReturn: number; // Percentage
+  maxDrawdown: number; // Percentage, peak to trough
+  sharpeRatio: number; // Annualized, from per-bar returns
+  profitFactor: number | null; // Gross profit / gross loss, null when there are no losses
+  winRate: number; // Percentage of closed trades with positive PnL
+  totalTrades: number;
+  signalsGenerated: number;
+  signalsBelowThreshold: number;
+}
+
+export interface BacktestResult {
+  config: BacktestConfig;
+  metrics: BacktestMetrics;
+  equityCurve: EquityPoint[];
+  trades: BacktestTrade[];
+}
+
+// Same window the live bot analyzes every cycle
+const SIGNAL_WINDOW = 100;
+// analyzeSeries refuses to work with fewer candles than this
+const WARMUP_CANDLES = MIN_ANALYSIS_CANDLES;
+
+// The requested range cannot be backtested (too few candles), as opposed to a failure while running it
+export class BacktestDataError extends Error {}
+
+interface OpenPosition {
+  entryTime: number;
+  entryPrice: Decimal;
+  quantity: Decimal;
+  entryFee: Decimal;
+  confidence: number;
+}
+
+/**
+ * Event-driven backtester: replays candles bar by bar through the live signal code.
+ * Signals are evaluated on a bar's close and filled at the next bar's open.
+ */
+export class BacktestService {
+  /**
+   * Fetch candles for the configured symbol and timeframe and replay them
+   */
+  async run(config: BacktestConfig): Promise<BacktestResult> {
+    const candles = await tradingService.getHistoricalData(config.symbol, config.timeframe, config.candleLimit);
+    return this.runOnCandles(candles, config);
+  }
+
+  /**
+   * Replay a candle series through the strategy
+   */
+  async runOnCandles(candles: HistoricalCandle[], config: BacktestConfig): Promise<BacktestResult> {
+    if (candles.length <= WARMUP_CANDLES) {
+      throw new BacktestDataError(`Not enough data for backtest: need more than ${WARMUP_CANDLES} candles, got ${candles.length}`);
+    }
+
+    let cash = new Decimal(config.initialBalance);
+    let positions: OpenPosition[] = [];
+    const trades: BacktestTrade[] = [];
+    const equityCurve: EquityPoint[] = [];
+    let pendingSignal: TradeSignal | null = null;
+    let signalsGenerated = 0;
+    let signalsBelowThreshold = 0;
+
+    for (let i = WARMUP_CANDLES - 1; i < candles.length; i++) {
+      const candle = candles[i];
+
+      // 1. Fill the signal from the previous bar at this bar's open
+      if (pendingSignal) {
+        if (pendingSignal.side === 'buy' && positions.length < config.maxConcurrentTrades) {
+          const fillPrice = new Decimal(candle.open).times(1 + config.slippage);
+          // Sized from what was known at the signal: candles up to the previous close and trades closed so far
+          const sizing = config.sizing ?? DEFAULT_SIZING_CONFIG;
+          const size = new Decimal(calculatePositionSize({
+            availableBalance: cash.toString(),
+            riskPercentage: config.riskPerTrade,
+            price: fillPrice.toString(),
+            candles: candles.slice(Math.max(0, i - SIGNAL_WINDOW), i),
+            history: sizing.model === 'kelly' ? calculateTradeStats(trades.slice(-sizing.kellyLookback)) : undefined
+          }, sizing).size);
+
+          if (size.greaterThan(0)) {
+            const fee = size.times(fillPrice).times(config.feeRate);
+            cash = cash.minus(size.times(fillPrice)).minus(fee);
+            positions.push({
+              entryTime: candle.time,
+              entryPrice: fillPrice,
+              quantity: size,
+              entryFee: fee,
+              confidence: pendingSignal.confidence
+            });
+          }
+        } else if (pendingSignal.side === 'sell' && positions.length > 0) {
+          const fillPrice = new Decimal(candle.open).times(1 - config.slippage);
+          for (const position of positions) {
+            const { trade, proceeds } = this.closePosition(position, fillPrice, candle.time, config.feeRate, 'SIGNAL');
+            cash = cash.plus(proceeds);
+            trades.push(trade);
+          }
+          positions = [];
+        }
+        pendingSignal = null;
+      }
+
+      // 2. Mark to market on the close
+      const held = positions.reduce((sum, p) => sum.plus(p.quantity), new Decimal(0));
+      equityCurve.push({
+        time: candle.time,
+        equity: cash.plus(held.times(candle.close)).toNumber()
+      });
+
+      // 3. Evaluate the strategy on the window ending at this bar
+      if (i < candles.length - 1) {
+        const window = candles.slice(Math.max(0, i + 1 - SIGNAL_WINDOW), i + 1);
+        const signal = analyzeSeries(
+          { symbol: config.symbol, interval: config.timeframe, candles: window },
+          config.strategy,
+          config.strategyParams
+        );
+        if (signal) {
+          signalsGenerated++;
+          if (signal.confidence >= config.confidenceThreshold) {
+            pendingSignal = signal;
+          } else {
+            signalsBelowThreshold++;
+          }
+        }
+      }
+    }
+
+    // Close whatever is still open on the last close
+    const lastCandle = candles[candles.length - 1];
+    const exitPrice = new Decimal(lastCandle.close).times(1 - config.slippage);
+    for (const position of positions) {
+      const { trade, proceeds } = this.closePosition(position, exitPrice, lastCandle.time, config.feeRate, 'END_OF_DATA');
+      cash = cash.plus(proceeds);
+      trades.push(trade);
+    }
+    if (positions.length > 0) {
+      equityCurve[equityCurve.length - 1] = { time: lastCandle.time, equity: cash.toNumber() };
+    }
+
+    return {
+      config,
+      metrics: this.calculateMetrics(config, equityCurve, trades, signalsGenerated, signalsBelowThreshold),
+      equityCurve,
+      trades
+    };
+  }
+
+  /**
+   * Close a position at the given price, returning the trade record and the cash released
+   */
+  private closePosition(position: OpenPosition, exitPrice: Decimal, exitTime: number, feeRate: number, exitReason: BacktestTrade['exitReason']): { trade: BacktestTrade, proceeds: Decimal } {
+    const gross = position.quantity.times(exitPrice);
+    const exitFee = gross.times(feeRate);
+    const proceeds = gross.minus(exitFee);
+    const cost = position.quantity.times(position.entryPrice).plus(position.entryFee);
+    const pnl = proceeds.minus(cost);
+
+    return {
+      proceeds,
+      trade: {
+        side: 'buy',
+        entryTime: position.entryTime,
+        entryPrice: position.entryPrice.toNumber(),
+        exitTime,
+        exitPrice: exitPrice.toNumber(),
+        quantity: position.quantity.toNumber(),
+        fees: position.entryFee.plus(exitFee).toNumber(),
+        pnl: pnl.toNumber(),
+        pnlPercentage: pnl.dividedBy(cost).times(100).toNumber(),
+        confidence: position.confidence,
+        exitReason
+      }
+    };
+  }
+
+  /**
+   * Calculate performance metrics from the equity curve and trade list
+   */
+  private calculateMetrics(config: BacktestConfig, equityCurve: EquityPoint[], trades: BacktestTrade[], signalsGenerated: number, signalsBelowThreshold: number): BacktestMetrics {
+    const finalBalance = equityCurve.length > 0 ? equityCurve[equityCurve.length - 1].equity : config.initialBalance;
+
+    // Max drawdown from running equity peak
+    let peak = config.initialBalance;
+    let maxDrawdown = 0;
+    for (const point of equityCurve) {
+      peak = Math.max(peak, point.equity);
+      maxDrawdown = Math.max(maxDrawdown, (peak - point.equity) / peak * 100);
+    }
+
+    // Sharpe ratio from per-bar returns, annualized by the number of bars per year
+    const returns: number[] = [];
+    for (let i = 1; i < equityCurve.length; i++) {
+      returns.push((equityCurve[i].equity - equityCurve[i - 1].equity) / equityCurve[i - 1].equity);
+    }
+    const mean = returns.reduce((sum, r) => sum + r, 0) / (returns.length || 1);
+    const variance = returns.reduce((sum, r) => sum + Math.pow(r - mean, 2), 0) / (returns.length || 1);
+    const stdDev = Math.sqrt(variance);
+    const barsPerYear = (365 * 24 * 60 * 60 * 1000) / tradingService.convertTimeframeToMs(config.timeframe);
+    const sharpeRatio = stdDev > 0 ? (mean / stdDev) * Math.sqrt(barsPerYear) : 0;
+
+    const grossProfit = trades.filter(t => t.pnl > 0).reduce((sum, t) => sum + t.pnl, 0);
+    const grossLoss = Math.abs(trades.filter(t => t.pnl < 0).reduce((sum, t) => sum + t.pnl, 0));
+    const wins = trades.filter(t => t.pnl > 0).length;
+
+    return {
+      initialBalance: config.initialBalance,
+      finalBalance,
+      totalReturn: (finalBalance - config.initialBalance) / config.initialBalance * 100,
+      maxDrawdown,
+      sharpeRatio,
+      profitFactor: grossLoss > 0 ? grossProfit / grossLoss : null,
+      winRate: trades.length > 0 ? wins / trades.length * 100 : 0,
+      totalTrades: trades.length,
+      signalsGenerated,
+      signalsBelowThreshold
+    };
+  }
+}
+
+// Export a singleton instance
+export const backtestService = new BacktestService();
@@ -0,0 +1,43 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import * as bitget from 'bitget-api';
+
+vi.mock('./bitget-service', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./bitget-service')>(),
+  bitgetService: {}
+}));
+
+const { BitgetFuturesService } = await import('./bitget-futures-service');
+
+const credentials = { apiKey: 'key', apiSecret: 'secret', passphrase: 'pass' };
+
+function bill(business: string, amount: string) {
+  return { business, amount };
+}
+
+describe('BitgetFuturesService.getFundingFees', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('adds up funding bills from every page', async () => {
+    const getAccountBill = vi.spyOn(bitget.FuturesClient.prototype, 'getAccountBill')
+      .mockResolvedValueOnce({ data: { result: [bill('contract_main_settle_fee', '-1.5'), bill('open_long', '-20')], endId: '2', nextFlag: true } } as any)
+      .mockResolvedValueOnce({ data: { result: [bill('contract_margin_settle_fee', '0.5')], endId: '3', nextFlag: false } } as any);
+
+    const paid = await new BitgetFuturesService(credentials).getFundingFees('BTCUSDT', new Date(0));
+
+    expect(paid.toString()).toBe('1');
+    expect(getAccountBill).toHaveBeenCalledTimes(2);
+    expect(getAccountBill.mock.calls[0][0].lastEndId).toBeUndefined();
+    expect(getAccountBill.mock.calls[1][0]).toMatchObject({ symbol: 'BTCUSDT_UMCBL', lastEndId: '2', next: true });
+  });
+
+  it('stops when a page repeats the previous end id', async () => {
+    const getAccountBill = vi.spyOn(bitget.FuturesClient.prototype, 'getAccountBill')
+      .mockResolvedValue({ data: { result: [], endId: '7', nextFlag: true } } as any);
+
+    await new BitgetFuturesService(credentials).getFundingFees('BTCUSDT', new Date(0));
+
+    expect(getAccountBill).toHaveBeenCalledTimes(2);
+  });
+});
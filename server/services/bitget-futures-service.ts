@@ -0,0 +1,371 @@
+import * as bitget from 'bitget-api';
+import Decimal from 'decimal.js';
+import type { ExchangeService } from './exchange';
+import {
+  bitgetService,
+  isOrderNotFoundResponse,
+  type AccountSummary,
+  type BitgetCredentials,
+  type KlineRange,
+  type MarketData,
+  type TradeParams,
+  type TradeResponse
+} from './bitget-service';
+import { normalizeOrder, parseFuturesInstrument, OrderNotFoundError, OrderRejectedError, type InstrumentSpec } from './instruments';
+
+// USDT-margined perpetual contracts, settled in USDT
+const PRODUCT_TYPE = 'umcbl';
+const MARGIN_COIN = 'USDT';
+const INSTRUMENT_CACHE_TTL_MS = 60 * 60 * 1000;
+// Bitget books funding payments as account bills with this business type
+const FUNDING_BILL_TYPES = ['contract_main_settle_fee', 'contract_margin_settle_fee'];
+const BILL_PAGE_SIZE = 100;
+// Caps the listing in case the exchange keeps reporting another page
+const MAX_BILL_PAGES = 50;
+
+export type MarginMode = 'crossed' | 'isolated';
+
+export interface FuturesPosition {
+  symbol: string;
+  side: 'long' | 'short';
+  size: string;
+  entryPrice: string;
+  markPrice: string;
+  leverage: number;
+  marginMode: MarginMode;
+  margin: string;
+  unrealizedPnl: string;
+  liquidationPrice: string | null;
+}
+
+let contractCache: { fetchedAt: number; specs: Map<string, InstrumentSpec> } | null = null;
+let pendingContracts: Promise<Map<string, InstrumentSpec>> | null = null;
+
+// Contracts are addressed as BTCUSDT_UMCBL in the v1 futures API
+function toContract(symbol: string): string {
+  return `${symbol}_${PRODUCT_TYPE.toUpperCase()}`;
+}
+
+function fromContract(contract: string): string {
+  return contract.replace(/_UMCBL$/, '');
+}
+
+/**
+ * Bitget USDT-M futures adapter with the same surface as the spot BitgetService.
+ * Buy and sell open long and short positions; reduce-only orders close them.
+ */
+export class BitgetFuturesService implements ExchangeService {
+  private client: bitget.FuturesClient;
+  private hasCredentials: boolean;
+  // Leverage and margin mode last set per symbol, so they are only sent when they change
+  private configured = new Map<string, string>();
+
+  constructor(credentials?: BitgetCredentials) {
+    this.hasCredentials = Boolean(credentials?.apiKey.trim() && credentials?.apiSecret.trim() && credentials?.passphrase.trim());
+    this.client = new bitget.FuturesClient(this.hasCredentials ? {
+      apiKey: credentials!.apiKey.trim(),
+      apiSecret: credentials!.apiSecret.trim(),
+      apiPass: credentials!.passphrase.trim()
+    } : {});
+  }
+
+  /**
+   * Get the futures account summary: equity, free margin, margin in use and unrealized PnL of open positions
+   */
+  async getAccountBalance(): Promise<AccountSummary> {
+    this.ensureCredentials();
+
+    try {
+      const response = await this.client.getAccounts(PRODUCT_TYPE);
+      const account = (response?.data || []).find((entry: any) => entry.marginCoin === MARGIN_COIN);
+      if (!account) {
+        throw new Error('No USDT-M futures account found');
+      }
+
+      const positions = await this.getPositions();
+      const unrealizedPnl = positions.reduce((sum, position) => sum.plus(position.unrealizedPnl), new Decimal(0));
+      const marginBalance = positions.reduce((sum, position) => sum.plus(position.margin), new Decimal(0));
+      const available = new Decimal(account.available || 0);
+      const locked = new Decimal(account.locked || 0);
+      const equity = new Decimal(account.usdtEquity || account.equity || 0);
+
+      return {
+        totalBalance: equity.toString(),
+        availableBalance: available.toString(),
+        frozenBalance: locked.toString(),
+        unrealizedPnl: unrealizedPnl.toString(),
+        marginBalance: marginBalance.toString(),
+        balances: {
+          [MARGIN_COIN]: {
+            symbol: MARGIN_COIN,
+            available: available.toString(),
+            frozen: locked.toString(),
+            total: equity.toString()
+          }
+        }
+      };
+    } catch (error: any) {
+      console.error('Error getting futures account balance:', error);
+      throw new Error(`Failed to get account balance: ${error?.message || error}`);
+    }
+  }
+
+  /**
+   * Get the contract's ticker
+   */
+  async getMarketData(symbol: string): Promise<MarketData> {
+    try {
+      const response = await this.client.getTicker(toContract(symbol));
+      const ticker = response?.data;
+      if (!ticker) {
+        throw new Error('Invalid response from Bitget API');
+      }
+
+      return {
+        symbol,
+        price: ticker.last,
+        timestamp: parseInt(ticker.timestamp),
+        volume24h: ticker.baseVolume,
+        change24h: ticker.chgUtc ?? ticker.priceChangePercent
+      };
+    } catch (error: any) {
+      console.error(`Error getting futures market data for ${symbol}:`, error);
+      throw new Error(`Failed to get market data: ${error?.message || error}`);
+    }
+  }
+
+  /**
+   * Open or close a position. Leverage and margin mode are applied to the symbol before an opening order.
+   */
+  async executeTrade(params: TradeParams): Promise<TradeResponse> {
+    this.ensureCredentials();
+
+    const instrument = await this.getInstrument(params.symbol);
+    const reference = params.price ?? (await this.getMarketData(params.symbol)).price;
+    const normalized = normalizeOrder(instrument, {
+      symbol: params.symbol,
+      side: params.side,
+      size: params.size,
+      price: params.orderType === 'limit' ? params.price : undefined
+    }, reference);
+
+    if (!params.reduceOnly) {
+      await this.configureSymbol(params.symbol, params.leverage ?? 1, params.marginMode ?? 'crossed');
+    }
+
+    // Selling closes a long, buying closes a short
+    const side = params.reduceOnly
+      ? (params.side === 'sell' ? 'close_long' : 'close_short')
+      : (params.side === 'buy' ? 'open_long' : 'open_short');
+
+    try {
+      const response = await this.client.submitOrder({
+        symbol: toContract(params.symbol),
+        marginCoin: MARGIN_COIN,
+        size: normalized.size,
+        price: normalized.price,
+        side,
+        orderType: params.orderType,
+        timeInForceValue: params.postOnly && params.orderType === 'limit' ? 'post_only' : 'normal',
+        clientOid: `trade_${Date.now()}`
+      });
+      if (!response?.data) {
+        throw new Error('Invalid response from Bitget API');
+      }
+
+      return {
+        orderId: response.data.orderId,
+        clientOrderId: response.data.clientOid,
+        symbol: params.symbol,
+        side: params.side,
+        size: normalized.size,
+        price: normalized.price ?? '0',
+        status: 'NEW',
+        timestamp: Date.now()
+      };
+    } catch (error: any) {
+      console.error('Error executing futures trade:', error);
+      throw new Error(`Failed to execute trade: ${error?.message || error}`);
+    }
+  }
+
+  /**
+   * Get order information, with the fill fields named like the spot order info response
+   */
+  async getOrderDetails(symbol: string, orderId: string): Promise<any> {
+    this.ensureCredentials();
+
+    try {
+      const response = await this.client.getOrder(toContract(symbol), orderId);
+      const order = response?.data;
+      if (!order) {
+        throw new Error('Invalid response from Bitget API');
+      }
+
+      return {
+        ...order,
+        status: order.state,
+        fillQuantity: order.filledQty,
+        fillPrice: order.priceAvg,
+        fees: order.fee
+      };
+    } catch (error: any) {
+      if (isOrderNotFoundResponse(error)) {
+        throw new OrderNotFoundError(`Order ${orderId} not found on ${symbol}`);
+      }
+      console.error('Error getting futures order details:', error);
+      throw new Error(`Failed to get order details: ${error?.message || error}`);
+    }
+  }
+
+  /**
+   * Cancel an order
+   */
+  async cancelOrder(symbol: string, orderId: string): Promise<boolean> {
+    this.ensureCredentials();
+
+    try {
+      const response = await this.client.cancelOrder(toContract(symbol), MARGIN_COIN, orderId);
+      return response?.code === '00000';
+    } catch (error: any) {
+      console.error('Error canceling futures order:', error);
+      throw new Error(`Failed to cancel order: ${error?.message || error}`);
+    }
+  }
+
+  /**
+   * Get historical candlestick data. Signals are computed on spot candles, which track the perpetual closely.
+   */
+  async getKlines(symbol: string, interval: string, limit: number = 100, range?: KlineRange): Promise<any[]> {
+    return bitgetService.getKlines(symbol, interval, limit, range);
+  }
+
+  /**
+   * Get the trading rules of a contract
+   */
+  async getInstrument(symbol: string): Promise<InstrumentSpec> {
+    const spec = (await this.getInstruments()).get(symbol);
+    if (!spec) {
+      throw new OrderRejectedError('INSTRUMENT_NOT_FOUND', `${symbol} is not a Bitget USDT-M futures contract`);
+    }
+    return spec;
+  }
+
+  /**
+   * Get the user's open positions
+   */
+  async getPositions(): Promise<FuturesPosition[]> {
+    this.ensureCredentials();
+
+    const response = await this.client.getPositions(PRODUCT_TYPE, MARGIN_COIN);
+    return (response?.data || [])
+      .filter((position: any) => new Decimal(position.total || 0).greaterThan(0))
+      .map((position: any) => ({
+        symbol: fromContract(position.symbol),
+        side: position.holdSide,
+        size: position.total,
+        entryPrice: position.averageOpenPrice,
+        markPrice: position.marketPrice,
+        leverage: Number(position.leverage),
+        marginMode: position.marginMode === 'fixed' ? 'isolated' : 'crossed',
+        margin: position.margin,
+        unrealizedPnl: position.unrealizedPL,
+        liquidationPrice: new Decimal(position.liquidationPrice || 0).greaterThan(0) ? position.liquidationPrice : null
+      }));
+  }
+
+  /**
+   * Net funding paid on a symbol since a time (negative when funding was received)
+   */
+  async getFundingFees(symbol: string, since: Date): Promise<Decimal> {
+    this.ensureCredentials();
+
+    const request = {
+      symbol: toContract(symbol),
+      marginCoin: MARGIN_COIN,
+      startTime: since.getTime().toString(),
+      endTime: Date.now().toString(),
+      pageSize: BILL_PAGE_SIZE
+    };
+    const bills: any[] = [];
+
+    // Bills come a page at a time; each page names the id the next one continues from
+    let lastEndId: string | undefined;
+    for (let page = 0; page < MAX_BILL_PAGES; page++) {
+      const response = await this.client.getAccountBill(lastEndId ? { ...request, lastEndId, next: true } : request);
+      bills.push(...(response?.data?.result || response?.data || []));
+
+      if (!response?.data?.nextFlag || !response.data.endId || response.data.endId === lastEndId) break;
+      lastEndId = String(response.data.endId);
+    }
+
+    return bills
+      .filter(bill => FUNDING_BILL_TYPES.includes(bill.business))
+      .reduce((sum, bill) => sum.minus(bill.amount || 0), new Decimal(0));
+  }
+
+  isReady(): boolean {
+    return this.hasCredentials;
+  }
+
+  /**
+   * Set the symbol's margin mode and leverage (both sides) unless they are already set
+   */
+  private async configureSymbol(symbol: string, leverage: number, marginMode: MarginMode): Promise<void> {
+    const key = `${leverage}:${marginMode}`;
+    if (this.configured.get(symbol) === key) return;
+
+    const contract = toContract(symbol);
+    await this.client.setMarginMode(contract, MARGIN_COIN, marginMode === 'isolated' ? 'fixed' : 'crossed');
+    if (marginMode === 'isolated') {
+      await this.client.setLeverage(contract, MARGIN_COIN, leverage.toString(), 'long');
+      await this.client.setLeverage(contract, MARGIN_COIN, leverage.toString(), 'short');
+    } else {
+      await this.client.setLeverage(contract, MARGIN_COIN, leverage.toString());
+    }
+    this.configured.set(symbol, key);
+  }
+
+  private async getInstruments(): Promise<Map<string, InstrumentSpec>> {
+    if (contractCache && Date.now() - contractCache.fetchedAt < INSTRUMENT_CACHE_TTL_MS) {
+      return contractCache.specs;
+    }
+
+    if (!pendingContracts) {
+      pendingContracts = this.fetchInstruments().finally(() => {
+        pendingContracts = null;
+      });
+    }
+
+    try {
+      return await pendingContracts;
+    } catch (error) {
+      if (contractCache) {
+        console.warn('Failed to refresh contract specs, using cached specs:', error);
+        return contractCache.specs;
+      }
+      throw error;
+    }
+  }
+
+  private async fetchInstruments(): Promise<Map<string, InstrumentSpec>> {
+    const response = await this.client.getSymbols(PRODUCT_TYPE);
+    if (!response || !Array.isArray(response.data)) {
+      throw new Error('Invalid response from Bitget API');
+    }
+
+    const specs = new Map<string, InstrumentSpec>();
+    for (const raw of response.data) {
+      const spec = parseFuturesInstrument(raw);
+      specs.set(spec.symbol, spec);
+    }
+    contractCache = { fetchedAt: Date.now(), specs };
+    return specs;
+  }
+
+  private ensureCredentials(): void {
+    if (!this.hasCredentials) {
+      throw new Error('Bitget API credentials not configured');
+    }
+  }
+}
@@ -3,6 +3,13 @@ import axios from 'axios';
 import crypto from 'crypto';
 import * as bitget from 'bitget-api';
 import Decimal from 'decimal.js';
+import type { ExchangeService } from './exchange';
+import { normalizeOrder, parseInstrument, OrderNotFoundError, OrderRejectedError, type InstrumentSpec } from './instruments';
+
+// Symbol specs change rarely; they are shared by every client and refreshed hourly
+const INSTRUMENT_CACHE_TTL_MS = 60 * 60 * 1000;
+// 24h ticker stats of every symbol, shared the same way and refreshed every minute
+const TICKER_CACHE_TTL_MS = 60 * 1000;
 
 // Create an interface for APIClient to address type issues
 interface APIClient {
@@ -13,6 +20,8 @@ interface APIClient {
     market: {
       ticker: (params: any) => Promise<any>;
       candles: (params: any) => Promise<any>;
+      symbols: () => Promise<any>;
+      tickers: () => Promise<any>;
     };
     order: {
       placeOrder: (params: any) => Promise<any>;
@@ -22,69 +31,59 @@ interface APIClient {
   };
 }
 
-// Initialize Bitget API Client
-const apiKey = process.env.BITGET_API_KEY;
-const apiSecret = process.env.BITGET_API_SECRET;
-const apiPass = process.env.BITGET_API_PASSPHRASE;
-
-// Check if all required API credentials are available
-const hasCredentials = Boolean(apiKey && apiSecret && apiPass);
-
-console.log('API Credentials Check:', {
-  hasKey: Boolean(apiKey),
-  hasSecret: Boolean(apiSecret),
-  hasPass: Boolean(apiPass),
-  credentials: hasCredentials,
-  keyLength: apiKey?.length,
-  secretLength: apiSecret?.length,
-  passLength: apiPass?.length
-});
-
-let client: APIClient | null = null;
-
-if (hasCredentials) {
-  try {
-    console.log('Initializing Bitget client with credentials...');
-    
-    // Validate credentials format
-    if (!apiKey?.trim() || !apiSecret?.trim() || !apiPass?.trim()) {
-      throw new Error('Invalid API credentials format');
-    }
-    
-    // Create real client using the bitget package
-    const bitgetClient = new bitget.SpotClient({
-      apiKey: apiKey.trim(),
-      apiSecret: apiSecret.trim(),
-      apiPassphrase: apiPass.trim(),
-      endpoint: 'https://api.bitget.com',
-      recv_window: 5000
-    });
-
-    // Test connection
-    await bitgetClient.spot.market.time();
-    console.log('Successfully connected to Bitget API');
-
-    client = {
-      spot: {
-        account: {
-          assets: () => bitgetClient.spot.account.assets()
-        },
-        market: {
-          ticker: (params: any) => bitgetClient.spot.market.ticker(params),
-          candles: (params: any) => bitgetClient.spot.market.candles(params)
-        },
-        order: {
-          placeOrder: (params: any) => bitgetClient.spot.order.placeOrder(params),
-          orderInfo: (params: any) => bitgetClient.spot.order.orderInfo(params),
-          cancelOrder: (params: any) => bitgetClient.spot.order.cancelOrder(params)
-        }
+export interface BitgetCredentials {
+  apiKey: string;
+  apiSecret: string;
+  passphrase: string;
+}
+
+/**
+ * Create an API client. Without credentials only the public market endpoints work.
+ */
+function createClient(credentials?: BitgetCredentials): APIClient {
+  // Create real client using the bitget package
+  const bitgetClient = new bitget.SpotClient({
+    apiKey: credentials?.apiKey.trim(),
+    apiSecret: credentials?.apiSecret.trim(),
+    apiPass: credentials?.passphrase.trim(),
+    endpoint: 'https://api.bitget.com',
+    recv_window: 5000
+  });
+
+  return {
+    spot: {
+      account: {
+        assets: () => bitgetClient.spot.account.assets()
+      },
+      market: {
+        ticker: (params: any) => bitgetClient.spot.market.ticker(params),
+        candles: (params: any) => bitgetClient.spot.market.candles(params),
+        symbols: () => bitgetClient.getSymbols(),
+        tickers: () => bitgetClient.getAllTickers()
+      },
+      order: {
+        placeOrder: (params: any) => bitgetClient.spot.order.placeOrder(params),
+        orderInfo: (params: any) => bitgetClient.spot.order.orderInfo(params),
+        cancelOrder: (params: any) => bitgetClient.spot.order.cancelOrder(params)
       }
-    };
-    
-    console.log('Bitget API client initialized successfully');
-  } catch (error: any) {
-    console.error('Error initializing Bitget API client:', error);
-  }
+    }
+  };
+}
+
+// Bitget error codes for an order id it does not know: spot, then USDT-M futures
+const ORDER_NOT_FOUND_CODES = ['43001', '40768'];
+
+/**
+ * Whether a failed Bitget request reports that the order does not exist
+ */
+export function isOrderNotFoundResponse(error: any): boolean {
+  return ORDER_NOT_FOUND_CODES.includes(String(error?.body?.code ?? ''));
+}
+
+// Open time bounds (ms, inclusive) for paging through candle history
+export interface KlineRange {
+  startTime?: number;
+  endTime?: number;
 }
 
 export interface Balance {
@@ -111,6 +110,14 @@ export interface MarketData {
   change24h: string;
 }
 
+export interface TickerSummary {
+  symbol: string;
+  price: string;
+  volume24h: string; // In the base asset
+  quoteVolume24h: string; // In the quote asset
+  change24h: number; // Percent
+}
+
 export interface TradeParams {
   symbol: string;
   side: 'buy' | 'sell';
@@ -118,6 +125,9 @@ export interface TradeParams {
   price?: string; // Optional for market orders
   orderType: 'limit' | 'market';
   leverage?: number; // For margin/futures trading
+  marginMode?: 'crossed' | 'isolated'; // Futures only
+  reduceOnly?: boolean; // Futures only: close (part of) a position instead of opening one
+  postOnly?: boolean; // Limit orders only: cancelled instead of filled if they would take liquidity
 }
 
 export interface TradeResponse {
@@ -131,10 +141,32 @@ export interface TradeResponse {
   timestamp: number;
 }
 
-export class BitgetService {
-  constructor() {
-    if (!hasCredentials) {
-      console.warn('Bitget API credentials not provided. Trading functionality will be limited.');
+let instrumentCache: { fetchedAt: number; specs: Map<string, InstrumentSpec> } | null = null;
+let pendingInstruments: Promise<Map<string, InstrumentSpec>> | null = null;
+let tickerCache: { fetchedAt: number; tickers: Map<string, TickerSummary> } | null = null;
+
+export class BitgetService implements ExchangeService {
+  private client: APIClient | null = null;
+  private hasCredentials: boolean;
+
+  constructor(credentials?: BitgetCredentials) {
+    this.hasCredentials = Boolean(credentials?.apiKey.trim() && credentials?.apiSecret.trim() && credentials?.passphrase.trim());
+
+    try {
+      this.client = createClient(this.hasCredentials ? credentials : undefined);
+    } catch (error: any) {
+      console.error('Error initializing Bitget API client:', error);
+    }
+  }
+
+  /**
+   * Check the credentials against an authenticated endpoint
+   */
+  async validateCredentials(): Promise<void> {
+    const client = this.getAccountClient();
+    const response = await client.spot.account.assets();
+    if (!response || (response.code && response.code !== '00000')) {
+      throw new Error(response?.msg || 'Bitget rejected the API credentials');
     }
   }
 
@@ -142,9 +174,7 @@ export class BitgetService {
    * Get the account balance summary
    */
   async getAccountBalance(): Promise<AccountSummary> {
-    if (!client) {
-      throw new Error('Bitget API client not initialized');
-    }
+    const client = this.getAccountClient();
 
     try {
       // Get account assets information
@@ -215,9 +245,7 @@ export class BitgetService {
    * Get market data for a specific symbol
    */
   async getMarketData(symbol: string): Promise<MarketData> {
-    if (!client) {
-      throw new Error('Bitget API client not initialized');
-    }
+    const client = this.getMarketClient();
 
     try {
       // Get ticker information
@@ -246,9 +274,7 @@ export class BitgetService {
    * Execute a trade (buy or sell)
    */
   async executeTrade(params: TradeParams): Promise<TradeResponse> {
-    if (!client) {
-      throw new Error('Bitget API client not initialized');
-    }
+    const client = this.getAccountClient();
 
     const maxRetries = 3;
     let attempt = 0;
@@ -259,25 +285,30 @@ export class BitgetService {
         const ticker = await client.spot.market.ticker({ symbol: params.symbol });
         const currentPrice = ticker.data.close;
 
+        // Round to the symbol's precision and check its limits before the exchange sees the order.
+        // Market orders carry no price; their value is checked against the last price.
+        const normalized = normalizeOrder(await this.getInstrument(params.symbol), {
+          symbol: params.symbol,
+          side: params.side,
+          size: params.size,
+          price: params.orderType === 'limit' ? params.price : undefined
+        }, currentPrice);
+
+        // Market buys are sized in the quote asset, which is accepted to the cent
+        const size = params.orderType === 'market' && params.side === 'buy'
+          ? new Decimal(normalized.notional).toDecimalPlaces(2, Decimal.ROUND_DOWN).toString()
+          : normalized.size;
+
         const orderParams = {
           symbol: params.symbol,
           side: params.side,
           orderType: params.orderType,
-          force: 'normal',
-          size: params.size,
+          force: params.postOnly && params.orderType === 'limit' ? 'post_only' : 'normal',
+          size,
           clientOid: `trade_${Date.now()}`, // Unique identifier
-          // Use limit orders slightly above/below market for better fills
-          price: params.orderType === 'limit' ? params.price : 
-                 params.side === 'buy' ? 
-                 (parseFloat(currentPrice) * 1.002).toString() : // 0.2% above market
-                 (parseFloat(currentPrice) * 0.998).toString()   // 0.2% below market
+          price: normalized.price
         };
 
-        // Add price for limit orders
-        if (params.orderType === 'limit' && params.price) {
-          orderParams.price = params.price;
-        }
-
         // Execute the order
         const response = await client.spot.order.placeOrder(orderParams);
         
@@ -290,12 +321,16 @@ export class BitgetService {
           clientOrderId: response.data.clientOid,
           symbol: params.symbol,
           side: params.side,
-          size: params.size,
-          price: params.price || '0',
+          size: normalized.size,
+          price: params.orderType === 'limit' ? normalized.price! : '0',
           status: 'NEW',
           timestamp: Date.now()
         };
       } catch (error) {
+        // Retrying cannot fix an order the exchange would reject
+        if (error instanceof OrderRejectedError) {
+          throw error;
+        }
         console.error('Error executing trade:', error);
         attempt++;
         if (attempt === maxRetries) {
@@ -310,9 +345,7 @@ export class BitgetService {
    * Get order information
    */
   async getOrderDetails(symbol: string, orderId: string): Promise<any> {
-    if (!client) {
-      throw new Error('Bitget API client not initialized');
-    }
+    const client = this.getAccountClient();
 
     try {
       const response = await client.spot.order.orderInfo({
@@ -323,9 +356,16 @@ export class BitgetService {
       if (!response || !response.data) {
         throw new Error('Invalid response from Bitget API');
       }
+      if (Array.isArray(response.data) && response.data.length === 0) {
+        throw new OrderNotFoundError(`Order ${orderId} not found on ${symbol}`);
+      }
 
       return response.data;
     } catch (error) {
+      if (error instanceof OrderNotFoundError) throw error;
+      if (isOrderNotFoundResponse(error)) {
+        throw new OrderNotFoundError(`Order ${orderId} not found on ${symbol}`);
+      }
       console.error('Error getting order details:', error);
       throw new Error(`Failed to get order details: ${error.message}`);
     }
@@ -335,9 +375,7 @@ export class BitgetService {
    * Cancel an order
    */
   async cancelOrder(symbol: string, orderId: string): Promise<boolean> {
-    if (!client) {
-      throw new Error('Bitget API client not initialized');
-    }
+    const client = this.getAccountClient();
 
     try {
       const response = await client.spot.order.cancelOrder({
@@ -355,16 +393,16 @@ export class BitgetService {
   /**
    * Get historical candlestick data
    */
-  async getKlines(symbol: string, interval: string, limit: number = 100): Promise<any[]> {
-    if (!client) {
-      throw new Error('Bitget API client not initialized');
-    }
+  async getKlines(symbol: string, interval: string, limit: number = 100, range: KlineRange = {}): Promise<any[]> {
+    const client = this.getMarketClient();
 
     try {
       const response = await client.spot.market.candles({
         symbol,
         period: interval,
-        limit: limit.toString()
+        limit: limit.toString(),
+        ...(range.startTime !== undefined && { startTime: range.startTime.toString() }),
+        ...(range.endTime !== undefined && { endTime: range.endTime.toString() })
       });
       
       if (!response || !response.data || !Array.isArray(response.data)) {
@@ -379,12 +417,116 @@ export class BitgetService {
   }
   
   /**
-   * Check if API client is ready
+   * Get the trading rules of every spot symbol, keyed by symbol.
+   * A stale cache is served when the refresh fails.
+   */
+  async getInstruments(): Promise<Map<string, InstrumentSpec>> {
+    if (instrumentCache && Date.now() - instrumentCache.fetchedAt < INSTRUMENT_CACHE_TTL_MS) {
+      return instrumentCache.specs;
+    }
+
+    if (!pendingInstruments) {
+      pendingInstruments = this.fetchInstruments().finally(() => {
+        pendingInstruments = null;
+      });
+    }
+
+    try {
+      return await pendingInstruments;
+    } catch (error) {
+      if (instrumentCache) {
+        console.warn('Failed to refresh symbol specs, using cached specs:', error);
+        return instrumentCache.specs;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get the trading rules of a spot symbol
+   */
+  async getInstrument(symbol: string): Promise<InstrumentSpec> {
+    const spec = (await this.getInstruments()).get(symbol);
+    if (!spec) {
+      throw new OrderRejectedError('INSTRUMENT_NOT_FOUND', `${symbol} is not a Bitget spot symbol`);
+    }
+    return spec;
+  }
+
+  /**
+   * Get the 24h ticker stats of every spot symbol, keyed by symbol.
+   * A stale cache is served when the refresh fails.
+   */
+  async getTickers(): Promise<Map<string, TickerSummary>> {
+    if (tickerCache && Date.now() - tickerCache.fetchedAt < TICKER_CACHE_TTL_MS) {
+      return tickerCache.tickers;
+    }
+
+    try {
+      const response = await this.getMarketClient().spot.market.tickers();
+      if (!response || !Array.isArray(response.data)) {
+        throw new Error('Invalid response from Bitget API');
+      }
+
+      const tickers = new Map<string, TickerSummary>();
+      for (const raw of response.data) {
+        const symbol = String(raw.symbol).replace(/_SPBL$/, '');
+        tickers.set(symbol, {
+          symbol,
+          price: raw.close,
+          volume24h: raw.baseVol || '0',
+          quoteVolume24h: raw.quoteVol || raw.usdtVol || '0',
+          // v1 reports the change as a ratio
+          change24h: Number(raw.change || 0) * 100
+        });
+      }
+      tickerCache = { fetchedAt: Date.now(), tickers };
+      return tickers;
+    } catch (error) {
+      if (tickerCache) {
+        console.warn('Failed to refresh tickers, using cached tickers:', error);
+        return tickerCache.tickers;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Check if the client can access the account (credentials configured)
    */
   isReady(): boolean {
-    return client !== null;
+    return this.client !== null && this.hasCredentials;
+  }
+
+  private async fetchInstruments(): Promise<Map<string, InstrumentSpec>> {
+    const response = await this.getMarketClient().spot.market.symbols();
+    if (!response || !Array.isArray(response.data)) {
+      throw new Error('Invalid response from Bitget API');
+    }
+
+    const specs = new Map<string, InstrumentSpec>();
+    for (const raw of response.data) {
+      const spec = parseInstrument(raw);
+      specs.set(spec.symbol, spec);
+    }
+    instrumentCache = { fetchedAt: Date.now(), specs };
+    return specs;
+  }
+
+  private getMarketClient(): APIClient {
+    if (!this.client) {
+      throw new Error('Bitget API client not initialized');
+    }
+    return this.client;
+  }
+
+  private getAccountClient(): APIClient {
+    if (!this.hasCredentials) {
+      throw new Error('Bitget API credentials not configured');
+    }
+    return this.getMarketClient();
   }
 }
 
-// Export a singleton instance
+// Shared client for public market data; account access goes through each user's own client
 export const bitgetService = new BitgetService();
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    saveImportedCandles: vi.fn()
+  }
+}));
+
+vi.mock('../storage', () => ({ storage }));
+
+const { importCandles, parseCandleFile, candleImportOptionsSchema } = await import('./candle-import');
+
+const options = candleImportOptionsSchema.parse({ symbol: 'btcusdt', interval: '1h' });
+
+describe('importCandles', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('stores bars as imported and counts the exchange bars it kept', async () => {
+    // One of the three bars is already synced from the exchange
+    storage.saveImportedCandles.mockImplementation(async (rows) => rows.length - 1);
+    const csv = [
+      'time,open,high,low,close,volume',
+      '2024-01-01T00:00:00Z,100,110,90,105,1',
+      '2024-01-01T01:00:00Z,105,115,95,110,1',
+      '2024-01-01T02:00:00Z,110,120,100,115,1'
+    ].join('\n');
+
+    const report = await importCandles(csv, options);
+
+    expect(storage.saveImportedCandles).toHaveBeenCalledTimes(1);
+    expect(storage.saveImportedCandles.mock.calls[0][0][0]).toMatchObject({ symbol: 'BTCUSDT', interval: '1h', openTime: Date.UTC(2024, 0, 1) });
+    expect(report.imported).toBe(2);
+    expect(report.skipped).toBe(1);
+  });
+});
+
+describe('parseCandleFile', () => {
+  it('rejects bars that have not closed yet', () => {
+    const hour = 60 * 60 * 1000;
+    const current = Math.floor(Date.now() / hour) * hour;
+    const json = JSON.stringify([
+      [current - hour, 100, 110, 90, 105, 1],
+      [current, 105, 115, 95, 110, 1],
+      [current + hour, 110, 120, 100, 115, 1]
+    ]);
+
+    const { candles, report } = parseCandleFile(json, { ...options, format: 'json' });
+
+    expect(candles.map(candle => candle.time)).toEqual([current - hour]);
+    expect(report.invalidRows).toBe(2);
+    expect(report.errors).toEqual([{ row: 2, reason: 'bar has not closed yet' }, { row: 3, reason: 'bar has not closed yet' }]);
+  });
+});
@@ -0,0 +1,270 @@
+import { z } from 'zod';
+import type { InsertCandle } from '@shared/schema';
+import { storage } from '../storage';
+import { intervalToMs } from './candle-store';
+import type { HistoricalCandle } from './trading-service';
+
+// Candles are written in chunks to keep each insert statement small
+const SAVE_CHUNK_SIZE = 500;
+// Reports list at most this many rows/gaps; the totals still count all of them
+const MAX_REPORTED_ISSUES = 20;
+
+/**
+ * Import options, shared by the HTTP endpoint (query string) and the CLI (flags).
+ *  - bitget: rows of [timestamp, open, high, low, close, volume, ...] as CSV without header, or a JSON array of arrays
+ *  - csv: CSV with a header row; the *Column options name the columns to read
+ *  - json: an array of objects keyed like the CSV columns, or an array of arrays in Bitget order
+ */
+export const candleImportOptionsSchema = z.object({
+  symbol: z.string().trim().min(1).transform(symbol => symbol.toUpperCase()),
+  interval: z.string().regex(/^\d+[mhd]$/, 'Interval must look like 15m, 1h or 1d'),
+  format: z.enum(['bitget', 'csv', 'json']).default('csv'),
+  delimiter: z.string().min(1).max(1).default(','),
+  timeColumn: z.string().default('time'),
+  openColumn: z.string().default('open'),
+  highColumn: z.string().default('high'),
+  lowColumn: z.string().default('low'),
+  closeColumn: z.string().default('close'),
+  volumeColumn: z.string().default('volume'),
+  // Numeric timestamps below 1e12 are taken as seconds when auto
+  timeUnit: z.enum(['auto', 'ms', 's']).default('auto'),
+  dryRun: z.preprocess(value => value === 'true' || value === true, z.boolean()).default(false)
+});
+
+export type CandleImportOptions = z.infer<typeof candleImportOptionsSchema>;
+
+// The file itself cannot be read (bad JSON, missing CSV columns), as opposed to a storage failure
+export class CandleFileError extends Error {}
+
+export interface CandleImportReport {
+  symbol: string;
+  interval: string;
+  rows: number;
+  imported: number; // 0 on a dry run
+  skipped: number; // bars already synced from the exchange, which imports do not overwrite
+  firstTime: number | null;
+  lastTime: number | null;
+  invalidRows: number;
+  outOfOrder: number; // rows older than the row before them; the import is sorted regardless
+  duplicates: number; // rows repeating an open time, the last one wins
+  conflictingDuplicates: number; // duplicates with different prices or volume
+  missingBars: number;
+  errors: { row: number; reason: string }[];
+  gaps: { from: number; to: number; missing: number }[];
+}
+
+interface ParsedRow {
+  row: number; // 1-based line or array index, for error messages
+  values: (string | number | undefined)[]; // time, open, high, low, close, volume
+}
+
+function parseTime(value: string | number | undefined, timeUnit: CandleImportOptions['timeUnit']): number {
+  if (value === undefined || value === '') {
+    return NaN;
+  }
+
+  const numeric = Number(value);
+  if (!isNaN(numeric)) {
+    if (timeUnit === 's' || (timeUnit === 'auto' && numeric < 1e12)) {
+      return Math.round(numeric * 1000);
+    }
+    return Math.round(numeric);
+  }
+  return Date.parse(String(value));
+}
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  return line.split(delimiter).map(field => field.trim().replace(/^"(.*)"$/, '$1'));
+}
+
+function parseCsv(content: string, options: CandleImportOptions): ParsedRow[] {
+  const lines = content.split(/\r?\n/);
+  const rows: ParsedRow[] = [];
+
+  if (options.format === 'bitget') {
+    lines.forEach((line, index) => {
+      if (!line.trim()) return;
+      const fields = splitCsvLine(line, options.delimiter);
+      // Tolerate a header row on top of a Bitget export
+      if (index === 0 && isNaN(Number(fields[0]))) return;
+      rows.push({ row: index + 1, values: fields.slice(0, 6) });
+    });
+    return rows;
+  }
+
+  const headerIndex = lines.findIndex(line => line.trim() !== '');
+  if (headerIndex === -1) {
+    return rows;
+  }
+
+  const header = splitCsvLine(lines[headerIndex], options.delimiter).map(name => name.toLowerCase());
+  const columns = [
+    options.timeColumn, options.openColumn, options.highColumn,
+    options.lowColumn, options.closeColumn, options.volumeColumn
+  ].map(name => {
+    const index = header.indexOf(name.toLowerCase());
+    if (index === -1) {
+      throw new CandleFileError(`Column "${name}" not found in CSV header`);
+    }
+    return index;
+  });
+
+  for (let index = headerIndex + 1; index < lines.length; index++) {
+    if (!lines[index].trim()) continue;
+    const fields = splitCsvLine(lines[index], options.delimiter);
+    rows.push({ row: index + 1, values: columns.map(column => fields[column]) });
+  }
+  return rows;
+}
+
+function parseJson(content: string, options: CandleImportOptions): ParsedRow[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error: any) {
+    throw new CandleFileError(`Invalid JSON: ${error.message}`);
+  }
+  if (!Array.isArray(data)) {
+    throw new CandleFileError('JSON import must be an array of candles');
+  }
+
+  const keys = [
+    options.timeColumn, options.openColumn, options.highColumn,
+    options.lowColumn, options.closeColumn, options.volumeColumn
+  ];
+  return data.map((item, index) => ({
+    row: index + 1,
+    values: Array.isArray(item)
+      ? item.slice(0, 6)
+      : keys.map(key => (item && typeof item === 'object' ? (item as Record<string, any>)[key] : undefined))
+  }));
+}
+
+/**
+ * Why a candle cannot be imported, or null when it is valid
+ */
+function validateCandle(candle: HistoricalCandle, intervalMs: number, now: number): string | null {
+  if (isNaN(candle.time)) return 'invalid timestamp';
+  if (candle.time % intervalMs !== 0) return 'timestamp not aligned to the interval';
+  // The live sync pages forward from the newest bar, so a bar that has not closed yet would stall it
+  if (candle.time + intervalMs > now) return 'bar has not closed yet';
+  if ([candle.open, candle.high, candle.low, candle.close].some(price => isNaN(price) || price <= 0)) {
+    return 'prices must be positive numbers';
+  }
+  if (isNaN(candle.volume) || candle.volume < 0) return 'volume must be a non-negative number';
+  if (candle.high < Math.max(candle.open, candle.close, candle.low) || candle.low > Math.min(candle.open, candle.close)) {
+    return 'high/low do not contain open and close';
+  }
+  return null;
+}
+
+/**
+ * Parse and validate an OHLCV file. Returns the clean candles (sorted, deduplicated) and a report of what was wrong.
+ */
+export function parseCandleFile(content: string, options: CandleImportOptions): { candles: HistoricalCandle[]; report: CandleImportReport } {
+  const intervalMs = intervalToMs(options.interval);
+  const isJson = options.format === 'json' || (options.format === 'bitget' && content.trimStart().startsWith('['));
+  const rows = isJson ? parseJson(content, options) : parseCsv(content, options);
+
+  const report: CandleImportReport = {
+    symbol: options.symbol,
+    interval: options.interval,
+    rows: rows.length,
+    imported: 0,
+    skipped: 0,
+    firstTime: null,
+    lastTime: null,
+    invalidRows: 0,
+    outOfOrder: 0,
+    duplicates: 0,
+    conflictingDuplicates: 0,
+    missingBars: 0,
+    errors: [],
+    gaps: []
+  };
+
+  const byTime = new Map<number, HistoricalCandle>();
+  let previousTime = -Infinity;
+  const now = Date.now();
+
+  for (const { row, values } of rows) {
+    const candle: HistoricalCandle = {
+      time: parseTime(values[0], options.timeUnit),
+      open: Number(values[1]),
+      high: Number(values[2]),
+      low: Number(values[3]),
+      close: Number(values[4]),
+      volume: Number(values[5] ?? 0)
+    };
+
+    const reason = validateCandle(candle, intervalMs, now);
+    if (reason) {
+      report.invalidRows++;
+      if (report.errors.length < MAX_REPORTED_ISSUES) {
+        report.errors.push({ row, reason });
+      }
+      continue;
+    }
+
+    if (candle.time < previousTime) {
+      report.outOfOrder++;
+    }
+    previousTime = candle.time;
+
+    const existing = byTime.get(candle.time);
+    if (existing) {
+      report.duplicates++;
+      if (existing.open !== candle.open || existing.high !== candle.high || existing.low !== candle.low ||
+          existing.close !== candle.close || existing.volume !== candle.volume) {
+        report.conflictingDuplicates++;
+      }
+    }
+    byTime.set(candle.time, candle);
+  }
+
+  const candles = Array.from(byTime.values()).sort((a, b) => a.time - b.time);
+
+  for (let i = 1; i < candles.length; i++) {
+    const missing = (candles[i].time - candles[i - 1].time) / intervalMs - 1;
+    if (missing > 0) {
+      report.missingBars += missing;
+      if (report.gaps.length < MAX_REPORTED_ISSUES) {
+        report.gaps.push({ from: candles[i - 1].time + intervalMs, to: candles[i].time - intervalMs, missing });
+      }
+    }
+  }
+
+  report.firstTime = candles.length > 0 ? candles[0].time : null;
+  report.lastTime = candles.length > 0 ? candles[candles.length - 1].time : null;
+  return { candles, report };
+}
+
+/**
+ * Parse, validate and store an OHLCV file in the candle store. Bars of earlier imports are overwritten,
+ * bars synced from the exchange are kept.
+ */
+export async function importCandles(content: string, options: CandleImportOptions): Promise<CandleImportReport> {
+  const { candles, report } = parseCandleFile(content, options);
+  if (options.dryRun) {
+    return report;
+  }
+
+  for (let i = 0; i < candles.length; i += SAVE_CHUNK_SIZE) {
+    const rows: InsertCandle[] = candles.slice(i, i + SAVE_CHUNK_SIZE).map(candle => ({
+      symbol: options.symbol,
+      interval: options.interval,
+      openTime: candle.time,
+      open: candle.open.toString(),
+      high: candle.high.toString(),
+      low: candle.low.toString(),
+      close: candle.close.toString(),
+      volume: candle.volume.toString()
+    }));
+    const saved = await storage.saveImportedCandles(rows);
+    report.imported += saved;
+    report.skipped += rows.length - saved;
+  }
+
+  console.log(`Imported ${report.imported} ${options.interval} candles for ${options.symbol}`);
+  return report;
+}
@@ -0,0 +1,310 @@
+import type { InsertCandle, Candle } from '@shared/schema';
+import { storage } from '../storage';
+import { bitgetService } from './bitget-service';
+import type { HistoricalCandle } from './trading-service';
+
+// Bitget returns at most this many candles per request
+const PAGE_SIZE = 200;
+// Upper bound on pages fetched per sync pass; the rest is picked up by the next pass
+const MAX_PAGES_PER_SYNC = 50;
+// How far back the worker looks for holes in a series, in bars
+const GAP_LOOKBACK_BARS = 5000;
+// Series nobody has read for this long are no longer kept in sync
+const SERIES_IDLE_MS = 24 * 60 * 60 * 1000;
+
+interface TrackedSeries {
+  symbol: string;
+  interval: string;
+  lastRequestedAt: number;
+}
+
+/**
+ * Convert an interval string like 15m, 4h or 1d to milliseconds
+ */
+export function intervalToMs(interval: string): number {
+  const amount = parseInt(interval.slice(0, -1));
+  const unit = interval.slice(-1);
+
+  switch (unit) {
+    case 'm':
+      return amount * 60 * 1000;
+    case 'h':
+      return amount * 60 * 60 * 1000;
+    case 'd':
+      return amount * 24 * 60 * 60 * 1000;
+    default:
+      return 60 * 60 * 1000; // Default to 1 hour
+  }
+}
+
+/**
+ * Convert a raw Bitget kline ([time, open, high, low, close, volume, ...]) to our format
+ */
+export function parseKline(kline: any[]): HistoricalCandle {
+  return {
+    time: parseInt(kline[0]),
+    open: parseFloat(kline[1]),
+    high: parseFloat(kline[2]),
+    low: parseFloat(kline[3]),
+    close: parseFloat(kline[4]),
+    volume: parseFloat(kline[5])
+  };
+}
+
+function toHistoricalCandle(candle: Candle): HistoricalCandle {
+  return {
+    time: candle.openTime,
+    open: parseFloat(candle.open),
+    high: parseFloat(candle.high),
+    low: parseFloat(candle.low),
+    close: parseFloat(candle.close),
+    volume: parseFloat(candle.volume)
+  };
+}
+
+/**
+ * Local candle store. Reads are served from the candles table, which is kept current by
+ * fetching only the bars after the newest stored one, and extended backwards on demand.
+ * A background worker keeps recently read series in sync and backfills holes.
+ */
+export class CandleStore {
+  private interval: NodeJS.Timeout | null = null;
+  private isSyncing: boolean = false;
+  private trackedSeries = new Map<string, TrackedSeries>();
+  private lastSyncAt = new Map<string, number>();
+  private pendingSyncs = new Map<string, Promise<void>>();
+  // Series whose full exchange history is already stored
+  private exhaustedSeries = new Set<string>();
+  // Holes the exchange has no candles for (e.g. maintenance), so they are not fetched again
+  private emptyGaps = new Set<string>();
+
+  constructor(
+    private pollIntervalMs: number = 60000,
+    private minSyncIntervalMs: number = 5000
+  ) {}
+
+  start(): void {
+    if (this.interval) return;
+
+    this.interval = setInterval(async () => {
+      // Skip a tick rather than overlap a slow pass
+      if (this.isSyncing) return;
+      this.isSyncing = true;
+      try {
+        await this.syncTracked();
+      } catch (error) {
+        console.error('Candle sync error:', error);
+      } finally {
+        this.isSyncing = false;
+      }
+    }, this.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Get the latest candles of a series, oldest first. Falls back to the exchange when the store is unavailable or empty.
+   */
+  async getCandles(symbol: string, interval: string, limit: number): Promise<HistoricalCandle[]> {
+    const key = this.seriesKey(symbol, interval);
+    this.trackedSeries.set(key, { symbol, interval, lastRequestedAt: Date.now() });
+
+    try {
+      await this.syncSeries(symbol, interval);
+      await this.backfill(symbol, interval, limit);
+    } catch (error: any) {
+      // Offline or without exchange access, imported and previously synced candles are still served
+      console.warn(`Could not sync ${interval} candles for ${symbol}, using stored candles: ${error?.message || error}`);
+    }
+
+    try {
+      const stored = await storage.getCandles(symbol, interval, { limit });
+      if (stored.length > 0) {
+        return stored.map(toHistoricalCandle);
+      }
+    } catch (error) {
+      console.error(`Candle store unavailable for ${symbol} ${interval}, reading from the exchange:`, error);
+    }
+
+    const klines = await bitgetService.getKlines(symbol, interval, limit);
+    return klines.map(parseKline).sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Fetch the bars after the newest stored one. Concurrent callers share one request and
+   * calls within minSyncIntervalMs of the last sync are served from the store as is.
+   */
+  async syncSeries(symbol: string, interval: string): Promise<void> {
+    const key = this.seriesKey(symbol, interval);
+
+    const pending = this.pendingSyncs.get(key);
+    if (pending) {
+      return pending;
+    }
+    if (Date.now() - (this.lastSyncAt.get(key) || 0) < this.minSyncIntervalMs) {
+      return;
+    }
+
+    const sync = this.syncLatest(symbol, interval)
+      .then(() => {
+        this.lastSyncAt.set(key, Date.now());
+      })
+      .finally(() => {
+        this.pendingSyncs.delete(key);
+      });
+    this.pendingSyncs.set(key, sync);
+    return sync;
+  }
+
+  /**
+   * Page backwards from the oldest stored bar until the series holds at least `count` bars
+   */
+  async backfill(symbol: string, interval: string, count: number): Promise<void> {
+    const key = this.seriesKey(symbol, interval);
+    const intervalMs = intervalToMs(interval);
+
+    for (let page = 0; page < MAX_PAGES_PER_SYNC && !this.exhaustedSeries.has(key); page++) {
+      const stored = await storage.getCandles(symbol, interval, { limit: count });
+      if (stored.length >= count || stored.length === 0) {
+        return;
+      }
+
+      const oldest = stored[0].openTime;
+      const klines = await this.fetchKlines(symbol, interval, {
+        endTime: oldest - intervalMs,
+        limit: Math.min(PAGE_SIZE, count - stored.length)
+      });
+      if (klines.length === 0 || klines[0].time >= oldest) {
+        // Nothing older on the exchange; the series starts at the listing
+        this.exhaustedSeries.add(key);
+        return;
+      }
+      await this.save(symbol, interval, klines);
+    }
+  }
+
+  /**
+   * Fetch the missing bars inside the stored part of a series
+   */
+  async fillGaps(symbol: string, interval: string): Promise<number> {
+    const intervalMs = intervalToMs(interval);
+    const times = await storage.getCandleTimes(symbol, interval, Date.now() - GAP_LOOKBACK_BARS * intervalMs);
+
+    let filled = 0;
+    for (let i = 1; i < times.length; i++) {
+      if (times[i] - times[i - 1] <= intervalMs) continue;
+
+      const gapKey = `${this.seriesKey(symbol, interval)}:${times[i - 1]}`;
+      if (this.emptyGaps.has(gapKey)) continue;
+
+      let cursor = times[i - 1] + intervalMs;
+      const gapEnd = times[i] - intervalMs;
+      let gapFilled = 0;
+      for (let page = 0; page < MAX_PAGES_PER_SYNC && cursor <= gapEnd; page++) {
+        const klines = (await this.fetchKlines(symbol, interval, { startTime: cursor, endTime: gapEnd, limit: PAGE_SIZE }))
+          .filter(candle => candle.time >= cursor && candle.time <= gapEnd);
+        if (klines.length === 0) break;
+
+        gapFilled += await this.save(symbol, interval, klines);
+        cursor = klines[klines.length - 1].time + intervalMs;
+      }
+
+      if (gapFilled === 0) {
+        this.emptyGaps.add(gapKey);
+      }
+      filled += gapFilled;
+    }
+
+    if (filled > 0) {
+      console.log(`Backfilled ${filled} missing ${interval} candles for ${symbol}`);
+    }
+    return filled;
+  }
+
+  /**
+   * Sync every series read recently and repair their gaps
+   */
+  private async syncTracked(): Promise<void> {
+    const now = Date.now();
+
+    for (const [key, series] of Array.from(this.trackedSeries.entries())) {
+      if (now - series.lastRequestedAt > SERIES_IDLE_MS) {
+        this.trackedSeries.delete(key);
+        continue;
+      }
+
+      try {
+        await this.syncSeries(series.symbol, series.interval);
+        await this.fillGaps(series.symbol, series.interval);
+      } catch (error) {
+        console.error(`Error syncing ${series.interval} candles for ${series.symbol}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Page forward from the newest bar synced from the exchange (refreshing it, as it may still have been forming)
+   * to now. Imported bars after it are fetched again, so the exchange's bars replace them.
+   */
+  private async syncLatest(symbol: string, interval: string): Promise<void> {
+    const intervalMs = intervalToMs(interval);
+    const [newest] = await storage.getCandles(symbol, interval, { limit: 1, source: 'exchange' });
+
+    if (!newest) {
+      await this.save(symbol, interval, await this.fetchKlines(symbol, interval, { limit: PAGE_SIZE }));
+      return;
+    }
+
+    let cursor = newest.openTime;
+    for (let page = 0; page < MAX_PAGES_PER_SYNC; page++) {
+      const klines = await this.fetchKlines(symbol, interval, { startTime: cursor, limit: PAGE_SIZE });
+      if (klines.length === 0) return;
+
+      await this.save(symbol, interval, klines);
+
+      const lastTime = klines[klines.length - 1].time;
+      if (klines.length < PAGE_SIZE || lastTime + intervalMs > Date.now()) {
+        return;
+      }
+      cursor = lastTime + intervalMs;
+    }
+  }
+
+  private async fetchKlines(
+    symbol: string,
+    interval: string,
+    options: { startTime?: number; endTime?: number; limit: number }
+  ): Promise<HistoricalCandle[]> {
+    const { limit, ...range } = options;
+    const klines = await bitgetService.getKlines(symbol, interval, limit, range);
+    return klines
+      .map(parseKline)
+      .filter(candle => !isNaN(candle.time))
+      .sort((a, b) => a.time - b.time);
+  }
+
+  private async save(symbol: string, interval: string, klines: HistoricalCandle[]): Promise<number> {
+    const rows: InsertCandle[] = klines.map(candle => ({
+      symbol,
+      interval,
+      openTime: candle.time,
+      open: candle.open.toString(),
+      high: candle.high.toString(),
+      low: candle.low.toString(),
+      close: candle.close.toString(),
+      volume: candle.volume.toString()
+    }));
+    return storage.saveCandles(rows);
+  }
+
+  private seriesKey(symbol: string, interval: string): string {
+    return `${symbol}:${interval}`;
+  }
+}
+
+export const candleStore = new CandleStore();
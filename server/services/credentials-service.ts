@@ -0,0 +1,141 @@
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { BitgetService, type BitgetCredentials } from './bitget-service';
+import { BitgetFuturesService } from './bitget-futures-service';
+
+const CIPHER = 'aes-256-gcm';
+const IV_LENGTH = 12;
+
+export interface CredentialsStatus {
+  configured: boolean;
+  exchange?: string;
+  keyHint?: string;
+  updatedAt?: Date | null;
+}
+
+/**
+ * Derive the encryption key from the CREDENTIALS_MASTER_KEY env secret
+ */
+function getMasterKey(): Buffer {
+  const secret = process.env.CREDENTIALS_MASTER_KEY;
+  if (!secret) {
+    throw new Error('CREDENTIALS_MASTER_KEY must be set to store exchange credentials');
+  }
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Encrypt a secret as "iv:authTag:ciphertext" (base64 parts)
+ */
+export function encryptSecret(plaintext: string): string {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(CIPHER, getMasterKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64')).join(':');
+}
+
+/**
+ * Decrypt a value produced by encryptSecret
+ */
+export function decryptSecret(payload: string): string {
+  const [iv, authTag, encrypted] = payload.split(':').map(part => Buffer.from(part, 'base64'));
+  if (!iv || !authTag || !encrypted) {
+    throw new Error('Malformed encrypted value');
+  }
+
+  const decipher = crypto.createDecipheriv(CIPHER, getMasterKey(), iv);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Stores each user's exchange API keys encrypted and hands out per-user exchange clients
+ */
+export class CredentialsService {
+  // Clients are created on first use and dropped when the credentials change
+  private clients: Record<number, BitgetService> = {};
+  private futuresClients: Record<number, BitgetFuturesService> = {};
+
+  /**
+   * Get the Bitget client for a user. Without stored credentials the client only serves market data.
+   */
+  async getBitgetService(userId: number): Promise<BitgetService> {
+    if (!this.clients[userId]) {
+      const credentials = await this.getCredentials(userId);
+      this.clients[userId] = new BitgetService(credentials || undefined);
+    }
+    return this.clients[userId];
+  }
+
+  /**
+   * Get the Bitget USDT-M futures client for a user, sharing the spot API keys
+   */
+  async getBitgetFuturesService(userId: number): Promise<BitgetFuturesService> {
+    if (!this.futuresClients[userId]) {
+      const credentials = await this.getCredentials(userId);
+      this.futuresClients[userId] = new BitgetFuturesService(credentials || undefined);
+    }
+    return this.futuresClients[userId];
+  }
+
+  /**
+   * Validate credentials against the exchange, then store them encrypted
+   */
+  async saveCredentials(userId: number, credentials: BitgetCredentials): Promise<CredentialsStatus> {
+    const client = new BitgetService(credentials);
+    await client.validateCredentials();
+
+    const saved = await storage.saveExchangeCredentials({
+      userId,
+      exchange: 'bitget',
+      apiKey: encryptSecret(credentials.apiKey.trim()),
+      apiSecret: encryptSecret(credentials.apiSecret.trim()),
+      passphrase: encryptSecret(credentials.passphrase.trim()),
+      keyHint: credentials.apiKey.trim().slice(-4)
+    });
+
+    this.clients[userId] = client;
+    delete this.futuresClients[userId];
+    return { configured: true, exchange: saved.exchange, keyHint: saved.keyHint, updatedAt: saved.updatedAt };
+  }
+
+  /**
+   * Remove a user's credentials; their client falls back to market data only
+   */
+  async removeCredentials(userId: number): Promise<boolean> {
+    delete this.clients[userId];
+    delete this.futuresClients[userId];
+    return storage.deleteExchangeCredentials(userId);
+  }
+
+  /**
+   * Describe the stored credentials without revealing them
+   */
+  async getStatus(userId: number): Promise<CredentialsStatus> {
+    const stored = await storage.getExchangeCredentials(userId);
+    if (!stored) {
+      return { configured: false };
+    }
+    return { configured: true, exchange: stored.exchange, keyHint: stored.keyHint, updatedAt: stored.updatedAt };
+  }
+
+  private async getCredentials(userId: number): Promise<BitgetCredentials | null> {
+    const stored = await storage.getExchangeCredentials(userId);
+    if (!stored) return null;
+
+    try {
+      return {
+        apiKey: decryptSecret(stored.apiKey),
+        apiSecret: decryptSecret(stored.apiSecret),
+        passphrase: decryptSecret(stored.passphrase)
+      };
+    } catch (error) {
+      // A rotated master key makes old credentials unreadable; the user has to enter them again
+      console.error(`Could not decrypt exchange credentials for user ${userId}:`, error);
+      return null;
+    }
+  }
+}
+
+// Export a singleton instance
+export const credentialsService = new CredentialsService();
@@ -0,0 +1,35 @@
+import { EventEmitter } from 'events';
+import type { Trade } from '@shared/schema';
+import type { RealtimeTradeEvent } from '@shared/realtime';
+import type { AccountSummary, MarketData } from './bitget-service';
+import type { TradeSignal } from './trading-service';
+
+// Events published by the trading services, keyed by event name
+export interface TradingEvents {
+  balance: { userId: number; balance: AccountSummary };
+  ticker: MarketData;
+  signal: { userId: number; signal: TradeSignal };
+  trade: { userId: number; event: RealtimeTradeEvent; trade: Trade };
+  bot: { userId: number; isActive: boolean };
+}
+
+/**
+ * In-process publish/subscribe bus that decouples the trading services from the push channel
+ */
+export class EventBus {
+  private emitter = new EventEmitter();
+
+  publish<K extends keyof TradingEvents>(event: K, payload: TradingEvents[K]): void {
+    this.emitter.emit(event, payload);
+  }
+
+  subscribe<K extends keyof TradingEvents>(event: K, listener: (payload: TradingEvents[K]) => void): () => void {
+    this.emitter.on(event, listener);
+    return () => {
+      this.emitter.off(event, listener);
+    };
+  }
+}
+
+// Export a singleton instance
+export const eventBus = new EventBus();
@@ -0,0 +1,151 @@
+import Decimal from 'decimal.js';
+import { storage } from '../storage';
+import {
+  type AccountSummary,
+  type KlineRange,
+  type MarketData,
+  type TradeParams,
+  type TradeResponse
+} from './bitget-service';
+import { PaperExchangeService } from './paper-exchange-service';
+import type { InstrumentSpec } from './instruments';
+import { credentialsService } from './credentials-service';
+
+export type TradingMode = 'live' | 'paper';
+
+export type MarketType = 'spot' | 'futures';
+
+export type OrderState = 'NEW' | 'PARTIALLY_FILLED' | 'FILLED' | 'CANCELLED' | 'REJECTED';
+
+// States after which an order will not change anymore
+export const FINAL_ORDER_STATES: OrderState[] = ['FILLED', 'CANCELLED', 'REJECTED'];
+
+export interface OrderFill {
+  state: OrderState;
+  filledQuantity: Decimal;
+  avgFillPrice: Decimal | null;
+  fee: Decimal | null; // null when the exchange does not report fees on the order
+}
+
+/**
+ * Common surface shared by the live Bitget adapter and the paper trading simulator
+ */
+export interface ExchangeService {
+  getAccountBalance(): Promise<AccountSummary>;
+  getMarketData(symbol: string): Promise<MarketData>;
+  executeTrade(params: TradeParams): Promise<TradeResponse>;
+  getOrderDetails(symbol: string, orderId: string): Promise<any>;
+  cancelOrder(symbol: string, orderId: string): Promise<boolean>;
+  getKlines(symbol: string, interval: string, limit?: number, range?: KlineRange): Promise<any[]>;
+  getInstrument(symbol: string): Promise<InstrumentSpec>;
+  isReady(): boolean;
+}
+
+// Paper exchanges are cheap to keep around, one per user
+const paperExchanges: Record<number, PaperExchangeService> = {};
+
+/**
+ * Get the paper trading exchange for a user
+ */
+export function getPaperExchange(userId: number): PaperExchangeService {
+  if (!paperExchanges[userId]) {
+    paperExchanges[userId] = new PaperExchangeService(userId);
+  }
+  return paperExchanges[userId];
+}
+
+/**
+ * Resolve the exchange a user trades on, based on the trading mode and market type in their settings.
+ * Pass the market type of an existing trade so it is managed where it was opened.
+ */
+export async function getExchangeForUser(userId: number, marketType?: string | null): Promise<ExchangeService> {
+  const settings = await storage.getTradingSettings(userId);
+  // Paper trading simulates spot only
+  if (getTradingMode(settings?.tradingMode) === 'paper') {
+    return getPaperExchange(userId);
+  }
+  // Live trading uses the user's own API keys
+  if (getMarketType(marketType ?? settings?.marketType) === 'futures') {
+    return credentialsService.getBitgetFuturesService(userId);
+  }
+  return credentialsService.getBitgetService(userId);
+}
+
+/**
+ * Normalize a stored trading mode value
+ */
+export function getTradingMode(mode: string | null | undefined): TradingMode {
+  return mode === 'paper' ? 'paper' : 'live';
+}
+
+/**
+ * Whether the settings trade USDT-M futures; paper trading always simulates spot
+ */
+export function isFuturesTrading(settings: { tradingMode: string; marketType: string }): boolean {
+  return getTradingMode(settings.tradingMode) === 'live' && getMarketType(settings.marketType) === 'futures';
+}
+
+/**
+ * Key of the account a user's settings trade on: 'paper:spot', 'live:spot' or 'live:futures'.
+ * Balances of different accounts cannot be compared, so equity peaks are kept per account.
+ */
+export function getAccountKey(settings: { tradingMode: string; marketType: string } | null | undefined): string {
+  const mode = getTradingMode(settings?.tradingMode);
+  return `${mode}:${mode === 'paper' ? 'spot' : getMarketType(settings?.marketType)}`;
+}
+
+/**
+ * Normalize a stored market type value
+ */
+export function getMarketType(marketType: string | null | undefined): MarketType {
+  return marketType === 'futures' ? 'futures' : 'spot';
+}
+
+/**
+ * Normalize an order details response (Bitget or paper) into a fill summary
+ */
+export function normalizeOrderDetails(details: any): OrderFill {
+  const order = Array.isArray(details) ? details[0] : details;
+  if (!order) {
+    throw new Error('Empty order details response');
+  }
+
+  const rawStatus = String(order.status || order.state || '').toLowerCase();
+  let state: OrderState;
+  switch (rawStatus) {
+    case 'full_fill':
+    case 'filled':
+      state = 'FILLED';
+      break;
+    case 'partial_fill':
+    case 'partially_filled':
+      state = 'PARTIALLY_FILLED';
+      break;
+    case 'cancelled':
+    case 'canceled':
+      state = 'CANCELLED';
+      break;
+    case 'rejected':
+    case 'fail':
+    case 'failed':
+      state = 'REJECTED';
+      break;
+    default:
+      state = 'NEW'; // init, new, live
+  }
+
+  const filledQuantity = new Decimal(order.fillQuantity || order.baseVolume || 0);
+
+  let avgFillPrice: Decimal | null = null;
+  const rawPrice = order.fillPrice || order.priceAvg;
+  if (rawPrice && new Decimal(rawPrice).greaterThan(0)) {
+    avgFillPrice = new Decimal(rawPrice);
+  } else if (order.fillTotalAmount && filledQuantity.greaterThan(0)) {
+    avgFillPrice = new Decimal(order.fillTotalAmount).dividedBy(filledQuantity);
+  }
+
+  const rawFee = order.fees ?? order.fee;
+  const fee = rawFee !== undefined && rawFee !== null && rawFee !== '' ? new Decimal(rawFee).abs() : null;
+
+  return { state, filledQuantity, avgFillPrice, fee };
+}
@@ -0,0 +1,103 @@
+import Decimal from 'decimal.js';
+import { storage } from '../storage';
+import type { Trade } from '@shared/schema';
+import { credentialsService } from './credentials-service';
+import type { FuturesPosition } from './bitget-futures-service';
+
+/**
+ * Periodically copies liquidation price, mark price and accrued funding from the
+ * exchange's futures positions onto the open futures trades they belong to
+ */
+export class FuturesPositionTracker {
+  private interval: NodeJS.Timeout | null = null;
+  private isSyncing: boolean = false;
+
+  constructor(private syncIntervalMs: number = 60000) {}
+
+  start(): void {
+    if (this.interval) return;
+
+    this.interval = setInterval(async () => {
+      // Skip a tick rather than overlap a slow sync
+      if (this.isSyncing) return;
+      this.isSyncing = true;
+      try {
+        await this.syncAll();
+      } catch (error) {
+        console.error('Futures position tracker error:', error);
+      } finally {
+        this.isSyncing = false;
+      }
+    }, this.syncIntervalMs);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Sync every open futures trade, one position lookup per user
+   */
+  async syncAll(): Promise<void> {
+    const openTrades = (await storage.getAllOpenTrades()).filter(trade => trade.marketType === 'futures');
+    if (openTrades.length === 0) return;
+
+    const tradesByUser = new Map<number, Trade[]>();
+    for (const trade of openTrades) {
+      tradesByUser.set(trade.userId, [...(tradesByUser.get(trade.userId) || []), trade]);
+    }
+
+    for (const [userId, trades] of Array.from(tradesByUser.entries())) {
+      try {
+        await this.syncUser(userId, trades);
+      } catch (error) {
+        console.error(`Error syncing futures positions for user ${userId}:`, error);
+      }
+    }
+  }
+
+  private async syncUser(userId: number, trades: Trade[]): Promise<void> {
+    const exchange = await credentialsService.getBitgetFuturesService(userId);
+    const positions = await exchange.getPositions();
+
+    for (const trade of trades) {
+      const position = positions.find(p => p.symbol === trade.symbol && p.side === (trade.side === 'buy' ? 'long' : 'short'));
+      // No position yet (entry still filling) or already gone (closed outside the bot)
+      if (!position) continue;
+
+      try {
+        const funding = await exchange.getFundingFees(trade.symbol, trade.openedAt ?? new Date());
+        const { tradeData, ...updates } = this.tradeUpdates(trade, position, funding);
+        // Merge into the stored tradeData; the trade may have changed while the exchange was queried
+        await storage.mergeTradeData(trade.id, tradeData, [], updates);
+      } catch (error) {
+        console.error(`Error syncing futures trade ${trade.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Funding is booked per position; a trade carries its share of the position size
+   */
+  private tradeUpdates(trade: Trade, position: FuturesPosition, funding: Decimal): Partial<Trade> & { tradeData: Record<string, unknown> } {
+    const positionSize = new Decimal(position.size);
+    const share = positionSize.greaterThan(0)
+      ? Decimal.min(new Decimal(trade.quantity).dividedBy(positionSize), 1)
+      : new Decimal(1);
+
+    return {
+      liquidationPrice: position.liquidationPrice,
+      fundingFees: funding.times(share).toDecimalPlaces(8).toString(),
+      tradeData: {
+        markPrice: position.markPrice,
+        unrealizedPnl: new Decimal(position.unrealizedPnl || 0).times(share).toDecimalPlaces(8).toString()
+      }
+    };
+  }
+}
+
+// Export a singleton instance
+export const futuresPositionTracker = new FuturesPositionTracker();
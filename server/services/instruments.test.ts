@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import {
+  normalizeOrder,
+  OrderRejectedError,
+  parseFuturesInstrument,
+  parseInstrument,
+  roundPrice,
+  roundQuantity,
+  type OrderRejectionReason
+} from './instruments';
+import { instrumentSpec } from '../test/fixtures/instruments';
+
+const BTC = instrumentSpec('BTCUSDT', { pricePrecision: 2, quantityPrecision: 4, minTradeAmount: '0.001', maxTradeAmount: '100', minNotional: '5' });
+
+function rejectionOf(run: () => unknown): OrderRejectionReason | undefined {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof OrderRejectedError) return error.reason;
+    throw error;
+  }
+  return undefined;
+}
+
+describe('parseInstrument', () => {
+  it('maps a spot product to a spec', () => {
+    expect(parseInstrument({
+      symbol: 'BTCUSDT_SPBL',
+      symbolName: 'BTCUSDT',
+      baseCoin: 'BTC',
+      quoteCoin: 'USDT',
+      priceScale: '2',
+      quantityScale: '4',
+      minTradeAmount: '0.0001',
+      maxTradeAmount: '10000',
+      minTradeUSDT: '5',
+      status: 'online'
+    })).toEqual({
+      symbol: 'BTCUSDT',
+      baseAsset: 'BTC',
+      quoteAsset: 'USDT',
+      pricePrecision: 2,
+      quantityPrecision: 4,
+      minTradeAmount: '0.0001',
+      maxTradeAmount: '10000',
+      minNotional: '5',
+      status: 'online'
+    });
+  });
+
+  it('strips the product suffix and treats a zero maximum as no maximum', () => {
+    const spec = parseInstrument({ symbol: 'ETHUSDT_SPBL', baseCoin: 'ETH', quoteCoin: 'USDT', pricePrecision: '2', quantityPrecision: '3', maxTradeAmount: '0' });
+
+    expect(spec.symbol).toBe('ETHUSDT');
+    expect(spec.pricePrecision).toBe(2);
+    expect(spec.quantityPrecision).toBe(3);
+    expect(spec.minTradeAmount).toBe('0');
+    expect(spec.maxTradeAmount).toBeNull();
+  });
+});
+
+describe('parseFuturesInstrument', () => {
+  it('maps a contract and reports normal contracts as online', () => {
+    const spec = parseFuturesInstrument({
+      symbol: 'BTCUSDT_UMCBL',
+      baseCoin: 'BTC',
+      quoteCoin: 'USDT',
+      pricePlace: '1',
+      volumePlace: '3',
+      minTradeNum: '0.001',
+      minTradeUSDT: '5',
+      symbolStatus: 'normal'
+    });
+
+    expect(spec).toMatchObject({ symbol: 'BTCUSDT', pricePrecision: 1, quantityPrecision: 3, minTradeAmount: '0.001', status: 'online' });
+    expect(parseFuturesInstrument({ symbol: 'LUNAUSDT_UMCBL', symbolStatus: 'off' }).status).toBe('off');
+  });
+});
+
+describe('rounding', () => {
+  it('rounds sizes down to the quantity step', () => {
+    expect(roundQuantity(BTC, '0.123456').toString()).toBe('0.1234');
+    expect(roundQuantity(BTC, '0.99999').toString()).toBe('0.9999');
+  });
+
+  it('rounds buy prices down and sell prices up to the tick', () => {
+    expect(roundPrice(BTC, 'buy', '50000.129').toString()).toBe('50000.12');
+    expect(roundPrice(BTC, 'sell', '50000.121').toString()).toBe('50000.13');
+  });
+});
+
+describe('normalizeOrder', () => {
+  it('rounds the order and reports its value', () => {
+    expect(normalizeOrder(BTC, { symbol: 'BTCUSDT', side: 'buy', size: '0.12345', price: '50000.129' }, '50000')).toEqual({
+      size: '0.1234',
+      price: '50000.12',
+      notional: '6170.014808'
+    });
+  });
+
+  it('values market orders at the reference price', () => {
+    expect(normalizeOrder(BTC, { symbol: 'BTCUSDT', side: 'sell', size: '0.01' }, '50000')).toEqual({ size: '0.01', notional: '500' });
+  });
+
+  it('rejects orders on an offline instrument', () => {
+    const halted = { ...BTC, status: 'halt' };
+
+    expect(rejectionOf(() => normalizeOrder(halted, { symbol: 'BTCUSDT', side: 'buy', size: '1' }, '50000'))).toBe('INSTRUMENT_OFFLINE');
+  });
+
+  it('rejects sizes that are not positive', () => {
+    expect(rejectionOf(() => normalizeOrder(BTC, { symbol: 'BTCUSDT', side: 'buy', size: '0' }, '50000'))).toBe('INVALID_SIZE');
+    expect(rejectionOf(() => normalizeOrder(BTC, { symbol: 'BTCUSDT', side: 'buy', size: '-1' }, '50000'))).toBe('INVALID_SIZE');
+  });
+
+  it('rejects sizes below the minimum or rounding to zero', () => {
+    expect(rejectionOf(() => normalizeOrder(BTC, { symbol: 'BTCUSDT', side: 'buy', size: '0.0009' }, '50000'))).toBe('SIZE_BELOW_MINIMUM');
+    expect(rejectionOf(() => normalizeOrder({ ...BTC, minTradeAmount: '0' }, { symbol: 'BTCUSDT', side: 'buy', size: '0.00001' }, '50000')))
+      .toBe('SIZE_BELOW_MINIMUM');
+  });
+
+  it('rejects sizes above the maximum', () => {
+    expect(rejectionOf(() => normalizeOrder(BTC, { symbol: 'BTCUSDT', side: 'buy', size: '100.5' }, '50000'))).toBe('SIZE_ABOVE_MAXIMUM');
+  });
+
+  it('rejects limit prices that round to zero', () => {
+    expect(rejectionOf(() => normalizeOrder(BTC, { symbol: 'BTCUSDT', side: 'buy', size: '1', price: '0.004' }, '50000'))).toBe('INVALID_PRICE');
+  });
+
+  it('rejects orders worth less than the minimum value', () => {
+    expect(rejectionOf(() => normalizeOrder(BTC, { symbol: 'BTCUSDT', side: 'buy', size: '0.001' }, '4000'))).toBe('NOTIONAL_BELOW_MINIMUM');
+    expect(normalizeOrder(BTC, { symbol: 'BTCUSDT', side: 'buy', size: '0.001' }, '5000').notional).toBe('5');
+  });
+});
@@ -0,0 +1,155 @@
+import Decimal from 'decimal.js';
+
+/**
+ * Trading rules of a spot symbol or futures contract, as published by the exchange
+ */
+export interface InstrumentSpec {
+  symbol: string; // e.g. BTCUSDT
+  baseAsset: string;
+  quoteAsset: string;
+  pricePrecision: number; // Decimal places of a valid price
+  quantityPrecision: number; // Decimal places of a valid order size
+  minTradeAmount: string; // Minimum order size in the base asset
+  maxTradeAmount: string | null;
+  minNotional: string; // Minimum order value in the quote asset
+  status: string; // 'online' when the symbol can be traded
+}
+
+export type OrderRejectionReason =
+  | 'INSTRUMENT_NOT_FOUND'
+  | 'INSTRUMENT_OFFLINE'
+  | 'INVALID_SIZE'
+  | 'INVALID_PRICE'
+  | 'SIZE_BELOW_MINIMUM'
+  | 'SIZE_ABOVE_MAXIMUM'
+  | 'NOTIONAL_BELOW_MINIMUM'
+  | 'INSUFFICIENT_BALANCE'
+  | 'RISK_LIMIT_BREACHED';
+
+// An order the exchange or the user's risk limits would reject, caught before it is sent
+export class OrderRejectedError extends Error {
+  constructor(public reason: OrderRejectionReason, message: string) {
+    super(message);
+  }
+}
+
+// The exchange has no order with this id, as opposed to a request that failed and may succeed when retried
+export class OrderNotFoundError extends Error {}
+
+export interface OrderToNormalize {
+  symbol: string;
+  side: 'buy' | 'sell';
+  size: string;
+  price?: string; // Limit price; market orders are checked against the reference price
+}
+
+export interface NormalizedOrder {
+  size: string;
+  price?: string;
+  notional: string;
+}
+
+/**
+ * Map a Bitget spot symbol (v1 /public/products) to an instrument spec
+ */
+export function parseInstrument(raw: any): InstrumentSpec {
+  // v1 symbols carry a product suffix (BTCUSDT_SPBL); symbolName is the plain pair
+  const symbol = String(raw.symbolName || raw.symbol).replace(/_SPBL$/, '');
+  const maxTradeAmount = Number(raw.maxTradeAmount);
+
+  return {
+    symbol,
+    baseAsset: raw.baseCoin,
+    quoteAsset: raw.quoteCoin,
+    pricePrecision: parseInt(raw.priceScale ?? raw.pricePrecision, 10) || 0,
+    quantityPrecision: parseInt(raw.quantityScale ?? raw.quantityPrecision, 10) || 0,
+    minTradeAmount: raw.minTradeAmount || '0',
+    maxTradeAmount: maxTradeAmount > 0 ? raw.maxTradeAmount : null,
+    minNotional: raw.minTradeUSDT || '0',
+    status: raw.status || 'online'
+  };
+}
+
+/**
+ * Map a Bitget USDT-M futures contract (v1 /market/contracts) to an instrument spec.
+ * Contract sizes are in the base asset, like spot.
+ */
+export function parseFuturesInstrument(raw: any): InstrumentSpec {
+  const symbol = String(raw.symbolName || raw.symbol).replace(/_UMCBL$/, '');
+
+  return {
+    symbol,
+    baseAsset: raw.baseCoin,
+    quoteAsset: raw.quoteCoin,
+    pricePrecision: parseInt(raw.pricePlace, 10) || 0,
+    quantityPrecision: parseInt(raw.volumePlace, 10) || 0,
+    minTradeAmount: raw.minTradeNum || '0',
+    maxTradeAmount: null,
+    minNotional: raw.minTradeUSDT || '0',
+    // Contracts report 'normal' where spot symbols report 'online'
+    status: raw.symbolStatus === 'normal' ? 'online' : raw.symbolStatus || 'online'
+  };
+}
+
+/**
+ * Round an order size down to the instrument's quantity step, so an order never exceeds the funds it was sized for
+ */
+export function roundQuantity(spec: InstrumentSpec, size: Decimal.Value): Decimal {
+  return new Decimal(size).toDecimalPlaces(spec.quantityPrecision, Decimal.ROUND_DOWN);
+}
+
+/**
+ * Round a price to the instrument's tick, towards the better side for the order:
+ * down for buys, up for sells
+ */
+export function roundPrice(spec: InstrumentSpec, side: 'buy' | 'sell', price: Decimal.Value): Decimal {
+  return new Decimal(price).toDecimalPlaces(spec.pricePrecision, side === 'buy' ? Decimal.ROUND_DOWN : Decimal.ROUND_UP);
+}
+
+/**
+ * Round an order to the instrument's precision and check it against the exchange's limits.
+ * Throws an OrderRejectedError with the reason when the exchange would reject the order.
+ */
+export function normalizeOrder(spec: InstrumentSpec, order: OrderToNormalize, referencePrice: Decimal.Value): NormalizedOrder {
+  if (spec.status !== 'online') {
+    throw new OrderRejectedError('INSTRUMENT_OFFLINE', `${spec.symbol} is not tradable (status ${spec.status})`);
+  }
+
+  const requested = new Decimal(order.size);
+  if (!requested.isFinite() || requested.lessThanOrEqualTo(0)) {
+    throw new OrderRejectedError('INVALID_SIZE', `Order size ${order.size} must be a positive number`);
+  }
+
+  const size = roundQuantity(spec, requested);
+  if (size.lessThan(spec.minTradeAmount) || size.isZero()) {
+    throw new OrderRejectedError(
+      'SIZE_BELOW_MINIMUM',
+      `Order size ${requested} ${spec.baseAsset} is below the minimum of ${spec.minTradeAmount} (step ${new Decimal(10).pow(-spec.quantityPrecision)})`
+    );
+  }
+  if (spec.maxTradeAmount !== null && size.greaterThan(spec.maxTradeAmount)) {
+    throw new OrderRejectedError(
+      'SIZE_ABOVE_MAXIMUM',
+      `Order size ${size} ${spec.baseAsset} is above the maximum of ${spec.maxTradeAmount}`
+    );
+  }
+
+  const price = order.price !== undefined ? roundPrice(spec, order.side, order.price) : undefined;
+  if (price !== undefined && price.lessThanOrEqualTo(0)) {
+    throw new OrderRejectedError('INVALID_PRICE', `Price ${order.price} rounds to zero at ${spec.pricePrecision} decimals`);
+  }
+
+  const notional = size.times(price ?? referencePrice);
+  if (notional.lessThan(spec.minNotional)) {
+    throw new OrderRejectedError(
+      'NOTIONAL_BELOW_MINIMUM',
+      `Order value ${notional.toDecimalPlaces(4)} ${spec.quoteAsset} is below the minimum of ${spec.minNotional}`
+    );
+  }
+
+  return {
+    size: size.toString(),
+    ...(price !== undefined && { price: price.toString() }),
+    notional: notional.toString()
+  };
+}
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeSeries, calculateVolatility } from './market-analysis';
+import { strategyRegistry } from './strategies';
+import type { HistoricalCandle } from './trading-service';
+import {
+  FIXTURE_MARKETS,
+  FIXTURE_SCENARIOS,
+  FIXTURE_START,
+  scenarioSeries,
+  windows
+} from '../test/fixtures/candle-series';
+
+// Golden files keep 10 significant digits, so they do not churn on floating point noise
+function round(value: unknown): unknown {
+  if (typeof value === 'number') return Number(value.toPrecision(10));
+  if (Array.isArray(value)) return value.map(round);
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, inner]) => [key, round(inner)]));
+  }
+  return value;
+}
+
+// One signal per line keeps the golden files small and their diffs readable
+function formatGolden(output: Record<string, unknown[]>): string {
+  const scenarios = Object.entries(output).map(([scenario, signals]) => {
+    const lines = signals.map(signal => `    ${JSON.stringify(signal)}`);
+    return lines.length > 0 ? `  "${scenario}": [\n${lines.join(',\n')}\n  ]` : `  "${scenario}": []`;
+  });
+  return `{\n${scenarios.join(',\n')}\n}\n`;
+}
+
+function candle(close: number): HistoricalCandle {
+  return { time: FIXTURE_START, open: close, high: close, low: close, close, volume: 1 };
+}
+
+describe('analyzeSeries', () => {
+  for (const strategy of strategyRegistry.names()) {
+    for (const market of FIXTURE_MARKETS) {
+      it(`${strategy} signals on ${market.symbol} reference ${market.symbol} at its own close`, () => {
+        let signals = 0;
+        for (const window of windows(scenarioSeries('range', market.symbol, market.basePrice))) {
+          const signal = analyzeSeries(window, strategy);
+          if (!signal) continue;
+
+          const latest = window.candles[window.candles.length - 1];
+          expect(signal.symbol).toBe(market.symbol);
+          expect(signal.price).toBe(latest.close.toString());
+          expect(signal.time).toBe(latest.time);
+          expect(signal.strategy).toBe(strategy);
+          signals++;
+        }
+        expect(signals).toBeGreaterThan(0);
+      });
+    }
+  }
+
+  it('rejects a series too short to analyze', () => {
+    const series = scenarioSeries('range', 'ETHUSDT', 3000, 49);
+    expect(() => analyzeSeries(series, 'MACD')).toThrow('Not enough data for analysis');
+  });
+
+  it('rejects an unknown strategy', () => {
+    expect(() => analyzeSeries(scenarioSeries('range'), 'NOPE')).toThrow('Unsupported strategy: NOPE');
+  });
+
+  it('rejects invalid strategy params', () => {
+    expect(() => analyzeSeries(scenarioSeries('range'), 'RSI', { period: -1 })).toThrow();
+  });
+});
+
+// Every signal each strategy gives over each scenario, with its default params. A change here is a change
+// in trading behaviour: review the diff, then update the golden files with `npx vitest run -u`.
+describe('strategy golden output', () => {
+  for (const strategy of strategyRegistry.names()) {
+    it(`${strategy} signals match the golden file`, async () => {
+      const output: Record<string, unknown[]> = {};
+      for (const scenario of FIXTURE_SCENARIOS) {
+        output[scenario] = [];
+        for (const window of windows(scenarioSeries(scenario))) {
+          const signal = analyzeSeries(window, strategy);
+          if (signal) {
+            output[scenario].push(round({
+              bar: (signal.time - FIXTURE_START) / (15 * 60 * 1000),
+              side: signal.side,
+              price: parseFloat(signal.price),
+              confidence: signal.confidence,
+              indicators: signal.indicators
+            }));
+          }
+        }
+      }
+      await expect(formatGolden(output)).toMatchFileSnapshot(`../test/golden/${strategy.toLowerCase()}.json`);
+    });
+  }
+});
+
+describe('calculateVolatility', () => {
+  it('is the standard deviation of close-to-close returns in percent', () => {
+    expect(calculateVolatility([candle(100), candle(110), candle(99)])).toBeCloseTo(10, 10);
+  });
+
+  it('is zero for a flat series', () => {
+    expect(calculateVolatility([candle(5), candle(5), candle(5)])).toBe(0);
+  });
+
+  it('orders the scenarios by how much they move', () => {
+    const flashCrash = calculateVolatility(scenarioSeries('flash-crash').candles);
+    const trendUp = calculateVolatility(scenarioSeries('trend-up').candles);
+    expect(flashCrash).toBeGreaterThan(trendUp);
+  });
+});
@@ -0,0 +1,58 @@
+import { strategyRegistry } from './strategies';
+import type { CandleSeries, HistoricalCandle, Strategy, TradeSignal } from './trading-service';
+
+// Fewer candles than this are not enough for the strategies' indicators to warm up
+export const MIN_ANALYSIS_CANDLES = 50;
+
+/**
+ * Analyze a candle series using a registered strategy. Params are validated against the strategy's schema.
+ * The signal is for the series' symbol, priced at its latest close. Pure: the same series and params
+ * always give the same signal.
+ */
+export function analyzeSeries(series: CandleSeries, strategy: Strategy, params?: Record<string, unknown>): TradeSignal | null {
+  const { symbol, candles } = series;
+  if (candles.length < MIN_ANALYSIS_CANDLES) {
+    throw new Error('Not enough data for analysis');
+  }
+
+  const definition = strategyRegistry.get(strategy);
+  if (!definition) {
+    throw new Error(`Unsupported strategy: ${strategy}`);
+  }
+
+  const latestCandle = candles[candles.length - 1];
+
+  const evaluation = definition.evaluate(candles, strategyRegistry.resolveParams(strategy, params));
+  if (!evaluation) {
+    return null;
+  }
+
+  return {
+    symbol,
+    side: evaluation.side,
+    price: latestCandle.close.toString(),
+    time: latestCandle.time,
+    strategy,
+    confidence: evaluation.confidence,
+    indicators: evaluation.indicators
+  };
+}
+
+/**
+ * Standard deviation of close-to-close returns, in percent
+ */
+export function calculateVolatility(candles: HistoricalCandle[]): number {
+  const closes = candles.map(c => c.close);
+  const returns = [];
+
+  for (let i = 1; i < closes.length; i++) {
+    returns.push((closes[i] - closes[i - 1]) / closes[i - 1]);
+  }
+
+  // Calculate standard deviation of returns
+  const mean = returns.reduce((sum, val) => sum + val, 0) / returns.length;
+  const squaredDiffs = returns.map(val => Math.pow(val - mean, 2));
+  const variance = squaredDiffs.reduce((sum, val) => sum + val, 0) / squaredDiffs.length;
+
+  return Math.sqrt(variance) * 100; // Expressed as percentage
+}
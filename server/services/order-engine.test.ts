@@ -0,0 +1,132 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ChildOrder, OrderGroup } from '@shared/schema';
+import { instrumentSpec } from '../test/fixtures/instruments';
+
+const { storage, exchange, groups, children } = vi.hoisted(() => {
+  const groups = new Map<number, any>();
+  const children = new Map<number, any>();
+  const update = (rows: Map<number, any>) => async (id: number, updates: Record<string, unknown>) => {
+    const row = rows.get(id);
+    if (!row) return undefined;
+    Object.assign(row, updates);
+    return { ...row };
+  };
+  return {
+    groups,
+    children,
+    storage: {
+      createOrderGroup: vi.fn(async (group: any) => {
+        const row = { id: groups.size + 1, status: 'ACTIVE', filledSize: '0', error: null, createdAt: new Date(), finishedAt: null, ...group };
+        groups.set(row.id, row);
+        return { ...row };
+      }),
+      getOrderGroup: vi.fn(async (_userId: number, id: number) => groups.has(id) ? { ...groups.get(id) } : undefined),
+      getActiveOrderGroups: vi.fn(async () => Array.from(groups.values()).filter(group => group.status === 'ACTIVE').map(group => ({ ...group }))),
+      updateOrderGroup: vi.fn(update(groups)),
+      createChildOrder: vi.fn(async (child: any) => {
+        const row = { id: children.size + 1, status: 'WAITING', filledSize: '0', tradeId: null, error: null, createdAt: new Date(), ...child };
+        children.set(row.id, row);
+        return { ...row };
+      }),
+      getChildOrders: vi.fn(async (groupId: number) =>
+        Array.from(children.values()).filter(child => child.groupId === groupId).map(child => ({ ...child }))),
+      updateChildOrder: vi.fn(update(children)),
+      getTrade: vi.fn(async (_userId: number, id: number) => ({ id, status: 'PENDING', quantity: '1', filledQuantity: '0' }))
+    },
+    exchange: {
+      getMarketData: vi.fn(),
+      getInstrument: vi.fn()
+    }
+  };
+});
+
+vi.mock('../storage', () => ({ storage }));
+vi.mock('./exchange', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./exchange')>(),
+  getExchangeForUser: vi.fn(async () => exchange)
+}));
+
+const { OrderEngine } = await import('./order-engine');
+const { orderService } = await import('./order-service');
+
+// Orders take a moment to reach the exchange, long enough for a tick to run in between
+function slowPlaceOrder() {
+  let nextTradeId = 100;
+  return vi.spyOn(orderService, 'placeOrder').mockImplementation(async () => {
+    await new Promise(resolve => setTimeout(resolve, 10));
+    return { id: nextTradeId++, status: 'PENDING', quantity: '1', filledQuantity: '0' } as any;
+  });
+}
+
+function childrenOf(groupId: number): ChildOrder[] {
+  return Array.from(children.values()).filter(child => child.groupId === groupId);
+}
+
+describe('OrderEngine', () => {
+  beforeEach(() => {
+    groups.clear();
+    children.clear();
+    exchange.getMarketData.mockResolvedValue({ price: '100' });
+    exchange.getInstrument.mockResolvedValue(instrumentSpec('BTCUSDT'));
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it('places a bracket entry once when a tick overlaps the submit', async () => {
+    const placeOrder = slowPlaceOrder();
+    const engine = new OrderEngine();
+
+    const submitted = engine.submit(1, {
+      type: 'BRACKET', symbol: 'BTCUSDT', side: 'buy', size: '1', entryType: 'market', stopPrice: '90', targetPrice: '120'
+    });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    await Promise.all([submitted, engine.processAll()]);
+
+    expect(placeOrder).toHaveBeenCalledTimes(1);
+    expect(childrenOf(1).find(child => child.role === 'ENTRY')).toMatchObject({ status: 'PLACED', tradeId: 100 });
+  });
+
+  it('places each OCO limit leg once when a tick overlaps the submit', async () => {
+    const placeOrder = slowPlaceOrder();
+    const engine = new OrderEngine();
+
+    const submitted = engine.submit(1, {
+      type: 'OCO', symbol: 'BTCUSDT', side: 'buy', size: '1',
+      legs: [{ orderType: 'limit', price: '95' }, { orderType: 'limit', price: '90' }]
+    });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    await Promise.all([submitted, engine.processAll(), engine.processAll()]);
+
+    expect(placeOrder).toHaveBeenCalledTimes(2);
+  });
+
+  it('counts TWAP slices from the latest group state', async () => {
+    const placeOrder = slowPlaceOrder();
+    const engine = new OrderEngine();
+
+    const submitted = engine.submit(1, { type: 'TWAP', symbol: 'BTCUSDT', side: 'buy', size: '1', durationMinutes: 60, slices: 4 });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    await Promise.all([submitted, engine.processAll()]);
+
+    // Only the first slice is due at the start of the window
+    expect(placeOrder).toHaveBeenCalledTimes(1);
+    expect((groups.get(1) as OrderGroup).state).toEqual({ slicesDone: 1 });
+  });
+
+  it('does not place orders of a group cancelled while a tick waited', async () => {
+    const placeOrder = slowPlaceOrder();
+    const engine = new OrderEngine();
+
+    vi.spyOn(orderService, 'cancelOrder').mockImplementation(async (_userId, tradeId) => ({ id: tradeId, status: 'CANCELLED', quantity: '1' }) as any);
+
+    const submitted = engine.submit(1, { type: 'ICEBERG', symbol: 'BTCUSDT', side: 'buy', size: '3', price: '95', visibleSize: '1' });
+    await new Promise(resolve => setTimeout(resolve, 0));
+    await Promise.all([submitted, engine.cancel(1, 1), engine.processAll()]);
+
+    expect(placeOrder).toHaveBeenCalledTimes(1);
+    expect(groups.get(1).status).toBe('CANCELLED');
+  });
+});
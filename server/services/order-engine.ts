@@ -0,0 +1,576 @@
+import { z } from 'zod';
+import Decimal from 'decimal.js';
+import { storage } from '../storage';
+import type { ChildOrder, OrderGroup, Trade } from '@shared/schema';
+import { getExchangeForUser, FINAL_ORDER_STATES, type OrderState } from './exchange';
+import { roundPrice, roundQuantity, type InstrumentSpec } from './instruments';
+import { orderService, type ManualOrder } from './order-service';
+import type { ProtectionLevels } from './protection-service';
+
+export type OrderGroupType = 'BRACKET' | 'OCO' | 'CHASE' | 'TWAP' | 'ICEBERG';
+
+type GroupStatus = 'ACTIVE' | 'COMPLETED' | 'CANCELLED' | 'FAILED';
+
+type ChildStatus = 'WAITING' | 'PLACED' | 'FILLED' | 'CANCELLED' | 'FAILED';
+
+const positiveDecimal = z.coerce.string().refine((value) => Number(value) > 0, { message: 'Must be a positive number' });
+
+const baseOrderSchema = z.object({
+  symbol: z.string().trim().toUpperCase().min(1),
+  side: z.enum(['buy', 'sell']),
+  size: positiveDecimal
+});
+
+// Stop legs are held by the engine and sent as market orders once the price trades through them
+const ocoLegSchema = z.object({
+  orderType: z.enum(['limit', 'stop']),
+  price: positiveDecimal
+});
+
+export const orderGroupRequestSchema = z.discriminatedUnion('type', [
+  // Entry with a stop-loss and a take-profit that are armed once the entry fills
+  baseOrderSchema.extend({
+    type: z.literal('BRACKET'),
+    entryType: z.enum(['market', 'limit']).default('market'),
+    entryPrice: positiveDecimal.optional(),
+    stopPrice: positiveDecimal,
+    targetPrice: positiveDecimal
+  }),
+  // Two entry orders; the first to fill cancels the other
+  baseOrderSchema.extend({
+    type: z.literal('OCO'),
+    legs: z.tuple([ocoLegSchema, ocoLegSchema])
+  }),
+  // Post-only limit at the last price, re-priced while the market moves away
+  baseOrderSchema.extend({
+    type: z.literal('CHASE'),
+    maxChases: z.number().int().min(1).max(100).default(10),
+    chaseIntervalSeconds: z.number().int().min(5).max(600).default(15)
+  }),
+  // Market slices spread evenly over a time window
+  baseOrderSchema.extend({
+    type: z.literal('TWAP'),
+    durationMinutes: z.number().int().min(1).max(1440),
+    slices: z.number().int().min(2).max(100)
+  }),
+  // Limit orders at one price, showing only the visible size at a time
+  baseOrderSchema.extend({
+    type: z.literal('ICEBERG'),
+    price: positiveDecimal,
+    visibleSize: positiveDecimal
+  })
+]).superRefine((request, ctx) => {
+  if (request.type === 'BRACKET') {
+    if (request.entryType === 'limit' && request.entryPrice === undefined) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Limit entries require an entry price', path: ['entryPrice'] });
+    }
+    // A long's stop sits below its target, a short's above
+    const stopBelowTarget = new Decimal(request.stopPrice).lessThan(request.targetPrice);
+    if (stopBelowTarget !== (request.side === 'buy')) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Stop must be ${request.side === 'buy' ? 'below' : 'above'} the target`, path: ['stopPrice'] });
+    }
+  }
+  if (request.type === 'ICEBERG' && new Decimal(request.visibleSize).greaterThan(request.size)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Visible size cannot exceed the total size', path: ['visibleSize'] });
+  }
+});
+
+export type OrderGroupRequest = z.infer<typeof orderGroupRequestSchema>;
+
+export interface OrderGroupWithChildren extends OrderGroup {
+  children: ChildOrder[];
+}
+
+/**
+ * Runs bracket, OCO, chase, TWAP and iceberg orders on top of the manual order path.
+ * Groups and their child orders are persisted and advanced on every tick, so they survive restarts;
+ * each placed child is a MANUAL trade that the order reconciler keeps up to date.
+ */
+export class OrderEngine {
+  private interval: NodeJS.Timeout | null = null;
+  private isProcessing: boolean = false;
+  // Submits, cancels and the tick's steps take turns, so no two of them place the same waiting child
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private tickIntervalMs: number = 5000) {}
+
+  start(): void {
+    if (this.interval) return;
+
+    this.interval = setInterval(async () => {
+      // Skip a tick rather than overlap a slow pass
+      if (this.isProcessing) return;
+      this.isProcessing = true;
+      try {
+        await this.processAll();
+      } catch (error) {
+        console.error('Order engine error:', error);
+      } finally {
+        this.isProcessing = false;
+      }
+    }, this.tickIntervalMs);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Create an order group and place its first orders
+   */
+  async submit(userId: number, request: OrderGroupRequest): Promise<OrderGroupWithChildren> {
+    const id = await this.exclusive(() => this.create(userId, request));
+    return this.getGroup(userId, id) as Promise<OrderGroupWithChildren>;
+  }
+
+  private async create(userId: number, request: OrderGroupRequest): Promise<number> {
+    const { type, symbol, side, size, ...params } = request;
+    const group = await storage.createOrderGroup({ userId, type, symbol, side, totalSize: size, params, state: {} });
+
+    const child = (role: string, orderType: string, childSide: string, price?: string) =>
+      storage.createChildOrder({ groupId: group.id, userId, role, side: childSide, orderType, price: price ?? null, size });
+    const exitSide = side === 'buy' ? 'sell' : 'buy';
+
+    switch (request.type) {
+      case 'BRACKET':
+        await child('ENTRY', request.entryType, side, request.entryPrice);
+        await child('STOP', 'stop', exitSide, request.stopPrice);
+        await child('TARGET', 'limit', exitSide, request.targetPrice);
+        break;
+      case 'OCO':
+        for (const leg of request.legs) {
+          await child('LEG', leg.orderType, side, leg.price);
+        }
+        break;
+      // Chase, TWAP and iceberg children are created as the engine works through the size
+    }
+
+    await this.process(group);
+    return group.id;
+  }
+
+  async getGroups(userId: number): Promise<OrderGroupWithChildren[]> {
+    const groups = await storage.getOrderGroups(userId);
+    return Promise.all(groups.map(async group => ({ ...group, children: await storage.getChildOrders(group.id) })));
+  }
+
+  async getGroup(userId: number, id: number): Promise<OrderGroupWithChildren | undefined> {
+    const group = await storage.getOrderGroup(userId, id);
+    if (!group) return undefined;
+    return { ...group, children: await storage.getChildOrders(group.id) };
+  }
+
+  /**
+   * Cancel a group's working orders and stop managing it. Filled orders stay open as positions;
+   * a bracket's armed stop and target are removed from the position.
+   * Returns undefined when the user has no active group with this id.
+   */
+  async cancel(userId: number, id: number): Promise<OrderGroupWithChildren | undefined> {
+    const cancelled = await this.exclusive(() => this.cancelGroup(userId, id));
+    return cancelled ? this.getGroup(userId, id) : undefined;
+  }
+
+  private async cancelGroup(userId: number, id: number): Promise<boolean> {
+    const group = await storage.getOrderGroup(userId, id);
+    if (!group || group.status !== 'ACTIVE') return false;
+
+    // Take the group out of the engine's hands first, then pull its orders and record what filled
+    await storage.updateOrderGroup(group.id, { status: 'CANCELLED' });
+    for (const child of await storage.getChildOrders(group.id)) {
+      try {
+        await this.cancelChild(group, child);
+      } catch (error) {
+        console.error(`Error cancelling child order ${child.id} of group ${group.id}:`, error);
+      }
+    }
+    await this.finish(group, 'CANCELLED');
+    return true;
+  }
+
+  /**
+   * Cancel every active group of a user, e.g. for the kill switch
+   */
+  async cancelAll(userId: number): Promise<number[]> {
+    const active = (await storage.getOrderGroups(userId, 500)).filter(group => group.status === 'ACTIVE');
+    const cancelled: number[] = [];
+    for (const group of active) {
+      if (await this.cancel(userId, group.id)) {
+        cancelled.push(group.id);
+      }
+    }
+    return cancelled;
+  }
+
+  /**
+   * Advance every active group
+   */
+  async processAll(): Promise<void> {
+    for (const { userId, id } of await storage.getActiveOrderGroups()) {
+      try {
+        await this.exclusive(async () => {
+          // Read the group again: a submit or cancel may have moved it on while this step waited its turn
+          const group = await storage.getOrderGroup(userId, id);
+          if (group?.status === 'ACTIVE') {
+            await this.process(group);
+          }
+        });
+      } catch (error) {
+        console.error(`Error processing order group ${id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Run work once everything queued before it has finished
+   */
+  private exclusive<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(work);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async process(group: OrderGroup): Promise<void> {
+    const children = await Promise.all((await storage.getChildOrders(group.id)).map(child => this.syncChild(child)));
+
+    switch (group.type as OrderGroupType) {
+      case 'BRACKET':
+        return this.processBracket(group, children);
+      case 'OCO':
+        return this.processOco(group, children);
+      case 'CHASE':
+        return this.processChase(group, children);
+      case 'TWAP':
+        return this.processTwap(group, children);
+      case 'ICEBERG':
+        return this.processIceberg(group, children);
+      default:
+        await this.finish(group, 'FAILED', `Unknown order group type ${group.type}`);
+    }
+  }
+
+  private async processBracket(group: OrderGroup, children: ChildOrder[]): Promise<void> {
+    const entry = children.find(child => child.role === 'ENTRY')!;
+    const exits = children.filter(child => child.role !== 'ENTRY');
+
+    if (entry.status === 'WAITING') {
+      await this.place(group, entry, { orderType: entry.orderType as 'market' | 'limit', price: entry.price ?? undefined });
+      return;
+    }
+    if (entry.status === 'PLACED') return;
+    if (entry.status !== 'FILLED') {
+      await this.cancelWaiting(exits);
+      return this.finish(group, entry.status === 'FAILED' ? 'FAILED' : 'CANCELLED', entry.error);
+    }
+
+    const trade = await storage.getTrade(group.userId, entry.tradeId!);
+    if (!trade) return this.finish(group, 'FAILED', `Entry trade ${entry.tradeId} not found`);
+    const tradeData = (trade.tradeData || {}) as Record<string, any>;
+
+    // Arm the exits as protection levels; the protection watcher closes the position when one is hit
+    if (exits.some(exit => exit.status === 'WAITING')) {
+      const stop = exits.find(exit => exit.role === 'STOP')!;
+      const target = exits.find(exit => exit.role === 'TARGET')!;
+      const protection: ProtectionLevels = {
+        mode: 'percent',
+        stopLoss: parseFloat(stop.price!),
+        takeProfit: parseFloat(target.price!),
+        trailingDistance: null,
+        bestPrice: parseFloat(trade.entryPrice)
+      };
+      await storage.updateTrade(trade.id, { tradeData: { ...tradeData, protection } });
+      for (const exit of exits) {
+        await storage.updateChildOrder(exit.id, { status: 'PLACED', tradeId: trade.id, size: trade.quantity });
+      }
+      return;
+    }
+
+    // Done once the position is closed and the closing order is final
+    if (trade.status !== 'CLOSED' || !FINAL_ORDER_STATES.includes(tradeData.exitOrderStatus as OrderState)) return;
+
+    const filledRole = tradeData.exitReason === 'STOP_LOSS' ? 'STOP' : tradeData.exitReason === 'TAKE_PROFIT' ? 'TARGET' : null;
+    for (const exit of exits) {
+      await storage.updateChildOrder(exit.id, exit.role === filledRole
+        ? { status: 'FILLED', filledSize: tradeData.exitFilledQuantity ?? trade.quantity }
+        : { status: 'CANCELLED' });
+    }
+    await this.finish(group, 'COMPLETED');
+  }
+
+  private async processOco(group: OrderGroup, legs: ChildOrder[]): Promise<void> {
+    // Resting limit legs go to the exchange right away
+    for (const leg of legs) {
+      if (leg.status === 'WAITING' && leg.orderType === 'limit') {
+        await this.place(group, leg, { orderType: 'limit', price: leg.price! });
+      }
+    }
+
+    const winner = legs.find(leg => leg.status === 'FILLED' || new Decimal(leg.filledSize).greaterThan(0));
+    if (!winner) {
+      const price = await this.getPrice(group);
+      const triggered = legs.find(leg => leg.status === 'WAITING' && leg.orderType === 'stop' && this.isTriggered(group, leg, price));
+      if (triggered) {
+        // Pull the other leg first so both can never fill; if it filled in the meantime, it wins
+        const others = await this.cancelOthers(group, legs, triggered);
+        if (others.some(leg => new Decimal(leg.filledSize).greaterThan(0))) {
+          await storage.updateChildOrder(triggered.id, { status: 'CANCELLED' });
+          return;
+        }
+        await this.place(group, triggered, { orderType: 'market' });
+        return;
+      }
+
+      if (legs.every(leg => leg.status === 'CANCELLED' || leg.status === 'FAILED')) {
+        const failed = legs.find(leg => leg.status === 'FAILED');
+        await this.finish(group, failed ? 'FAILED' : 'CANCELLED', failed?.error);
+      }
+      return;
+    }
+
+    await this.cancelOthers(group, legs, winner);
+    if (winner.status !== 'PLACED') {
+      await this.finish(group, 'COMPLETED');
+    }
+  }
+
+  private async processChase(group: OrderGroup, children: ChildOrder[]): Promise<void> {
+    const params = group.params as { maxChases: number; chaseIntervalSeconds: number };
+    const state = (group.state || {}) as { chases?: number };
+    const chases = state.chases ?? 0;
+    const instrument = await this.getInstrument(group);
+    let current = children[children.length - 1];
+    if (current?.status === 'FAILED') return this.finish(group, 'FAILED', current.error);
+
+    if (current?.status === 'PLACED') {
+      const age = Date.now() - (current.createdAt?.getTime() ?? 0);
+      if (age < params.chaseIntervalSeconds * 1000 || chases >= params.maxChases) return;
+
+      // Still at the touch: keep the queue position
+      const target = roundPrice(instrument, group.side as 'buy' | 'sell', await this.getPrice(group));
+      if (target.equals(current.price!)) return;
+
+      await orderService.cancelOrder(group.userId, current.tradeId!);
+      current = await this.syncChild(current);
+      if (current.status === 'PLACED') return; // Cancel not confirmed yet
+      children = [...children.slice(0, -1), current];
+    }
+
+    const remaining = this.remaining(group, children);
+    if (remaining.lessThan(instrument.minTradeAmount) || remaining.lessThanOrEqualTo(0)) {
+      return this.finish(group, 'COMPLETED');
+    }
+    if (chases >= params.maxChases) {
+      return this.filled(children).greaterThan(0)
+        ? this.finish(group, 'COMPLETED')
+        : this.finish(group, 'CANCELLED', 'Chase limit reached without a fill');
+    }
+
+    const price = roundPrice(instrument, group.side as 'buy' | 'sell', await this.getPrice(group)).toString();
+    const child = await storage.createChildOrder({
+      groupId: group.id,
+      userId: group.userId,
+      role: 'CHASE',
+      side: group.side,
+      orderType: 'limit',
+      price,
+      size: remaining.toString()
+    });
+    await storage.updateOrderGroup(group.id, { state: { ...state, chases: chases + 1 } });
+    await this.place(group, child, { orderType: 'limit', price, postOnly: true });
+  }
+
+  private async processTwap(group: OrderGroup, children: ChildOrder[]): Promise<void> {
+    const params = group.params as { durationMinutes: number; slices: number };
+    const state = (group.state || {}) as { slicesDone?: number };
+    const slicesDone = state.slicesDone ?? 0;
+
+    if (slicesDone >= params.slices) {
+      if (children.some(child => child.status === 'PLACED')) return;
+      return this.finish(group, this.filled(children).greaterThan(0) ? 'COMPLETED' : 'FAILED', children.find(c => c.error)?.error);
+    }
+
+    const startedAt = group.createdAt?.getTime() ?? Date.now();
+    const sliceInterval = (params.durationMinutes * 60 * 1000) / params.slices;
+    const due = Math.min(params.slices, Math.floor((Date.now() - startedAt) / sliceInterval) + 1);
+    if (slicesDone >= due) return;
+
+    // Each slice takes an even share of what is left, so rounding and failed slices are absorbed later on
+    const instrument = await this.getInstrument(group);
+    const unplaced = new Decimal(group.totalSize).minus(this.committed(children));
+    const isLast = slicesDone + 1 === params.slices;
+    const sliceSize = roundQuantity(instrument, isLast ? unplaced : unplaced.dividedBy(params.slices - slicesDone));
+    await storage.updateOrderGroup(group.id, { state: { ...state, slicesDone: slicesDone + 1 } });
+
+    if (!isLast && sliceSize.lessThan(instrument.minTradeAmount)) return; // Too small: rolled into the next slice
+    if (sliceSize.lessThanOrEqualTo(0)) return;
+
+    const child = await storage.createChildOrder({
+      groupId: group.id,
+      userId: group.userId,
+      role: 'SLICE',
+      side: group.side,
+      orderType: 'market',
+      size: sliceSize.toString()
+    });
+    await this.place(group, child, { orderType: 'market' });
+  }
+
+  private async processIceberg(group: OrderGroup, children: ChildOrder[]): Promise<void> {
+    const params = group.params as { price: string; visibleSize: string };
+    const current = children[children.length - 1];
+
+    if (current?.status === 'PLACED') return;
+    if (current?.status === 'FAILED') return this.finish(group, 'FAILED', current.error);
+    // A slice cancelled from outside the engine (e.g. the working orders list) stops the iceberg
+    if (current?.status === 'CANCELLED') return this.finish(group, 'CANCELLED');
+
+    const instrument = await this.getInstrument(group);
+    const remaining = this.remaining(group, children);
+    if (remaining.lessThan(instrument.minTradeAmount) || remaining.lessThanOrEqualTo(0)) {
+      return this.finish(group, 'COMPLETED');
+    }
+
+    const child = await storage.createChildOrder({
+      groupId: group.id,
+      userId: group.userId,
+      role: 'SLICE',
+      side: group.side,
+      orderType: 'limit',
+      price: params.price,
+      size: Decimal.min(params.visibleSize, remaining).toString()
+    });
+    await this.place(group, child, { orderType: 'limit', price: params.price });
+  }
+
+  /**
+   * Send a child order through the manual order path; a rejection fails the child, not the tick
+   */
+  private async place(group: OrderGroup, child: ChildOrder, order: Pick<ManualOrder, 'orderType' | 'price' | 'postOnly'>): Promise<ChildOrder> {
+    // The group may have been cancelled while this tick was running
+    const current = await storage.getOrderGroup(group.userId, group.id);
+    if (current?.status !== 'ACTIVE') return child;
+
+    try {
+      const trade = await orderService.placeOrder(
+        group.userId,
+        { symbol: group.symbol, side: child.side as 'buy' | 'sell', size: child.size, ...order },
+        { tradeData: { orderGroupId: group.id, childOrderId: child.id } }
+      );
+      return this.applyTrade(child, trade, { tradeId: trade.id });
+    } catch (error: any) {
+      console.warn(`Order group ${group.id} could not place ${child.role} order:`, error);
+      return (await storage.updateChildOrder(child.id, { status: 'FAILED', error: error?.message || String(error) })) || child;
+    }
+  }
+
+  /**
+   * Mirror the state of a placed child's trade onto the child
+   */
+  private async syncChild(child: ChildOrder): Promise<ChildOrder> {
+    if (child.status !== 'PLACED' || !child.tradeId || child.role === 'STOP' || child.role === 'TARGET') {
+      return child;
+    }
+    const trade = await storage.getTrade(child.userId, child.tradeId);
+    return trade ? this.applyTrade(child, trade) : child;
+  }
+
+  private async applyTrade(child: ChildOrder, trade: Trade, updates: Partial<ChildOrder> = {}): Promise<ChildOrder> {
+    let status: ChildStatus = 'PLACED';
+    let filledSize = trade.filledQuantity ?? '0';
+    if (trade.status === 'OPEN' || trade.status === 'CLOSING' || trade.status === 'CLOSED') {
+      status = 'FILLED';
+      filledSize = trade.quantity;
+    } else if (trade.status === 'CANCELLED') {
+      status = 'CANCELLED';
+      filledSize = '0';
+    }
+
+    if (status === child.status && filledSize === child.filledSize && Object.keys(updates).length === 0) {
+      return child;
+    }
+    return (await storage.updateChildOrder(child.id, { ...updates, status, filledSize })) || child;
+  }
+
+  private async cancelChild(group: OrderGroup, child: ChildOrder): Promise<ChildOrder> {
+    if (child.status === 'WAITING') {
+      return (await storage.updateChildOrder(child.id, { status: 'CANCELLED' })) || child;
+    }
+    if (child.status !== 'PLACED' || !child.tradeId) return child;
+
+    // An armed bracket exit lives on the position as protection levels
+    if (child.role === 'STOP' || child.role === 'TARGET') {
+      const trade = await storage.getTrade(group.userId, child.tradeId);
+      if (trade && trade.status === 'OPEN') {
+        const { protection, ...tradeData } = (trade.tradeData || {}) as Record<string, any>;
+        await storage.updateTrade(trade.id, { tradeData });
+      }
+      return (await storage.updateChildOrder(child.id, { status: 'CANCELLED' })) || child;
+    }
+
+    const trade = await orderService.cancelOrder(group.userId, child.tradeId);
+    return trade ? this.applyTrade(child, trade) : child;
+  }
+
+  private async cancelOthers(group: OrderGroup, legs: ChildOrder[], keep: ChildOrder): Promise<ChildOrder[]> {
+    const others: ChildOrder[] = [];
+    for (const leg of legs.filter(leg => leg.id !== keep.id)) {
+      others.push(await this.cancelChild(group, leg));
+    }
+    return others;
+  }
+
+  private async cancelWaiting(children: ChildOrder[]): Promise<void> {
+    for (const child of children.filter(c => c.status === 'WAITING')) {
+      await storage.updateChildOrder(child.id, { status: 'CANCELLED' });
+    }
+  }
+
+  private async finish(group: OrderGroup, status: GroupStatus, error?: string | null): Promise<void> {
+    const children = await storage.getChildOrders(group.id);
+    const filledSize = this.filled(children.filter(child => child.role !== 'STOP' && child.role !== 'TARGET'));
+    await storage.updateOrderGroup(group.id, {
+      status,
+      filledSize: filledSize.toString(),
+      error: error ?? null,
+      finishedAt: new Date()
+    });
+  }
+
+  private isTriggered(group: OrderGroup, leg: ChildOrder, price: string): boolean {
+    // A buy stop fires on a rise through its price, a sell stop on a fall
+    return group.side === 'buy'
+      ? new Decimal(price).greaterThanOrEqualTo(leg.price!)
+      : new Decimal(price).lessThanOrEqualTo(leg.price!);
+  }
+
+  private filled(children: ChildOrder[]): Decimal {
+    return children.reduce((sum, child) => sum.plus(child.filledSize), new Decimal(0));
+  }
+
+  // Filled plus still working: the part of the total that is already taken care of
+  private committed(children: ChildOrder[]): Decimal {
+    return children.reduce(
+      (sum, child) => sum.plus(child.status === 'PLACED' ? Decimal.max(child.size, child.filledSize) : child.filledSize),
+      new Decimal(0)
+    );
+  }
+
+  private remaining(group: OrderGroup, children: ChildOrder[]): Decimal {
+    return new Decimal(group.totalSize).minus(this.filled(children));
+  }
+
+  private async getPrice(group: OrderGroup): Promise<string> {
+    const exchange = await getExchangeForUser(group.userId);
+    return (await exchange.getMarketData(group.symbol)).price;
+  }
+
+  private async getInstrument(group: OrderGroup): Promise<InstrumentSpec> {
+    const exchange = await getExchangeForUser(group.userId);
+    return exchange.getInstrument(group.symbol);
+  }
+}
+
+// Export a singleton instance
+export const orderEngine = new OrderEngine();
@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Trade } from '@shared/schema';
+
+const { storage, exchange } = vi.hoisted(() => ({
+  storage: {
+    updateTrade: vi.fn(async (id: number, updates: Record<string, unknown>) => ({ id, ...updates }))
+  },
+  exchange: {
+    getOrderDetails: vi.fn(),
+    cancelOrder: vi.fn()
+  }
+}));
+
+vi.mock('../storage', () => ({ storage }));
+vi.mock('./exchange', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./exchange')>(),
+  getExchangeForUser: vi.fn(async () => exchange)
+}));
+
+const { OrderReconciler } = await import('./order-reconciler');
+const { OrderNotFoundError } = await import('./instruments');
+
+// Both orders are long past the stale timeouts
+const LONG_AGO = new Date(Date.now() - 60 * 60 * 1000);
+
+const pendingEntry = {
+  id: 1,
+  userId: 1,
+  symbol: 'BTCUSDT',
+  marketType: 'spot',
+  status: 'PENDING',
+  orderId: 'entry-1',
+  entryPrice: '100',
+  quantity: '1',
+  openedAt: LONG_AGO,
+  tradeData: { orderType: 'market' }
+} as unknown as Trade;
+
+const closingTrade = {
+  ...pendingEntry,
+  status: 'CLOSED',
+  orderStatus: 'FILLED',
+  closedAt: LONG_AGO,
+  exitPrice: '110',
+  tradeData: { orderType: 'market', exitOrderId: 'exit-1' }
+} as unknown as Trade;
+
+describe('OrderReconciler', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it('keeps a stale entry pending while its details cannot be fetched', async () => {
+    exchange.getOrderDetails.mockRejectedValue(new Error('Request timed out'));
+
+    const trade = await new OrderReconciler().reconcileEntry(pendingEntry);
+
+    expect(trade).toBe(pendingEntry);
+    expect(storage.updateTrade).not.toHaveBeenCalled();
+  });
+
+  it('cancels a stale entry the exchange does not know', async () => {
+    exchange.getOrderDetails.mockRejectedValue(new OrderNotFoundError('Order entry-1 not found'));
+
+    const trade = await new OrderReconciler().reconcileEntry(pendingEntry);
+
+    expect(trade).toMatchObject({ status: 'CANCELLED', tradeData: { reconciliation: { mismatches: ['ORDER_NOT_FOUND'] } } });
+  });
+
+  it('keeps a stale entry pending when its details cannot be fetched after cancelling it', async () => {
+    exchange.getOrderDetails
+      .mockResolvedValueOnce({ status: 'new' })
+      .mockRejectedValueOnce(new Error('Too many requests'));
+    exchange.cancelOrder.mockResolvedValue(false);
+
+    const trade = await new OrderReconciler().reconcileEntry(pendingEntry);
+
+    expect(exchange.cancelOrder).toHaveBeenCalledWith('BTCUSDT', 'entry-1');
+    expect(trade).toBe(pendingEntry);
+    expect(storage.updateTrade).not.toHaveBeenCalled();
+  });
+
+  it('keeps a stale exit unconfirmed while its details cannot be fetched', async () => {
+    exchange.getOrderDetails.mockRejectedValue(new Error('Request timed out'));
+
+    const trade = await new OrderReconciler().reconcileExit(closingTrade);
+
+    expect(trade).toBe(closingTrade);
+    expect(storage.updateTrade).not.toHaveBeenCalled();
+  });
+
+  it('reopens a trade whose stale exit the exchange does not know', async () => {
+    exchange.getOrderDetails.mockRejectedValue(new OrderNotFoundError('Order exit-1 not found'));
+
+    const trade = await new OrderReconciler().reconcileExit(closingTrade);
+
+    expect(trade).toMatchObject({
+      status: 'OPEN',
+      exitPrice: null,
+      tradeData: { reconciliation: { mismatches: ['ORDER_NOT_FOUND', 'EXIT_NOT_FILLED'] } }
+    });
+    expect((trade.tradeData as Record<string, unknown>).exitOrderId).toBeUndefined();
+  });
+});
@@ -0,0 +1,325 @@
+import Decimal from 'decimal.js';
+import { storage } from '../storage';
+import { Trade } from '@shared/schema';
+import {
+  getExchangeForUser,
+  normalizeOrderDetails,
+  FINAL_ORDER_STATES,
+  type ExchangeService,
+  type OrderFill
+} from './exchange';
+import { OrderNotFoundError } from './instruments';
+import { positionManager, ESTIMATED_FEE_RATE } from './position-manager';
+import { eventBus } from './event-bus';
+
+export type ReconciliationMismatch =
+  | 'PARTIAL_FILL' // Order finished with less than the requested quantity
+  | 'PRICE_DEVIATION' // Average fill price far from the price the trade was recorded at
+  | 'ORDER_NOT_FOUND' // Exchange does not know the order
+  | 'STALE_CANCELLED' // Order never completed and was cancelled after the timeout
+  | 'EXIT_NOT_FILLED'; // Closing order did not fill, position was reopened
+
+// Fill price deviation (in percent) that gets flagged for review
+const PRICE_DEVIATION_THRESHOLD = 1;
+
+export interface StaleOrderTimeouts {
+  market: number;
+  limit: number;
+}
+
+const DEFAULT_STALE_TIMEOUTS: StaleOrderTimeouts = {
+  market: 60 * 1000, // 1 minute
+  limit: 15 * 60 * 1000 // 15 minutes
+};
+
+// What fetching an order returned when it did not return the order
+const NOT_FOUND = 'NOT_FOUND'; // The exchange does not know the order
+const UNAVAILABLE = 'UNAVAILABLE'; // The request failed (network, rate limit); the next pass asks again
+
+/**
+ * Polls the exchange for every non-final order and records what actually happened:
+ * average fill price, filled quantity, fees and final state.
+ */
+export class OrderReconciler {
+  private interval: NodeJS.Timeout | null = null;
+  private isReconciling: boolean = false;
+
+  constructor(
+    private pollIntervalMs: number = 10000,
+    private staleTimeouts: StaleOrderTimeouts = DEFAULT_STALE_TIMEOUTS
+  ) {}
+
+  start(): void {
+    if (this.interval) return;
+
+    this.interval = setInterval(async () => {
+      // Skip a tick rather than overlap a slow pass
+      if (this.isReconciling) return;
+      this.isReconciling = true;
+      try {
+        await this.reconcileAll();
+      } catch (error) {
+        console.error('Order reconciliation error:', error);
+      } finally {
+        this.isReconciling = false;
+      }
+    }, this.pollIntervalMs);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Reconcile every trade with an entry or exit order that is not final yet
+   */
+  async reconcileAll(): Promise<void> {
+    const trades = await storage.getUnreconciledTrades();
+
+    for (const trade of trades) {
+      try {
+        if (trade.status === 'PENDING') {
+          await this.reconcileEntry(trade);
+        } else {
+          await this.reconcileExit(trade);
+        }
+      } catch (error) {
+        console.error(`Error reconciling trade ${trade.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Reconcile the entry order of a pending trade
+   */
+  async reconcileEntry(trade: Trade): Promise<Trade> {
+    const exchange = await getExchangeForUser(trade.userId, trade.marketType);
+    const tradeData = (trade.tradeData || {}) as Record<string, any>;
+    const orderType = tradeData.orderType === 'limit' ? 'limit' : 'market';
+    const isStale = this.getAge(trade.openedAt) > this.staleTimeouts[orderType];
+    const mismatches: ReconciliationMismatch[] = [];
+
+    let fill = await this.fetchFill(exchange, trade.symbol, trade.orderId);
+    if (fill === UNAVAILABLE) return trade;
+    if (fill === NOT_FOUND) {
+      if (!isStale) return trade;
+      // The exchange never acknowledged the order; nothing was filled
+      return this.finishEntry(trade, null, ['ORDER_NOT_FOUND']);
+    }
+
+    if (!FINAL_ORDER_STATES.includes(fill.state)) {
+      // Good-till-cancelled orders rest until they fill or the user cancels them
+      if (!isStale || tradeData.goodTillCancel) {
+        return this.saveTrade(trade, {
+          orderStatus: fill.state,
+          filledQuantity: fill.filledQuantity.toString(),
+          avgFillPrice: fill.avgFillPrice?.toString() ?? null,
+          reconciledAt: new Date()
+        });
+      }
+
+      await this.cancelStale(exchange, trade.symbol, trade.orderId);
+      mismatches.push('STALE_CANCELLED');
+      const cancelled = await this.fetchFill(exchange, trade.symbol, trade.orderId);
+      // Without the final fill the order is settled on the next pass
+      if (cancelled === UNAVAILABLE) return trade;
+      fill = cancelled === NOT_FOUND ? { ...fill, state: 'CANCELLED' } : cancelled;
+    }
+
+    return this.finishEntry(trade, fill, mismatches);
+  }
+
+  /**
+   * Reconcile the closing order of a closed trade whose exit fill is not confirmed yet
+   */
+  async reconcileExit(trade: Trade): Promise<Trade> {
+    const tradeData = (trade.tradeData || {}) as Record<string, any>;
+    const exitOrderId = tradeData.exitOrderId as string | undefined;
+    if (!exitOrderId) return trade;
+
+    const exchange = await getExchangeForUser(trade.userId, trade.marketType);
+    const closedAt = trade.closedAt || new Date();
+    const isStale = this.getAge(closedAt) > this.staleTimeouts.market;
+
+    let fill = await this.fetchFill(exchange, trade.symbol, exitOrderId);
+    if (fill === UNAVAILABLE) return trade;
+    if (fill === NOT_FOUND) {
+      if (!isStale) return trade;
+      return this.reopen(trade, ['ORDER_NOT_FOUND', 'EXIT_NOT_FILLED']);
+    }
+
+    const mismatches: ReconciliationMismatch[] = [];
+    if (!FINAL_ORDER_STATES.includes(fill.state)) {
+      if (!isStale) return trade;
+      await this.cancelStale(exchange, trade.symbol, exitOrderId);
+      mismatches.push('STALE_CANCELLED');
+      const cancelled = await this.fetchFill(exchange, trade.symbol, exitOrderId);
+      if (cancelled === UNAVAILABLE) return trade;
+      fill = cancelled === NOT_FOUND ? { ...fill, state: 'CANCELLED' } : cancelled;
+    }
+
+    if (fill.filledQuantity.isZero() || !fill.avgFillPrice) {
+      return this.reopen(trade, [...mismatches, 'EXIT_NOT_FILLED']);
+    }
+    if (fill.filledQuantity.lessThan(trade.quantity)) {
+      mismatches.push('PARTIAL_FILL');
+    }
+
+    const exitFee = fill.fee ?? fill.avgFillPrice.times(fill.filledQuantity).times(ESTIMATED_FEE_RATE);
+    const entryFee = new Decimal(trade.fees ?? tradeData.entryFee ?? 0);
+    const realized = positionManager.calculateRealizedPnl(trade, fill.avgFillPrice, entryFee, exitFee);
+
+    return this.saveTrade(trade, {
+      exitPrice: fill.avgFillPrice.toString(),
+      pnl: realized.pnl.toString(),
+      pnlPercentage: realized.pnlPercentage.toString(),
+      reconciledAt: new Date(),
+      tradeData: {
+        ...tradeData,
+        exitOrderStatus: fill.state,
+        exitFilledQuantity: fill.filledQuantity.toString(),
+        exitFee: exitFee.toString(),
+        totalFees: realized.fees.toString(),
+        reconciliation: this.mergeMismatches(tradeData, mismatches)
+      }
+    });
+  }
+
+  /**
+   * Record the final state of an entry order
+   */
+  private async finishEntry(trade: Trade, fill: OrderFill | null, mismatches: ReconciliationMismatch[]): Promise<Trade> {
+    const tradeData = (trade.tradeData || {}) as Record<string, any>;
+    const requestedQuantity = new Decimal(tradeData.requestedQuantity ?? trade.quantity);
+
+    // Nothing filled: the trade never became a position
+    if (!fill || fill.filledQuantity.isZero() || !fill.avgFillPrice) {
+      return this.saveTrade(trade, {
+        status: 'CANCELLED',
+        orderStatus: fill?.state === 'REJECTED' ? 'REJECTED' : 'CANCELLED',
+        filledQuantity: '0',
+        reconciledAt: new Date(),
+        tradeData: {
+          ...tradeData,
+          reconciliation: this.mergeMismatches(tradeData, mismatches)
+        }
+      });
+    }
+
+    if (fill.filledQuantity.lessThan(requestedQuantity)) {
+      mismatches.push('PARTIAL_FILL');
+    }
+
+    const signalPrice = new Decimal(tradeData.signalPrice ?? trade.entryPrice);
+    const deviation = fill.avgFillPrice.minus(signalPrice).abs().dividedBy(signalPrice).times(100);
+    if (deviation.greaterThan(PRICE_DEVIATION_THRESHOLD)) {
+      mismatches.push('PRICE_DEVIATION');
+    }
+
+    const fee = fill.fee ?? fill.avgFillPrice.times(fill.filledQuantity).times(ESTIMATED_FEE_RATE);
+
+    // Re-anchor protection levels from the signal price to the actual fill price
+    let protection = tradeData.protection;
+    if (protection) {
+      const shift = fill.avgFillPrice.minus(signalPrice).toNumber();
+      protection = {
+        ...protection,
+        stopLoss: protection.stopLoss !== null ? protection.stopLoss + shift : null,
+        takeProfit: protection.takeProfit !== null ? protection.takeProfit + shift : null,
+        bestPrice: fill.avgFillPrice.toNumber()
+      };
+    }
+
+    return this.saveTrade(trade, {
+      status: 'OPEN',
+      orderStatus: fill.state,
+      entryPrice: fill.avgFillPrice.toString(),
+      quantity: fill.filledQuantity.toString(),
+      filledQuantity: fill.filledQuantity.toString(),
+      avgFillPrice: fill.avgFillPrice.toString(),
+      fees: fee.toString(),
+      reconciledAt: new Date(),
+      tradeData: {
+        ...tradeData,
+        entryFee: fee.toString(),
+        protection,
+        reconciliation: this.mergeMismatches(tradeData, mismatches)
+      }
+    });
+  }
+
+  /**
+   * Put a trade back to OPEN when its closing order never filled
+   */
+  private async reopen(trade: Trade, mismatches: ReconciliationMismatch[]): Promise<Trade> {
+    const { exitOrderId, exitOrderStatus, exitFee, totalFees, exitReason, ...tradeData } = (trade.tradeData || {}) as Record<string, any>;
+    console.warn(`Closing order ${exitOrderId} for trade ${trade.id} did not fill, reopening position`);
+
+    return this.saveTrade(trade, {
+      status: 'OPEN',
+      exitPrice: null,
+      pnl: null,
+      pnlPercentage: null,
+      closedAt: null,
+      reconciledAt: new Date(),
+      tradeData: {
+        ...tradeData,
+        reconciliation: this.mergeMismatches(tradeData, mismatches)
+      }
+    });
+  }
+
+  private async saveTrade(trade: Trade, updates: Partial<Trade>): Promise<Trade> {
+    const updated = await storage.updateTrade(trade.id, updates);
+    if (!updated) return trade;
+
+    eventBus.publish('trade', { userId: trade.userId, event: 'updated', trade: updated });
+    return updated;
+  }
+
+  private async fetchFill(
+    exchange: ExchangeService,
+    symbol: string,
+    orderId: string
+  ): Promise<OrderFill | typeof NOT_FOUND | typeof UNAVAILABLE> {
+    try {
+      return normalizeOrderDetails(await exchange.getOrderDetails(symbol, orderId));
+    } catch (error) {
+      if (error instanceof OrderNotFoundError) {
+        return NOT_FOUND;
+      }
+      console.warn(`Could not get details for order ${orderId}, retrying on the next pass:`, error);
+      return UNAVAILABLE;
+    }
+  }
+
+  private async cancelStale(exchange: ExchangeService, symbol: string, orderId: string): Promise<void> {
+    try {
+      const cancelled = await exchange.cancelOrder(symbol, orderId);
+      console.log(`Stale order ${orderId} on ${symbol} ${cancelled ? 'cancelled' : 'could not be cancelled'}`);
+    } catch (error) {
+      console.error(`Error cancelling stale order ${orderId}:`, error);
+    }
+  }
+
+  private mergeMismatches(tradeData: Record<string, any>, mismatches: ReconciliationMismatch[]): Record<string, any> {
+    const previous: ReconciliationMismatch[] = tradeData.reconciliation?.mismatches || [];
+    if (mismatches.length > 0) {
+      console.warn(`Order reconciliation mismatches: ${mismatches.join(', ')}`);
+    }
+    return {
+      checkedAt: Date.now(),
+      mismatches: Array.from(new Set([...previous, ...mismatches]))
+    };
+  }
+
+  private getAge(since: Date | null): number {
+    return since ? Date.now() - since.getTime() : 0;
+  }
+}
+
+// Export a singleton instance
+export const orderReconciler = new OrderReconciler();
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { RiskMetrics } from './risk-engine';
+import { instrumentSpec } from '../test/fixtures/instruments';
+
+const { storage, exchange } = vi.hoisted(() => ({
+  storage: {
+    getTradingSettings: vi.fn(),
+    createTrade: vi.fn(),
+    createRiskEvent: vi.fn(),
+    updateTradingSettings: vi.fn()
+  },
+  exchange: {
+    getInstrument: vi.fn(),
+    getMarketData: vi.fn(),
+    getAccountBalance: vi.fn(),
+    executeTrade: vi.fn()
+  }
+}));
+
+vi.mock('../storage', () => ({ storage }));
+vi.mock('./exchange', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./exchange')>(),
+  getExchangeForUser: vi.fn(async () => exchange)
+}));
+
+const { orderService } = await import('./order-service');
+const { OrderRejectedError } = await import('./instruments');
+const { orderReconciler } = await import('./order-reconciler');
+const { riskEngine } = await import('./risk-engine');
+
+const metrics: RiskMetrics = {
+  equity: '10000',
+  peakEquity: '10000',
+  dailyRealizedPnl: '0',
+  dailyLossPercent: 0,
+  drawdownPercent: 0,
+  symbolExposurePercent: 60,
+  totalExposurePercent: 60,
+  ordersLastHour: 0
+};
+
+const order = { symbol: 'BTCUSDT', side: 'buy' as const, orderType: 'market' as const, size: '0.1' };
+
+describe('OrderService.placeOrder', () => {
+  beforeEach(() => {
+    storage.getTradingSettings.mockResolvedValue({ tradingMode: 'paper', marketType: 'spot', leverageLevel: 1, tradingParams: { risk: { maxOrdersPerHour: 1 } } });
+    storage.createTrade.mockImplementation(async (trade) => ({ id: 1, ...trade }));
+    storage.createRiskEvent.mockImplementation(async (event) => ({ id: 1, ...event }));
+    exchange.getInstrument.mockResolvedValue(instrumentSpec('BTCUSDT'));
+    exchange.getMarketData.mockResolvedValue({ price: '60000' });
+    exchange.getAccountBalance.mockResolvedValue({ totalBalance: '10000', availableBalance: '10000', balances: {} });
+    exchange.executeTrade.mockResolvedValue({ orderId: 'order-1' });
+    vi.spyOn(orderReconciler, 'reconcileEntry').mockImplementation(async (trade) => trade);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it('checks the order against the risk limits, leaving out the hourly limit on bot orders', async () => {
+    const checkOrder = vi.spyOn(riskEngine, 'checkOrder').mockResolvedValue({ allowed: true, breach: null, metrics });
+
+    await orderService.placeOrder(1, order);
+
+    expect(checkOrder).toHaveBeenCalledWith(
+      1,
+      'paper:spot',
+      { symbol: 'BTCUSDT', quantity: '0.1', price: '60000' },
+      expect.objectContaining({ totalBalance: '10000' }),
+      expect.objectContaining({ maxOrdersPerHour: null })
+    );
+    expect(exchange.executeTrade).toHaveBeenCalled();
+  });
+
+  it('rejects an order that breaches a limit and records it without halting the bot', async () => {
+    const breach = { rule: 'MAX_TOTAL_EXPOSURE' as const, message: 'Total exposure 60% is above the limit of 50%', value: 60, limit: 50 };
+    vi.spyOn(riskEngine, 'checkOrder').mockResolvedValue({ allowed: false, breach, metrics });
+
+    const error = await orderService.placeOrder(1, order).catch(error => error);
+
+    expect(error).toBeInstanceOf(OrderRejectedError);
+    expect(error.reason).toBe('RISK_LIMIT_BREACHED');
+    expect(exchange.executeTrade).not.toHaveBeenCalled();
+    expect(storage.createRiskEvent).toHaveBeenCalledWith(expect.objectContaining({
+      userId: 1,
+      rule: 'MAX_TOTAL_EXPOSURE',
+      action: 'REJECTED',
+      value: '60',
+      limit: '50'
+    }));
+    expect(storage.updateTradingSettings).not.toHaveBeenCalled();
+  });
+});
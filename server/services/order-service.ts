@@ -0,0 +1,199 @@
+import Decimal from 'decimal.js';
+import { storage } from '../storage';
+import type { InsertTrade, Trade, TradingSettings } from '@shared/schema';
+import { getAccountKey, getExchangeForUser, isFuturesTrading } from './exchange';
+import type { MarginMode } from './bitget-futures-service';
+import type { AccountSummary } from './bitget-service';
+import { normalizeOrder, OrderRejectedError, type InstrumentSpec, type NormalizedOrder } from './instruments';
+import { ESTIMATED_FEE_RATE, MANUAL_STRATEGY } from './position-manager';
+import { orderReconciler } from './order-reconciler';
+import { getRiskLimits, riskEngine, type OrderIntent } from './risk-engine';
+import { eventBus } from './event-bus';
+
+export interface ManualOrder {
+  symbol: string;
+  side: 'buy' | 'sell';
+  orderType: 'market' | 'limit';
+  size: string;
+  price?: string; // Required for limit orders
+  postOnly?: boolean; // Limit orders only: never take liquidity
+}
+
+export interface PlaceOrderOptions {
+  goodTillCancel?: boolean; // Defaults to true for limit orders, which then rest until filled or cancelled
+  tradeData?: Record<string, any>; // Extra fields to record on the trade, e.g. the order group it belongs to
+}
+
+/**
+ * Places, lists and cancels orders entered by hand. Manual orders are recorded as trades with the
+ * MANUAL strategy, so they are reconciled and closed like bot positions but never touched by the bot.
+ */
+export class OrderService {
+  /**
+   * Check an order against the symbol's rules, the account balance and the user's risk limits, then place it
+   * on the user's exchange
+   */
+  async placeOrder(userId: number, order: ManualOrder, options: PlaceOrderOptions = {}): Promise<Trade> {
+    const settings = await storage.getTradingSettings(userId);
+    const futures = settings ? isFuturesTrading(settings) : false;
+    const leverage = futures ? settings!.leverageLevel : 1;
+
+    const exchange = await getExchangeForUser(userId, futures ? 'futures' : 'spot');
+    const instrument = await exchange.getInstrument(order.symbol);
+    const marketPrice = (await exchange.getMarketData(order.symbol)).price;
+    const normalized = normalizeOrder(instrument, {
+      symbol: order.symbol,
+      side: order.side,
+      size: order.size,
+      price: order.orderType === 'limit' ? order.price : undefined
+    }, marketPrice);
+
+    const balance = await exchange.getAccountBalance();
+    this.checkBalance(balance, instrument, order.side, normalized, futures ? leverage : null);
+
+    // Limit orders are recorded at their limit price until the fill is known
+    const entryPrice = normalized.price ?? marketPrice;
+    await this.checkRiskLimits(userId, settings, { symbol: order.symbol, quantity: normalized.size, price: entryPrice }, balance);
+
+    const tradeResponse = await exchange.executeTrade({
+      symbol: order.symbol,
+      side: order.side,
+      size: normalized.size,
+      price: normalized.price,
+      orderType: order.orderType,
+      postOnly: order.postOnly,
+      leverage: futures ? leverage : undefined,
+      marginMode: futures ? settings!.marginMode as MarginMode : undefined
+    });
+
+    const trade: InsertTrade = {
+      userId,
+      symbol: order.symbol,
+      side: order.side,
+      entryPrice: new Decimal(entryPrice).toString(),
+      quantity: normalized.size,
+      status: 'PENDING',
+      orderStatus: 'NEW',
+      strategy: MANUAL_STRATEGY,
+      orderId: tradeResponse.orderId,
+      marketType: futures ? 'futures' : 'spot',
+      leverage,
+      account: getAccountKey(settings),
+      tradeData: {
+        ...options.tradeData,
+        entryOrderId: tradeResponse.orderId,
+        orderType: order.orderType,
+        goodTillCancel: options.goodTillCancel ?? order.orderType === 'limit',
+        signalPrice: entryPrice,
+        requestedQuantity: normalized.size,
+        entryFee: new Decimal(normalized.notional).times(ESTIMATED_FEE_RATE).toString()
+      }
+    };
+
+    const createdTrade = await storage.createTrade(trade);
+    eventBus.publish('trade', { userId, event: 'opened', trade: createdTrade });
+
+    // Market orders (and marketable limit orders) usually fill right away
+    try {
+      return await orderReconciler.reconcileEntry(createdTrade);
+    } catch (error) {
+      console.error(`Error reconciling manual order ${createdTrade.id}:`, error);
+      return createdTrade;
+    }
+  }
+
+  /**
+   * Get the user's orders that are still waiting for a fill
+   */
+  async getWorkingOrders(userId: number): Promise<Trade[]> {
+    return storage.getPendingTrades(userId);
+  }
+
+  /**
+   * Cancel a working order. Whatever filled before the cancel stays open as a position.
+   * Returns undefined when the user has no working order with this id.
+   */
+  async cancelOrder(userId: number, tradeId: number): Promise<Trade | undefined> {
+    const trade = await storage.getTrade(userId, tradeId);
+    if (!trade || trade.status !== 'PENDING') {
+      return undefined;
+    }
+
+    const exchange = await getExchangeForUser(userId, trade.marketType);
+    const cancelled = await exchange.cancelOrder(trade.symbol, trade.orderId);
+    if (!cancelled) {
+      console.warn(`Exchange did not confirm cancelling order ${trade.orderId}, reconciling its current state`);
+    }
+
+    // Drop the good-till-cancel flag so the reconciler settles the order now instead of waiting for a fill
+    const { goodTillCancel, ...tradeData } = (trade.tradeData || {}) as Record<string, any>;
+    const updated = (await storage.updateTrade(trade.id, { tradeData })) ?? trade;
+    return orderReconciler.reconcileEntry(updated);
+  }
+
+  /**
+   * Reject an order that would breach the user's risk limits. The breach is recorded, but unlike a bot
+   * order it does not halt the bot: the user can change or drop the order.
+   */
+  private async checkRiskLimits(
+    userId: number,
+    settings: TradingSettings | undefined,
+    order: OrderIntent,
+    balance: AccountSummary
+  ): Promise<void> {
+    // Orders entered by hand do not count towards the hourly limit on bot orders, so it does not apply to them
+    const limits = { ...getRiskLimits(settings?.tradingParams), maxOrdersPerHour: null };
+    const { breach, metrics } = await riskEngine.checkOrder(userId, getAccountKey(settings), order, balance, limits);
+    if (!breach) return;
+
+    await riskEngine.recordEvent({
+      userId,
+      rule: breach.rule,
+      action: 'REJECTED',
+      message: breach.message,
+      value: breach.value.toString(),
+      limit: breach.limit.toString(),
+      details: { metrics, order }
+    });
+    throw new OrderRejectedError('RISK_LIMIT_BREACHED', breach.message);
+  }
+
+  /**
+   * Spot buys spend the quote asset and spot sells the base asset; futures orders lock notional / leverage as margin
+   */
+  private checkBalance(
+    balance: AccountSummary,
+    instrument: InstrumentSpec,
+    side: 'buy' | 'sell',
+    order: NormalizedOrder,
+    leverage: number | null
+  ): void {
+    const fee = new Decimal(order.notional).times(ESTIMATED_FEE_RATE);
+    let asset: string;
+    let required: Decimal;
+
+    if (leverage !== null) {
+      asset = instrument.quoteAsset;
+      required = new Decimal(order.notional).dividedBy(leverage).plus(fee);
+    } else if (side === 'buy') {
+      asset = instrument.quoteAsset;
+      required = new Decimal(order.notional).plus(fee);
+    } else {
+      asset = instrument.baseAsset;
+      required = new Decimal(order.size);
+    }
+
+    const available = new Decimal(
+      balance.balances[asset]?.available ?? (asset === instrument.quoteAsset ? balance.availableBalance : 0)
+    );
+    if (available.lessThan(required)) {
+      throw new OrderRejectedError(
+        'INSUFFICIENT_BALANCE',
+        `Order needs ${required.toDecimalPlaces(8)} ${asset} but only ${available} is available`
+      );
+    }
+  }
+}
+
+// Export a singleton instance
+export const orderService = new OrderService();
@@ -0,0 +1,149 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { PairMetrics } from '@shared/schema';
+import { scenarioSeries } from '../test/fixtures/candle-series';
+
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    getRecentClosedTrades: vi.fn(),
+    getPairMetrics: vi.fn(),
+    savePairMetrics: vi.fn()
+  }
+}));
+
+vi.mock('../storage', () => ({ storage }));
+
+const { pairRankingService, scorePair, rankPairs, pairScoringSchema, METRICS_STALE_MS } = await import('./pair-ranking');
+const { calculateVolatility } = await import('./market-analysis');
+
+function metrics(symbol: string, overrides: Partial<PairMetrics> = {}): PairMetrics {
+  return {
+    id: 1,
+    userId: 1,
+    strategy: 'MACD',
+    symbol,
+    timeframe: '15m',
+    volatility: '0',
+    candleCount: 100,
+    trades: 0,
+    wins: 0,
+    avgWinPercent: '0',
+    avgLossPercent: '0',
+    updatedAt: new Date(),
+    ...overrides
+  };
+}
+
+describe('scorePair', () => {
+  it('adds up the weighted terms of the formula', () => {
+    const score = scorePair(
+      { symbol: 'BTCUSDT', weight: 0.3 },
+      metrics('BTCUSDT', { volatility: '0.5', trades: 10, wins: 8 })
+    );
+
+    // 1 × 0.3 + 0.3 × 0.5 / 1 + 0.5 × (8 + 5) / (10 + 10)
+    expect(score.components.weight).toBeCloseTo(0.3);
+    expect(score.components.volatility).toBeCloseTo(0.15);
+    expect(score.successRate).toBeCloseTo(0.65);
+    expect(score.components.successRate).toBeCloseTo(0.325);
+    expect(score.score).toBeCloseTo(0.775);
+  });
+
+  it('scores unmeasured pairs on their weight and a neutral success rate', () => {
+    const score = scorePair({ symbol: 'SOLUSDT', weight: 0.1 }, null);
+
+    expect(score.volatility).toBe(0);
+    expect(score.successRate).toBe(0.5);
+    expect(score.measuredAt).toBeNull();
+    expect(score.score).toBeCloseTo(0.35);
+  });
+
+  it('caps the volatility term and honours tuned factors', () => {
+    const config = pairScoringSchema.parse({ weightFactor: 0, successFactor: 0, volatilityFactor: 2, targetVolatility: 0.5 });
+
+    expect(scorePair({ symbol: 'DOGEUSDT', weight: 1 }, metrics('DOGEUSDT', { volatility: '3' }), config).score).toBe(2);
+  });
+
+  it('uses the raw win rate without a prior', () => {
+    const config = pairScoringSchema.parse({ priorTrades: 0 });
+
+    expect(scorePair({ symbol: 'ETHUSDT', weight: 0 }, metrics('ETHUSDT', { trades: 4, wins: 1 }), config).successRate).toBe(0.25);
+    expect(scorePair({ symbol: 'ETHUSDT', weight: 0 }, null, config).successRate).toBe(0.5);
+  });
+});
+
+describe('rankPairs', () => {
+  it('puts pairs that won trades ahead of heavier but losing ones', () => {
+    const ranking = rankPairs(
+      [{ symbol: 'BTCUSDT', weight: 0.3 }, { symbol: 'ETHUSDT', weight: 0.2 }, { symbol: 'SOLUSDT', weight: 0.2 }],
+      [metrics('BTCUSDT', { trades: 20, wins: 2 }), metrics('ETHUSDT', { trades: 20, wins: 18 })]
+    );
+
+    expect(ranking.map(pair => pair.symbol)).toEqual(['ETHUSDT', 'SOLUSDT', 'BTCUSDT']);
+  });
+});
+
+describe('PairRankingService', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('stores volatility from the series and statistics from closed trades', async () => {
+    const series = scenarioSeries('range', 'ETHUSDT', 3000, 100);
+    storage.getRecentClosedTrades.mockResolvedValue([{ pnlPercentage: '2' }, { pnlPercentage: '-1' }, { pnlPercentage: null }]);
+    storage.savePairMetrics.mockImplementation(async (row) => row);
+
+    await pairRankingService.refreshMetrics(1, 'MACD', series);
+
+    expect(storage.getRecentClosedTrades).toHaveBeenCalledWith(1, 'MACD', 'ETHUSDT', 100);
+    expect(storage.savePairMetrics).toHaveBeenCalledWith({
+      userId: 1,
+      strategy: 'MACD',
+      symbol: 'ETHUSDT',
+      timeframe: '15m',
+      volatility: calculateVolatility(series.candles).toString(),
+      candleCount: 100,
+      trades: 2,
+      wins: 1,
+      avgWinPercent: '2',
+      avgLossPercent: '1'
+    });
+  });
+
+  it('measures only pairs with missing, stale or other-timeframe metrics', async () => {
+    const stale = new Date(Date.now() - METRICS_STALE_MS - 1000);
+    storage.getPairMetrics.mockResolvedValue([
+      metrics('BTCUSDT'),
+      metrics('ETHUSDT', { updatedAt: stale }),
+      metrics('XRPUSDT', { timeframe: '1h' })
+    ]);
+    storage.getRecentClosedTrades.mockResolvedValue([]);
+    storage.savePairMetrics.mockImplementation(async (row) => row);
+    const getSeries = vi.fn(async (symbol: string) => scenarioSeries('range', symbol));
+
+    await pairRankingService.refreshStaleMetrics(
+      1,
+      'MACD',
+      ['BTCUSDT', 'ETHUSDT', 'XRPUSDT', 'SOLUSDT'].map(symbol => ({ symbol, weight: 0.1 })),
+      '15m',
+      getSeries
+    );
+
+    expect(getSeries.mock.calls.map(call => call[0])).toEqual(['ETHUSDT', 'XRPUSDT', 'SOLUSDT']);
+    expect(storage.savePairMetrics.mock.calls.map(call => call[0].symbol)).toEqual(['ETHUSDT', 'XRPUSDT', 'SOLUSDT']);
+  });
+
+  it('keeps measuring the other pairs when one fails', async () => {
+    storage.getPairMetrics.mockResolvedValue([]);
+    storage.getRecentClosedTrades.mockResolvedValue([]);
+    storage.savePairMetrics.mockImplementation(async (row) => row);
+    const getSeries = vi.fn(async (symbol: string) => {
+      if (symbol === 'BTCUSDT') throw new Error('exchange down');
+      return scenarioSeries('range', symbol);
+    });
+
+    await pairRankingService.refreshStaleMetrics(1, 'MACD', [{ symbol: 'BTCUSDT', weight: 0.3 }, { symbol: 'ETHUSDT', weight: 0.2 }], '15m', getSeries);
+
+    expect(storage.savePairMetrics).toHaveBeenCalledTimes(1);
+    expect(storage.savePairMetrics.mock.calls[0][0].symbol).toBe('ETHUSDT');
+  });
+});
@@ -0,0 +1,179 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import type { PairMetrics } from '@shared/schema';
+import { calculateVolatility } from './market-analysis';
+import { calculateTradeStats } from './position-sizing';
+import type { CandleSeries } from './trading-service';
+import type { CycleContext } from './trading-scheduler';
+import type { UniversePairWeight } from './universe-service';
+
+// Metrics older than this are measured again before pairs are ranked
+export const METRICS_STALE_MS = 60 * 60 * 1000;
+
+// Candles the volatility of a pair is measured on
+export const METRICS_CANDLE_COUNT = 100;
+
+/**
+ * Pair scoring settings, stored under tradingParams.pairScoring. A pair scores
+ *
+ *   weightFactor × weight
+ *   + volatilityFactor × min(volatility / targetVolatility, 1)
+ *   + successFactor × (wins + priorTrades / 2) / (trades + priorTrades)
+ *
+ * where weight is the pair's universe weight (0-1), volatility the standard deviation of its candle returns
+ * in percent, and wins/trades come from the strategy's most recent closed trades on the pair. The prior
+ * pulls the success rate of pairs with few trades towards 50%.
+ */
+export const pairScoringSchema = z.object({
+  weightFactor: z.number().min(0).max(10).default(1),
+  volatilityFactor: z.number().min(0).max(10).default(0.3),
+  successFactor: z.number().min(0).max(10).default(0.5),
+  targetVolatility: z.number().positive().max(20).default(1), // Volatility (%) that earns the full volatility term
+  priorTrades: z.number().int().min(0).max(1000).default(10),
+  lookbackTrades: z.number().int().min(5).max(1000).default(100) // Most recent closed trades the statistics come from
+});
+
+export type PairScoringConfig = z.infer<typeof pairScoringSchema>;
+
+export const DEFAULT_PAIR_SCORING: PairScoringConfig = pairScoringSchema.parse({});
+
+export interface PairScore {
+  symbol: string;
+  score: number;
+  // Contribution of each term of the formula to the score
+  components: {
+    weight: number;
+    volatility: number;
+    successRate: number;
+  };
+  weight: number;
+  volatility: number; // Percent; 0 until the pair has been measured
+  successRate: number; // 0-1, with the prior applied
+  trades: number;
+  wins: number;
+  measuredAt: Date | null;
+}
+
+/**
+ * Get the pair scoring config from the user's trading params
+ */
+export function getPairScoringConfig(tradingParams: unknown): PairScoringConfig {
+  const params = (tradingParams || {}) as Record<string, any>;
+  const parsed = pairScoringSchema.safeParse(params.pairScoring ?? {});
+  return parsed.success ? parsed.data : DEFAULT_PAIR_SCORING;
+}
+
+/**
+ * Score a pair of the universe with the formula above. Pairs without metrics score on their weight and the prior.
+ */
+export function scorePair(pair: UniversePairWeight, metrics: PairMetrics | null, config: PairScoringConfig = DEFAULT_PAIR_SCORING): PairScore {
+  const volatility = metrics ? Number(metrics.volatility) : 0;
+  const trades = metrics?.trades ?? 0;
+  const wins = metrics?.wins ?? 0;
+  const successRate = trades + config.priorTrades > 0
+    ? (wins + config.priorTrades / 2) / (trades + config.priorTrades)
+    : 0.5;
+
+  const components = {
+    weight: config.weightFactor * pair.weight,
+    volatility: config.volatilityFactor * Math.min(volatility / config.targetVolatility, 1),
+    successRate: config.successFactor * successRate
+  };
+
+  return {
+    symbol: pair.symbol,
+    score: components.weight + components.volatility + components.successRate,
+    components,
+    weight: pair.weight,
+    volatility,
+    successRate,
+    trades,
+    wins,
+    measuredAt: metrics?.updatedAt ?? null
+  };
+}
+
+/**
+ * Rank the pairs of a universe, best first. Ties go to the alphabetically first symbol.
+ */
+export function rankPairs(universe: UniversePairWeight[], metrics: PairMetrics[], config: PairScoringConfig = DEFAULT_PAIR_SCORING): PairScore[] {
+  const bySymbol = new Map(metrics.map(row => [row.symbol, row]));
+  return universe
+    .map(pair => scorePair(pair, bySymbol.get(pair.symbol) ?? null, config))
+    .sort((a, b) => b.score - a.score || a.symbol.localeCompare(b.symbol));
+}
+
+export class PairRankingService {
+  /**
+   * Measure a pair for one of the user's strategies: volatility from the series, trade statistics from
+   * the strategy's closed trades on the series' symbol
+   */
+  async refreshMetrics(
+    userId: number,
+    strategy: string,
+    series: CandleSeries,
+    config: PairScoringConfig = DEFAULT_PAIR_SCORING
+  ): Promise<PairMetrics> {
+    const closedTrades = await storage.getRecentClosedTrades(userId, strategy, series.symbol, config.lookbackTrades);
+    const stats = calculateTradeStats(closedTrades);
+
+    return storage.savePairMetrics({
+      userId,
+      strategy,
+      symbol: series.symbol,
+      timeframe: series.interval,
+      volatility: (series.candles.length > 1 ? calculateVolatility(series.candles) : 0).toString(),
+      candleCount: series.candles.length,
+      trades: stats.trades,
+      wins: stats.wins,
+      avgWinPercent: stats.avgWinPercent.toString(),
+      avgLossPercent: stats.avgLossPercent.toString()
+    });
+  }
+
+  /**
+   * Measure the pairs of a universe whose metrics are missing, stale or from another timeframe, so pairs
+   * the bot has not traded yet are ranked on real volatility. A pair that cannot be measured keeps its old metrics.
+   */
+  async refreshStaleMetrics(
+    userId: number,
+    strategy: string,
+    universe: UniversePairWeight[],
+    timeframe: string,
+    getSeries: CycleContext['getSeries'],
+    config: PairScoringConfig = DEFAULT_PAIR_SCORING
+  ): Promise<void> {
+    const metrics = new Map((await storage.getPairMetrics(userId, strategy)).map(row => [row.symbol, row]));
+    const now = Date.now();
+
+    for (const pair of universe) {
+      const current = metrics.get(pair.symbol);
+      const fresh = current
+        && current.timeframe === timeframe
+        && current.updatedAt
+        && now - current.updatedAt.getTime() < METRICS_STALE_MS;
+      if (fresh) continue;
+
+      try {
+        await this.refreshMetrics(userId, strategy, await getSeries(pair.symbol, timeframe, METRICS_CANDLE_COUNT), config);
+      } catch (error) {
+        console.error(`Error measuring ${pair.symbol} for user ${userId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Rank the pairs of a user's universe for a strategy from the stored metrics
+   */
+  async getRanking(
+    userId: number,
+    strategy: string,
+    universe: UniversePairWeight[],
+    config: PairScoringConfig = DEFAULT_PAIR_SCORING
+  ): Promise<PairScore[]> {
+    return rankPairs(universe, await storage.getPairMetrics(userId, strategy), config);
+  }
+}
+
+// Export a singleton instance
+export const pairRankingService = new PairRankingService();
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import Decimal from 'decimal.js';
+import { instrumentSpec } from '../test/fixtures/instruments';
+
+const { storage, bitgetService, ledger, orders } = vi.hoisted(() => {
+  const ledger = new Map<string, { available: string; frozen: string }>();
+  const orders = new Map<number, any>();
+  return {
+    ledger,
+    orders,
+    storage: {
+      getPaperBalances: vi.fn(),
+      seedPaperBalance: vi.fn(),
+      adjustPaperBalance: vi.fn(),
+      createPaperOrder: vi.fn(),
+      getPaperOrder: vi.fn(),
+      updatePaperOrder: vi.fn(),
+      updatePaperOrderIfStatus: vi.fn()
+    },
+    bitgetService: {
+      getKlines: vi.fn(),
+      getInstrument: vi.fn()
+    }
+  };
+});
+
+vi.mock('../storage', () => ({ storage }));
+vi.mock('./bitget-service', () => ({ bitgetService }));
+
+const { PaperExchangeService } = await import('./paper-exchange-service');
+
+const BTC = instrumentSpec('BTCUSDT', { pricePrecision: 2, quantityPrecision: 4 });
+
+// Applies each change in one step, like the conditional SQL update, yielding first so calls interleave
+async function adjust(_userId: number, asset: string, availableDelta: string, frozenDelta: string) {
+  await new Promise(resolve => setTimeout(resolve, 0));
+  const row = ledger.get(asset) ?? { available: '0', frozen: '0' };
+  const available = new Decimal(row.available).plus(availableDelta);
+  if (available.isNegative()) {
+    return undefined;
+  }
+  const next = { available: available.toString(), frozen: Decimal.max(new Decimal(row.frozen).plus(frozenDelta), 0).toString() };
+  ledger.set(asset, next);
+  return { userId: 1, asset, ...next };
+}
+
+describe('PaperExchangeService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    ledger.clear();
+    ledger.set('USDT', { available: '1000', frozen: '0' });
+    storage.getPaperBalances.mockImplementation(async () =>
+      Array.from(ledger, ([asset, row]) => ({ userId: 1, asset, ...row })));
+    storage.adjustPaperBalance.mockImplementation(adjust);
+    orders.clear();
+    storage.createPaperOrder.mockImplementation(async (order) => {
+      const row = { id: orders.size + 1, ...order };
+      orders.set(row.id, row);
+      return { ...row };
+    });
+    storage.getPaperOrder.mockImplementation(async (_userId, orderId) => {
+      const row = Array.from(orders.values()).find(order => order.orderId === orderId);
+      return row && { ...row };
+    });
+    storage.updatePaperOrder.mockImplementation(async (id, updates) => ({ ...Object.assign(orders.get(id), updates) }));
+    storage.updatePaperOrderIfStatus.mockImplementation(async (id, status, updates) =>
+      orders.get(id)?.status === status ? { ...Object.assign(orders.get(id), updates) } : undefined);
+    bitgetService.getKlines.mockResolvedValue([[String(Date.now()), '100', '100', '100', '100']]);
+    bitgetService.getInstrument.mockResolvedValue(BTC);
+  });
+
+  it('does not spend the same balance twice when orders overlap', async () => {
+    const exchange = new PaperExchangeService(1, { initialBalance: '1000', feeRate: 0, slippage: 0 });
+
+    const results = await Promise.allSettled([
+      exchange.executeTrade({ symbol: 'BTCUSDT', side: 'buy', size: '6', orderType: 'market' }),
+      exchange.executeTrade({ symbol: 'BTCUSDT', side: 'buy', size: '6', orderType: 'market' })
+    ]);
+
+    expect(results.map(result => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(ledger.get('USDT')).toEqual({ available: '400', frozen: '0' });
+    expect(ledger.get('BTC')).toEqual({ available: '6', frozen: '0' });
+  });
+
+  it('keeps every fill when orders for different assets overlap', async () => {
+    ledger.set('BTC', { available: '5', frozen: '0' });
+    const exchange = new PaperExchangeService(1, { initialBalance: '1000', feeRate: 0, slippage: 0 });
+
+    await Promise.all([
+      exchange.executeTrade({ symbol: 'BTCUSDT', side: 'buy', size: '2', orderType: 'market' }),
+      exchange.executeTrade({ symbol: 'BTCUSDT', side: 'sell', size: '3', orderType: 'market' })
+    ]);
+
+    expect(ledger.get('USDT')).toEqual({ available: '1100', frozen: '0' });
+    expect(ledger.get('BTC')).toEqual({ available: '4', frozen: '0' });
+  });
+
+  it('either cancels or fills a resting order when both happen at once, never both', async () => {
+    const exchange = new PaperExchangeService(1, { initialBalance: '1000', feeRate: 0, slippage: 0 });
+    const { orderId } = await exchange.executeTrade({ symbol: 'BTCUSDT', side: 'buy', size: '5', orderType: 'limit', price: '90' });
+    expect(ledger.get('USDT')).toEqual({ available: '550', frozen: '450' });
+
+    // The next candle trades through the limit while the order is being cancelled
+    bitgetService.getKlines.mockResolvedValue([[String(Date.now()), '100', '100', '80', '85']]);
+    const [cancelled] = await Promise.all([
+      exchange.cancelOrder('BTCUSDT', orderId),
+      exchange.getOrderDetails('BTCUSDT', orderId)
+    ]);
+
+    expect(cancelled).toBe(true);
+    expect(orders.get(1).status).toBe('CANCELLED');
+    expect(ledger.get('USDT')).toEqual({ available: '1000', frozen: '0' });
+    expect(ledger.get('BTC')).toBeUndefined();
+  });
+});
@@ -0,0 +1,374 @@
+import Decimal from 'decimal.js';
+import { storage } from '../storage';
+import { PaperOrder } from '@shared/schema';
+import {
+  bitgetService,
+  type AccountSummary,
+  type Balance,
+  type MarketData,
+  type KlineRange,
+  type TradeParams,
+  type TradeResponse
+} from './bitget-service';
+import type { ExchangeService } from './exchange';
+import { normalizeOrder, OrderNotFoundError, type InstrumentSpec } from './instruments';
+
+export interface PaperTradingOptions {
+  initialBalance: string; // Starting USDT balance for a new virtual account
+  feeRate: number; // Fee charged on every fill, as a fraction of notional
+  slippage: number; // Adverse price move applied to market orders, as a fraction of price
+}
+
+export const DEFAULT_PAPER_OPTIONS: PaperTradingOptions = {
+  initialBalance: process.env.PAPER_INITIAL_BALANCE || '10000',
+  feeRate: 0.001, // 0.1%, Bitget spot taker fee
+  slippage: 0.0005 // 0.05%
+};
+
+const QUOTE_ASSET = 'USDT';
+
+interface LastCandle {
+  time: number;
+  open: Decimal;
+  high: Decimal;
+  low: Decimal;
+  close: Decimal;
+}
+
+/**
+ * Simulated exchange with the same surface as BitgetService.
+ * Balances and orders live in the paper_* tables, fills are modelled on the last candle.
+ */
+export class PaperExchangeService implements ExchangeService {
+  constructor(
+    private userId: number,
+    private options: PaperTradingOptions = DEFAULT_PAPER_OPTIONS
+  ) {}
+
+  /**
+   * Get the virtual account balance summary, valued in USDT
+   */
+  async getAccountBalance(): Promise<AccountSummary> {
+    const ledger = await this.getLedger();
+
+    const balances: Record<string, Balance> = {};
+    let totalBalance = new Decimal(0);
+    let availableBalance = new Decimal(0);
+    let frozenBalance = new Decimal(0);
+
+    for (const [asset, entry] of Object.entries(ledger)) {
+      const total = entry.available.plus(entry.frozen);
+      if (total.isZero()) continue;
+
+      let price = new Decimal(1);
+      if (asset !== QUOTE_ASSET) {
+        try {
+          const candle = await this.getLastCandle(`${asset}${QUOTE_ASSET}`);
+          price = candle.close;
+        } catch (e) {
+          console.warn(`Failed to get price for ${asset}:`, e);
+          price = new Decimal(0);
+        }
+      }
+
+      balances[asset] = {
+        symbol: asset,
+        available: entry.available.toString(),
+        frozen: entry.frozen.toString(),
+        total: total.toString()
+      };
+
+      totalBalance = totalBalance.plus(total.times(price));
+      availableBalance = availableBalance.plus(entry.available.times(price));
+      frozenBalance = frozenBalance.plus(entry.frozen.times(price));
+    }
+
+    return {
+      totalBalance: totalBalance.toString(),
+      availableBalance: availableBalance.toString(),
+      frozenBalance: frozenBalance.toString(),
+      unrealizedPnl: '0',
+      marginBalance: '0',
+      balances
+    };
+  }
+
+  /**
+   * Get market data for a specific symbol (real market prices)
+   */
+  async getMarketData(symbol: string): Promise<MarketData> {
+    return bitgetService.getMarketData(symbol);
+  }
+
+  /**
+   * Get historical candlestick data (real market candles)
+   */
+  async getKlines(symbol: string, interval: string, limit: number = 100, range?: KlineRange): Promise<any[]> {
+    return bitgetService.getKlines(symbol, interval, limit, range);
+  }
+
+  /**
+   * Get the trading rules of a symbol (the real exchange's, so paper orders are held to the same limits)
+   */
+  async getInstrument(symbol: string): Promise<InstrumentSpec> {
+    return bitgetService.getInstrument(symbol);
+  }
+
+  /**
+   * Execute a simulated trade.
+   * Market orders fill at the last close plus slippage; limit orders fill if the
+   * last candle traded through the limit price, otherwise they rest until a later candle does.
+   */
+  async executeTrade(params: TradeParams): Promise<TradeResponse> {
+    if (params.orderType === 'limit' && !params.price) {
+      throw new Error('Failed to execute trade: limit orders require a price');
+    }
+
+    const candle = await this.getLastCandle(params.symbol);
+    const normalized = normalizeOrder(await this.getInstrument(params.symbol), {
+      symbol: params.symbol,
+      side: params.side,
+      size: params.size,
+      price: params.orderType === 'limit' ? params.price : undefined
+    }, candle.close);
+    const size = new Decimal(normalized.size);
+    const orderId = `paper_${this.userId}_${Date.now()}_${Math.floor(Math.random() * 1000)}`;
+
+    // Reserve funds up front so a resting order cannot be double spent
+    const reservePrice = params.orderType === 'limit'
+      ? new Decimal(normalized.price!)
+      : this.applySlippage(candle.close, params.side);
+    await this.reserve(params.symbol, params.side, size, reservePrice);
+
+    let order = await storage.createPaperOrder({
+      userId: this.userId,
+      orderId,
+      symbol: params.symbol,
+      side: params.side,
+      orderType: params.orderType,
+      price: params.orderType === 'limit' ? normalized.price! : null,
+      size: size.toString(),
+      filledSize: '0',
+      fee: '0',
+      status: 'NEW'
+    });
+
+    // A post-only order that would fill right away is cancelled instead, as the exchange does
+    const marketable = params.side === 'buy' ? reservePrice.greaterThanOrEqualTo(candle.close) : reservePrice.lessThanOrEqualTo(candle.close);
+    if (params.postOnly && params.orderType === 'limit' && marketable) {
+      const cancelled = await storage.updatePaperOrderIfStatus(order.id, 'NEW', { status: 'CANCELLED' });
+      if (cancelled) {
+        await this.release(params.symbol, params.side, size, reservePrice);
+        order = cancelled;
+      }
+    } else {
+      order = await this.tryFill(order, candle);
+    }
+
+    return {
+      orderId,
+      clientOrderId: orderId,
+      symbol: params.symbol,
+      side: params.side,
+      size: normalized.size,
+      price: order.avgFillPrice || order.price || '0',
+      status: order.status,
+      timestamp: Date.now()
+    };
+  }
+
+  /**
+   * Get order information, shaped like Bitget's order info response
+   */
+  async getOrderDetails(symbol: string, orderId: string): Promise<any> {
+    let order = await storage.getPaperOrder(this.userId, orderId);
+    if (!order || order.symbol !== symbol) {
+      throw new OrderNotFoundError(`Paper order ${orderId} not found on ${symbol}`);
+    }
+
+    // Give resting limit orders a chance to fill against the latest candle
+    if (order.status === 'NEW') {
+      order = await this.tryFill(order, await this.getLastCandle(symbol));
+    }
+
+    return {
+      orderId: order.orderId,
+      clientOrderId: order.orderId,
+      symbol: order.symbol,
+      side: order.side,
+      orderType: order.orderType,
+      price: order.price || '0',
+      quantity: order.size,
+      fillQuantity: order.filledSize,
+      fillPrice: order.avgFillPrice || '0',
+      fillTotalAmount: new Decimal(order.filledSize).times(order.avgFillPrice || 0).toString(),
+      fees: order.fee,
+      status: order.status === 'FILLED' ? 'full_fill' : order.status === 'CANCELLED' ? 'cancelled' : 'new',
+      cTime: order.createdAt?.getTime()
+    };
+  }
+
+  /**
+   * Cancel a resting order and release its reserved funds
+   */
+  async cancelOrder(symbol: string, orderId: string): Promise<boolean> {
+    const order = await storage.getPaperOrder(this.userId, orderId);
+    if (!order || order.symbol !== symbol || order.status !== 'NEW') {
+      return false;
+    }
+
+    // A fill may have taken the order since it was read; only the update that changes its status moves funds
+    const cancelled = await storage.updatePaperOrderIfStatus(order.id, 'NEW', { status: 'CANCELLED' });
+    if (!cancelled) {
+      return false;
+    }
+
+    await this.release(order.symbol, order.side as 'buy' | 'sell', new Decimal(order.size), new Decimal(order.price!));
+    return true;
+  }
+
+  /**
+   * The paper exchange is always available
+   */
+  isReady(): boolean {
+    return true;
+  }
+
+  /**
+   * Fill an open order if the candle allows it, settling balances
+   */
+  private async tryFill(order: PaperOrder, candle: LastCandle): Promise<PaperOrder> {
+    const side = order.side as 'buy' | 'sell';
+    let fillPrice: Decimal;
+
+    if (order.orderType === 'market') {
+      fillPrice = this.applySlippage(candle.close, side);
+    } else {
+      const limit = new Decimal(order.price!);
+      const crossed = side === 'buy' ? candle.low.lessThanOrEqualTo(limit) : candle.high.greaterThanOrEqualTo(limit);
+      if (!crossed) {
+        return order;
+      }
+      fillPrice = limit;
+    }
+
+    const size = new Decimal(order.size);
+    const notional = size.times(fillPrice);
+    const fee = notional.times(this.options.feeRate);
+    const reservePrice = order.orderType === 'limit' ? new Decimal(order.price!) : fillPrice;
+
+    const filled = await storage.updatePaperOrderIfStatus(order.id, 'NEW', {
+      status: 'FILLED',
+      filledSize: size.toString(),
+      avgFillPrice: fillPrice.toString(),
+      fee: fee.toString()
+    });
+    if (!filled) {
+      // Cancelled or filled by another request meanwhile
+      return (await storage.getPaperOrder(this.userId, order.orderId)) || order;
+    }
+
+    await this.settle(order.symbol, side, size, reservePrice, fillPrice, fee);
+    return filled;
+  }
+
+  /**
+   * Move funds from available to frozen for a new order
+   */
+  private async reserve(symbol: string, side: 'buy' | 'sell', size: Decimal, price: Decimal): Promise<void> {
+    const { asset, amount } = this.reservation(symbol, side, size, price);
+    const ledger = await this.getLedger();
+
+    const reserved = await storage.adjustPaperBalance(this.userId, asset, amount.negated().toString(), amount.toString());
+    if (!reserved) {
+      const available = ledger[asset]?.available ?? new Decimal(0);
+      throw new Error(`Failed to execute trade: insufficient paper ${asset} balance (available ${available}, required ${amount})`);
+    }
+  }
+
+  /**
+   * Return reserved funds to available for a cancelled order
+   */
+  private async release(symbol: string, side: 'buy' | 'sell', size: Decimal, price: Decimal): Promise<void> {
+    const { asset, amount } = this.reservation(symbol, side, size, price);
+    await storage.adjustPaperBalance(this.userId, asset, amount.toString(), amount.negated().toString());
+  }
+
+  /**
+   * Settle a fill: consume the reservation and credit the proceeds
+   */
+  private async settle(symbol: string, side: 'buy' | 'sell', size: Decimal, reservePrice: Decimal, fillPrice: Decimal, fee: Decimal): Promise<void> {
+    const base = this.getBaseAsset(symbol);
+
+    if (side === 'buy') {
+      // Reserved notional + fee at the reserve price; refund the difference to the actual cost
+      const reserved = size.times(reservePrice).times(1 + this.options.feeRate);
+      const cost = size.times(fillPrice).plus(fee);
+      await storage.adjustPaperBalance(this.userId, QUOTE_ASSET, reserved.minus(cost).toString(), reserved.negated().toString());
+      await storage.adjustPaperBalance(this.userId, base, size.toString(), '0');
+    } else {
+      const proceeds = size.times(fillPrice).minus(fee);
+      await storage.adjustPaperBalance(this.userId, base, '0', size.negated().toString());
+      await storage.adjustPaperBalance(this.userId, QUOTE_ASSET, proceeds.toString(), '0');
+    }
+  }
+
+  /**
+   * Asset and amount that an order locks up while it is open
+   */
+  private reservation(symbol: string, side: 'buy' | 'sell', size: Decimal, price: Decimal): { asset: string, amount: Decimal } {
+    if (side === 'buy') {
+      return { asset: QUOTE_ASSET, amount: size.times(price).times(1 + this.options.feeRate) };
+    }
+    return { asset: this.getBaseAsset(symbol), amount: size };
+  }
+
+  /**
+   * Load the user's balances, seeding a fresh virtual account on first use
+   */
+  private async getLedger(): Promise<Record<string, { available: Decimal, frozen: Decimal }>> {
+    let rows = await storage.getPaperBalances(this.userId);
+    if (rows.length === 0) {
+      await storage.seedPaperBalance(this.userId, QUOTE_ASSET, this.options.initialBalance);
+      rows = await storage.getPaperBalances(this.userId);
+    }
+
+    const ledger: Record<string, { available: Decimal, frozen: Decimal }> = {};
+    for (const row of rows) {
+      ledger[row.asset] = {
+        available: new Decimal(row.available),
+        frozen: new Decimal(row.frozen)
+      };
+    }
+    return ledger;
+  }
+
+  /**
+   * Get the most recent 1m candle, used as the fill model
+   */
+  private async getLastCandle(symbol: string): Promise<LastCandle> {
+    const klines = await bitgetService.getKlines(symbol, '1m', 1);
+    const candle = klines[klines.length - 1];
+    if (!candle) {
+      throw new Error(`No market data available for ${symbol}`);
+    }
+
+    return {
+      time: parseInt(candle[0]),
+      open: new Decimal(candle[1]),
+      high: new Decimal(candle[2]),
+      low: new Decimal(candle[3]),
+      close: new Decimal(candle[4])
+    };
+  }
+
+  private applySlippage(price: Decimal, side: 'buy' | 'sell'): Decimal {
+    return side === 'buy'
+      ? price.times(1 + this.options.slippage)
+      : price.times(1 - this.options.slippage);
+  }
+
+  private getBaseAsset(symbol: string): string {
+    return symbol.endsWith(QUOTE_ASSET) ? symbol.slice(0, -QUOTE_ASSET.length) : symbol;
+  }
+}
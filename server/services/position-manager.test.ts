@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Trade } from '@shared/schema';
+
+const { storage, exchange, trades } = vi.hoisted(() => {
+  const trades = new Map<number, any>();
+  const update = (id: number, updates: Record<string, unknown>) => {
+    const row = trades.get(id);
+    if (!row) return undefined;
+    Object.assign(row, updates);
+    return { ...row };
+  };
+  return {
+    trades,
+    storage: {
+      getTrade: vi.fn(async (_userId: number, id: number) => trades.has(id) ? { ...trades.get(id) } : undefined),
+      updateTrade: vi.fn(async (id: number, updates: Record<string, unknown>) => update(id, updates)),
+      updateTradeIfStatus: vi.fn(async (id: number, status: string, updates: Record<string, unknown>) =>
+        trades.get(id)?.status === status ? update(id, updates) : undefined)
+    },
+    exchange: {
+      executeTrade: vi.fn(),
+      getOrderDetails: vi.fn(),
+      getMarketData: vi.fn()
+    }
+  };
+});
+
+vi.mock('../storage', () => ({ storage }));
+vi.mock('./exchange', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./exchange')>(),
+  getExchangeForUser: vi.fn(async () => exchange)
+}));
+
+const { positionManager, TradeNotOpenError } = await import('./position-manager');
+
+const position = {
+  id: 1,
+  userId: 1,
+  symbol: 'BTCUSDT',
+  marketType: 'spot',
+  side: 'buy',
+  status: 'OPEN',
+  entryPrice: '100',
+  quantity: '1',
+  fees: '0.1',
+  leverage: 1,
+  fundingFees: null,
+  tradeData: {}
+} as unknown as Trade;
+
+describe('PositionManager.closePosition', () => {
+  beforeEach(() => {
+    trades.set(1, { ...position });
+    exchange.getOrderDetails.mockResolvedValue({ status: 'full_fill', fillQuantity: '1', fillPrice: '110', fees: '0.11' });
+  });
+
+  afterEach(() => {
+    trades.clear();
+    vi.clearAllMocks();
+  });
+
+  it('sends one closing order when two paths close the position at once', async () => {
+    exchange.executeTrade.mockImplementation(async () => {
+      await new Promise(resolve => setTimeout(resolve, 10));
+      return { orderId: 'exit-1' };
+    });
+
+    const results = await Promise.allSettled([
+      positionManager.closePosition(1, position, 'STOP_LOSS'),
+      positionManager.closePosition(1, position, 'SIGNAL')
+    ]);
+
+    expect(exchange.executeTrade).toHaveBeenCalledTimes(1);
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(results.find(result => result.status === 'rejected')).toMatchObject({ reason: expect.any(TradeNotOpenError) });
+    expect(trades.get(1)).toMatchObject({ status: 'CLOSED', exitPrice: '110', tradeData: { exitOrderId: 'exit-1', exitReason: 'STOP_LOSS' } });
+  });
+
+  it('leaves the position open when the closing order cannot be sent', async () => {
+    exchange.executeTrade.mockRejectedValue(new Error('Insufficient balance'));
+
+    await expect(positionManager.closePosition(1, position, 'MANUAL')).rejects.toThrow('Insufficient balance');
+
+    expect(trades.get(1).status).toBe('OPEN');
+  });
+});
@@ -0,0 +1,147 @@
+import Decimal from 'decimal.js';
+import { storage } from '../storage';
+import { Trade } from '@shared/schema';
+import { getExchangeForUser, normalizeOrderDetails, type ExchangeService, type OrderState } from './exchange';
+import { eventBus } from './event-bus';
+
+// Estimated fee per fill when the exchange does not report one (Bitget spot taker fee)
+export const ESTIMATED_FEE_RATE = 0.001;
+
+// Strategy name of trades placed by hand through the order API; the bot leaves them alone
+export const MANUAL_STRATEGY = 'MANUAL';
+
+export type ExitReason = 'SIGNAL' | 'MANUAL' | 'STOP_LOSS' | 'TAKE_PROFIT' | 'TRAILING_STOP' | 'KILL_SWITCH';
+
+// The position is no longer open, or another path is already closing it
+export class TradeNotOpenError extends Error {}
+
+export interface RealizedPnl {
+  pnl: Decimal;
+  pnlPercentage: Decimal;
+  fees: Decimal;
+}
+
+/**
+ * Matches signals against open positions and closes them through the user's exchange
+ */
+export class PositionManager {
+  /**
+   * Get the user's open bot positions on a symbol that an order on the given side would close
+   */
+  async getOpposingPositions(userId: number, symbol: string, side: 'buy' | 'sell'): Promise<Trade[]> {
+    const openTrades = await storage.getOpenTrades(userId);
+    return openTrades.filter(trade => trade.symbol === symbol && trade.side !== side && trade.strategy !== MANUAL_STRATEGY);
+  }
+
+  /**
+   * Close an open position with an opposite market order and record the realized PnL
+   */
+  async closePosition(userId: number, openTrade: Trade, reason: ExitReason): Promise<Trade> {
+    const owned = await storage.getTrade(userId, openTrade.id);
+    if (!owned) {
+      throw new Error(`Trade ${openTrade.id} does not belong to user ${userId}`);
+    }
+
+    // Claim the position before sending the order, so two paths closing it at once send one order
+    const trade = await storage.updateTradeIfStatus(owned.id, 'OPEN', { status: 'CLOSING' });
+    if (!trade) {
+      throw new TradeNotOpenError(`Trade ${owned.id} is not open`);
+    }
+
+    const exchange = await getExchangeForUser(userId, trade.marketType);
+    const closeSide = trade.side === 'buy' ? 'sell' : 'buy';
+
+    let response;
+    try {
+      response = await exchange.executeTrade({
+        symbol: trade.symbol,
+        side: closeSide,
+        size: trade.quantity,
+        orderType: 'market',
+        reduceOnly: true
+      });
+    } catch (error) {
+      // No order went out; the position stays open for the next attempt
+      await storage.updateTradeIfStatus(trade.id, 'CLOSING', { status: 'OPEN' });
+      throw error;
+    }
+
+    // PnL is provisional until the closing order is final; the order reconciler confirms it
+    const fill = await this.getFill(exchange, trade.symbol, response.orderId, trade.quantity);
+    const tradeData = (trade.tradeData || {}) as Record<string, any>;
+    const entryFee = new Decimal(trade.fees ?? tradeData.entryFee ?? new Decimal(trade.entryPrice).times(trade.quantity).times(ESTIMATED_FEE_RATE));
+    const realized = this.calculateRealizedPnl(trade, fill.price, entryFee, fill.fee);
+
+    const updated = await storage.updateTrade(trade.id, {
+      status: 'CLOSED',
+      exitPrice: fill.price.toString(),
+      pnl: realized.pnl.toString(),
+      pnlPercentage: realized.pnlPercentage.toString(),
+      tradeData: {
+        ...tradeData,
+        exitOrderId: response.orderId,
+        exitOrderStatus: fill.state,
+        exitFee: fill.fee.toString(),
+        totalFees: realized.fees.toString(),
+        exitReason: reason
+      }
+    });
+
+    if (updated) {
+      eventBus.publish('trade', { userId, event: 'closed', trade: updated });
+    }
+    return updated || trade;
+  }
+
+  /**
+   * Realized PnL for a position closed at exitPrice, net of entry and exit fees and futures funding.
+   * Leveraged positions report the percentage on the margin put up rather than the notional.
+   */
+  calculateRealizedPnl(trade: Trade, exitPrice: Decimal, entryFee: Decimal, exitFee: Decimal): RealizedPnl {
+    const entryPrice = new Decimal(trade.entryPrice);
+    const quantity = new Decimal(trade.quantity);
+    const direction = trade.side === 'buy' ? 1 : -1;
+
+    const fees = entryFee.plus(exitFee);
+    const grossPnl = exitPrice.minus(entryPrice).times(quantity).times(direction);
+    const pnl = grossPnl.minus(fees).minus(trade.fundingFees || 0);
+    const costBasis = entryPrice.times(quantity).dividedBy(trade.leverage || 1);
+
+    return {
+      pnl,
+      pnlPercentage: costBasis.isZero() ? new Decimal(0) : pnl.dividedBy(costBasis).times(100),
+      fees
+    };
+  }
+
+  /**
+   * Read the fill of an order, falling back to the market price and estimated fee
+   */
+  private async getFill(exchange: ExchangeService, symbol: string, orderId: string, quantity: string): Promise<{ price: Decimal, fee: Decimal, state: OrderState }> {
+    let price: Decimal | null = null;
+    let fee: Decimal | null = null;
+    let state: OrderState = 'NEW';
+
+    try {
+      const fill = normalizeOrderDetails(await exchange.getOrderDetails(symbol, orderId));
+      price = fill.avgFillPrice;
+      fee = fill.fee;
+      state = fill.state;
+    } catch (error) {
+      console.warn(`Could not read fill for order ${orderId}:`, error);
+    }
+
+    if (!price) {
+      const marketData = await exchange.getMarketData(symbol);
+      price = new Decimal(marketData.price);
+    }
+    if (!fee) {
+      fee = price.times(quantity).times(ESTIMATED_FEE_RATE);
+    }
+
+    return { price, fee, state };
+  }
+}
+
+// Export a singleton instance
+export const positionManager = new PositionManager();
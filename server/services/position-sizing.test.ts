@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import {
+  calculatePositionSize,
+  calculateTradeStats,
+  kellyFraction,
+  sizingConfigSchema,
+  type SizingRequest
+} from './position-sizing';
+import { scenarioSeries } from '../test/fixtures/candle-series';
+import { instrumentSpec } from '../test/fixtures/instruments';
+
+const instrument = instrumentSpec('BTCUSDT', { pricePrecision: 2, quantityPrecision: 3, minTradeAmount: '0.001', minNotional: '5' });
+
+const request: SizingRequest = { availableBalance: '10000', riskPercentage: '2', price: '50000' };
+
+// 60 trades: 36 wins of +3% and 24 losses of -2%, so win rate 0.6 and payoff 1.5
+const history = calculateTradeStats([
+  ...Array.from({ length: 36 }, () => ({ pnlPercentage: '3' })),
+  ...Array.from({ length: 24 }, () => ({ pnlPercentage: '-2' }))
+]);
+
+describe('calculatePositionSize', () => {
+  describe('fixed fraction', () => {
+    it('puts the risk per trade of the balance into the position', () => {
+      // 2% of 10000 = 200 USDT at 50000
+      expect(calculatePositionSize(request)).toEqual({
+        size: '0.004',
+        model: 'fixed',
+        inputs: { riskPercent: 2, leverage: 1 }
+      });
+    });
+
+    it('multiplies the margin by the leverage', () => {
+      expect(calculatePositionSize({ ...request, leverage: 5 }).size).toBe('0.02');
+    });
+
+    it('rounds down to the instrument quantity step', () => {
+      expect(calculatePositionSize({ ...request, price: '48000', instrument }).size).toBe('0.004');
+    });
+
+    it('returns zero when the size is below the smallest tradable amount', () => {
+      expect(calculatePositionSize({ availableBalance: '1', riskPercentage: '1', price: '60000' }).size).toBe('0');
+    });
+  });
+
+  describe('volatility target', () => {
+    const config = sizingConfigSchema.parse({ model: 'volatility', atrStopMultiple: 2 });
+
+    it('loses the risk per trade over the ATR stop distance', () => {
+      const candles = scenarioSeries('range').candles;
+      const sizing = calculatePositionSize({ ...request, candles }, config);
+      const stopDistance = sizing.inputs.stopDistance as number;
+
+      expect(sizing.model).toBe('volatility');
+      expect(stopDistance).toBeCloseTo((sizing.inputs.atr as number) * 2, 8);
+      expect(parseFloat(sizing.size) * stopDistance).toBeCloseTo(200, 2);
+    });
+
+    it('sizes calmer markets larger', () => {
+      const calm = calculatePositionSize({ ...request, candles: scenarioSeries('trend-up').candles }, config);
+      const wild = calculatePositionSize({ ...request, candles: scenarioSeries('range').candles }, config);
+      expect(parseFloat(calm.size)).toBeGreaterThan(parseFloat(wild.size));
+    });
+
+    it('never exceeds the leveraged balance', () => {
+      const flat = scenarioSeries('range').candles.map(c => ({ ...c, high: c.close * 1.00001, low: c.close * 0.99999 }));
+      expect(calculatePositionSize({ ...request, candles: flat }, config).size).toBe('0.2');
+    });
+
+    it('falls back to the fixed fraction without enough candles for the ATR', () => {
+      const sizing = calculatePositionSize({ ...request, candles: scenarioSeries('range').candles.slice(0, 5) }, config);
+      expect(sizing.size).toBe('0.004');
+      expect(sizing.inputs.fallback).toBe('NO_ATR');
+    });
+  });
+
+  describe('kelly', () => {
+    const config = sizingConfigSchema.parse({ model: 'kelly', kellyFraction: 0.5, kellyMaxPercent: 20, kellyMinTrades: 30 });
+
+    it('bets the configured fraction of the Kelly fraction from the trade history', () => {
+      // Full Kelly = 0.6 - 0.4 / 1.5 = 0.3333, half of it = 16.67% of the balance
+      const sizing = calculatePositionSize({ ...request, history }, config);
+      expect(sizing.model).toBe('kelly');
+      expect(sizing.inputs.kelly).toBeCloseTo(1 / 3, 10);
+      expect(sizing.inputs.fraction).toBeCloseTo(1 / 6, 10);
+      expect(sizing.size).toBe('0.03333');
+    });
+
+    it('caps the fraction of the balance', () => {
+      const sizing = calculatePositionSize({ ...request, history }, { ...config, kellyFraction: 1 });
+      expect(sizing.inputs.fraction).toBe(0.2);
+      expect(sizing.size).toBe('0.04');
+    });
+
+    it('sizes nothing when the history has no edge', () => {
+      const losing = calculateTradeStats(Array.from({ length: 40 }, (_, i) => ({ pnlPercentage: i % 4 === 0 ? '1' : '-1' })));
+      const sizing = calculatePositionSize({ ...request, history: losing }, config);
+      expect(sizing.inputs.kelly).toBeLessThan(0);
+      expect(sizing.size).toBe('0');
+    });
+
+    it('falls back to the fixed fraction below the minimum sample size', () => {
+      const short = calculateTradeStats(Array.from({ length: 10 }, () => ({ pnlPercentage: '5' })));
+      const sizing = calculatePositionSize({ ...request, history: short }, config);
+      expect(sizing).toEqual({
+        size: '0.004',
+        model: 'kelly',
+        inputs: { riskPercent: 2, leverage: 1, fallback: 'INSUFFICIENT_HISTORY', trades: 10, minTrades: 30 }
+      });
+    });
+  });
+});
+
+describe('calculateTradeStats', () => {
+  it('summarizes wins and losses, skipping trades without a PnL', () => {
+    expect(calculateTradeStats([
+      { pnlPercentage: '4' },
+      { pnlPercentage: '2' },
+      { pnlPercentage: '-3' },
+      { pnlPercentage: null }
+    ])).toEqual({ trades: 3, wins: 2, winRate: 2 / 3, avgWinPercent: 3, avgLossPercent: 3 });
+  });
+});
+
+describe('kellyFraction', () => {
+  it('is zero without wins', () => {
+    expect(kellyFraction(calculateTradeStats([{ pnlPercentage: '-1' }]))).toBe(0);
+  });
+
+  it('is the win rate without losses', () => {
+    expect(kellyFraction(calculateTradeStats([{ pnlPercentage: '1' }, { pnlPercentage: '2' }]))).toBe(1);
+  });
+});
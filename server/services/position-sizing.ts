@@ -0,0 +1,192 @@
+import { z } from 'zod';
+import Decimal from 'decimal.js';
+import * as ti from 'technicalindicators';
+import { roundQuantity, type InstrumentSpec } from './instruments';
+import type { HistoricalCandle } from './trading-service';
+
+export const SIZING_MODELS = ['fixed', 'volatility', 'kelly'] as const;
+export type SizingModel = typeof SIZING_MODELS[number];
+
+// Position sizing settings, stored under tradingParams.sizing
+export const sizingConfigSchema = z.object({
+  model: z.enum(SIZING_MODELS).default('fixed'),
+  atrPeriod: z.number().int().min(2).max(100).default(14),
+  atrStopMultiple: z.number().positive().max(20).default(2), // The risk per trade is lost when price moves this many ATRs
+  kellyFraction: z.number().positive().max(1).default(0.5), // Share of the full Kelly fraction to bet
+  kellyMaxPercent: z.number().positive().max(100).default(20), // Never commit more of the balance than this
+  kellyMinTrades: z.number().int().min(5).max(1000).default(30), // Fewer closed trades fall back to the fixed fraction
+  kellyLookback: z.number().int().min(5).max(1000).default(100) // Most recent closed trades the statistics come from
+});
+
+export type SizingConfig = z.infer<typeof sizingConfigSchema>;
+
+export const DEFAULT_SIZING_CONFIG: SizingConfig = sizingConfigSchema.parse({});
+
+// Win/loss statistics of closed trades, from their PnL percentages
+export interface TradeStats {
+  trades: number;
+  wins: number;
+  winRate: number; // 0-1
+  avgWinPercent: number;
+  avgLossPercent: number; // Positive
+}
+
+export interface SizingRequest {
+  availableBalance: string;
+  riskPercentage: string; // The user's risk per trade, in percent of the balance
+  price: string;
+  instrument?: InstrumentSpec;
+  leverage?: number;
+  candles?: HistoricalCandle[]; // Needed by the volatility model
+  history?: TradeStats; // Needed by the Kelly model
+}
+
+export interface PositionSizing {
+  size: string; // In the base asset, rounded to the instrument's quantity step
+  model: SizingModel;
+  // What the size was computed from; `fallback` says why the fixed fraction was used instead of the model
+  inputs: Record<string, number | string | boolean | null>;
+}
+
+/**
+ * Get the position sizing config from the user's trading params
+ */
+export function getSizingConfig(tradingParams: unknown): SizingConfig {
+  const params = (tradingParams || {}) as Record<string, any>;
+  const parsed = sizingConfigSchema.safeParse(params.sizing ?? {});
+  return parsed.success ? parsed.data : DEFAULT_SIZING_CONFIG;
+}
+
+/**
+ * Summarize closed trades for the Kelly model. Trades without a PnL percentage are left out.
+ */
+export function calculateTradeStats(trades: { pnlPercentage: string | number | null }[]): TradeStats {
+  const returns = trades
+    .filter(trade => trade.pnlPercentage !== null)
+    .map(trade => Number(trade.pnlPercentage));
+  const wins = returns.filter(value => value > 0);
+  const losses = returns.filter(value => value <= 0);
+  const average = (values: number[]) => values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  return {
+    trades: returns.length,
+    wins: wins.length,
+    winRate: returns.length > 0 ? wins.length / returns.length : 0,
+    avgWinPercent: average(wins),
+    avgLossPercent: Math.abs(average(losses))
+  };
+}
+
+/**
+ * Full Kelly fraction: winRate - (1 - winRate) / payoff, where payoff is the average win over the average loss.
+ * Negative when the history has no edge.
+ */
+export function kellyFraction(stats: TradeStats): number {
+  if (stats.wins === 0) {
+    return 0;
+  }
+  if (stats.avgLossPercent === 0) {
+    return stats.winRate;
+  }
+  const payoff = stats.avgWinPercent / stats.avgLossPercent;
+  return stats.winRate - (1 - stats.winRate) / payoff;
+}
+
+/**
+ * Calculate the position size with the configured model:
+ * - fixed: the risk per trade is the share of the balance put into the position
+ * - volatility: the risk per trade is lost when price moves atrStopMultiple ATRs against the position
+ * - kelly: a fraction of the Kelly bet from the user's closed trades, once there are enough of them
+ * Futures margin is multiplied by the leverage; no model sizes a position beyond the leveraged balance.
+ */
+export function calculatePositionSize(request: SizingRequest, config: SizingConfig = DEFAULT_SIZING_CONFIG): PositionSizing {
+  const balance = new Decimal(request.availableBalance);
+  const price = new Decimal(request.price);
+  const leverage = request.leverage ?? 1;
+  const riskFraction = new Decimal(request.riskPercentage).dividedBy(100);
+  const maxSize = balance.times(leverage).dividedBy(price);
+
+  const fixed = (inputs: PositionSizing['inputs']): PositionSizing => ({
+    size: finalizeSize(balance.times(riskFraction).times(leverage).dividedBy(price), request.instrument),
+    model: config.model,
+    inputs: { riskPercent: riskFraction.times(100).toNumber(), leverage, ...inputs }
+  });
+
+  if (config.model === 'volatility') {
+    const atr = latestAtr(request.candles || [], config.atrPeriod);
+    if (atr === null || atr <= 0) {
+      return fixed({ fallback: 'NO_ATR' });
+    }
+
+    const riskAmount = balance.times(riskFraction);
+    const stopDistance = new Decimal(atr).times(config.atrStopMultiple);
+    const size = Decimal.min(riskAmount.dividedBy(stopDistance), maxSize);
+    return {
+      size: finalizeSize(size, request.instrument),
+      model: 'volatility',
+      inputs: {
+        riskPercent: riskFraction.times(100).toNumber(),
+        leverage,
+        atr,
+        atrPeriod: config.atrPeriod,
+        atrStopMultiple: config.atrStopMultiple,
+        stopDistance: stopDistance.toNumber()
+      }
+    };
+  }
+
+  if (config.model === 'kelly') {
+    const history = request.history;
+    if (!history || history.trades < config.kellyMinTrades) {
+      return fixed({ fallback: 'INSUFFICIENT_HISTORY', trades: history?.trades ?? 0, minTrades: config.kellyMinTrades });
+    }
+
+    const kelly = kellyFraction(history);
+    const fraction = Decimal.max(0, Decimal.min(
+      new Decimal(kelly).times(config.kellyFraction),
+      new Decimal(config.kellyMaxPercent).dividedBy(100)
+    ));
+    return {
+      size: finalizeSize(balance.times(fraction).times(leverage).dividedBy(price), request.instrument),
+      model: 'kelly',
+      inputs: {
+        leverage,
+        trades: history.trades,
+        winRate: history.winRate,
+        avgWinPercent: history.avgWinPercent,
+        avgLossPercent: history.avgLossPercent,
+        kelly,
+        kellyFraction: config.kellyFraction,
+        fraction: fraction.toNumber()
+      }
+    };
+  }
+
+  return fixed({});
+}
+
+// Latest ATR of the candles, or null when there are too few of them
+function latestAtr(candles: HistoricalCandle[], period: number): number | null {
+  const values = ti.ATR.calculate({
+    high: candles.map(c => c.high),
+    low: candles.map(c => c.low),
+    close: candles.map(c => c.close),
+    period
+  });
+  return values.length > 0 ? values[values.length - 1] : null;
+}
+
+function finalizeSize(positionSize: Decimal, instrument?: InstrumentSpec): string {
+  // Round down to the symbol's quantity step; its minimum size and value are checked before the order is placed
+  if (instrument) {
+    return roundQuantity(instrument, positionSize).toString();
+  }
+
+  // Ensure the position size is not too small
+  if (positionSize.lessThan(0.00001)) {
+    return '0';
+  }
+
+  // Return the position size rounded to 5 decimal places
+  return positionSize.toDecimalPlaces(5).toString();
+}
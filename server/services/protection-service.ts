@@ -0,0 +1,198 @@
+import { z } from 'zod';
+import * as ti from 'technicalindicators';
+import { storage } from '../storage';
+import { Trade } from '@shared/schema';
+import { bitgetService } from './bitget-service';
+import { positionManager } from './position-manager';
+import type { HistoricalCandle } from './trading-service';
+
+export type ProtectionExitReason = 'STOP_LOSS' | 'TAKE_PROFIT' | 'TRAILING_STOP';
+
+// Distances are percentages of the entry price in 'percent' mode, ATR multiples in 'atr' mode
+export const protectionConfigSchema = z.object({
+  mode: z.enum(['percent', 'atr']),
+  stopLoss: z.number().positive().nullable(),
+  takeProfit: z.number().positive().nullable(),
+  trailingStop: z.number().positive().nullable(),
+  atrPeriod: z.number().int().min(2).max(100).default(14)
+});
+
+export type ProtectionConfig = z.infer<typeof protectionConfigSchema>;
+
+// Per-strategy protection settings, stored under tradingParams.protection
+export const protectionSettingsSchema = z.record(z.string(), protectionConfigSchema);
+
+// 1:2 risk:reward
+export const DEFAULT_PROTECTION_CONFIG: ProtectionConfig = {
+  mode: 'percent',
+  stopLoss: 2,
+  takeProfit: 4,
+  trailingStop: null,
+  atrPeriod: 14
+};
+
+export interface ProtectionLevels {
+  mode: 'percent' | 'atr';
+  stopLoss: number | null;
+  takeProfit: number | null;
+  trailingDistance: number | null; // Absolute price distance the trailing stop keeps from the best price
+  bestPrice: number; // Highest price since entry for longs, lowest for shorts
+  atr?: number;
+}
+
+/**
+ * Get the protection config for a strategy from the user's trading params
+ */
+export function getProtectionConfig(tradingParams: unknown, strategy: string): ProtectionConfig {
+  const params = (tradingParams || {}) as Record<string, any>;
+  const parsed = protectionConfigSchema.safeParse(params.protection?.[strategy]);
+  return parsed.success ? parsed.data : DEFAULT_PROTECTION_CONFIG;
+}
+
+/**
+ * Calculate stop-loss, take-profit and trailing distance for a new position
+ */
+export function calculateProtectionLevels(
+  side: 'buy' | 'sell',
+  entryPrice: number,
+  config: ProtectionConfig,
+  candles: HistoricalCandle[]
+): ProtectionLevels {
+  let unit = entryPrice / 100; // One percent of the entry price
+  let atr: number | undefined;
+
+  if (config.mode === 'atr') {
+    const atrValues = ti.ATR.calculate({
+      high: candles.map(c => c.high),
+      low: candles.map(c => c.low),
+      close: candles.map(c => c.close),
+      period: config.atrPeriod
+    });
+    if (atrValues.length === 0) {
+      throw new Error(`Not enough data to calculate ATR(${config.atrPeriod})`);
+    }
+    atr = atrValues[atrValues.length - 1];
+    unit = atr;
+  }
+
+  const direction = side === 'buy' ? 1 : -1;
+
+  return {
+    mode: config.mode,
+    stopLoss: config.stopLoss !== null ? entryPrice - direction * config.stopLoss * unit : null,
+    takeProfit: config.takeProfit !== null ? entryPrice + direction * config.takeProfit * unit : null,
+    trailingDistance: config.trailingStop !== null ? config.trailingStop * unit : null,
+    bestPrice: entryPrice,
+    atr
+  };
+}
+
+/**
+ * Check a price against a position's protection levels.
+ * Returns the exit rule that fired (if any) and the updated best price for the trailing stop.
+ */
+export function checkProtection(side: 'buy' | 'sell', levels: ProtectionLevels, price: number): { reason: ProtectionExitReason | null, bestPrice: number } {
+  const isLong = side === 'buy';
+  const bestPrice = isLong ? Math.max(levels.bestPrice, price) : Math.min(levels.bestPrice, price);
+
+  if (levels.stopLoss !== null && (isLong ? price <= levels.stopLoss : price >= levels.stopLoss)) {
+    return { reason: 'STOP_LOSS', bestPrice };
+  }
+  if (levels.takeProfit !== null && (isLong ? price >= levels.takeProfit : price <= levels.takeProfit)) {
+    return { reason: 'TAKE_PROFIT', bestPrice };
+  }
+  if (levels.trailingDistance !== null) {
+    const trailingStop = isLong ? bestPrice - levels.trailingDistance : bestPrice + levels.trailingDistance;
+    if (isLong ? price <= trailingStop : price >= trailingStop) {
+      return { reason: 'TRAILING_STOP', bestPrice };
+    }
+  }
+
+  return { reason: null, bestPrice };
+}
+
+/**
+ * Background watcher that closes open positions when a protection level is hit
+ */
+export class ProtectionWatcher {
+  private interval: NodeJS.Timeout | null = null;
+  private isChecking: boolean = false;
+
+  constructor(private checkIntervalMs: number = 15000) {}
+
+  start(): void {
+    if (this.interval) return;
+
+    this.interval = setInterval(async () => {
+      // Skip a tick rather than overlap a slow check
+      if (this.isChecking) return;
+      this.isChecking = true;
+      try {
+        await this.checkAll();
+      } catch (error) {
+        console.error('Protection watcher error:', error);
+      } finally {
+        this.isChecking = false;
+      }
+    }, this.checkIntervalMs);
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+  }
+
+  /**
+   * Check every open trade that carries protection levels against the live price
+   */
+  async checkAll(): Promise<void> {
+    const openTrades = (await storage.getAllOpenTrades())
+      .filter(trade => (trade.tradeData as Record<string, any>)?.protection);
+    if (openTrades.length === 0) return;
+
+    // One price lookup per symbol per tick
+    const prices: Record<string, number> = {};
+    for (const symbol of Array.from(new Set(openTrades.map(t => t.symbol)))) {
+      try {
+        const marketData = await bitgetService.getMarketData(symbol);
+        prices[symbol] = parseFloat(marketData.price);
+      } catch (error) {
+        console.warn(`Protection watcher could not get price for ${symbol}:`, error);
+      }
+    }
+
+    for (const trade of openTrades) {
+      const price = prices[trade.symbol];
+      if (price === undefined) continue;
+
+      try {
+        await this.checkTrade(trade, price);
+      } catch (error) {
+        console.error(`Error checking protection for trade ${trade.id}:`, error);
+      }
+    }
+  }
+
+  private async checkTrade(trade: Trade, price: number): Promise<void> {
+    const tradeData = trade.tradeData as Record<string, any>;
+    const levels = tradeData.protection as ProtectionLevels;
+    const { reason, bestPrice } = checkProtection(trade.side as 'buy' | 'sell', levels, price);
+
+    if (reason) {
+      const closedTrade = await positionManager.closePosition(trade.userId, trade, reason);
+      console.log(`${reason} hit for trade ${trade.id} (${trade.symbol}) at ${price}, realized PnL ${closedTrade.pnl}`);
+      return;
+    }
+
+    // Persist the new best price so the trailing stop survives restarts.
+    // Only that key is written, so levels edited or removed since this check are kept.
+    if (levels.trailingDistance !== null && bestPrice !== levels.bestPrice) {
+      await storage.mergeTradeData(trade.id, { bestPrice }, ['protection']);
+    }
+  }
+}
+
+// Export a singleton instance
+export const protectionWatcher = new ProtectionWatcher();
@@ -0,0 +1,87 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import Decimal from 'decimal.js';
+import type { AccountSummary } from './bitget-service';
+
+const { storage } = vi.hoisted(() => ({
+  storage: {
+    getPeakBalance: vi.fn(),
+    getTradesClosedSince: vi.fn(),
+    getOpenTrades: vi.fn(),
+    getPendingTrades: vi.fn(),
+    getTradesOpenedSince: vi.fn()
+  }
+}));
+
+vi.mock('../storage', () => ({ storage }));
+
+const { riskEngine, DEFAULT_RISK_LIMITS } = await import('./risk-engine');
+
+function balance(totalBalance: string): AccountSummary {
+  return { totalBalance, availableBalance: totalBalance, frozenBalance: '0', unrealizedPnl: '0', marginBalance: '0', balances: {} };
+}
+
+describe('RiskEngine', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    storage.getTradesClosedSince.mockResolvedValue([]);
+    storage.getOpenTrades.mockResolvedValue([]);
+    storage.getPendingTrades.mockResolvedValue([]);
+    storage.getTradesOpenedSince.mockResolvedValue([]);
+  });
+
+  it('measures the drawdown from the peak of the account the balance is of', async () => {
+    // The 10,000 USDT paper account does not count against a 1,000 USDT live account
+    storage.getPeakBalance.mockImplementation(async (_userId: number, account: string) =>
+      account === 'paper:spot' ? '10000' : '1100');
+
+    const metrics = await riskEngine.measure(1, 'live:spot', balance('1000'));
+
+    expect(storage.getPeakBalance).toHaveBeenCalledWith(1, 'live:spot');
+    expect(metrics.peakEquity).toBe('1100');
+    expect(metrics.drawdownPercent).toBeCloseTo(9.09, 2);
+  });
+
+  it('starts a new account without a drawdown', async () => {
+    storage.getPeakBalance.mockResolvedValue(null);
+
+    const result = await riskEngine.checkOrder(1, 'live:futures', { symbol: 'BTCUSDT', quantity: '0.001', price: '60000' }, balance('500'), DEFAULT_RISK_LIMITS);
+
+    expect(result.metrics.drawdownPercent).toBe(0);
+    expect(result.breach).toBeNull();
+  });
+
+  it('counts only bot orders that were not cancelled towards the hourly limit', async () => {
+    storage.getPeakBalance.mockResolvedValue(null);
+    storage.getTradesOpenedSince.mockResolvedValue([
+      { strategy: 'MACD', status: 'OPEN', account: 'paper:spot' },
+      { strategy: 'MACD', status: 'CLOSED', account: 'paper:spot' },
+      { strategy: 'RSI', status: 'PENDING', account: 'paper:spot' },
+      { strategy: 'MACD', status: 'CANCELLED', account: 'paper:spot' },
+      { strategy: 'MANUAL', status: 'OPEN', account: 'paper:spot' },
+      { strategy: 'MACD', status: 'OPEN', account: 'live:spot' }
+    ]);
+
+    const metrics = await riskEngine.measure(1, 'paper:spot', balance('10000'));
+
+    expect(metrics.ordersLastHour).toBe(3);
+  });
+
+  it('measures daily loss and exposure from the trades of the account alone', async () => {
+    storage.getPeakBalance.mockResolvedValue(null);
+    storage.getTradesClosedSince.mockResolvedValue([
+      { pnl: '-50', account: 'live:spot' },
+      { pnl: '-400', account: 'paper:spot' }
+    ]);
+    storage.getOpenTrades.mockResolvedValue([
+      { symbol: 'BTCUSDT', quantity: '0.01', entryPrice: '60000', account: 'live:spot' },
+      { symbol: 'BTCUSDT', quantity: '1', entryPrice: '60000', account: 'live:futures' }
+    ]);
+
+    const metrics = await riskEngine.measure(1, 'live:spot', balance('950'), { symbol: 'BTCUSDT', quantity: '0.001', price: '60000' });
+
+    expect(metrics.dailyRealizedPnl).toBe('-50');
+    expect(metrics.dailyLossPercent).toBe(5);
+    expect(metrics.totalExposurePercent).toBe(Number(new Decimal(660).dividedBy(950).times(100)));
+    expect(metrics.symbolExposurePercent).toBe(metrics.totalExposurePercent);
+  });
+});
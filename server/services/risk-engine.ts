@@ -0,0 +1,182 @@
+import { z } from 'zod';
+import Decimal from 'decimal.js';
+import { storage } from '../storage';
+import type { InsertRiskEvent, RiskEvent, Trade } from '@shared/schema';
+import type { AccountSummary } from './bitget-service';
+import { MANUAL_STRATEGY } from './position-manager';
+
+export type RiskRule =
+  | 'MAX_DAILY_LOSS'
+  | 'MAX_DRAWDOWN'
+  | 'MAX_SYMBOL_EXPOSURE'
+  | 'MAX_TOTAL_EXPOSURE'
+  | 'MAX_ORDERS_PER_HOUR';
+
+// Percentages are of current equity (daily loss: of equity at the start of the day); null disables a rule
+export const riskLimitsSchema = z.object({
+  maxDailyLossPercent: z.number().positive().max(100).nullable(),
+  maxDrawdownPercent: z.number().positive().max(100).nullable(),
+  maxSymbolExposurePercent: z.number().positive().max(1000).nullable(),
+  maxTotalExposurePercent: z.number().positive().max(1000).nullable(),
+  maxOrdersPerHour: z.number().int().positive().max(1000).nullable() // Bot orders still working or filled; cancelled and manual ones do not count
+});
+
+export type RiskLimits = z.infer<typeof riskLimitsSchema>;
+
+export const DEFAULT_RISK_LIMITS: RiskLimits = {
+  maxDailyLossPercent: 5,
+  maxDrawdownPercent: 20,
+  maxSymbolExposurePercent: 50,
+  maxTotalExposurePercent: 100,
+  maxOrdersPerHour: 10
+};
+
+export interface OrderIntent {
+  symbol: string;
+  quantity: string;
+  price: string;
+}
+
+export interface RiskMetrics {
+  equity: string;
+  peakEquity: string;
+  dailyRealizedPnl: string;
+  dailyLossPercent: number;
+  drawdownPercent: number;
+  symbolExposurePercent: number; // Including the order being checked
+  totalExposurePercent: number; // Including the order being checked
+  ordersLastHour: number; // Bot orders placed in the last hour, not counting cancelled ones
+}
+
+export interface RiskBreach {
+  rule: RiskRule;
+  message: string;
+  value: number;
+  limit: number;
+}
+
+export interface RiskCheckResult {
+  allowed: boolean;
+  breach: RiskBreach | null;
+  metrics: RiskMetrics;
+}
+
+/**
+ * Get the risk limits from the user's trading params (stored under tradingParams.risk)
+ */
+export function getRiskLimits(tradingParams: unknown): RiskLimits {
+  const params = (tradingParams || {}) as Record<string, any>;
+  const parsed = riskLimitsSchema.partial().safeParse(params.risk);
+  return parsed.success ? { ...DEFAULT_RISK_LIMITS, ...parsed.data } : DEFAULT_RISK_LIMITS;
+}
+
+function percentOf(value: Decimal, base: Decimal): number {
+  return base.lessThanOrEqualTo(0) ? 0 : value.dividedBy(base).times(100).toNumber();
+}
+
+/**
+ * Portfolio-level limits consulted before every order. A breach is returned to the caller,
+ * which halts the bot; the engine itself only measures and records.
+ */
+export class RiskEngine {
+  /**
+   * Measure the user's portfolio with the order added, without applying any limit.
+   * Every metric is of the account (see getAccountKey) the balance is of; trades on the user's other accounts are left out.
+   */
+  async measure(userId: number, account: string, balance: AccountSummary, order?: OrderIntent): Promise<RiskMetrics> {
+    const equity = new Decimal(balance.totalBalance || 0);
+    const inAccount = (trade: Trade) => trade.account === account;
+
+    const storedPeak = await storage.getPeakBalance(userId, account);
+    const peakEquity = Decimal.max(equity, new Decimal(storedPeak || 0));
+
+    const startOfDay = new Date();
+    startOfDay.setUTCHours(0, 0, 0, 0);
+    const closedToday = (await storage.getTradesClosedSince(userId, startOfDay)).filter(inAccount);
+    const dailyRealizedPnl = closedToday.reduce((sum, trade) => sum.plus(trade.pnl || 0), new Decimal(0));
+    // Equity before today's realized PnL approximates the start-of-day equity
+    const startEquity = equity.minus(dailyRealizedPnl);
+
+    // Open positions and resting entry orders both count towards exposure
+    const positions = [...await storage.getOpenTrades(userId), ...await storage.getPendingTrades(userId)].filter(inAccount);
+    const notional = (quantity: string, price: string) => new Decimal(quantity).times(price);
+    const orderNotional = order ? notional(order.quantity, order.price) : new Decimal(0);
+    const totalExposure = positions
+      .reduce((sum, trade) => sum.plus(notional(trade.quantity, trade.entryPrice)), new Decimal(0))
+      .plus(orderNotional);
+    const symbolExposure = positions
+      .filter(trade => order && trade.symbol === order.symbol)
+      .reduce((sum, trade) => sum.plus(notional(trade.quantity, trade.entryPrice)), new Decimal(0))
+      .plus(orderNotional);
+
+    const oneHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+    const ordersLastHour = (await storage.getTradesOpenedSince(userId, oneHourAgo))
+      .filter(trade => inAccount(trade) && trade.strategy !== MANUAL_STRATEGY && trade.status !== 'CANCELLED')
+      .length;
+
+    return {
+      equity: equity.toString(),
+      peakEquity: peakEquity.toString(),
+      dailyRealizedPnl: dailyRealizedPnl.toString(),
+      dailyLossPercent: dailyRealizedPnl.lessThan(0) ? percentOf(dailyRealizedPnl.negated(), startEquity) : 0,
+      drawdownPercent: percentOf(peakEquity.minus(equity), peakEquity),
+      symbolExposurePercent: percentOf(symbolExposure, equity),
+      totalExposurePercent: percentOf(totalExposure, equity),
+      ordersLastHour
+    };
+  }
+
+  /**
+   * Check an order against the user's limits. The first breached rule is reported.
+   */
+  async checkOrder(userId: number, account: string, order: OrderIntent, balance: AccountSummary, limits: RiskLimits): Promise<RiskCheckResult> {
+    const metrics = await this.measure(userId, account, balance, order);
+    const breach = this.findBreach(metrics, limits);
+    return { allowed: breach === null, breach, metrics };
+  }
+
+  /**
+   * Record a breach or kill switch activation
+   */
+  async recordEvent(event: InsertRiskEvent): Promise<RiskEvent | null> {
+    try {
+      return await storage.createRiskEvent(event);
+    } catch (error) {
+      console.error(`Error recording risk event for user ${event.userId}:`, error);
+      return null;
+    }
+  }
+
+  private findBreach(metrics: RiskMetrics, limits: RiskLimits): RiskBreach | null {
+    const checks: { rule: RiskRule; value: number; limit: number | null; label: string }[] = [
+      { rule: 'MAX_DAILY_LOSS', value: metrics.dailyLossPercent, limit: limits.maxDailyLossPercent, label: 'Daily loss' },
+      { rule: 'MAX_DRAWDOWN', value: metrics.drawdownPercent, limit: limits.maxDrawdownPercent, label: 'Drawdown from equity peak' },
+      { rule: 'MAX_SYMBOL_EXPOSURE', value: metrics.symbolExposurePercent, limit: limits.maxSymbolExposurePercent, label: 'Exposure to the symbol' },
+      { rule: 'MAX_TOTAL_EXPOSURE', value: metrics.totalExposurePercent, limit: limits.maxTotalExposurePercent, label: 'Total exposure' }
+    ];
+
+    for (const check of checks) {
+      if (check.limit !== null && check.value >= check.limit) {
+        return {
+          rule: check.rule,
+          message: `${check.label} ${check.value.toFixed(2)}% reaches the ${check.limit}% limit`,
+          value: check.value,
+          limit: check.limit
+        };
+      }
+    }
+
+    if (limits.maxOrdersPerHour !== null && metrics.ordersLastHour >= limits.maxOrdersPerHour) {
+      return {
+        rule: 'MAX_ORDERS_PER_HOUR',
+        message: `${metrics.ordersLastHour} orders in the last hour reaches the limit of ${limits.maxOrdersPerHour}`,
+        value: metrics.ordersLastHour,
+        limit: limits.maxOrdersPerHour
+      };
+    }
+
+    return null;
+  }
+}
+
+export const riskEngine = new RiskEngine();
@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import * as ti from 'technicalindicators';
+import type { StrategyDefinition } from './types';
+
+const paramsSchema = z.object({
+  period: z.number().int().min(5).max(100).default(20).describe('Period'),
+  stdDev: z.number().min(0.5).max(5).default(2).describe('Band width (standard deviations)')
+});
+
+type BollingerParams = z.infer<typeof paramsSchema>;
+
+export const bollingerStrategy: StrategyDefinition<BollingerParams> = {
+  name: 'BOLLINGER',
+  label: 'Bollinger Bands',
+  description: 'Buys closes below the lower band and sells closes above the upper band',
+  paramsSchema,
+  evaluate(candles, params) {
+    const bbandsResults = ti.BollingerBands.calculate({
+      values: candles.map(c => c.close),
+      period: params.period,
+      stdDev: params.stdDev
+    });
+    if (bbandsResults.length < 1) {
+      return null;
+    }
+
+    const current = bbandsResults[bbandsResults.length - 1];
+    const price = candles[candles.length - 1].close;
+    const indicators = {
+      upper: current.upper,
+      middle: current.middle,
+      lower: current.lower
+    };
+
+    // Price below lower band = buy
+    if (price < current.lower) {
+      const percentFromLower = (current.lower - price) / (current.upper - current.lower) * 100;
+      return { side: 'buy', confidence: Math.min(70 + percentFromLower, 95), indicators };
+    }
+    // Price above upper band = sell
+    if (price > current.upper) {
+      const percentFromUpper = (price - current.upper) / (current.upper - current.lower) * 100;
+      return { side: 'sell', confidence: Math.min(70 + percentFromUpper, 95), indicators };
+    }
+    return null;
+  }
+};
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import * as ti from 'technicalindicators';
+import type { StrategyDefinition } from './types';
+
+const paramsSchema = z.object({
+  shortPeriod: z.number().int().min(2).max(100).default(9).describe('Short EMA period'),
+  longPeriod: z.number().int().min(3).max(200).default(21).describe('Long EMA period')
+}).refine(params => params.shortPeriod < params.longPeriod, {
+  message: 'Short period must be shorter than long period',
+  path: ['shortPeriod']
+});
+
+type EmaParams = z.infer<typeof paramsSchema>;
+
+export const emaStrategy: StrategyDefinition<EmaParams> = {
+  name: 'EMA',
+  label: 'EMA Cross',
+  description: 'Trades crossings of a short and a long exponential moving average',
+  paramsSchema,
+  evaluate(candles, params) {
+    const closes = candles.map(c => c.close);
+    const shortEMA = ti.EMA.calculate({ values: closes, period: params.shortPeriod });
+    const longEMA = ti.EMA.calculate({ values: closes, period: params.longPeriod });
+
+    if (shortEMA.length < 2 || longEMA.length < 2) {
+      return null;
+    }
+
+    const currentShortEMA = shortEMA[shortEMA.length - 1];
+    const previousShortEMA = shortEMA[shortEMA.length - 2];
+    const currentLongEMA = longEMA[longEMA.length - 1];
+    const previousLongEMA = longEMA[longEMA.length - 2];
+
+    const emaDiff = Math.abs(currentShortEMA - currentLongEMA) / currentLongEMA * 100;
+    const indicators = {
+      shortEMA: currentShortEMA,
+      longEMA: currentLongEMA
+    };
+
+    // Short EMA crosses above long EMA = buy
+    if (previousShortEMA < previousLongEMA && currentShortEMA > currentLongEMA) {
+      return { side: 'buy', confidence: Math.min(70 + emaDiff * 10, 95), indicators };
+    }
+    // Short EMA crosses below long EMA = sell
+    if (previousShortEMA > previousLongEMA && currentShortEMA < currentLongEMA) {
+      return { side: 'sell', confidence: Math.min(70 + emaDiff * 10, 95), indicators };
+    }
+    return null;
+  }
+};
@@ -0,0 +1,106 @@
+import { z } from 'zod';
+import type { StrategyDefinition, StrategyEvaluation } from './types';
+import type { StrategyRegistry } from './index';
+
+export const ENSEMBLE_STRATEGY = 'ENSEMBLE';
+
+// Weight of strategies the user has not weighted yet
+export const DEFAULT_ENSEMBLE_WEIGHT = 50;
+
+export interface EnsembleVote {
+  side: 'buy' | 'sell' | null; // null when the strategy abstains
+  confidence: number;
+  weight: number;
+  indicators?: Record<string, any>;
+  error?: string;
+}
+
+/**
+ * Weighted vote over every other registered strategy, evaluated on the same candles
+ */
+export function createEnsembleStrategy(registry: StrategyRegistry): StrategyDefinition {
+  const paramsSchema = z.object({
+    // Relative weight per strategy, 0 leaves it out of the vote
+    weights: z.record(z.string(), z.number().min(0).max(100)).default({}),
+    quorum: z.number().min(0).max(100).default(25).describe('Quorum (% of total weight backing the signal)'),
+    // Params of the combined strategies, filled from their own settings
+    componentParams: z.record(z.string(), z.record(z.string(), z.unknown())).default({})
+  }).superRefine((params, ctx) => {
+    for (const name of Object.keys(params.weights)) {
+      if (!registry.has(name) || registry.get(name)!.composite) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown strategy: ${name}`, path: ['weights', name] });
+      }
+    }
+  });
+
+  return {
+    name: ENSEMBLE_STRATEGY,
+    label: 'Ensemble (All Models)',
+    description: 'Combines the signals of every strategy by weighted vote',
+    paramsSchema,
+    composite: true,
+    evaluate(candles, params) {
+      const votes: Record<string, EnsembleVote> = {};
+      let totalWeight = 0;
+      let buyWeight = 0, sellWeight = 0;
+      let buyScore = 0, sellScore = 0;
+
+      for (const name of registry.names()) {
+        const strategy = registry.get(name)!;
+        if (strategy.composite) continue;
+
+        const weight = params.weights[name] ?? DEFAULT_ENSEMBLE_WEIGHT;
+        if (weight <= 0) continue;
+        totalWeight += weight;
+
+        let evaluation: StrategyEvaluation | null = null;
+        try {
+          evaluation = strategy.evaluate(candles, registry.resolveParams(name, params.componentParams[name]));
+        } catch (error: any) {
+          // A failing component abstains rather than failing the whole vote
+          votes[name] = { side: null, confidence: 0, weight, error: error?.message || String(error) };
+          continue;
+        }
+
+        if (!evaluation) {
+          votes[name] = { side: null, confidence: 0, weight };
+          continue;
+        }
+
+        votes[name] = { side: evaluation.side, confidence: evaluation.confidence, weight, indicators: evaluation.indicators };
+        if (evaluation.side === 'buy') {
+          buyWeight += weight;
+          buyScore += weight * evaluation.confidence;
+        } else {
+          sellWeight += weight;
+          sellScore += weight * evaluation.confidence;
+        }
+      }
+
+      if (totalWeight === 0 || buyScore === sellScore) {
+        return null;
+      }
+
+      const side = buyScore > sellScore ? 'buy' : 'sell';
+      const support = (side === 'buy' ? buyWeight : sellWeight) / totalWeight * 100;
+      if (support < params.quorum) {
+        return null;
+      }
+
+      // Weighted confidence of the winning side, reduced by the opposing votes
+      const confidence = Math.abs(buyScore - sellScore) / (buyWeight + sellWeight);
+
+      return {
+        side,
+        confidence: Math.min(Math.max(confidence, 0), 100),
+        indicators: {
+          votes,
+          buyScore: buyScore / totalWeight,
+          sellScore: sellScore / totalWeight,
+          support,
+          quorum: params.quorum
+        }
+      };
+    }
+  };
+}
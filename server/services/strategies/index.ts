@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import type { StrategyDefinition, StrategyDescriptor, StrategyParamDescriptor } from './types';
+import { macdStrategy } from './macd';
+import { rsiStrategy } from './rsi';
+import { bollingerStrategy } from './bollinger';
+import { emaStrategy } from './ema';
+import { createEnsembleStrategy } from './ensemble';
+
+export type { StrategyDefinition, StrategyEvaluation, StrategyDescriptor, StrategyParamDescriptor } from './types';
+
+/**
+ * Describe the fields of a params schema for the settings form
+ */
+function describeParams(schema: z.ZodTypeAny): StrategyParamDescriptor[] {
+  // Unwrap cross-field refinements to reach the object shape
+  let objectSchema = schema;
+  while (objectSchema instanceof z.ZodEffects) {
+    objectSchema = objectSchema.innerType();
+  }
+  if (!(objectSchema instanceof z.ZodObject)) {
+    return [];
+  }
+
+  const defaults = schema.parse({});
+  const params: StrategyParamDescriptor[] = [];
+  for (const [key, field] of Object.entries(objectSchema.shape as Record<string, z.ZodTypeAny>)) {
+    let inner = field;
+    while (inner instanceof z.ZodDefault || inner instanceof z.ZodOptional) {
+      inner = inner._def.innerType;
+    }
+    // Only numeric params have a form field; anything else is edited elsewhere
+    if (!(inner instanceof z.ZodNumber)) {
+      continue;
+    }
+
+    params.push({
+      key,
+      label: field.description || inner.description || key,
+      type: inner.isInt ? 'integer' : 'number',
+      min: inner.minValue ?? undefined,
+      max: inner.maxValue ?? undefined,
+      default: defaults[key]
+    });
+  }
+  return params;
+}
+
+/**
+ * Registry of the strategies the bot and the backtester can run
+ */
+export class StrategyRegistry {
+  private strategies: Record<string, StrategyDefinition> = {};
+
+  register(strategy: StrategyDefinition<any>): void {
+    this.strategies[strategy.name] = strategy;
+  }
+
+  get(name: string): StrategyDefinition | undefined {
+    return this.strategies[name];
+  }
+
+  has(name: string): boolean {
+    return name in this.strategies;
+  }
+
+  names(): string[] {
+    return Object.keys(this.strategies);
+  }
+
+  /**
+   * Validate params for a strategy, filling in defaults. Throws on invalid params.
+   */
+  resolveParams(name: string, params?: unknown): Record<string, any> {
+    const strategy = this.get(name);
+    if (!strategy) {
+      throw new Error(`Unsupported strategy: ${name}`);
+    }
+    return strategy.paramsSchema.parse(params ?? {});
+  }
+
+  /**
+   * Get a strategy's params from the user's trading params, falling back to defaults when invalid
+   */
+  getParamsFromSettings(tradingParams: unknown, name: string): Record<string, any> {
+    if (!this.has(name)) {
+      throw new Error(`Unsupported strategy: ${name}`);
+    }
+
+    const stored = ((tradingParams || {}) as Record<string, any>).strategies?.[name];
+    let params: Record<string, any>;
+    try {
+      params = this.resolveParams(name, stored);
+    } catch (error) {
+      console.warn(`Invalid ${name} params in settings, using defaults:`, error);
+      params = this.resolveParams(name);
+    }
+
+    if (this.get(name)!.composite) {
+      const componentParams: Record<string, Record<string, any>> = {};
+      for (const component of this.names()) {
+        if (!this.get(component)!.composite) {
+          componentParams[component] = this.getParamsFromSettings(tradingParams, component);
+        }
+      }
+      params = { ...params, componentParams };
+    }
+    return params;
+  }
+
+  describe(): StrategyDescriptor[] {
+    return Object.values(this.strategies).map(strategy => ({
+      name: strategy.name,
+      label: strategy.label,
+      description: strategy.description,
+      composite: !!strategy.composite,
+      params: describeParams(strategy.paramsSchema)
+    }));
+  }
+}
+
+export const strategyRegistry = new StrategyRegistry();
+strategyRegistry.register(macdStrategy);
+strategyRegistry.register(rsiStrategy);
+strategyRegistry.register(bollingerStrategy);
+strategyRegistry.register(emaStrategy);
+strategyRegistry.register(createEnsembleStrategy(strategyRegistry));
+
+// Per-strategy params, stored under tradingParams.strategies and validated against each strategy's schema
+export const strategyParamsSettingsSchema = z.record(z.string(), z.record(z.string(), z.unknown()))
+  .superRefine((settings, ctx) => {
+    for (const [name, params] of Object.entries(settings)) {
+      const strategy = strategyRegistry.get(name);
+      if (!strategy) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown strategy: ${name}`, path: [name] });
+        continue;
+      }
+
+      const result = strategy.paramsSchema.safeParse(params);
+      if (!result.success) {
+        for (const issue of result.error.issues) {
+          ctx.addIssue({ ...issue, path: [name, ...issue.path] });
+        }
+      }
+    }
+  });
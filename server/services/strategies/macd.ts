@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import * as ti from 'technicalindicators';
+import type { StrategyDefinition } from './types';
+
+const paramsSchema = z.object({
+  fastPeriod: z.number().int().min(2).max(100).default(12).describe('Fast period'),
+  slowPeriod: z.number().int().min(3).max(200).default(26).describe('Slow period'),
+  signalPeriod: z.number().int().min(2).max(100).default(9).describe('Signal period')
+}).refine(params => params.fastPeriod < params.slowPeriod, {
+  message: 'Fast period must be shorter than slow period',
+  path: ['fastPeriod']
+});
+
+type MacdParams = z.infer<typeof paramsSchema>;
+
+/**
+ * Confidence grows with the distance between MACD and signal line and the histogram momentum
+ */
+function calculateConfidence(side: 'buy' | 'sell', current: any, previous: any): number {
+  // Base confidence starts higher
+  let confidence = 75;
+
+  // Calculate strength of crossover
+  const crossoverStrength = Math.abs(current.MACD - current.signal);
+  const histogramChange = current.histogram - previous.histogram;
+
+  // Enhanced confidence calculation
+  confidence += crossoverStrength * 15; // Increased weight
+  confidence += Math.abs(histogramChange) * 10; // Add histogram momentum
+
+  // Trend confirmation
+  if ((side === 'buy' && current.MACD > 0) ||
+      (side === 'sell' && current.MACD < 0)) {
+    confidence += 5;
+  }
+
+  // Check histogram trend
+  if (side === 'buy' && current.histogram > 0) {
+    confidence += 5;
+  } else if (side === 'sell' && current.histogram < 0) {
+    confidence += 5;
+  }
+
+  // Cap at 95%
+  return Math.min(confidence, 95);
+}
+
+export const macdStrategy: StrategyDefinition<MacdParams> = {
+  name: 'MACD',
+  label: 'MACD',
+  description: 'Trades MACD line crossings of its signal line',
+  paramsSchema,
+  evaluate(candles, params) {
+    const macdResults = ti.MACD.calculate({
+      values: candles.map(c => c.close),
+      fastPeriod: params.fastPeriod,
+      slowPeriod: params.slowPeriod,
+      signalPeriod: params.signalPeriod,
+      SimpleMAOscillator: false,
+      SimpleMASignal: false
+    });
+    if (macdResults.length < 2) {
+      return null;
+    }
+
+    const current = macdResults[macdResults.length - 1];
+    const previous = macdResults[macdResults.length - 2];
+    if (current.MACD === undefined || current.signal === undefined ||
+        previous.MACD === undefined || previous.signal === undefined) {
+      return null;
+    }
+
+    const indicators = {
+      macd: current.MACD,
+      signal: current.signal,
+      histogram: current.histogram
+    };
+
+    // MACD crossing above signal line = buy
+    if (previous.MACD < previous.signal && current.MACD > current.signal) {
+      return { side: 'buy', confidence: calculateConfidence('buy', current, previous), indicators };
+    }
+    // MACD crossing below signal line = sell
+    if (previous.MACD > previous.signal && current.MACD < current.signal) {
+      return { side: 'sell', confidence: calculateConfidence('sell', current, previous), indicators };
+    }
+    return null;
+  }
+};
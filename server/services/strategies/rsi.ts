@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import * as ti from 'technicalindicators';
+import type { StrategyDefinition } from './types';
+
+const paramsSchema = z.object({
+  period: z.number().int().min(2).max(100).default(14).describe('RSI period'),
+  oversold: z.number().min(1).max(50).default(30).describe('Oversold level (buy below)'),
+  overbought: z.number().min(50).max(99).default(70).describe('Overbought level (sell above)')
+}).refine(params => params.oversold < params.overbought, {
+  message: 'Oversold level must be below overbought level',
+  path: ['oversold']
+});
+
+type RsiParams = z.infer<typeof paramsSchema>;
+
+export const rsiStrategy: StrategyDefinition<RsiParams> = {
+  name: 'RSI',
+  label: 'RSI',
+  description: 'Buys oversold and sells overbought markets',
+  paramsSchema,
+  evaluate(candles, params) {
+    const rsiResults = ti.RSI.calculate({
+      values: candles.map(c => c.close),
+      period: params.period
+    });
+    if (rsiResults.length < 1) {
+      return null;
+    }
+
+    const currentRSI = rsiResults[rsiResults.length - 1];
+
+    // RSI below the oversold level = buy, lower RSI = higher buy confidence
+    if (currentRSI < params.oversold) {
+      return { side: 'buy', confidence: 80 - currentRSI, indicators: { rsi: currentRSI } };
+    }
+    // RSI above the overbought level = sell, higher RSI = higher sell confidence
+    if (currentRSI > params.overbought) {
+      return { side: 'sell', confidence: currentRSI - 20, indicators: { rsi: currentRSI } };
+    }
+    return null;
+  }
+};
@@ -0,0 +1,40 @@
+import { z } from 'zod';
+import type { HistoricalCandle } from '../trading-service';
+
+// What a strategy concludes from a candle series; the caller adds symbol, price and time
+export interface StrategyEvaluation {
+  side: 'buy' | 'sell';
+  confidence: number; // 0-100
+  indicators: Record<string, any>;
+}
+
+/**
+ * A trading strategy: a parameter schema (every field has a default) and a pure evaluate function
+ */
+export interface StrategyDefinition<TParams extends Record<string, any> = Record<string, any>> {
+  name: string;
+  label: string;
+  description: string;
+  paramsSchema: z.ZodType<TParams, z.ZodTypeDef, any>;
+  // Combines the other strategies; its params carry theirs under componentParams
+  composite?: boolean;
+  evaluate(candles: HistoricalCandle[], params: TParams): StrategyEvaluation | null;
+}
+
+// Serializable description of one parameter, used to render the settings form
+export interface StrategyParamDescriptor {
+  key: string;
+  label: string;
+  type: 'integer' | 'number';
+  min?: number;
+  max?: number;
+  default: number;
+}
+
+export interface StrategyDescriptor {
+  name: string;
+  label: string;
+  description: string;
+  composite: boolean;
+  params: StrategyParamDescriptor[];
+}
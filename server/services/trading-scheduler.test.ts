@@ -0,0 +1,60 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { CandleSeries, HistoricalCandle } from './trading-service';
+
+const { storage, candleStore } = vi.hoisted(() => ({
+  storage: {
+    createBotRun: vi.fn()
+  },
+  candleStore: {
+    getCandles: vi.fn()
+  }
+}));
+
+vi.mock('../storage', () => ({ storage }));
+vi.mock('./candle-store', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./candle-store')>(),
+  candleStore
+}));
+
+const { TradingScheduler } = await import('./trading-scheduler');
+
+const BAR_MS = 15 * 60 * 1000;
+const CLOSE = Date.UTC(2024, 0, 1, 12, 0);
+
+function bar(time: number): HistoricalCandle {
+  return { time, open: 100, high: 101, low: 99, close: 100, volume: 1 };
+}
+
+describe('TradingScheduler', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(CLOSE - 1000);
+    storage.createBotRun.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('hands cycles only the bars closed by the scheduled close', async () => {
+    // The store already holds the bar that opened at the close
+    candleStore.getCandles.mockResolvedValue([CLOSE - 3 * BAR_MS, CLOSE - 2 * BAR_MS, CLOSE - BAR_MS, CLOSE].map(bar));
+    const scheduler = new TradingScheduler(2000);
+    let series: CandleSeries | undefined;
+    scheduler.register({
+      userId: 1,
+      timeframe: '15m',
+      runCycle: async (context) => {
+        series = await context.getSeries('BTCUSDT', '15m', 3);
+        return { symbols: ['BTCUSDT'], error: null };
+      }
+    });
+
+    await vi.advanceTimersByTimeAsync(3000);
+    scheduler.unregister(1);
+
+    expect(candleStore.getCandles).toHaveBeenCalledWith('BTCUSDT', '15m', 4);
+    expect(series!.candles.map(candle => candle.time)).toEqual([CLOSE - 3 * BAR_MS, CLOSE - 2 * BAR_MS, CLOSE - BAR_MS]);
+  });
+});
@@ -0,0 +1,195 @@
+import type { InsertBotRun } from '@shared/schema';
+import { storage } from '../storage';
+import { candleStore, intervalToMs } from './candle-store';
+import type { CandleSeries } from './trading-service';
+
+// Wait after a candle close so the exchange has published the closed bar
+const CANDLE_CLOSE_DELAY_MS = 2000;
+
+/**
+ * What a cycle gets from the scheduler. Candles are fetched once per tick, so users
+ * trading the same symbol and timeframe share one market data request.
+ */
+export interface CycleContext {
+  scheduledAt: Date; // Candle close that triggered the cycle
+  getSeries(symbol: string, interval: string, limit: number): Promise<CandleSeries>; // Bars closed by scheduledAt only
+}
+
+export interface CycleOutcome {
+  symbols: string[];
+  error: string | null; // Errors on single symbols; the cycle itself still completed
+}
+
+export interface ScheduledBot {
+  userId: number;
+  sessionId?: number;
+  timeframe: string;
+  runCycle(context: CycleContext): Promise<CycleOutcome>;
+}
+
+/**
+ * Runs every user's bot on the candle closes of its timeframe from a single timer.
+ * Each user has at most one cycle in flight; a tick that finds the previous cycle
+ * still running is skipped. Every run is recorded with its timing and outcome.
+ */
+export class TradingScheduler {
+  private bots = new Map<number, ScheduledBot>();
+  private inFlight = new Set<number>();
+  private timer: NodeJS.Timeout | null = null;
+  // Candle close of the last tick, so a timer firing early cannot run the same close twice
+  private lastBoundary: number = 0;
+
+  constructor(private closeDelayMs: number = CANDLE_CLOSE_DELAY_MS) {}
+
+  /**
+   * Schedule a user's bot, replacing the one already scheduled for the user
+   */
+  register(bot: ScheduledBot): void {
+    this.bots.set(bot.userId, bot);
+    this.schedule();
+  }
+
+  unregister(userId: number): boolean {
+    const removed = this.bots.delete(userId);
+    this.schedule();
+    return removed;
+  }
+
+  has(userId: number): boolean {
+    return this.bots.has(userId);
+  }
+
+  isCycleRunning(userId: number): boolean {
+    return this.inFlight.has(userId);
+  }
+
+  /**
+   * When the user's next cycle is due, or null when the user has no bot scheduled
+   */
+  getNextRunAt(userId: number): Date | null {
+    const bot = this.bots.get(userId);
+    if (!bot) return null;
+    return new Date(this.nextBoundary(bot.timeframe) + this.closeDelayMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Arm the timer for the earliest candle close among the scheduled timeframes
+   */
+  private schedule(): void {
+    this.stop();
+    if (this.bots.size === 0) return;
+
+    const boundary = Math.min(...Array.from(this.bots.values()).map(bot => this.nextBoundary(bot.timeframe)));
+    const delay = Math.max(boundary + this.closeDelayMs - Date.now(), 0);
+    this.timer = setTimeout(() => {
+      this.tick(boundary).catch(error => {
+        console.error('Trading scheduler error:', error);
+      });
+    }, delay);
+  }
+
+  private async tick(boundary: number): Promise<void> {
+    this.lastBoundary = boundary;
+    const due = Array.from(this.bots.values()).filter(bot => boundary % intervalToMs(bot.timeframe) === 0);
+    const context = this.createContext(new Date(boundary));
+
+    // Arm the next tick first so a slow cycle cannot delay it
+    this.schedule();
+
+    await Promise.all(due.map(bot => this.runBot(bot, context)));
+  }
+
+  private async runBot(bot: ScheduledBot, context: CycleContext): Promise<void> {
+    const startedAt = new Date();
+
+    if (this.inFlight.has(bot.userId)) {
+      console.warn(`Skipping cycle for user ${bot.userId}: previous cycle still running`);
+      await this.recordRun(bot, context, {
+        startedAt,
+        finishedAt: startedAt,
+        durationMs: 0,
+        status: 'SKIPPED',
+        error: 'Previous cycle still running'
+      });
+      return;
+    }
+
+    this.inFlight.add(bot.userId);
+    let outcome: CycleOutcome;
+    try {
+      outcome = await bot.runCycle(context);
+    } catch (error: any) {
+      console.error(`Error in trading cycle for user ${bot.userId}:`, error);
+      outcome = { symbols: [], error: error?.message || String(error) };
+    } finally {
+      this.inFlight.delete(bot.userId);
+    }
+
+    const finishedAt = new Date();
+    await this.recordRun(bot, context, {
+      startedAt,
+      finishedAt,
+      durationMs: finishedAt.getTime() - startedAt.getTime(),
+      status: outcome.error ? 'ERROR' : 'SUCCESS',
+      symbols: outcome.symbols,
+      error: outcome.error
+    });
+  }
+
+  private async recordRun(
+    bot: ScheduledBot,
+    context: CycleContext,
+    run: Omit<InsertBotRun, 'userId' | 'sessionId' | 'timeframe' | 'scheduledAt'>
+  ): Promise<void> {
+    try {
+      await storage.createBotRun({
+        userId: bot.userId,
+        sessionId: bot.sessionId,
+        timeframe: bot.timeframe,
+        scheduledAt: context.scheduledAt,
+        ...run
+      });
+    } catch (error) {
+      console.error(`Error recording bot run for user ${bot.userId}:`, error);
+    }
+  }
+
+  private createContext(scheduledAt: Date): CycleContext {
+    const candleRequests = new Map<string, Promise<CandleSeries>>();
+
+    return {
+      scheduledAt,
+      getSeries(symbol, interval, limit) {
+        const key = `${symbol}:${interval}:${limit}`;
+        let request = candleRequests.get(key);
+        if (!request) {
+          // The bar that opened at the close is still forming: fetch one more and keep only closed bars
+          const intervalMs = intervalToMs(interval);
+          request = candleStore.getCandles(symbol, interval, limit + 1).then(candles => ({
+            symbol,
+            interval,
+            candles: candles.filter(candle => candle.time + intervalMs <= scheduledAt.getTime()).slice(-limit)
+          }));
+          candleRequests.set(key, request);
+        }
+        return request;
+      }
+    };
+  }
+
+  // Open time of the next candle of the timeframe, i.e. the close of the current one
+  private nextBoundary(timeframe: string): number {
+    const intervalMs = intervalToMs(timeframe);
+    const from = Math.max(Date.now() - this.closeDelayMs, this.lastBoundary);
+    return Math.floor(from / intervalMs) * intervalMs + intervalMs;
+  }
+}
+
+export const tradingScheduler = new TradingScheduler();
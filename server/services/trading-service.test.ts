@@ -0,0 +1,197 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { TradingSettings } from '@shared/schema';
+import type { CycleContext, CycleOutcome } from './trading-scheduler';
+import type { RiskMetrics } from './risk-engine';
+import { analyzeSeries } from './market-analysis';
+import { FIXTURE_MARKETS, scenarioSeries, windows } from '../test/fixtures/candle-series';
+import { instrumentSpec } from '../test/fixtures/instruments';
+
+const { storage, exchange } = vi.hoisted(() => ({
+  storage: {
+    getOpenTrades: vi.fn(),
+    getPendingTrades: vi.fn(),
+    createTrade: vi.fn(),
+    createDecision: vi.fn(),
+    saveBalance: vi.fn(),
+    getRecentClosedTrades: vi.fn(),
+    savePairMetrics: vi.fn(),
+    getPairMetrics: vi.fn(),
+    getUniversePairs: vi.fn(),
+    getTradingSettings: vi.fn(),
+    getLatestBotSession: vi.fn(),
+    createBotSession: vi.fn(),
+    updateBotSession: vi.fn()
+  },
+  exchange: {
+    getAccountBalance: vi.fn(),
+    getInstrument: vi.fn(),
+    executeTrade: vi.fn()
+  }
+}));
+
+vi.mock('../storage', () => ({ storage }));
+vi.mock('./exchange', async (importOriginal) => ({
+  ...await importOriginal<typeof import('./exchange')>(),
+  getExchangeForUser: vi.fn(async () => exchange)
+}));
+
+const { tradingService } = await import('./trading-service');
+const { strategyRegistry } = await import('./strategies');
+const { positionManager } = await import('./position-manager');
+const { orderReconciler } = await import('./order-reconciler');
+const { riskEngine } = await import('./risk-engine');
+const { tradingScheduler } = await import('./trading-scheduler');
+
+const metrics: RiskMetrics = {
+  equity: '10000',
+  peakEquity: '10000',
+  dailyRealizedPnl: '0',
+  dailyLossPercent: 0,
+  drawdownPercent: 0,
+  symbolExposurePercent: 0,
+  totalExposurePercent: 0,
+  ordersLastHour: 0
+};
+
+function settingsFor(symbol: string, strategy: string): TradingSettings {
+  return {
+    id: 1,
+    userId: 1,
+    symbol,
+    timeframe: '15m',
+    strategy,
+    riskPerTrade: '2',
+    leverageLevel: 1,
+    enabledTrading: true,
+    tradingMode: 'paper',
+    marketType: 'spot',
+    marginMode: 'crossed',
+    createdAt: null,
+    updatedAt: null,
+    tradingParams: {}
+  };
+}
+
+// Start the user's bot and run one cycle through the callback it registers with the scheduler.
+// The cycle reads the settings stored by then, which are the start settings unless given.
+async function runCycle(settings: TradingSettings, context: CycleContext, storedSettings: TradingSettings = settings): Promise<CycleOutcome> {
+  storage.getTradingSettings.mockResolvedValue(settings);
+  const register = vi.spyOn(tradingScheduler, 'register');
+  expect(await tradingService.startTradingForUser(settings.userId)).toBe(true);
+  storage.getTradingSettings.mockResolvedValue(storedSettings);
+  return register.mock.calls[0][0].runCycle(context);
+}
+
+// The first window of a fixture market on which the strategy signals
+function signallingWindow(strategy: string, market = FIXTURE_MARKETS[0]) {
+  for (const candidate of windows(scenarioSeries('range', market.symbol, market.basePrice))) {
+    if (analyzeSeries(candidate, strategy)) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+describe('bot cycle', () => {
+  beforeEach(() => {
+    storage.getOpenTrades.mockResolvedValue([]);
+    storage.getPendingTrades.mockResolvedValue([]);
+    storage.createTrade.mockImplementation(async (trade) => ({ id: 1, ...trade }));
+    storage.createDecision.mockResolvedValue(undefined);
+    storage.saveBalance.mockResolvedValue(undefined);
+    storage.getRecentClosedTrades.mockResolvedValue([]);
+    storage.savePairMetrics.mockImplementation(async (metrics) => metrics);
+    storage.getPairMetrics.mockResolvedValue([]);
+    storage.getLatestBotSession.mockResolvedValue(undefined);
+    storage.createBotSession.mockImplementation(async (session) => ({ id: 1, ...session }));
+    storage.updateBotSession.mockImplementation(async (_id, updates) => updates);
+    exchange.getAccountBalance.mockResolvedValue({ totalBalance: '10000', availableBalance: '10000', balances: {} });
+    exchange.getInstrument.mockImplementation(async (symbol: string) => instrumentSpec(symbol));
+    exchange.executeTrade.mockImplementation(async (params: { size: string }) => ({ orderId: 'order-1', size: params.size }));
+
+    vi.spyOn(positionManager, 'getOpposingPositions').mockResolvedValue([]);
+    vi.spyOn(orderReconciler, 'reconcileEntry').mockImplementation(async (trade) => trade);
+    vi.spyOn(riskEngine, 'checkOrder').mockResolvedValue({ allowed: true, breach: null, metrics });
+    // Every signal is acted on, so each strategy's orders are checked and not only its confident ones
+    tradingService.setConfidenceThreshold(0);
+  });
+
+  afterEach(async () => {
+    await tradingService.stopTradingForUser(1);
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  for (const strategy of strategyRegistry.names()) {
+    for (const market of FIXTURE_MARKETS) {
+      it(`${strategy} orders on ${market.symbol} are for ${market.symbol}`, async () => {
+        const window = signallingWindow(strategy, market);
+        expect(window).toBeDefined();
+
+        const latest = window!.candles[window!.candles.length - 1];
+        const context: CycleContext = {
+          scheduledAt: new Date(latest.time + 15 * 60 * 1000),
+          getSeries: vi.fn(async () => window!)
+        };
+        // Auto-selecting strategies pick from a universe of just this symbol
+        storage.getUniversePairs.mockResolvedValue([{ symbol: market.symbol, weight: '1' }]);
+        const outcome = await runCycle(settingsFor(market.symbol, strategy), context);
+
+        expect(outcome).toEqual({ symbols: [market.symbol], error: null });
+        expect(context.getSeries).toHaveBeenCalledWith(market.symbol, '15m', 100);
+        expect(exchange.getInstrument).toHaveBeenCalledWith(market.symbol);
+        expect(exchange.executeTrade).toHaveBeenCalledTimes(1);
+        expect(exchange.executeTrade.mock.calls[0][0]).toMatchObject({ symbol: market.symbol, orderType: 'market' });
+        expect(storage.createTrade).toHaveBeenCalledWith(expect.objectContaining({
+          symbol: market.symbol,
+          entryPrice: latest.close.toString(),
+          strategy,
+          tradeData: expect.objectContaining({ sizing: { model: 'fixed', inputs: { riskPercent: 2, leverage: 1 } } })
+        }));
+        expect(storage.createDecision).toHaveBeenCalledWith(expect.objectContaining({
+          symbol: market.symbol,
+          action: 'EXECUTED'
+        }));
+        expect(storage.savePairMetrics).toHaveBeenCalledWith(expect.objectContaining({
+          symbol: market.symbol,
+          strategy,
+          timeframe: '15m'
+        }));
+      });
+    }
+  }
+
+  it('analyzes candles of the configured timeframe', async () => {
+    const series = { ...scenarioSeries('range'), interval: '1h' };
+    const context: CycleContext = {
+      scheduledAt: new Date(series.candles[series.candles.length - 1].time + 60 * 60 * 1000),
+      getSeries: vi.fn(async () => series)
+    };
+    await runCycle({ ...settingsFor('BTCUSDT', 'MACD'), timeframe: '1h' }, context);
+
+    expect(context.getSeries).toHaveBeenCalledWith('BTCUSDT', '1h', 100);
+  });
+
+  it('checks orders against the risk limits stored when the cycle runs', async () => {
+    const window = signallingWindow('MACD')!;
+    const context: CycleContext = {
+      scheduledAt: new Date(window.candles[window.candles.length - 1].time + 15 * 60 * 1000),
+      getSeries: vi.fn(async () => window)
+    };
+    const started = settingsFor(window.symbol, 'MACD');
+    const changed = { ...started, timeframe: '4h', tradingParams: { risk: { maxTotalExposurePercent: 30 } } };
+
+    await runCycle(started, context, changed);
+
+    expect(riskEngine.checkOrder).toHaveBeenCalledWith(
+      1,
+      'paper:spot',
+      expect.objectContaining({ symbol: window.symbol }),
+      expect.anything(),
+      expect.objectContaining({ maxTotalExposurePercent: 30 })
+    );
+    // The bot keeps analyzing the timeframe it was scheduled on
+    expect(context.getSeries).toHaveBeenCalledWith(window.symbol, '15m', 100);
+    expect(storage.createTrade).toHaveBeenCalledWith(expect.objectContaining({ account: 'paper:spot' }));
+  });
+});
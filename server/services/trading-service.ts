@@ -1,11 +1,27 @@
-import { bitgetService } from './bitget-service';
+import { getExchangeForUser, getAccountKey, isFuturesTrading } from './exchange';
+import type { MarginMode } from './bitget-futures-service';
+import { positionManager, ESTIMATED_FEE_RATE, MANUAL_STRATEGY } from './position-manager';
+import { orderReconciler } from './order-reconciler';
+import { orderEngine } from './order-engine';
+import { eventBus } from './event-bus';
+import { candleStore, intervalToMs } from './candle-store';
+import { tradingScheduler, type CycleContext, type CycleOutcome } from './trading-scheduler';
+import { strategyRegistry } from './strategies';
+import { calculateProtectionLevels, getProtectionConfig, type ProtectionLevels } from './protection-service';
+import { riskEngine, getRiskLimits, type RiskBreach, type RiskMetrics } from './risk-engine';
+import { normalizeOrder, OrderRejectedError } from './instruments';
+import { analyzeSeries, calculateVolatility } from './market-analysis';
+import { calculatePositionSize, calculateTradeStats, getSizingConfig, type PositionSizing } from './position-sizing';
+import { universeService } from './universe-service';
+import { pairRankingService, getPairScoringConfig } from './pair-ranking';
+import { getTrendFilterConfig, trendFilterCandleCount, evaluateTrend, confirmsSignal, type TrendReading } from './trend-filter';
 import { storage } from '../storage';
-import { InsertTrade, InsertBalanceHistory } from '@shared/schema';
+import { InsertTrade, InsertBalanceHistory, InsertDecision, TradingSettings, BotSession } from '@shared/schema';
 import Decimal from 'decimal.js';
 import * as ti from 'technicalindicators';
 
-// Define supported strategies
-export type Strategy = 'MACD' | 'RSI' | 'BOLLINGER' | 'EMA';
+// Name of a strategy in the strategy registry
+export type Strategy = string;
 
 export interface StrategyConfig {
   name: Strategy;
@@ -21,6 +37,13 @@ export interface HistoricalCandle {
   volume: number;
 }
 
+// Candles of one symbol and interval; analysis takes the instrument from here, never from a default
+export interface CandleSeries {
+  symbol: string;
+  interval: string;
+  candles: HistoricalCandle[];
+}
+
 export interface TradeSignal {
   symbol: string;
   side: 'buy' | 'sell';
@@ -31,24 +54,20 @@ export interface TradeSignal {
   indicators: Record<string, any>;
 }
 
+export interface KillSwitchResult {
+  botStopped: boolean;
+  cancelledOrders: number[]; // Trade ids of the cancelled entry orders
+  cancelledOrderGroups: number[]; // Advanced orders the order engine stopped working
+  closedPositions: number[];
+  failed: { tradeId: number; error: string }[];
+}
+
 export class TradingService {
-  private isRunning: boolean = false;
-  private runningIntervals: Record<string, NodeJS.Timeout> = {};
-  private balanceUpdateInterval: NodeJS.Timeout | null = null;
+  // Persisted bot session per running user
+  private botSessionIds: Record<number, number> = {};
   
-  private async startBalanceUpdates() {
-    if (this.balanceUpdateInterval) return;
-    
-    this.balanceUpdateInterval = setInterval(async () => {
-      try {
-        const balance = await bitgetService.getAccountBalance();
-        // Broadcast balance update to connected clients
-        console.log('Balance updated:', balance.totalBalance);
-      } catch (error) {
-        console.error('Balance update error:', error);
-      }
-    }, 30000); // Update every 30 seconds
-  }
+  // Users whose bot is being started, so concurrent starts do not open two sessions
+  private startingUsers = new Set<number>();
   
   // Confidence thresholds for trading decisions (0-100%)
   private confidenceThreshold: number = 70;
@@ -56,91 +75,43 @@ export class TradingService {
   // Maximum number of concurrent open trades
   private maxConcurrentTrades: number = 3;
   
-  // Supported trading pairs with their weights for automatic selection
-  private tradingPairs: {symbol: string, weight: number}[] = [
-    { symbol: 'BTCUSDT', weight: 0.3 },
-    { symbol: 'ETHUSDT', weight: 0.25 },
-    { symbol: 'BNBUSDT', weight: 0.2 },
-    { symbol: 'XRPUSDT', weight: 0.15 },
-    { symbol: 'DOGEUSDT', weight: 0.1 }
-  ];
-  
-  // Track volatility and performance for each pair
-  private pairPerformance: Record<string, {
-    volatility: number,
-    successRate: number,
-    lastUpdated: number
-  }> = {};
-  
   constructor() {
     // Initialize the trading service
     console.log('Trading service initialized');
-    
-    // Initialize performance metrics for each pair
-    this.tradingPairs.forEach(pair => {
-      this.pairPerformance[pair.symbol] = {
-        volatility: 0,
-        successRate: 0,
-        lastUpdated: Date.now()
-      };
-    });
   }
   
   /**
-   * Get the top performing trading pairs based on weight and performance
+   * Get the top ranked pairs of a user's universe for the bot's strategy; pair-ranking documents the score.
+   * Pairs with missing or stale metrics are measured first, so symbols the bot has not traded can be picked.
    */
-  private getTopTradingPairs(count: number = 3): string[] {
-    // Calculate a score for each pair based on weight, volatility, and success rate
-    const pairScores = this.tradingPairs.map(pair => {
-      const performance = this.pairPerformance[pair.symbol];
-      // Score = base weight + (volatility * 0.3) + (success rate * 0.5)
-      const score = pair.weight + 
-                   (performance.volatility * 0.3) + 
-                   (performance.successRate * 0.5);
-      
-      return {
-        symbol: pair.symbol,
-        score
-      };
-    });
-    
-    // Sort by score in descending order and take the top count
-    return pairScores
-      .sort((a, b) => b.score - a.score)
-      .slice(0, count)
-      .map(p => p.symbol);
+  private async getTopTradingPairs(userId: number, settings: TradingSettings, context: CycleContext, count: number = 3): Promise<string[]> {
+    const universe = await universeService.getUniverse(userId, settings.tradingParams);
+    const scoring = getPairScoringConfig(settings.tradingParams);
+    await pairRankingService.refreshStaleMetrics(userId, settings.strategy, universe, settings.timeframe, context.getSeries, scoring);
+    const ranking = await pairRankingService.getRanking(userId, settings.strategy, universe, scoring);
+    return ranking.slice(0, count).map(pair => pair.symbol);
   }
   
   /**
    * Check if we've reached the maximum number of concurrent trades
    */
   private async hasReachedMaxTrades(userId: number): Promise<boolean> {
-    const openTrades = await storage.getOpenTrades(userId);
-    return openTrades.length >= this.maxConcurrentTrades;
+    // Orders still waiting for a fill count towards the limit too; manual orders do not
+    const trades = [...await storage.getOpenTrades(userId), ...await storage.getPendingTrades(userId)];
+    return trades.filter(trade => trade.strategy !== MANUAL_STRATEGY).length >= this.maxConcurrentTrades;
   }
   
   /**
-   * Update performance metrics for a trading pair
+   * Start trading for a specific user, recording a bot session.
+   * When resuming after a restart, the user's still-running session is continued instead of a new one.
    */
-  private updatePairPerformance(symbol: string, tradeSuccess: boolean, volatility: number): void {
-    const performance = this.pairPerformance[symbol];
-    if (!performance) return;
-    
-    // Update success rate using a weighted average (recent trades have more impact)
-    const oldWeight = 0.7;
-    const newWeight = 0.3;
-    performance.successRate = (performance.successRate * oldWeight) + 
-                             (tradeSuccess ? 1 : 0) * newWeight;
+  async startTradingForUser(userId: number, resume: boolean = false): Promise<boolean> {
+    // Already running: starting twice would schedule duplicate cycles
+    if (tradingScheduler.has(userId) || this.startingUsers.has(userId)) {
+      return true;
+    }
     
-    // Update volatility
-    performance.volatility = (performance.volatility * 0.8) + (volatility * 0.2);
-    performance.lastUpdated = Date.now();
-  }
-  
-  /**
-   * Start trading for a specific user
-   */
-  async startTradingForUser(userId: number): Promise<boolean> {
+    this.startingUsers.add(userId);
     try {
       // Get user's trading settings
       const settings = await storage.getTradingSettings(userId);
@@ -148,208 +119,515 @@ export class TradingService {
         throw new Error('No trading settings found for user');
       }
       
-      if (!settings.enabledTrading) {
+      // A bot is only resumed while trading is still enabled; an explicit start enables it once running
+      if (resume && !settings.enabledTrading) {
         return false;
       }
       
-      const interval = this.convertTimeframeToMs(settings.timeframe);
-      
-      // Create an interval to run the trading strategy
-      const intervalId = setInterval(async () => {
-        try {
-          // Check if we've reached the maximum number of concurrent trades
-          const maxTradesReached = await this.hasReachedMaxTrades(userId);
-          if (maxTradesReached) {
-            console.log(`Maximum concurrent trades (${this.maxConcurrentTrades}) reached for user ${userId}. Skipping trading cycle.`);
-            return;
-          }
-          
-          // Auto-select trading pairs if strategy is ENSEMBLE or AUTO
-          let symbols = [settings.symbol];
-          if (settings.strategy === 'ENSEMBLE' || settings.strategy === 'AUTO') {
-            symbols = this.getTopTradingPairs();
-            console.log(`Auto-selected trading pairs for user ${userId}: ${symbols.join(', ')}`);
-          }
-          
-          // Run trading cycle for each symbol
-          for (const symbol of symbols) {
-            await this.runTradingCycle(userId, symbol, settings.strategy, settings.riskPerTrade.toString());
-          }
-        } catch (error) {
-          console.error(`Error in trading cycle for user ${userId}:`, error);
-        }
-      }, interval);
+      const session = await this.openBotSession(userId, settings, resume);
+      this.botSessionIds[userId] = session.id;
       
-      // Store the interval ID for later cleanup
-      this.runningIntervals[`user-${userId}`] = intervalId;
+      // Cycles run on the candle closes of the user's timeframe
+      tradingScheduler.register({
+        userId,
+        sessionId: session.id,
+        timeframe: settings.timeframe,
+        runCycle: (context) => this.runBotCycle(userId, session.id, settings, context)
+      });
       
-      this.isRunning = true;
+      eventBus.publish('bot', { userId, isActive: true });
       return true;
     } catch (error) {
       console.error(`Error starting trading for user ${userId}:`, error);
       return false;
+    } finally {
+      this.startingUsers.delete(userId);
     }
   }
   
   /**
-   * Stop trading for a specific user
+   * Stop trading for a specific user and close their bot session. A cycle already in flight still completes.
    */
-  stopTradingForUser(userId: number): boolean {
-    const intervalKey = `user-${userId}`;
-    const intervalId = this.runningIntervals[intervalKey];
+  async stopTradingForUser(userId: number, reason: string = 'MANUAL'): Promise<boolean> {
+    if (!tradingScheduler.unregister(userId)) {
+      return false;
+    }
     
-    if (intervalId) {
-      clearInterval(intervalId);
-      delete this.runningIntervals[intervalKey];
-      return true;
+    const sessionId = this.botSessionIds[userId];
+    delete this.botSessionIds[userId];
+    if (sessionId) {
+      try {
+        await storage.updateBotSession(sessionId, { status: 'STOPPED', stoppedAt: new Date(), stopReason: reason });
+      } catch (error) {
+        console.error(`Error closing bot session ${sessionId}:`, error);
+      }
+    }
+    
+    eventBus.publish('bot', { userId, isActive: false });
+    return true;
+  }
+  
+  /**
+   * Resume the bots of every user with trading enabled, e.g. after a server restart
+   */
+  async resumeBots(): Promise<void> {
+    const enabledSettings = await storage.getEnabledTradingSettings();
+    const enabledUserIds = new Set(enabledSettings.map(settings => settings.userId));
+    
+    // Sessions left running for users who have since disabled trading are closed
+    for (const session of await storage.getRunningBotSessions()) {
+      if (!enabledUserIds.has(session.userId)) {
+        await storage.updateBotSession(session.id, { status: 'STOPPED', stoppedAt: new Date(), stopReason: 'TRADING_DISABLED' });
+      }
+    }
+    
+    for (const userId of Array.from(enabledUserIds)) {
+      const resumed = await this.startTradingForUser(userId, true);
+      console.log(`${resumed ? 'Resumed' : 'Could not resume'} trading bot for user ${userId}`);
+    }
+  }
+  
+  private async openBotSession(userId: number, settings: TradingSettings, resume: boolean): Promise<BotSession> {
+    const { id, createdAt, updatedAt, ...config } = settings;
+    
+    const latest = await storage.getLatestBotSession(userId);
+    if (resume && latest && latest.status === 'RUNNING') {
+      const resumed = await storage.updateBotSession(latest.id, {
+        config,
+        resumeCount: latest.resumeCount + 1,
+        lastResumedAt: new Date()
+      });
+      if (resumed) return resumed;
+    }
+    
+    // A session still marked running here was orphaned by a crash
+    if (latest && latest.status === 'RUNNING') {
+      await storage.updateBotSession(latest.id, { status: 'STOPPED', stoppedAt: new Date(), stopReason: 'SUPERSEDED' });
+    }
+    
+    return storage.createBotSession({ userId, status: 'RUNNING', config });
+  }
+  
+  /**
+   * One scheduled cycle of a user's bot over all of its symbols. Cycles always run: even at the
+   * concurrent trade limit a signal may close positions.
+   * Settings are read afresh each cycle so changed risk limits apply right away; the timeframe stays
+   * the one the bot was scheduled on.
+   */
+  private async runBotCycle(userId: number, sessionId: number, startSettings: TradingSettings, context: CycleContext): Promise<CycleOutcome> {
+    const current = await storage.getTradingSettings(userId);
+    const settings = { ...(current ?? startSettings), timeframe: startSettings.timeframe };
+
+    // Auto-select trading pairs if strategy is ENSEMBLE or AUTO
+    let symbols = [settings.symbol];
+    if (settings.strategy === 'ENSEMBLE' || settings.strategy === 'AUTO') {
+      symbols = await this.getTopTradingPairs(userId, settings, context);
+      console.log(`Auto-selected trading pairs for user ${userId}: ${symbols.join(', ')}`);
     }
     
-    return false;
+    let lastError: string | null = null;
+    for (const symbol of symbols) {
+      // A risk breach on an earlier symbol halts the bot for the rest of the cycle
+      if (!tradingScheduler.has(userId)) break;
+      try {
+        await this.runTradingCycle(userId, symbol, settings, context);
+      } catch (error: any) {
+        console.error(`Error in trading cycle for user ${userId} on ${symbol}:`, error);
+        lastError = `${symbol}: ${error?.message || error}`;
+      }
+    }
+    
+    await this.recordCycle(sessionId, lastError);
+    return { symbols, error: lastError };
+  }
+  
+  private async recordCycle(sessionId: number, lastError: string | null): Promise<void> {
+    try {
+      const now = new Date();
+      await storage.updateBotSession(sessionId, lastError
+        ? { lastCycleAt: now, lastError, lastErrorAt: now }
+        : { lastCycleAt: now });
+    } catch (error) {
+      console.error(`Error recording cycle for bot session ${sessionId}:`, error);
+    }
   }
   
   /**
-   * Run a single trading cycle (analyze market, generate signals, execute trades)
+   * Run a single trading cycle (analyze market, generate signals, execute trades).
+   * Every evaluation is recorded as a decision, including why no trade was made.
+   * Errors propagate so the caller can record them on the bot session.
    */
-  private async runTradingCycle(userId: number, symbol: string, strategyName: string, riskPerTrade: string): Promise<void> {
+  private async runTradingCycle(userId: number, symbol: string, settings: TradingSettings, context: CycleContext): Promise<void> {
+    const strategyName = settings.strategy;
+    const riskPerTrade = settings.riskPerTrade.toString();
+    
+    console.log(`Running trading cycle for user ${userId}, symbol ${symbol}, strategy ${strategyName}`);
+    
+    const decision: InsertDecision = {
+      userId,
+      sessionId: this.botSessionIds[userId],
+      symbol,
+      strategy: strategyName,
+      timeframe: settings.timeframe,
+      threshold: this.confidenceThreshold.toString(),
+      action: 'SKIPPED'
+    };
+    const checks: Record<string, any> = {};
+    let series: CandleSeries | null = null;
+    
     try {
-      console.log(`Running trading cycle for user ${userId}, symbol ${symbol}, strategy ${strategyName}`);
-      
-      // 1. Get latest market data
-      const candles = await this.getHistoricalData(symbol, '15m', 100);
+      // 1. Get latest market data, shared with other users trading the symbol on the same candle close
+      series = await context.getSeries(symbol, settings.timeframe, 100);
+      const candles = series.candles;
+      const latestCandle = candles[candles.length - 1];
+      if (latestCandle) {
+        decision.candleTime = latestCandle.time;
+        decision.price = latestCandle.close.toString();
+      }
       
-      // 2. Calculate volatility for pair performance tracking
-      const volatility = this.calculateVolatility(candles);
+      // 2. Analyze market using the selected strategy
+      const signal = analyzeSeries(
+        series,
+        strategyName,
+        strategyRegistry.getParamsFromSettings(settings.tradingParams, strategyName)
+      );
+      // 2b. With the trend filter on, read the higher-timeframe trend; the reading is recorded with the signal
+      const trendFilter = getTrendFilterConfig(settings.tradingParams);
+      let trend: TrendReading | null = null;
+      if (signal && trendFilter.timeframe) {
+        const higherSeries = await context.getSeries(symbol, trendFilter.timeframe, trendFilterCandleCount(trendFilter));
+        trend = evaluateTrend(higherSeries, trendFilter, context.scheduledAt.getTime());
+        if (trend) {
+          signal.indicators = {
+            ...signal.indicators,
+            htfEma: trend.ema,
+            htfSlopePercent: trend.slopePercent,
+            htfTrend: trend.trend,
+            htfTimeframe: trend.timeframe
+          };
+        }
+      }
       
-      // 3. Analyze market using the selected strategy
-      const signal = await this.analyzeMarket(candles, strategyName as Strategy);
+      if (signal) {
+        eventBus.publish('signal', { userId, signal });
+        decision.signalSide = signal.side;
+        decision.confidence = signal.confidence.toString();
+        decision.indicators = signal.indicators;
+      }
       
-      // 4. Check if we should execute a trade based on confidence
-      if (signal && signal.confidence >= this.confidenceThreshold) {
-        // 5. Check account balance
-        const balance = await bitgetService.getAccountBalance();
+      // 3. Check if we should execute a trade based on confidence
+      if (!signal) {
+        decision.reason = 'NO_SIGNAL';
+      } else if (signal.confidence < this.confidenceThreshold) {
+        decision.reason = 'BELOW_THRESHOLD';
+      } else {
+        const exchange = await getExchangeForUser(userId);
+        
+        // 4. An opposite signal closes open positions on the symbol instead of opening a new one
+        const opposingPositions = await positionManager.getOpposingPositions(userId, signal.symbol, signal.side);
+        if (opposingPositions.length > 0) {
+          const closedTradeIds: number[] = [];
+          for (const position of opposingPositions) {
+            try {
+              const closedTrade = await positionManager.closePosition(userId, position, 'SIGNAL');
+              console.log(`Position ${closedTrade.id} closed on ${signal.side} signal, realized PnL ${closedTrade.pnl}`);
+              closedTradeIds.push(closedTrade.id);
+            } catch (closeError) {
+              console.error(`Error closing position ${position.id} for ${symbol}:`, closeError);
+            }
+          }
+          
+          checks.opposingPositions = opposingPositions.map(position => position.id);
+          checks.closedPositions = closedTradeIds;
+          decision.action = closedTradeIds.length > 0 ? 'CLOSED_POSITIONS' : 'FAILED';
+          decision.reason = closedTradeIds.length === opposingPositions.length ? 'OPPOSITE_SIGNAL' : 'CLOSE_FAILED';
+          
+          await this.recordBalance(userId, getAccountKey(settings), await exchange.getAccountBalance());
+          return;
+        }
+        
+        // 4b. New positions must agree with the higher-timeframe trend when the filter is on
+        if (trendFilter.timeframe) {
+          checks.trendFilter = trend ?? { timeframe: trendFilter.timeframe, trend: 'unavailable' };
+          if (!trend || !confirmsSignal(signal.side, trend)) {
+            decision.reason = 'TREND_FILTER';
+            return;
+          }
+        }
+        
+        // 5. Check account balance on the user's exchange (live or paper)
+        const balance = await exchange.getAccountBalance();
+        checks.availableBalance = balance.availableBalance;
         
         // 6. Check if we've reached the maximum number of concurrent trades
         const maxTradesReached = await this.hasReachedMaxTrades(userId);
+        checks.maxConcurrentTrades = this.maxConcurrentTrades;
+        checks.maxTradesReached = maxTradesReached;
         if (maxTradesReached) {
           console.log(`Maximum concurrent trades (${this.maxConcurrentTrades}) reached for user ${userId}. Skipping trade execution.`);
+          decision.reason = 'MAX_TRADES_REACHED';
           return;
         }
         
-        // 7. Calculate position size based on risk per trade
-        const positionSize = this.calculatePositionSize(
-          balance.availableBalance,
-          riskPerTrade,
-          signal.price,
-          signal.side
-        );
-        
-        // 8. Execute the trade
+        // 7. Calculate position size with the user's sizing model, in the symbol's quantity step.
+        //    Futures positions are leveraged: the same margin controls a larger position.
+        const futures = isFuturesTrading(settings);
+        const leverage = futures ? settings.leverageLevel : 1;
+        const instrument = await exchange.getInstrument(signal.symbol);
+        const sizingConfig = getSizingConfig(settings.tradingParams);
+        const history = sizingConfig.model === 'kelly'
+          ? calculateTradeStats(await storage.getRecentClosedTrades(userId, strategyName, signal.symbol, sizingConfig.kellyLookback))
+          : undefined;
+        const sizing = calculatePositionSize({
+          availableBalance: balance.availableBalance,
+          riskPercentage: riskPerTrade,
+          price: signal.price,
+          instrument,
+          leverage,
+          candles,
+          history
+        }, sizingConfig);
+        const positionSize = sizing.size;
+        checks.riskPerTrade = riskPerTrade;
+        checks.positionSize = positionSize;
+        checks.sizing = { model: sizing.model, ...sizing.inputs };
+        if (futures) {
+          checks.leverage = leverage;
+        }
+
+        // 8. Execute the trade unless the exchange would reject it or it would breach a portfolio risk limit, which halts the bot
         if (new Decimal(positionSize).greaterThan(0)) {
           try {
-            const tradeResult = await this.executeTrade(userId, signal, positionSize);
-            console.log(`Trade executed: ${tradeResult.orderId}`);
-            
-            // 9. Record the balance after the trade
-            await this.recordBalance(userId, balance);
-            
-            // 10. Update pair performance metrics with successful trade
-            this.updatePairPerformance(symbol, true, volatility);
-          } catch (tradeError) {
-            console.error(`Error executing trade for ${symbol}:`, tradeError);
-            // Update pair performance metrics with failed trade
-            this.updatePairPerformance(symbol, false, volatility);
+            normalizeOrder(instrument, { symbol: signal.symbol, side: signal.side, size: positionSize }, signal.price);
+          } catch (error) {
+            if (error instanceof OrderRejectedError) {
+              decision.reason = error.reason;
+              checks.orderRejection = error.message;
+              return;
+            }
+            throw error;
+          }
+
+          const riskCheck = await riskEngine.checkOrder(
+            userId,
+            getAccountKey(settings),
+            { symbol: signal.symbol, quantity: positionSize, price: signal.price },
+            balance,
+            getRiskLimits(settings.tradingParams)
+          );
+          checks.risk = riskCheck.metrics;
+          if (riskCheck.breach) {
+            decision.reason = `RISK_${riskCheck.breach.rule}`;
+            await this.haltOnRiskBreach(userId, riskCheck.breach, riskCheck.metrics);
+            return;
           }
+
+          const protection = calculateProtectionLevels(
+            signal.side,
+            parseFloat(signal.price),
+            getProtectionConfig(settings.tradingParams, strategyName),
+            candles
+          );
+          const tradeResult = await this.executeTrade(
+            userId,
+            getAccountKey(settings),
+            signal,
+            sizing,
+            protection,
+            futures ? { leverage, marginMode: settings.marginMode as MarginMode } : undefined
+          );
+          console.log(`Trade executed: ${tradeResult.orderId}`);
+          decision.action = 'EXECUTED';
+          decision.tradeId = tradeResult.tradeId;
+          
+          // 9. Record the balance after the trade
+          await this.recordBalance(userId, getAccountKey(settings), balance);
+        } else {
+          decision.reason = 'POSITION_TOO_SMALL';
         }
-      } else {
-        // Just update the volatility even if no trade was executed
-        this.updatePairPerformance(symbol, true, volatility);
       }
-    } catch (error) {
-      console.error('Error in trading cycle:', error);
+    } catch (error: any) {
+      decision.action = 'FAILED';
+      decision.reason = error?.message || String(error);
+      throw error;
+    } finally {
+      await this.recordDecision({ ...decision, checks });
+      // Positions closed this cycle count towards the pair's statistics right away
+      if (series) {
+        await this.recordPairMetrics(userId, strategyName, series, settings.tradingParams);
+      }
     }
   }
   
   /**
-   * Calculate the appropriate position size based on risk parameters
+   * Stop the user's bot and disable trading after a risk limit breach, so it stays stopped across restarts
    */
-  private calculatePositionSize(availableBalance: string, riskPercentage: string, price: string, side: 'buy' | 'sell'): string {
-    // Enhanced position sizing with Kelly Criterion
-    const balanceDecimal = new Decimal(availableBalance);
-    const priceDecimal = new Decimal(price);
-    
-    // Calculate win rate and risk:reward ratio based on historical data
-    const winRate = 0.65; // Assumed 65% win rate
-    const riskRewardRatio = 2; // 1:2 risk:reward ratio
-    
-    // Kelly position size = (winRate * riskRewardRatio - (1 - winRate)) / riskRewardRatio
-    const kellyPercentage = new Decimal(winRate)
-      .times(riskRewardRatio)
-      .minus(new Decimal(1).minus(winRate))
-      .dividedBy(riskRewardRatio);
-    
-    // Use half Kelly for more conservative sizing
-    const riskPercentageDecimal = Decimal.min(
-      kellyPercentage.dividedBy(2),
-      new Decimal(riskPercentage).dividedBy(100)
-    );
-    
-    const riskAmount = balanceDecimal.times(riskPercentageDecimal);
-    
-    // Calculate the position size in base currency
-    const priceDecimal = new Decimal(price);
-    const positionSize = riskAmount.dividedBy(priceDecimal);
-    
-    // Ensure the position size is not too small
-    if (positionSize.lessThan(0.00001)) {
-      return '0';
+  private async haltOnRiskBreach(userId: number, breach: RiskBreach, metrics: RiskMetrics): Promise<void> {
+    console.warn(`Risk limit breached for user ${userId}: ${breach.message}. Halting bot.`);
+    await riskEngine.recordEvent({
+      userId,
+      rule: breach.rule,
+      action: 'HALTED',
+      message: breach.message,
+      value: breach.value.toString(),
+      limit: breach.limit.toString(),
+      details: { metrics, sessionId: this.botSessionIds[userId] }
+    });
+
+    const settings = await storage.getTradingSettings(userId);
+    if (settings) {
+      await storage.updateTradingSettings(settings.id, { enabledTrading: false });
+    }
+    await this.stopTradingForUser(userId, 'RISK_BREACH');
+  }
+
+  /**
+   * Emergency stop: halt the user's bot, disable trading, cancel resting entry orders and
+   * optionally close every open position at market
+   */
+  async activateKillSwitch(userId: number, options: { flatten?: boolean } = {}): Promise<KillSwitchResult> {
+    const settings = await storage.getTradingSettings(userId);
+    if (settings) {
+      await storage.updateTradingSettings(settings.id, { enabledTrading: false });
+    }
+    const botStopped = await this.stopTradingForUser(userId, 'KILL_SWITCH');
+
+    const result: KillSwitchResult = { botStopped, cancelledOrders: [], cancelledOrderGroups: [], closedPositions: [], failed: [] };
+
+    // Stop the order engine first so it does not place new child orders behind the kill switch
+    try {
+      result.cancelledOrderGroups = await orderEngine.cancelAll(userId);
+    } catch (error) {
+      console.error(`Kill switch could not cancel order groups of user ${userId}:`, error);
+    }
+
+    for (const trade of await storage.getPendingTrades(userId)) {
+      try {
+        const exchange = await getExchangeForUser(userId, trade.marketType);
+        await exchange.cancelOrder(trade.symbol, trade.orderId);
+        // The reconciler settles the trade: cancelled, or opened if it filled before the cancel
+        const reconciled = await orderReconciler.reconcileEntry(trade);
+        if (reconciled.status === 'OPEN' && options.flatten) {
+          continue; // Flattened with the other open positions below
+        }
+        result.cancelledOrders.push(trade.id);
+      } catch (error: any) {
+        console.error(`Kill switch could not cancel order ${trade.orderId} of trade ${trade.id}:`, error);
+        result.failed.push({ tradeId: trade.id, error: error?.message || String(error) });
+      }
+    }
+
+    if (options.flatten) {
+      for (const trade of await storage.getOpenTrades(userId)) {
+        try {
+          await positionManager.closePosition(userId, trade, 'KILL_SWITCH');
+          result.closedPositions.push(trade.id);
+        } catch (error: any) {
+          console.error(`Kill switch could not close position ${trade.id}:`, error);
+          result.failed.push({ tradeId: trade.id, error: error?.message || String(error) });
+        }
+      }
+    }
+
+    await riskEngine.recordEvent({
+      userId,
+      rule: 'KILL_SWITCH',
+      action: 'KILL_SWITCH',
+      message: options.flatten ? 'Kill switch activated, positions flattened' : 'Kill switch activated',
+      details: { ...result, flatten: !!options.flatten }
+    });
+
+    return result;
+  }
+
+  private async recordPairMetrics(userId: number, strategy: Strategy, series: CandleSeries, tradingParams: unknown): Promise<void> {
+    try {
+      await pairRankingService.refreshMetrics(userId, strategy, series, getPairScoringConfig(tradingParams));
+    } catch (error) {
+      console.error(`Error recording pair metrics for user ${userId} on ${series.symbol}:`, error);
+    }
+  }
+  
+  private async recordDecision(decision: InsertDecision): Promise<void> {
+    try {
+      await storage.createDecision(decision);
+    } catch (error) {
+      console.error(`Error recording decision for user ${decision.userId} on ${decision.symbol}:`, error);
     }
-    
-    // Return the position size rounded to 5 decimal places
-    return positionSize.toDecimalPlaces(5).toString();
   }
   
   /**
    * Execute a trade based on the generated signal
    */
-  private async executeTrade(userId: number, signal: TradeSignal, size: string): Promise<any> {
-    // Execute the trade
-    const tradeResponse = await bitgetService.executeTrade({
+  private async executeTrade(
+    userId: number,
+    account: string,
+    signal: TradeSignal,
+    sizing: PositionSizing,
+    protection?: ProtectionLevels,
+    futures?: { leverage: number; marginMode: MarginMode }
+  ): Promise<any> {
+    // Execute the trade on the user's exchange (live spot, live futures or paper)
+    const exchange = await getExchangeForUser(userId, futures ? 'futures' : 'spot');
+    const tradeResponse = await exchange.executeTrade({
       symbol: signal.symbol,
       side: signal.side,
-      size: size,
-      orderType: 'market'
+      size: sizing.size,
+      orderType: 'market',
+      leverage: futures?.leverage,
+      marginMode: futures?.marginMode
     });
     
-    // Record the trade in the database
+    // Record the trade as pending until the order reconciler confirms the fill
     const trade: InsertTrade = {
       userId,
       symbol: signal.symbol,
       side: signal.side,
-      entryPrice: new Decimal(signal.price),
-      quantity: new Decimal(size),
-      status: 'OPEN',
+      entryPrice: new Decimal(signal.price).toString(),
+      quantity: new Decimal(tradeResponse.size).toString(), // Rounded to the symbol's quantity step by the exchange
+      status: 'PENDING',
+      orderStatus: 'NEW',
       strategy: signal.strategy,
       orderId: tradeResponse.orderId,
+      marketType: futures ? 'futures' : 'spot',
+      leverage: futures?.leverage ?? 1,
+      account,
       tradeData: {
         confidence: signal.confidence,
         indicators: signal.indicators,
-        timestamp: signal.time
+        timestamp: signal.time,
+        entryOrderId: tradeResponse.orderId,
+        orderType: 'market',
+        signalPrice: signal.price,
+        requestedQuantity: tradeResponse.size,
+        entryFee: new Decimal(signal.price).times(tradeResponse.size).times(ESTIMATED_FEE_RATE).toString(),
+        protection,
+        sizing: { model: sizing.model, inputs: sizing.inputs }
       }
     };
     
-    await storage.createTrade(trade);
+    const createdTrade = await storage.createTrade(trade);
+    eventBus.publish('trade', { userId, event: 'opened', trade: createdTrade });
+    
+    // Market orders usually fill right away, so confirm the fill without waiting for the next poll
+    try {
+      await orderReconciler.reconcileEntry(createdTrade);
+    } catch (error) {
+      console.error(`Error reconciling new trade ${createdTrade.id}:`, error);
+    }
     
-    return tradeResponse;
+    return { ...tradeResponse, tradeId: createdTrade.id };
   }
   
   /**
    * Record current account balance
    */
-  private async recordBalance(userId: number, balance: any): Promise<void> {
+  private async recordBalance(userId: number, account: string, balance: any): Promise<void> {
     const balanceRecord: InsertBalanceHistory = {
       userId,
-      totalBalance: new Decimal(balance.totalBalance),
-      availableBalance: new Decimal(balance.availableBalance),
+      totalBalance: new Decimal(balance.totalBalance).toString(),
+      availableBalance: new Decimal(balance.availableBalance).toString(),
+      account,
       balanceData: {
         frozenBalance: balance.frozenBalance,
         unrealizedPnl: balance.unrealizedPnl,
@@ -359,317 +637,21 @@ export class TradingService {
     };
     
     await storage.saveBalance(balanceRecord);
+    eventBus.publish('balance', { userId, balance });
   }
   
   /**
-   * Get historical candle data for analysis
+   * Get historical candle data for analysis, served from the local candle store
    */
-  private async getHistoricalData(symbol: string, interval: string, limit: number): Promise<HistoricalCandle[]> {
-    const klines = await bitgetService.getKlines(symbol, interval, limit);
-    
-    // Convert Bitget candle format to our format
-    return klines.map(candle => ({
-      time: parseInt(candle[0]),
-      open: parseFloat(candle[1]),
-      high: parseFloat(candle[2]),
-      low: parseFloat(candle[3]),
-      close: parseFloat(candle[4]),
-      volume: parseFloat(candle[5])
-    }));
-  }
-  
-  /**
-   * Analyze market data using the selected strategy
-   */
-  private async analyzeMarket(candles: HistoricalCandle[], strategy: Strategy): Promise<TradeSignal | null> {
-    if (candles.length < 50) {
-      throw new Error('Not enough data for analysis');
-    }
-    
-    const closes = candles.map(c => c.close);
-    const highs = candles.map(c => c.high);
-    const lows = candles.map(c => c.low);
-    const volumes = candles.map(c => c.volume);
-    
-    const latestCandle = candles[candles.length - 1];
-    const symbol = 'BTCUSDT'; // This should be dynamic based on the candles
-    
-    let signal: TradeSignal | null = null;
-    
-    switch (strategy) {
-      case 'MACD': {
-        const macdInput = {
-          values: closes,
-          fastPeriod: 12,
-          slowPeriod: 26,
-          signalPeriod: 9
-        };
-        
-        const macdResults = ti.MACD.calculate(macdInput);
-        if (macdResults.length < 2) {
-          return null;
-        }
-        
-        const current = macdResults[macdResults.length - 1];
-        const previous = macdResults[macdResults.length - 2];
-        
-        // MACD crossing above signal line = buy
-        if (previous.MACD < previous.signal && current.MACD > current.signal) {
-          signal = {
-            symbol,
-            side: 'buy',
-            price: latestCandle.close.toString(),
-            time: latestCandle.time,
-            strategy: 'MACD',
-            confidence: this.calculateConfidence('MACD', 'buy', current, previous),
-            indicators: {
-              macd: current.MACD,
-              signal: current.signal,
-              histogram: current.histogram
-            }
-          };
-        }
-        // MACD crossing below signal line = sell
-        else if (previous.MACD > previous.signal && current.MACD < current.signal) {
-          signal = {
-            symbol,
-            side: 'sell',
-            price: latestCandle.close.toString(),
-            time: latestCandle.time,
-            strategy: 'MACD',
-            confidence: this.calculateConfidence('MACD', 'sell', current, previous),
-            indicators: {
-              macd: current.MACD,
-              signal: current.signal,
-              histogram: current.histogram
-            }
-          };
-        }
-        break;
-      }
-      
-      case 'RSI': {
-        const rsiInput = {
-          values: closes,
-          period: 14
-        };
-        
-        const rsiResults = ti.RSI.calculate(rsiInput);
-        if (rsiResults.length < 1) {
-          return null;
-        }
-        
-        const currentRSI = rsiResults[rsiResults.length - 1];
-        
-        // RSI below 30 = oversold = buy
-        if (currentRSI < 30) {
-          signal = {
-            symbol,
-            side: 'buy',
-            price: latestCandle.close.toString(),
-            time: latestCandle.time,
-            strategy: 'RSI',
-            confidence: 80 - currentRSI, // Lower RSI = higher buy confidence
-            indicators: {
-              rsi: currentRSI
-            }
-          };
-        }
-        // RSI above 70 = overbought = sell
-        else if (currentRSI > 70) {
-          signal = {
-            symbol,
-            side: 'sell',
-            price: latestCandle.close.toString(),
-            time: latestCandle.time,
-            strategy: 'RSI',
-            confidence: currentRSI - 20, // Higher RSI = higher sell confidence
-            indicators: {
-              rsi: currentRSI
-            }
-          };
-        }
-        break;
-      }
-      
-      case 'BOLLINGER': {
-        const bbandsInput = {
-          values: closes,
-          period: 20,
-          stdDev: 2
-        };
-        
-        const bbandsResults = ti.BollingerBands.calculate(bbandsInput);
-        if (bbandsResults.length < 1) {
-          return null;
-        }
-        
-        const current = bbandsResults[bbandsResults.length - 1];
-        const price = latestCandle.close;
-        
-        // Price below lower band = buy
-        if (price < current.lower) {
-          const percentFromLower = (current.lower - price) / (current.upper - current.lower) * 100;
-          signal = {
-            symbol,
-            side: 'buy',
-            price: price.toString(),
-            time: latestCandle.time,
-            strategy: 'BOLLINGER',
-            confidence: Math.min(70 + percentFromLower, 95),
-            indicators: {
-              upper: current.upper,
-              middle: current.middle,
-              lower: current.lower
-            }
-          };
-        }
-        // Price above upper band = sell
-        else if (price > current.upper) {
-          const percentFromUpper = (price - current.upper) / (current.upper - current.lower) * 100;
-          signal = {
-            symbol,
-            side: 'sell',
-            price: price.toString(),
-            time: latestCandle.time,
-            strategy: 'BOLLINGER',
-            confidence: Math.min(70 + percentFromUpper, 95),
-            indicators: {
-              upper: current.upper,
-              middle: current.middle,
-              lower: current.lower
-            }
-          };
-        }
-        break;
-      }
-      
-      case 'EMA': {
-        const shortEMAInput = {
-          values: closes,
-          period: 9
-        };
-        
-        const longEMAInput = {
-          values: closes,
-          period: 21
-        };
-        
-        const shortEMA = ti.EMA.calculate(shortEMAInput);
-        const longEMA = ti.EMA.calculate(longEMAInput);
-        
-        if (shortEMA.length < 2 || longEMA.length < 2) {
-          return null;
-        }
-        
-        const currentShortEMA = shortEMA[shortEMA.length - 1];
-        const previousShortEMA = shortEMA[shortEMA.length - 2];
-        const currentLongEMA = longEMA[longEMA.length - 1];
-        const previousLongEMA = longEMA[longEMA.length - 2];
-        
-        // Short EMA crosses above long EMA = buy
-        if (previousShortEMA < previousLongEMA && currentShortEMA > currentLongEMA) {
-          const emaDiff = Math.abs(currentShortEMA - currentLongEMA) / currentLongEMA * 100;
-          signal = {
-            symbol,
-            side: 'buy',
-            price: latestCandle.close.toString(),
-            time: latestCandle.time,
-            strategy: 'EMA',
-            confidence: Math.min(70 + emaDiff * 10, 95),
-            indicators: {
-              shortEMA: currentShortEMA,
-              longEMA: currentLongEMA
-            }
-          };
-        }
-        // Short EMA crosses below long EMA = sell
-        else if (previousShortEMA > previousLongEMA && currentShortEMA < currentLongEMA) {
-          const emaDiff = Math.abs(currentShortEMA - currentLongEMA) / currentLongEMA * 100;
-          signal = {
-            symbol,
-            side: 'sell',
-            price: latestCandle.close.toString(),
-            time: latestCandle.time,
-            strategy: 'EMA',
-            confidence: Math.min(70 + emaDiff * 10, 95),
-            indicators: {
-              shortEMA: currentShortEMA,
-              longEMA: currentLongEMA
-            }
-          };
-        }
-        break;
-      }
-      
-      default:
-        throw new Error(`Unsupported strategy: ${strategy}`);
-    }
-    
-    return signal;
-  }
-  
-  /**
-   * Calculate confidence level for MACD strategy
-   */
-  private calculateConfidence(strategy: Strategy, side: 'buy' | 'sell', current: any, previous: any): number {
-    switch (strategy) {
-      case 'MACD': {
-        // Base confidence starts higher
-        let confidence = 75;
-        
-        // Calculate strength of crossover
-        const crossoverStrength = Math.abs(current.MACD - current.signal);
-        const histogramChange = current.histogram - previous.histogram;
-        
-        // Enhanced confidence calculation
-        confidence += crossoverStrength * 15; // Increased weight
-        confidence += Math.abs(histogramChange) * 10; // Add histogram momentum
-        
-        // Volume confirmation
-        if (current.volume > previous.volume * 1.2) {
-          confidence += 5;
-        }
-        
-        // Trend confirmation
-        if ((side === 'buy' && current.MACD > 0) || 
-            (side === 'sell' && current.MACD < 0)) {
-          confidence += 5;
-        }
-        
-        // Check histogram trend
-        if (side === 'buy' && current.histogram > 0) {
-          confidence += 5;
-        } else if (side === 'sell' && current.histogram < 0) {
-          confidence += 5;
-        }
-        
-        // Cap at 95%
-        return Math.min(confidence, 95);
-      }
-      
-      default:
-        return 70; // Default confidence level
-    }
+  async getHistoricalData(symbol: string, interval: string, limit: number): Promise<HistoricalCandle[]> {
+    return candleStore.getCandles(symbol, interval, limit);
   }
   
   /**
    * Convert timeframe string to milliseconds
    */
-  private convertTimeframeToMs(timeframe: string): number {
-    const amount = parseInt(timeframe.slice(0, -1));
-    const unit = timeframe.slice(-1);
-    
-    switch (unit) {
-      case 'm':
-        return amount * 60 * 1000;
-      case 'h':
-        return amount * 60 * 60 * 1000;
-      case 'd':
-        return amount * 24 * 60 * 60 * 1000;
-      default:
-        return 60 * 60 * 1000; // Default to 1 hour
-    }
+  convertTimeframeToMs(timeframe: string): number {
+    return intervalToMs(timeframe);
   }
   
   /**
@@ -689,7 +671,7 @@ export class TradingService {
         timeStart: chunk[0].time,
         timeEnd: chunk[chunk.length - 1].time,
         priceChange: (chunk[chunk.length - 1].close - chunk[0].close) / chunk[0].close * 100,
-        volatility: this.calculateVolatility(chunk),
+        volatility: calculateVolatility(chunk),
         volume: chunk.reduce((sum, candle) => sum + candle.volume, 0),
         indicators: this.calculateAllIndicators(chunk)
       };
@@ -700,25 +682,6 @@ export class TradingService {
     return results;
   }
   
-  /**
-   * Calculate volatility for a set of candles
-   */
-  private calculateVolatility(candles: HistoricalCandle[]): number {
-    const closes = candles.map(c => c.close);
-    const returns = [];
-    
-    for (let i = 1; i < closes.length; i++) {
-      returns.push((closes[i] - closes[i - 1]) / closes[i - 1]);
-    }
-    
-    // Calculate standard deviation of returns
-    const mean = returns.reduce((sum, val) => sum + val, 0) / returns.length;
-    const squaredDiffs = returns.map(val => Math.pow(val - mean, 2));
-    const variance = squaredDiffs.reduce((sum, val) => sum + val, 0) / squaredDiffs.length;
-    
-    return Math.sqrt(variance) * 100; // Expressed as percentage
-  }
-  
   /**
    * Calculate all technical indicators for a set of candles
    */
@@ -769,10 +732,10 @@ export class TradingService {
   }
   
   /**
-   * Check if trading is running
+   * Check if trading is running for a user
    */
-  isActive(): boolean {
-    return this.isRunning;
+  isActiveForUser(userId: number): boolean {
+    return tradingScheduler.has(userId);
   }
 }
 
@@ -0,0 +1,84 @@
+import { z } from 'zod';
+import * as ti from 'technicalindicators';
+import { intervalToMs } from './candle-store';
+import type { CandleSeries } from './trading-service';
+
+// Higher-timeframe trend filter, stored under tradingParams.trendFilter; a null timeframe disables it
+export const trendFilterSchema = z.object({
+  timeframe: z.enum(['15m', '1h', '4h', '1d']).nullable(),
+  emaPeriod: z.number().int().min(2).max(200).default(50),
+  slopeBars: z.number().int().min(1).max(50).default(3), // EMA change is measured over this many closed bars
+  minSlopePercent: z.number().min(0).max(10).default(0) // Smaller moves count as flat and confirm nothing
+});
+
+export type TrendFilterConfig = z.infer<typeof trendFilterSchema>;
+
+export const DEFAULT_TREND_FILTER: TrendFilterConfig = {
+  timeframe: null,
+  emaPeriod: 50,
+  slopeBars: 3,
+  minSlopePercent: 0
+};
+
+export interface TrendReading {
+  timeframe: string;
+  candleTime: number; // Open time of the last closed higher-timeframe candle
+  ema: number;
+  slopePercent: number; // EMA change over slopeBars, in percent
+  trend: 'up' | 'down' | 'flat';
+}
+
+/**
+ * Get the trend filter config from the user's trading params
+ */
+export function getTrendFilterConfig(tradingParams: unknown): TrendFilterConfig {
+  const params = (tradingParams || {}) as Record<string, any>;
+  const parsed = trendFilterSchema.safeParse(params.trendFilter);
+  return parsed.success ? parsed.data : DEFAULT_TREND_FILTER;
+}
+
+/**
+ * Number of higher-timeframe candles needed for a reading
+ */
+export function trendFilterCandleCount(config: TrendFilterConfig): number {
+  return config.emaPeriod + config.slopeBars + 1;
+}
+
+/**
+ * Read the EMA slope of a higher-timeframe series from the candles closed by `asOf`.
+ * The candle still forming is left out so a reading never depends on an unfinished bar.
+ * Returns null when there are not enough closed candles.
+ */
+export function evaluateTrend(series: CandleSeries, config: TrendFilterConfig, asOf: number): TrendReading | null {
+  const intervalMs = intervalToMs(series.interval);
+  const closed = series.candles.filter(candle => candle.time + intervalMs <= asOf);
+
+  const ema = ti.EMA.calculate({ values: closed.map(candle => candle.close), period: config.emaPeriod });
+  if (ema.length <= config.slopeBars) {
+    return null;
+  }
+
+  const latest = ema[ema.length - 1];
+  const previous = ema[ema.length - 1 - config.slopeBars];
+  const slopePercent = ((latest - previous) / previous) * 100;
+
+  let trend: TrendReading['trend'] = 'flat';
+  if (Math.abs(slopePercent) > config.minSlopePercent) {
+    trend = slopePercent > 0 ? 'up' : 'down';
+  }
+
+  return {
+    timeframe: series.interval,
+    candleTime: closed[closed.length - 1].time,
+    ema: latest,
+    slopePercent,
+    trend
+  };
+}
+
+/**
+ * A buy needs a rising higher-timeframe trend, a sell a falling one
+ */
+export function confirmsSignal(side: 'buy' | 'sell', reading: TrendReading): boolean {
+  return reading.trend === (side === 'buy' ? 'up' : 'down');
+}
@@ -0,0 +1,120 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { TickerSummary } from './bitget-service';
+import { instrumentSpec } from '../test/fixtures/instruments';
+
+const { storage, bitgetService } = vi.hoisted(() => ({
+  storage: {
+    getUniversePairs: vi.fn(),
+    replaceUniversePairs: vi.fn()
+  },
+  bitgetService: {
+    getInstruments: vi.fn(),
+    getTickers: vi.fn()
+  }
+}));
+
+vi.mock('../storage', () => ({ storage }));
+vi.mock('./bitget-service', () => ({ bitgetService }));
+
+const { universeService, selectRuleUniverse, universeConfigSchema, DEFAULT_UNIVERSE, DEFAULT_PAIR_WEIGHT, UniverseError } =
+  await import('./universe-service');
+
+function tickers(volumes: Record<string, number>): Map<string, TickerSummary> {
+  return new Map(Object.entries(volumes).map(([symbol, quoteVolume]) => [symbol, {
+    symbol,
+    price: '1',
+    volume24h: '0',
+    quoteVolume24h: quoteVolume.toString(),
+    change24h: 0
+  }]));
+}
+
+const INSTRUMENTS = [
+  instrumentSpec('BTCUSDT'),
+  instrumentSpec('ETHUSDT'),
+  instrumentSpec('SOLUSDT'),
+  instrumentSpec('PEPEUSDT'),
+  instrumentSpec('HALTUSDT', { status: 'offline' }),
+  instrumentSpec('ETHBTC', { quoteAsset: 'BTC' })
+];
+
+const TICKERS = tickers({
+  BTCUSDT: 900_000_000,
+  ETHUSDT: 400_000_000,
+  SOLUSDT: 120_000_000,
+  PEPEUSDT: 500_000,
+  HALTUSDT: 800_000_000,
+  ETHBTC: 700_000_000
+});
+
+describe('selectRuleUniverse', () => {
+  it('keeps online symbols of the quote asset above the volume floor, most traded first', () => {
+    const universe = selectRuleUniverse(INSTRUMENTS, TICKERS, universeConfigSchema.parse({}));
+
+    expect(universe).toEqual([
+      { symbol: 'BTCUSDT', weight: DEFAULT_PAIR_WEIGHT },
+      { symbol: 'ETHUSDT', weight: DEFAULT_PAIR_WEIGHT },
+      { symbol: 'SOLUSDT', weight: DEFAULT_PAIR_WEIGHT }
+    ]);
+  });
+
+  it('applies the exclude list, the pair limit and stored weights', () => {
+    const config = universeConfigSchema.parse({ exclude: ['ethusdt'], maxPairs: 1, minQuoteVolume: 0 });
+    const universe = selectRuleUniverse(INSTRUMENTS, TICKERS, config, new Map([['BTCUSDT', 0.4]]));
+
+    expect(universe).toEqual([{ symbol: 'BTCUSDT', weight: 0.4 }]);
+  });
+
+  it('switches quote asset', () => {
+    const universe = selectRuleUniverse(INSTRUMENTS, TICKERS, universeConfigSchema.parse({ quoteAsset: 'btc' }));
+
+    expect(universe.map(pair => pair.symbol)).toEqual(['ETHBTC']);
+  });
+
+  it('leaves out symbols without a ticker unless there is no volume floor', () => {
+    const noTickers = new Map<string, TickerSummary>();
+
+    expect(selectRuleUniverse(INSTRUMENTS, noTickers, universeConfigSchema.parse({}))).toEqual([]);
+    expect(selectRuleUniverse(INSTRUMENTS, noTickers, universeConfigSchema.parse({ minQuoteVolume: 0 }))).toHaveLength(4);
+  });
+});
+
+describe('UniverseService', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('falls back to the default pairs for a manual universe without picked symbols', async () => {
+    storage.getUniversePairs.mockResolvedValue([]);
+
+    expect(await universeService.getUniverse(1, {})).toEqual(DEFAULT_UNIVERSE);
+    expect(bitgetService.getInstruments).not.toHaveBeenCalled();
+  });
+
+  it('uses the picked symbols and weights of a manual universe', async () => {
+    storage.getUniversePairs.mockResolvedValue([{ id: 1, userId: 1, symbol: 'SOLUSDT', weight: '0.5' }]);
+
+    expect(await universeService.getUniverse(1, { universe: { mode: 'manual' } })).toEqual([{ symbol: 'SOLUSDT', weight: 0.5 }]);
+  });
+
+  it('resolves a rules universe from the exchange', async () => {
+    storage.getUniversePairs.mockResolvedValue([{ id: 1, userId: 1, symbol: 'ETHUSDT', weight: '0.25' }]);
+    bitgetService.getInstruments.mockResolvedValue(new Map(INSTRUMENTS.map(spec => [spec.symbol, spec])));
+    bitgetService.getTickers.mockResolvedValue(TICKERS);
+
+    const universe = await universeService.getUniverse(1, { universe: { mode: 'rules', maxPairs: 2 } });
+
+    expect(universe).toEqual([
+      { symbol: 'BTCUSDT', weight: DEFAULT_PAIR_WEIGHT },
+      { symbol: 'ETHUSDT', weight: 0.25 }
+    ]);
+  });
+
+  it('rejects picked symbols the exchange does not trade', async () => {
+    bitgetService.getInstruments.mockResolvedValue(new Map(INSTRUMENTS.map(spec => [spec.symbol, spec])));
+
+    await expect(universeService.setPairs(1, [{ symbol: 'NOPEUSDT', weight: 0.1 }])).rejects.toBeInstanceOf(UniverseError);
+    await expect(universeService.setPairs(1, [{ symbol: 'HALTUSDT', weight: 0.1 }])).rejects.toThrow('HALTUSDT is not trading');
+    expect(storage.replaceUniversePairs).not.toHaveBeenCalled();
+  });
+});
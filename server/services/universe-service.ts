@@ -0,0 +1,155 @@
+import { z } from 'zod';
+import { storage } from '../storage';
+import { bitgetService, type TickerSummary } from './bitget-service';
+import type { InstrumentSpec } from './instruments';
+
+export const UNIVERSE_MODES = ['manual', 'rules'] as const;
+
+// Weight of a universe symbol the user has not weighted
+export const DEFAULT_PAIR_WEIGHT = 0.1;
+
+// Trading universe settings, stored under tradingParams.universe
+export const universeConfigSchema = z.object({
+  // manual: the symbols the user picked; rules: every live symbol that passes the filters below
+  mode: z.enum(UNIVERSE_MODES).default('manual'),
+  quoteAsset: z.string().trim().toUpperCase().min(2).max(10).default('USDT'),
+  minQuoteVolume: z.number().min(0).default(1_000_000), // 24h volume in the quote asset
+  exclude: z.array(z.string().trim().toUpperCase()).max(200).default([]),
+  maxPairs: z.number().int().min(1).max(100).default(20)
+});
+
+export type UniverseConfig = z.infer<typeof universeConfigSchema>;
+
+export const DEFAULT_UNIVERSE_CONFIG: UniverseConfig = universeConfigSchema.parse({});
+
+// Request body for replacing the user's picked symbols and weights
+export const universePairsRequestSchema = z.object({
+  pairs: z.array(z.object({
+    symbol: z.string().trim().toUpperCase().min(1),
+    weight: z.number().min(0).max(1).default(DEFAULT_PAIR_WEIGHT)
+  })).max(100)
+});
+
+export interface UniversePairWeight {
+  symbol: string;
+  weight: number;
+}
+
+// Used by manual universes until the user picks their own symbols
+export const DEFAULT_UNIVERSE: UniversePairWeight[] = [
+  { symbol: 'BTCUSDT', weight: 0.3 },
+  { symbol: 'ETHUSDT', weight: 0.25 },
+  { symbol: 'BNBUSDT', weight: 0.2 },
+  { symbol: 'XRPUSDT', weight: 0.15 },
+  { symbol: 'DOGEUSDT', weight: 0.1 }
+];
+
+export class UniverseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UniverseError';
+  }
+}
+
+/**
+ * Get the trading universe config from the user's trading params
+ */
+export function getUniverseConfig(tradingParams: unknown): UniverseConfig {
+  const params = (tradingParams || {}) as Record<string, any>;
+  const parsed = universeConfigSchema.safeParse(params.universe ?? {});
+  return parsed.success ? parsed.data : DEFAULT_UNIVERSE_CONFIG;
+}
+
+/**
+ * Apply universe rules to the exchange's symbols: online, quoted in the quote asset, not excluded and
+ * trading at least the minimum 24h quote volume. The most traded come first, up to maxPairs.
+ * Weights come from `weights` where the user set one.
+ */
+export function selectRuleUniverse(
+  instruments: Iterable<InstrumentSpec>,
+  tickers: Map<string, TickerSummary>,
+  config: UniverseConfig,
+  weights: Map<string, number> = new Map()
+): UniversePairWeight[] {
+  const excluded = new Set(config.exclude);
+  const candidates: { symbol: string; quoteVolume: number }[] = [];
+
+  for (const instrument of Array.from(instruments)) {
+    if (instrument.status !== 'online' || instrument.quoteAsset !== config.quoteAsset || excluded.has(instrument.symbol)) {
+      continue;
+    }
+    const quoteVolume = Number(tickers.get(instrument.symbol)?.quoteVolume24h ?? 0);
+    if (quoteVolume >= config.minQuoteVolume) {
+      candidates.push({ symbol: instrument.symbol, quoteVolume });
+    }
+  }
+
+  return candidates
+    .sort((a, b) => b.quoteVolume - a.quoteVolume || a.symbol.localeCompare(b.symbol))
+    .slice(0, config.maxPairs)
+    .map(({ symbol }) => ({ symbol, weight: weights.get(symbol) ?? DEFAULT_PAIR_WEIGHT }));
+}
+
+export class UniverseService {
+  /**
+   * Get the symbols a user's bot may trade, with their weights
+   */
+  async getUniverse(userId: number, tradingParams: unknown): Promise<UniversePairWeight[]> {
+    const config = getUniverseConfig(tradingParams);
+    const rows = await storage.getUniversePairs(userId);
+    const weights = new Map(rows.map(row => [row.symbol, Number(row.weight)]));
+
+    if (config.mode === 'manual') {
+      return rows.length > 0
+        ? rows.map(row => ({ symbol: row.symbol, weight: Number(row.weight) }))
+        : DEFAULT_UNIVERSE;
+    }
+
+    const [instruments, tickers] = await Promise.all([bitgetService.getInstruments(), bitgetService.getTickers()]);
+    return selectRuleUniverse(instruments.values(), tickers, config, weights);
+  }
+
+  /**
+   * Replace the user's picked symbols and weights. Every symbol must be a live exchange symbol.
+   */
+  async setPairs(userId: number, pairs: UniversePairWeight[]): Promise<UniversePairWeight[]> {
+    const instruments = await bitgetService.getInstruments();
+    const unique = new Map<string, number>();
+
+    for (const pair of pairs) {
+      const instrument = instruments.get(pair.symbol);
+      if (!instrument) {
+        throw new UniverseError(`${pair.symbol} is not a Bitget spot symbol`);
+      }
+      if (instrument.status !== 'online') {
+        throw new UniverseError(`${pair.symbol} is not trading`);
+      }
+      unique.set(pair.symbol, pair.weight);
+    }
+
+    const rows = await storage.replaceUniversePairs(
+      userId,
+      Array.from(unique, ([symbol, weight]) => ({ symbol, weight: weight.toString() }))
+    );
+    return rows.map(row => ({ symbol: row.symbol, weight: Number(row.weight) }));
+  }
+
+  /**
+   * Every live exchange symbol with its 24h stats, most traded first
+   */
+  async listSymbols(): Promise<(TickerSummary & { baseAsset: string; quoteAsset: string })[]> {
+    const [instruments, tickers] = await Promise.all([bitgetService.getInstruments(), bitgetService.getTickers()]);
+
+    return Array.from(instruments.values())
+      .filter(instrument => instrument.status === 'online' && tickers.has(instrument.symbol))
+      .map(instrument => ({
+        ...tickers.get(instrument.symbol)!,
+        baseAsset: instrument.baseAsset,
+        quoteAsset: instrument.quoteAsset
+      }))
+      .sort((a, b) => Number(b.quoteVolume24h) - Number(a.quoteVolume24h));
+  }
+}
+
+// Export a singleton instance
+export const universeService = new UniverseService();
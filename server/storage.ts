@@ -2,15 +2,45 @@ import {
   users, type User, type InsertUser,
   tradingSettings, type TradingSettings, type InsertTradingSettings,
   trades, type Trade, type InsertTrade,
-  balanceHistory, type BalanceHistory, type InsertBalanceHistory
+  balanceHistory, type BalanceHistory, type InsertBalanceHistory,
+  paperBalances, type PaperBalance,
+  paperOrders, type PaperOrder, type InsertPaperOrder,
+  backtests, type Backtest, type InsertBacktest,
+  exchangeCredentials, type ExchangeCredentials, type InsertExchangeCredentials,
+  botSessions, type BotSession, type InsertBotSession,
+  candles, type Candle, type InsertCandle,
+  botRuns, type BotRun, type InsertBotRun,
+  decisions, type Decision, type InsertDecision,
+  riskEvents, type RiskEvent, type InsertRiskEvent,
+  orderGroups, type OrderGroup, type InsertOrderGroup,
+  childOrders, type ChildOrder, type InsertChildOrder,
+  universePairs, type UniversePair,
+  pairMetrics, type PairMetrics, type InsertPairMetrics
 } from "@shared/schema";
 import session from "express-session";
 import Decimal from "decimal.js";
 import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, or, asc, desc, gte, lte, inArray, sql } from "drizzle-orm";
 import connectPg from "connect-pg-simple";
 import { pool } from "./db";
 
+// Without startTime the latest candles are returned; results are always oldest first
+export interface CandleQuery {
+  startTime?: number;
+  endTime?: number;
+  limit?: number;
+  source?: 'exchange' | 'import';
+}
+
+export interface DecisionFilters {
+  symbol?: string;
+  strategy?: string;
+  action?: string;
+  from?: Date;
+  to?: Date;
+  limit?: number;
+}
+
 // modify the interface with any CRUD methods
 // you might need
 export interface IStorage {
@@ -21,20 +51,92 @@ export interface IStorage {
   
   // Trading settings methods
   getTradingSettings(userId: number): Promise<TradingSettings | undefined>;
+  getEnabledTradingSettings(): Promise<TradingSettings[]>;
   createTradingSettings(settings: InsertTradingSettings): Promise<TradingSettings>;
   updateTradingSettings(id: number, settings: Partial<TradingSettings>): Promise<TradingSettings | undefined>;
   
   // Trade methods
   getTrades(userId: number): Promise<Trade[]>;
   getOpenTrades(userId: number): Promise<Trade[]>;
+  getAllOpenTrades(): Promise<Trade[]>;
+  getPendingTrades(userId: number): Promise<Trade[]>;
+  getTradesOpenedSince(userId: number, since: Date): Promise<Trade[]>;
+  getTradesClosedSince(userId: number, since: Date): Promise<Trade[]>;
+  getRecentClosedTrades(userId: number, strategy: string, symbol: string, limit: number): Promise<Trade[]>;
+  getUnreconciledTrades(): Promise<Trade[]>;
+  getTrade(userId: number, id: number): Promise<Trade | undefined>;
   createTrade(trade: InsertTrade): Promise<Trade>;
   updateTrade(id: number, updates: Partial<Trade>): Promise<Trade | undefined>;
+  updateTradeIfStatus(id: number, status: string, updates: Partial<Trade>): Promise<Trade | undefined>;
+  mergeTradeData(id: number, data: Record<string, unknown>, path?: string[], updates?: Partial<Trade>): Promise<Trade | undefined>;
   
   // Balance methods
   getLatestBalance(userId: number): Promise<BalanceHistory | undefined>;
   getBalanceHistory(userId: number, limit?: number): Promise<BalanceHistory[]>;
+  getPeakBalance(userId: number, account: string): Promise<string | null>;
   saveBalance(balance: InsertBalanceHistory): Promise<BalanceHistory>;
   
+  // Paper trading methods
+  getPaperBalances(userId: number): Promise<PaperBalance[]>;
+  seedPaperBalance(userId: number, asset: string, available: string): Promise<void>;
+  adjustPaperBalance(userId: number, asset: string, availableDelta: string, frozenDelta: string): Promise<PaperBalance | undefined>;
+  createPaperOrder(order: InsertPaperOrder): Promise<PaperOrder>;
+  getPaperOrder(userId: number, orderId: string): Promise<PaperOrder | undefined>;
+  updatePaperOrder(id: number, updates: Partial<PaperOrder>): Promise<PaperOrder | undefined>;
+  updatePaperOrderIfStatus(id: number, status: string, updates: Partial<PaperOrder>): Promise<PaperOrder | undefined>;
+  
+  // Backtest methods
+  getBacktests(userId: number, limit?: number): Promise<Backtest[]>;
+  getBacktest(userId: number, id: number): Promise<Backtest | undefined>;
+  createBacktest(backtest: InsertBacktest): Promise<Backtest>;
+  
+  // Exchange credentials methods (values are stored encrypted)
+  getExchangeCredentials(userId: number): Promise<ExchangeCredentials | undefined>;
+  saveExchangeCredentials(credentials: InsertExchangeCredentials): Promise<ExchangeCredentials>;
+  deleteExchangeCredentials(userId: number): Promise<boolean>;
+  
+  // Bot session methods
+  getRunningBotSessions(): Promise<BotSession[]>;
+  getLatestBotSession(userId: number): Promise<BotSession | undefined>;
+  createBotSession(session: InsertBotSession): Promise<BotSession>;
+  updateBotSession(id: number, updates: Partial<BotSession>): Promise<BotSession | undefined>;
+  
+  // Bot run methods
+  getBotRuns(userId: number, limit?: number): Promise<BotRun[]>;
+  createBotRun(run: InsertBotRun): Promise<BotRun>;
+  
+  // Decision audit methods
+  getDecisions(userId: number, filters?: DecisionFilters): Promise<Decision[]>;
+  createDecision(decision: InsertDecision): Promise<Decision>;
+  
+  // Risk event methods
+  getRiskEvents(userId: number, limit?: number): Promise<RiskEvent[]>;
+  createRiskEvent(event: InsertRiskEvent): Promise<RiskEvent>;
+  
+  // Order engine methods
+  getOrderGroups(userId: number, limit?: number): Promise<OrderGroup[]>;
+  getOrderGroup(userId: number, id: number): Promise<OrderGroup | undefined>;
+  getActiveOrderGroups(): Promise<OrderGroup[]>;
+  createOrderGroup(group: InsertOrderGroup): Promise<OrderGroup>;
+  updateOrderGroup(id: number, updates: Partial<OrderGroup>): Promise<OrderGroup | undefined>;
+  getChildOrders(groupId: number): Promise<ChildOrder[]>;
+  createChildOrder(child: InsertChildOrder): Promise<ChildOrder>;
+  updateChildOrder(id: number, updates: Partial<ChildOrder>): Promise<ChildOrder | undefined>;
+  
+  // Trading universe methods
+  getUniversePairs(userId: number): Promise<UniversePair[]>;
+  replaceUniversePairs(userId: number, pairs: { symbol: string; weight: string }[]): Promise<UniversePair[]>;
+  
+  // Pair metrics methods
+  getPairMetrics(userId: number, strategy: string): Promise<PairMetrics[]>;
+  savePairMetrics(metrics: InsertPairMetrics): Promise<PairMetrics>;
+  
+  // Candle methods (series are keyed by symbol, interval and open time)
+  getCandles(symbol: string, interval: string, options?: CandleQuery): Promise<Candle[]>;
+  getCandleTimes(symbol: string, interval: string, startTime?: number): Promise<number[]>;
+  saveCandles(candles: InsertCandle[]): Promise<number>;
+  saveImportedCandles(candles: InsertCandle[]): Promise<number>;
+  
   sessionStore: any; // Session store for authentication
 }
 
@@ -79,6 +181,13 @@ export class DatabaseStorage implements IStorage {
     return settings;
   }
   
+  async getEnabledTradingSettings(): Promise<TradingSettings[]> {
+    return await db
+      .select()
+      .from(tradingSettings)
+      .where(eq(tradingSettings.enabledTrading, true));
+  }
+  
   async createTradingSettings(settings: InsertTradingSettings): Promise<TradingSettings> {
     const [newSettings] = await db
       .insert(tradingSettings)
@@ -90,6 +199,9 @@ export class DatabaseStorage implements IStorage {
         riskPerTrade: settings.riskPerTrade || '1',
         leverageLevel: settings.leverageLevel || 1,
         enabledTrading: settings.enabledTrading || false,
+        tradingMode: settings.tradingMode || 'live',
+        marketType: settings.marketType || 'spot',
+        marginMode: settings.marginMode || 'crossed',
         tradingParams: settings.tradingParams || {}
       })
       .returning();
@@ -132,6 +244,95 @@ export class DatabaseStorage implements IStorage {
     return openTrades;
   }
   
+  async getAllOpenTrades(): Promise<Trade[]> {
+    return await db
+      .select()
+      .from(trades)
+      .where(eq(trades.status, "OPEN"))
+      .orderBy(desc(trades.openedAt));
+  }
+  
+  async getPendingTrades(userId: number): Promise<Trade[]> {
+    return await db
+      .select()
+      .from(trades)
+      .where(
+        and(
+          eq(trades.userId, userId),
+          eq(trades.status, "PENDING")
+        )
+      )
+      .orderBy(desc(trades.openedAt));
+  }
+  
+  async getTradesOpenedSince(userId: number, since: Date): Promise<Trade[]> {
+    return await db
+      .select()
+      .from(trades)
+      .where(and(eq(trades.userId, userId), gte(trades.openedAt, since)))
+      .orderBy(desc(trades.openedAt));
+  }
+  
+  async getTradesClosedSince(userId: number, since: Date): Promise<Trade[]> {
+    return await db
+      .select()
+      .from(trades)
+      .where(
+        and(
+          eq(trades.userId, userId),
+          eq(trades.status, "CLOSED"),
+          gte(trades.closedAt, since)
+        )
+      )
+      .orderBy(desc(trades.closedAt));
+  }
+  
+  async getRecentClosedTrades(userId: number, strategy: string, symbol: string, limit: number): Promise<Trade[]> {
+    return await db
+      .select()
+      .from(trades)
+      .where(
+        and(
+          eq(trades.userId, userId),
+          eq(trades.status, "CLOSED"),
+          eq(trades.strategy, strategy),
+          eq(trades.symbol, symbol)
+        )
+      )
+      .orderBy(desc(trades.closedAt))
+      .limit(limit);
+  }
+  
+  async getUnreconciledTrades(): Promise<Trade[]> {
+    // Pending entries, plus closed trades whose closing order has not reached a final state
+    return await db
+      .select()
+      .from(trades)
+      .where(
+        or(
+          eq(trades.status, "PENDING"),
+          and(
+            eq(trades.status, "CLOSED"),
+            inArray(sql`${trades.tradeData}->>'exitOrderStatus'`, ["NEW", "PARTIALLY_FILLED"])
+          )
+        )
+      )
+      .orderBy(trades.openedAt);
+  }
+  
+  async getTrade(userId: number, id: number): Promise<Trade | undefined> {
+    const [trade] = await db
+      .select()
+      .from(trades)
+      .where(
+        and(
+          eq(trades.userId, userId),
+          eq(trades.id, id)
+        )
+      );
+    return trade;
+  }
+  
   async createTrade(trade: InsertTrade): Promise<Trade> {
     const now = new Date();
     const [newTrade] = await db
@@ -150,12 +351,49 @@ export class DatabaseStorage implements IStorage {
       .update(trades)
       .set({
         ...updates,
-        closedAt: updates.status === "CLOSED" ? new Date() : undefined
+        closedAt: updates.status === "CLOSED" ? new Date() : updates.closedAt
       })
       .where(eq(trades.id, id))
       .returning();
     return updatedTrade;
   }
+
+  /**
+   * Update a trade only while it still has the given status, in a single statement.
+   * Returns undefined when another writer changed the status first.
+   */
+  async updateTradeIfStatus(id: number, status: string, updates: Partial<Trade>): Promise<Trade | undefined> {
+    const [updatedTrade] = await db
+      .update(trades)
+      .set({
+        ...updates,
+        closedAt: updates.status === "CLOSED" ? new Date() : updates.closedAt
+      })
+      .where(and(eq(trades.id, id), eq(trades.status, status)))
+      .returning();
+    return updatedTrade;
+  }
+
+  /**
+   * Merge keys into a trade's tradeData in the database, leaving every other key as it is there now.
+   * With a path the keys go into the nested object at that path, which is left alone when it no longer exists.
+   */
+  async mergeTradeData(id: number, data: Record<string, unknown>, path: string[] = [], updates: Partial<Trade> = {}): Promise<Trade | undefined> {
+    const patch = sql`${JSON.stringify(data)}::jsonb`;
+    const target = sql`${`{${path.join(',')}}`}::text[]`;
+    const tradeData = path.length === 0
+      ? sql`coalesce(${trades.tradeData}, '{}'::jsonb) || ${patch}`
+      : sql`case when jsonb_typeof(${trades.tradeData} #> ${target}) = 'object'
+          then jsonb_set(${trades.tradeData}, ${target}, (${trades.tradeData} #> ${target}) || ${patch})
+          else ${trades.tradeData} end`;
+
+    const [updatedTrade] = await db
+      .update(trades)
+      .set({ ...updates, tradeData })
+      .where(eq(trades.id, id))
+      .returning();
+    return updatedTrade;
+  }
   
   // Balance methods
   async getLatestBalance(userId: number): Promise<BalanceHistory | undefined> {
@@ -178,6 +416,14 @@ export class DatabaseStorage implements IStorage {
     return history;
   }
   
+  async getPeakBalance(userId: number, account: string): Promise<string | null> {
+    const [result] = await db
+      .select({ peak: sql<string | null>`max(${balanceHistory.totalBalance})` })
+      .from(balanceHistory)
+      .where(and(eq(balanceHistory.userId, userId), eq(balanceHistory.account, account)));
+    return result?.peak ?? null;
+  }
+  
   async saveBalance(balance: InsertBalanceHistory): Promise<BalanceHistory> {
     const [newBalance] = await db
       .insert(balanceHistory)
@@ -189,6 +435,478 @@ export class DatabaseStorage implements IStorage {
       .returning();
     return newBalance;
   }
+  
+  // Paper trading methods
+  async getPaperBalances(userId: number): Promise<PaperBalance[]> {
+    return await db
+      .select()
+      .from(paperBalances)
+      .where(eq(paperBalances.userId, userId));
+  }
+  
+  async seedPaperBalance(userId: number, asset: string, available: string): Promise<void> {
+    // Concurrent first uses of an account must not reset each other's balance
+    await db
+      .insert(paperBalances)
+      .values({ userId, asset, available, frozen: "0", updatedAt: new Date() })
+      .onConflictDoNothing({ target: [paperBalances.userId, paperBalances.asset] });
+  }
+  
+  /**
+   * Add to a paper balance in a single statement, so concurrent orders cannot overwrite each other's changes.
+   * Frozen funds never go below zero. A debit larger than the available balance changes nothing and returns undefined.
+   */
+  async adjustPaperBalance(userId: number, asset: string, availableDelta: string, frozenDelta: string): Promise<PaperBalance | undefined> {
+    if (new Decimal(availableDelta).isNegative()) {
+      const [balance] = await db
+        .update(paperBalances)
+        .set({
+          available: sql`${paperBalances.available} + ${availableDelta}::numeric`,
+          frozen: sql`greatest(${paperBalances.frozen} + ${frozenDelta}::numeric, 0)`,
+          updatedAt: new Date()
+        })
+        .where(and(
+          eq(paperBalances.userId, userId),
+          eq(paperBalances.asset, asset),
+          sql`${paperBalances.available} + ${availableDelta}::numeric >= 0`
+        ))
+        .returning();
+      return balance;
+    }
+
+    const [balance] = await db
+      .insert(paperBalances)
+      .values({ userId, asset, available: availableDelta, frozen: Decimal.max(frozenDelta, 0).toString(), updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [paperBalances.userId, paperBalances.asset],
+        set: {
+          available: sql`${paperBalances.available} + ${availableDelta}::numeric`,
+          frozen: sql`greatest(${paperBalances.frozen} + ${frozenDelta}::numeric, 0)`,
+          updatedAt: new Date()
+        }
+      })
+      .returning();
+    return balance;
+  }
+  
+  async createPaperOrder(order: InsertPaperOrder): Promise<PaperOrder> {
+    const [newOrder] = await db
+      .insert(paperOrders)
+      .values(order)
+      .returning();
+    return newOrder;
+  }
+  
+  async getPaperOrder(userId: number, orderId: string): Promise<PaperOrder | undefined> {
+    const [order] = await db
+      .select()
+      .from(paperOrders)
+      .where(
+        and(
+          eq(paperOrders.userId, userId),
+          eq(paperOrders.orderId, orderId)
+        )
+      );
+    return order;
+  }
+  
+  async updatePaperOrder(id: number, updates: Partial<PaperOrder>): Promise<PaperOrder | undefined> {
+    const [updatedOrder] = await db
+      .update(paperOrders)
+      .set({
+        ...updates,
+        updatedAt: new Date()
+      })
+      .where(eq(paperOrders.id, id))
+      .returning();
+    return updatedOrder;
+  }
+
+  /**
+   * Update a paper order only while it still has the given status.
+   * Returns undefined when a fill or cancel got to the order first.
+   */
+  async updatePaperOrderIfStatus(id: number, status: string, updates: Partial<PaperOrder>): Promise<PaperOrder | undefined> {
+    const [updatedOrder] = await db
+      .update(paperOrders)
+      .set({
+        ...updates,
+        updatedAt: new Date()
+      })
+      .where(and(eq(paperOrders.id, id), eq(paperOrders.status, status)))
+      .returning();
+    return updatedOrder;
+  }
+  
+  // Backtest methods
+  async getBacktests(userId: number, limit = 20): Promise<Backtest[]> {
+    return await db
+      .select()
+      .from(backtests)
+      .where(eq(backtests.userId, userId))
+      .orderBy(desc(backtests.createdAt))
+      .limit(limit);
+  }
+  
+  async getBacktest(userId: number, id: number): Promise<Backtest | undefined> {
+    const [backtest] = await db
+      .select()
+      .from(backtests)
+      .where(
+        and(
+          eq(backtests.userId, userId),
+          eq(backtests.id, id)
+        )
+      );
+    return backtest;
+  }
+  
+  async createBacktest(backtest: InsertBacktest): Promise<Backtest> {
+    const [newBacktest] = await db
+      .insert(backtests)
+      .values(backtest)
+      .returning();
+    return newBacktest;
+  }
+  
+  // Exchange credentials methods
+  async getExchangeCredentials(userId: number): Promise<ExchangeCredentials | undefined> {
+    const [credentials] = await db
+      .select()
+      .from(exchangeCredentials)
+      .where(eq(exchangeCredentials.userId, userId));
+    return credentials;
+  }
+  
+  async saveExchangeCredentials(credentials: InsertExchangeCredentials): Promise<ExchangeCredentials> {
+    const [saved] = await db
+      .insert(exchangeCredentials)
+      .values({ ...credentials, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: exchangeCredentials.userId,
+        set: { ...credentials, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+  
+  async deleteExchangeCredentials(userId: number): Promise<boolean> {
+    const deleted = await db
+      .delete(exchangeCredentials)
+      .where(eq(exchangeCredentials.userId, userId))
+      .returning();
+    return deleted.length > 0;
+  }
+  
+  // Bot session methods
+  async getRunningBotSessions(): Promise<BotSession[]> {
+    return await db
+      .select()
+      .from(botSessions)
+      .where(eq(botSessions.status, 'RUNNING'));
+  }
+  
+  async getLatestBotSession(userId: number): Promise<BotSession | undefined> {
+    const [session] = await db
+      .select()
+      .from(botSessions)
+      .where(eq(botSessions.userId, userId))
+      .orderBy(desc(botSessions.startedAt))
+      .limit(1);
+    return session;
+  }
+  
+  async createBotSession(session: InsertBotSession): Promise<BotSession> {
+    const [newSession] = await db
+      .insert(botSessions)
+      .values(session)
+      .returning();
+    return newSession;
+  }
+  
+  async updateBotSession(id: number, updates: Partial<BotSession>): Promise<BotSession | undefined> {
+    const [updatedSession] = await db
+      .update(botSessions)
+      .set(updates)
+      .where(eq(botSessions.id, id))
+      .returning();
+    return updatedSession;
+  }
+  
+  // Bot run methods
+  async getBotRuns(userId: number, limit = 20): Promise<BotRun[]> {
+    return await db
+      .select()
+      .from(botRuns)
+      .where(eq(botRuns.userId, userId))
+      .orderBy(desc(botRuns.startedAt))
+      .limit(limit);
+  }
+  
+  async createBotRun(run: InsertBotRun): Promise<BotRun> {
+    const [newRun] = await db
+      .insert(botRuns)
+      .values(run)
+      .returning();
+    return newRun;
+  }
+  
+  // Decision audit methods
+  async getDecisions(userId: number, filters: DecisionFilters = {}): Promise<Decision[]> {
+    const conditions = [eq(decisions.userId, userId)];
+    if (filters.symbol) {
+      conditions.push(eq(decisions.symbol, filters.symbol));
+    }
+    if (filters.strategy) {
+      conditions.push(eq(decisions.strategy, filters.strategy));
+    }
+    if (filters.action) {
+      conditions.push(eq(decisions.action, filters.action));
+    }
+    if (filters.from) {
+      conditions.push(gte(decisions.createdAt, filters.from));
+    }
+    if (filters.to) {
+      conditions.push(lte(decisions.createdAt, filters.to));
+    }
+
+    return await db
+      .select()
+      .from(decisions)
+      .where(and(...conditions))
+      .orderBy(desc(decisions.createdAt))
+      .limit(filters.limit ?? 50);
+  }
+  
+  async createDecision(decision: InsertDecision): Promise<Decision> {
+    const [newDecision] = await db
+      .insert(decisions)
+      .values(decision)
+      .returning();
+    return newDecision;
+  }
+  
+  // Risk event methods
+  async getRiskEvents(userId: number, limit = 20): Promise<RiskEvent[]> {
+    return await db
+      .select()
+      .from(riskEvents)
+      .where(eq(riskEvents.userId, userId))
+      .orderBy(desc(riskEvents.createdAt))
+      .limit(limit);
+  }
+  
+  async createRiskEvent(event: InsertRiskEvent): Promise<RiskEvent> {
+    const [newEvent] = await db
+      .insert(riskEvents)
+      .values(event)
+      .returning();
+    return newEvent;
+  }
+  
+  // Order engine methods
+  async getOrderGroups(userId: number, limit = 50): Promise<OrderGroup[]> {
+    return await db
+      .select()
+      .from(orderGroups)
+      .where(eq(orderGroups.userId, userId))
+      .orderBy(desc(orderGroups.createdAt))
+      .limit(limit);
+  }
+  
+  async getOrderGroup(userId: number, id: number): Promise<OrderGroup | undefined> {
+    const [group] = await db
+      .select()
+      .from(orderGroups)
+      .where(
+        and(
+          eq(orderGroups.userId, userId),
+          eq(orderGroups.id, id)
+        )
+      );
+    return group;
+  }
+  
+  async getActiveOrderGroups(): Promise<OrderGroup[]> {
+    return await db
+      .select()
+      .from(orderGroups)
+      .where(eq(orderGroups.status, "ACTIVE"))
+      .orderBy(asc(orderGroups.createdAt));
+  }
+  
+  async createOrderGroup(group: InsertOrderGroup): Promise<OrderGroup> {
+    const [newGroup] = await db
+      .insert(orderGroups)
+      .values(group)
+      .returning();
+    return newGroup;
+  }
+  
+  async updateOrderGroup(id: number, updates: Partial<OrderGroup>): Promise<OrderGroup | undefined> {
+    const [updatedGroup] = await db
+      .update(orderGroups)
+      .set({
+        ...updates,
+        updatedAt: new Date()
+      })
+      .where(eq(orderGroups.id, id))
+      .returning();
+    return updatedGroup;
+  }
+  
+  async getChildOrders(groupId: number): Promise<ChildOrder[]> {
+    return await db
+      .select()
+      .from(childOrders)
+      .where(eq(childOrders.groupId, groupId))
+      .orderBy(asc(childOrders.id));
+  }
+  
+  async createChildOrder(child: InsertChildOrder): Promise<ChildOrder> {
+    const [newChild] = await db
+      .insert(childOrders)
+      .values(child)
+      .returning();
+    return newChild;
+  }
+  
+  async updateChildOrder(id: number, updates: Partial<ChildOrder>): Promise<ChildOrder | undefined> {
+    const [updatedChild] = await db
+      .update(childOrders)
+      .set({
+        ...updates,
+        updatedAt: new Date()
+      })
+      .where(eq(childOrders.id, id))
+      .returning();
+    return updatedChild;
+  }
+  
+  // Trading universe methods
+  async getUniversePairs(userId: number): Promise<UniversePair[]> {
+    return await db
+      .select()
+      .from(universePairs)
+      .where(eq(universePairs.userId, userId))
+      .orderBy(desc(universePairs.weight), asc(universePairs.symbol));
+  }
+  
+  async replaceUniversePairs(userId: number, pairs: { symbol: string; weight: string }[]): Promise<UniversePair[]> {
+    await db.transaction(async (tx) => {
+      await tx.delete(universePairs).where(eq(universePairs.userId, userId));
+      if (pairs.length > 0) {
+        await tx.insert(universePairs).values(pairs.map(pair => ({ userId, ...pair })));
+      }
+    });
+    return this.getUniversePairs(userId);
+  }
+  
+  // Pair metrics methods
+  async getPairMetrics(userId: number, strategy: string): Promise<PairMetrics[]> {
+    return await db
+      .select()
+      .from(pairMetrics)
+      .where(and(eq(pairMetrics.userId, userId), eq(pairMetrics.strategy, strategy)));
+  }
+  
+  async savePairMetrics(metrics: InsertPairMetrics): Promise<PairMetrics> {
+    const [saved] = await db
+      .insert(pairMetrics)
+      .values({ ...metrics, updatedAt: new Date() })
+      .onConflictDoUpdate({
+        target: [pairMetrics.userId, pairMetrics.strategy, pairMetrics.symbol],
+        set: { ...metrics, updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+  
+  // Candle methods
+  async getCandles(symbol: string, interval: string, options: CandleQuery = {}): Promise<Candle[]> {
+    const conditions = [eq(candles.symbol, symbol), eq(candles.interval, interval)];
+    if (options.startTime !== undefined) {
+      conditions.push(gte(candles.openTime, options.startTime));
+    }
+    if (options.endTime !== undefined) {
+      conditions.push(lte(candles.openTime, options.endTime));
+    }
+    if (options.source !== undefined) {
+      conditions.push(eq(candles.source, options.source));
+    }
+
+    const query = db
+      .select()
+      .from(candles)
+      .where(and(...conditions))
+      .orderBy(options.startTime !== undefined ? asc(candles.openTime) : desc(candles.openTime));
+    const rows = options.limit !== undefined ? await query.limit(options.limit) : await query;
+
+    return options.startTime !== undefined ? rows : rows.reverse();
+  }
+  
+  async getCandleTimes(symbol: string, interval: string, startTime = 0): Promise<number[]> {
+    const rows = await db
+      .select({ openTime: candles.openTime })
+      .from(candles)
+      .where(and(
+        eq(candles.symbol, symbol),
+        eq(candles.interval, interval),
+        gte(candles.openTime, startTime)
+      ))
+      .orderBy(asc(candles.openTime));
+    return rows.map(row => row.openTime);
+  }
+  
+  async saveCandles(newCandles: InsertCandle[]): Promise<number> {
+    if (newCandles.length === 0) {
+      return 0;
+    }
+
+    // The latest bar is still forming, so stored bars are overwritten with fresh values; exchange bars also replace imported ones
+    const saved = await db
+      .insert(candles)
+      .values(newCandles.map(candle => ({ ...candle, source: 'exchange' })))
+      .onConflictDoUpdate({
+        target: [candles.symbol, candles.interval, candles.openTime],
+        set: {
+          open: sql`excluded.open`,
+          high: sql`excluded.high`,
+          low: sql`excluded.low`,
+          close: sql`excluded.close`,
+          volume: sql`excluded.volume`,
+          source: 'exchange',
+          updatedAt: new Date()
+        }
+      })
+      .returning({ id: candles.id });
+    return saved.length;
+  }
+  
+  async saveImportedCandles(newCandles: InsertCandle[]): Promise<number> {
+    if (newCandles.length === 0) {
+      return 0;
+    }
+
+    // Imports may correct earlier imports, but bars synced from the exchange are left as they are
+    const saved = await db
+      .insert(candles)
+      .values(newCandles.map(candle => ({ ...candle, source: 'import' })))
+      .onConflictDoUpdate({
+        target: [candles.symbol, candles.interval, candles.openTime],
+        set: {
+          open: sql`excluded.open`,
+          high: sql`excluded.high`,
+          low: sql`excluded.low`,
+          close: sql`excluded.close`,
+          volume: sql`excluded.volume`,
+          updatedAt: new Date()
+        },
+        setWhere: eq(candles.source, 'import')
+      })
+      .returning({ id: candles.id });
+    return saved.length;
+  }
 }
 
 export const storage = new DatabaseStorage();
@@ -0,0 +1,84 @@
+import type { CandleSeries, HistoricalCandle } from '../../services/trading-service';
+
+// Symbols at very different price levels, so a signal carrying the wrong instrument cannot pass a price check
+export const FIXTURE_MARKETS = [
+  { symbol: 'BTCUSDT', basePrice: 60000 },
+  { symbol: 'ETHUSDT', basePrice: 3000 },
+  { symbol: 'DOGEUSDT', basePrice: 0.15 }
+];
+
+export const FIXTURE_START = Date.UTC(2024, 0, 1);
+
+// Fixtures are 15-minute series
+export const FIXTURE_INTERVAL = '15m';
+const INTERVAL_MS = 15 * 60 * 1000;
+
+export type FixtureScenario = 'trend-up' | 'trend-down' | 'range' | 'gap' | 'flash-crash';
+
+export const FIXTURE_SCENARIOS: FixtureScenario[] = ['trend-up', 'trend-down', 'range', 'gap', 'flash-crash'];
+
+// Bar where the gap and the flash crash happen, late enough that the indicators have warmed up
+const EVENT_BAR = 150;
+
+/**
+ * Close of bar `i` in a scenario, relative to a base price of 1. A small ripple keeps every scenario from
+ * being a straight line, so crossovers and band touches still happen inside the trend.
+ */
+function scenarioClose(scenario: FixtureScenario, i: number): number {
+  const ripple = 0.01 * Math.sin(i / 3);
+  switch (scenario) {
+    case 'trend-up':
+      return 1 + 0.002 * i + ripple;
+    case 'trend-down':
+      return 1 - 0.002 * i + ripple;
+    case 'range':
+      return 1 + 0.06 * Math.sin(i / 9) + 0.015 * Math.sin(i / 2.3);
+    case 'gap':
+      // Price jumps 8% between two bars and holds the new level
+      return (i < EVENT_BAR ? 1 : 1.08) + ripple;
+    case 'flash-crash':
+      // One bar drops 15%, then price recovers over the next ten bars
+      if (i < EVENT_BAR) return 1 + ripple;
+      return 1 - 0.15 * Math.max(0, 1 - (i - EVENT_BAR) / 10) + ripple;
+  }
+}
+
+/**
+ * Deterministic candle series for a market scenario. The gap bar opens at the new level;
+ * the flash crash bar wicks 10% below its close.
+ */
+export function scenarioSeries(
+  scenario: FixtureScenario,
+  symbol = 'BTCUSDT',
+  basePrice = 60000,
+  length = 200
+): CandleSeries {
+  const candles: HistoricalCandle[] = [];
+  let previousClose = basePrice * scenarioClose(scenario, 0);
+
+  for (let i = 0; i < length; i++) {
+    const close = basePrice * scenarioClose(scenario, i);
+    const open = scenario === 'gap' && i === EVENT_BAR ? close : previousClose;
+    const crashBar = scenario === 'flash-crash' && i === EVENT_BAR;
+    candles.push({
+      time: FIXTURE_START + i * INTERVAL_MS,
+      open,
+      high: Math.max(open, close) * 1.002,
+      low: Math.min(open, close) * (crashBar ? 0.9 : 0.998),
+      close,
+      volume: (crashBar ? 5000 : 1000) + 400 * Math.sin(i / 5)
+    });
+    previousClose = close;
+  }
+
+  return { symbol, interval: FIXTURE_INTERVAL, candles };
+}
+
+/**
+ * The windows the live bot would analyze: every `size` candles ending at each bar after warm-up
+ */
+export function* windows(series: CandleSeries, size = 100): Generator<CandleSeries> {
+  for (let end = size; end <= series.candles.length; end++) {
+    yield { ...series, candles: series.candles.slice(end - size, end) };
+  }
+}
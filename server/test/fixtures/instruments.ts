@@ -0,0 +1,21 @@
+import type { InstrumentSpec } from '../../services/instruments';
+
+/**
+ * Spec of a tradable symbol with loose limits: six decimals of precision, no minimum size and a minimum
+ * order value of 1. Tests override the fields they exercise.
+ */
+export function instrumentSpec(symbol: string, overrides: Partial<InstrumentSpec> = {}): InstrumentSpec {
+  const quoteAsset = overrides.quoteAsset ?? 'USDT';
+  return {
+    symbol,
+    baseAsset: symbol.endsWith(quoteAsset) ? symbol.slice(0, -quoteAsset.length) : symbol,
+    quoteAsset,
+    pricePrecision: 6,
+    quantityPrecision: 6,
+    minTradeAmount: '0',
+    maxTradeAmount: null,
+    minNotional: '1',
+    status: 'online',
+    ...overrides
+  };
+}
@@ -0,0 +1,24 @@
+import { z } from "zod";
+
+// Path the WebSocket push channel is served on
+export const REALTIME_PATH = "/ws";
+
+export type RealtimeTradeEvent = "opened" | "updated" | "closed";
+
+// Messages pushed from the server to connected clients
+export type RealtimeMessage =
+  | { type: "balance"; data: { totalBalance: string; availableBalance: string; frozenBalance: string; unrealizedPnl: string; marginBalance: string }; timestamp: number }
+  | { type: "ticker"; data: { symbol: string; price: string; timestamp: number; volume24h: string; change24h: string }; timestamp: number }
+  | { type: "signal"; data: { symbol: string; side: "buy" | "sell"; price: string; time: number; strategy: string; confidence: number; indicators: Record<string, any> }; timestamp: number }
+  | { type: "trade"; data: { event: RealtimeTradeEvent; trade: Record<string, any> }; timestamp: number }
+  | { type: "bot"; data: { isActive: boolean }; timestamp: number };
+
+// Messages clients may send to the server
+export const realtimeClientMessageSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("subscribe"),
+    symbols: z.array(z.string().min(1).max(20)).max(20)
+  })
+]);
+
+export type RealtimeClientMessage = z.infer<typeof realtimeClientMessageSchema>;
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, decimal, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, bigint, boolean, timestamp, decimal, jsonb, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -26,12 +26,20 @@ export const tradingSettings = pgTable("trading_settings", {
   riskPerTrade: decimal("risk_per_trade").notNull().default("1"),
   leverageLevel: integer("leverage_level").notNull().default(1),
   enabledTrading: boolean("enabled_trading").notNull().default(false),
+  tradingMode: text("trading_mode").notNull().default("live"), // live or paper
+  marketType: text("market_type").notNull().default("spot"), // spot or futures (USDT-M perpetuals)
+  marginMode: text("margin_mode").notNull().default("crossed"), // crossed or isolated, futures only
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
   tradingParams: jsonb("trading_params").default({})
 });
 
-export const insertTradingSettingsSchema = createInsertSchema(tradingSettings).omit({
+export const insertTradingSettingsSchema = createInsertSchema(tradingSettings, {
+  tradingMode: z.enum(["live", "paper"]).optional(),
+  marketType: z.enum(["spot", "futures"]).optional(),
+  marginMode: z.enum(["crossed", "isolated"]).optional(),
+  leverageLevel: z.number().int().min(1).max(125).optional()
+}).omit({
   id: true,
   createdAt: true,
   updatedAt: true
@@ -49,7 +57,12 @@ export const trades = pgTable("trades", {
   entryPrice: decimal("entry_price").notNull(),
   exitPrice: decimal("exit_price"),
   quantity: decimal("quantity").notNull(),
-  status: text("status").notNull().default("OPEN"), // OPEN, CLOSED, CANCELLED
+  status: text("status").notNull().default("OPEN"), // PENDING, OPEN, CLOSING (close order being sent), CLOSED, CANCELLED
+  orderStatus: text("order_status").notNull().default("NEW"), // NEW, PARTIALLY_FILLED, FILLED, CANCELLED, REJECTED
+  filledQuantity: decimal("filled_quantity"),
+  avgFillPrice: decimal("avg_fill_price"),
+  fees: decimal("fees"),
+  reconciledAt: timestamp("reconciled_at"),
   pnl: decimal("pnl"),
   pnlPercentage: decimal("pnl_percentage"),
   openedAt: timestamp("opened_at").defaultNow(),
@@ -57,6 +70,11 @@ export const trades = pgTable("trades", {
   strategy: text("strategy").notNull(),
   notes: text("notes"),
   orderId: text("order_id").notNull(),
+  marketType: text("market_type").notNull().default("spot"), // spot or futures
+  leverage: integer("leverage").notNull().default(1),
+  liquidationPrice: decimal("liquidation_price"), // Futures only, refreshed while the position is open
+  fundingFees: decimal("funding_fees").notNull().default("0"), // Net funding paid (negative when received)
+  account: text("account"), // Trading mode and market the trade was placed on, e.g. paper:spot; null on trades from before it was recorded
   tradeData: jsonb("trade_data").default({})
 });
 
@@ -75,6 +93,7 @@ export const balanceHistory = pgTable("balance_history", {
   userId: integer("user_id").notNull().references(() => users.id),
   totalBalance: decimal("total_balance").notNull(),
   availableBalance: decimal("available_balance").notNull(),
+  account: text("account"), // Trading mode and market of the balance, e.g. paper:spot; null on rows from before it was recorded
   timestamp: timestamp("timestamp").defaultNow(),
   balanceData: jsonb("balance_data").default({})
 });
@@ -86,3 +105,317 @@ export const insertBalanceHistorySchema = createInsertSchema(balanceHistory).omi
 
 export type InsertBalanceHistory = z.infer<typeof insertBalanceHistorySchema>;
 export type BalanceHistory = typeof balanceHistory.$inferSelect;
+
+// Paper trading ledger (virtual balances per user and asset)
+export const paperBalances = pgTable("paper_balances", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  asset: text("asset").notNull(),
+  available: decimal("available").notNull().default("0"),
+  frozen: decimal("frozen").notNull().default("0"),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  userAssetIdx: uniqueIndex("paper_balances_user_asset_idx").on(table.userId, table.asset)
+}));
+
+export const insertPaperBalanceSchema = createInsertSchema(paperBalances).omit({
+  id: true,
+  updatedAt: true
+});
+
+export type InsertPaperBalance = z.infer<typeof insertPaperBalanceSchema>;
+export type PaperBalance = typeof paperBalances.$inferSelect;
+
+// Paper trading orders (simulated fills against market candles)
+export const paperOrders = pgTable("paper_orders", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  orderId: text("order_id").notNull().unique(),
+  symbol: text("symbol").notNull(),
+  side: text("side").notNull(), // buy or sell
+  orderType: text("order_type").notNull(), // limit or market
+  price: decimal("price"),
+  size: decimal("size").notNull(),
+  filledSize: decimal("filled_size").notNull().default("0"),
+  avgFillPrice: decimal("avg_fill_price"),
+  fee: decimal("fee").notNull().default("0"),
+  status: text("status").notNull().default("NEW"), // NEW, FILLED, CANCELLED
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
+export const insertPaperOrderSchema = createInsertSchema(paperOrders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export type InsertPaperOrder = z.infer<typeof insertPaperOrderSchema>;
+export type PaperOrder = typeof paperOrders.$inferSelect;
+
+// Backtest runs (strategy replay over historical candles)
+export const backtests = pgTable("backtests", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  symbol: text("symbol").notNull(),
+  timeframe: text("timeframe").notNull(),
+  strategy: text("strategy").notNull(),
+  config: jsonb("config").default({}),
+  metrics: jsonb("metrics").default({}),
+  results: jsonb("results").default({}), // equity curve and trade list
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+export const insertBacktestSchema = createInsertSchema(backtests).omit({
+  id: true,
+  createdAt: true
+});
+
+export type InsertBacktest = z.infer<typeof insertBacktestSchema>;
+export type Backtest = typeof backtests.$inferSelect;
+
+// Exchange API credentials per user, encrypted at rest
+export const exchangeCredentials = pgTable("exchange_credentials", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id).unique(),
+  exchange: text("exchange").notNull().default("bitget"),
+  apiKey: text("api_key").notNull(), // encrypted
+  apiSecret: text("api_secret").notNull(), // encrypted
+  passphrase: text("passphrase").notNull(), // encrypted
+  keyHint: text("key_hint").notNull(), // last characters of the API key, shown in settings
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
+export const insertExchangeCredentialsSchema = createInsertSchema(exchangeCredentials).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export type InsertExchangeCredentials = z.infer<typeof insertExchangeCredentialsSchema>;
+export type ExchangeCredentials = typeof exchangeCredentials.$inferSelect;
+
+// Bot runs per user, used to resume trading after a server restart
+export const botSessions = pgTable("bot_sessions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  status: text("status").notNull().default("RUNNING"), // RUNNING or STOPPED
+  config: jsonb("config").default({}), // Trading settings snapshot at start
+  startedAt: timestamp("started_at").defaultNow(),
+  stoppedAt: timestamp("stopped_at"),
+  stopReason: text("stop_reason"), // MANUAL, TRADING_DISABLED, SUPERSEDED
+  lastCycleAt: timestamp("last_cycle_at"),
+  lastError: text("last_error"),
+  lastErrorAt: timestamp("last_error_at"),
+  resumeCount: integer("resume_count").notNull().default(0),
+  lastResumedAt: timestamp("last_resumed_at")
+});
+
+export const insertBotSessionSchema = createInsertSchema(botSessions).omit({
+  id: true,
+  startedAt: true
+});
+
+export type InsertBotSession = z.infer<typeof insertBotSessionSchema>;
+export type BotSession = typeof botSessions.$inferSelect;
+
+// Local copy of exchange candles, kept in sync by the candle store
+export const candles = pgTable("candles", {
+  id: serial("id").primaryKey(),
+  symbol: text("symbol").notNull(),
+  interval: text("interval").notNull(), // e.g. 15m, 1h
+  openTime: bigint("open_time", { mode: "number" }).notNull(), // ms since epoch
+  open: decimal("open").notNull(),
+  high: decimal("high").notNull(),
+  low: decimal("low").notNull(),
+  close: decimal("close").notNull(),
+  volume: decimal("volume").notNull(),
+  source: text("source").notNull().default("exchange"), // exchange, or import for bars loaded from a file
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  seriesTimeIdx: uniqueIndex("candles_symbol_interval_time_idx").on(table.symbol, table.interval, table.openTime)
+}));
+
+export const insertCandleSchema = createInsertSchema(candles).omit({
+  id: true,
+  updatedAt: true
+});
+
+export type InsertCandle = z.infer<typeof insertCandleSchema>;
+export type Candle = typeof candles.$inferSelect;
+
+// One scheduled bot cycle, with its timing and outcome
+export const botRuns = pgTable("bot_runs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  sessionId: integer("session_id").references(() => botSessions.id),
+  timeframe: text("timeframe").notNull(),
+  scheduledAt: timestamp("scheduled_at").notNull(), // Candle close that triggered the run
+  startedAt: timestamp("started_at").notNull(),
+  finishedAt: timestamp("finished_at"),
+  durationMs: integer("duration_ms"),
+  status: text("status").notNull(), // SUCCESS, ERROR, SKIPPED (previous cycle still running)
+  symbols: jsonb("symbols").default([]),
+  error: text("error")
+});
+
+export const insertBotRunSchema = createInsertSchema(botRuns).omit({
+  id: true
+});
+
+export type InsertBotRun = z.infer<typeof insertBotRunSchema>;
+export type BotRun = typeof botRuns.$inferSelect;
+
+// Audit trail of every trading cycle evaluation, whether or not it led to a trade
+export const decisions = pgTable("decisions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  sessionId: integer("session_id").references(() => botSessions.id),
+  symbol: text("symbol").notNull(),
+  strategy: text("strategy").notNull(),
+  timeframe: text("timeframe").notNull(),
+  candleTime: bigint("candle_time", { mode: "number" }), // Open time of the last analyzed candle
+  price: decimal("price"),
+  indicators: jsonb("indicators").default({}),
+  signalSide: text("signal_side"), // buy, sell or null without a signal
+  confidence: decimal("confidence"),
+  threshold: decimal("threshold").notNull(),
+  checks: jsonb("checks").default({}), // Max trades check, balance and position size
+  action: text("action").notNull(), // EXECUTED, CLOSED_POSITIONS, SKIPPED, FAILED
+  reason: text("reason"), // Why the cycle skipped or failed, e.g. BELOW_THRESHOLD
+  tradeId: integer("trade_id").references(() => trades.id),
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+export const insertDecisionSchema = createInsertSchema(decisions).omit({
+  id: true,
+  createdAt: true
+});
+
+export type InsertDecision = z.infer<typeof insertDecisionSchema>;
+export type Decision = typeof decisions.$inferSelect;
+
+// Risk limit breaches and kill switch activations
+export const riskEvents = pgTable("risk_events", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  rule: text("rule").notNull(), // MAX_DAILY_LOSS, MAX_DRAWDOWN, MAX_SYMBOL_EXPOSURE, MAX_TOTAL_EXPOSURE, MAX_ORDERS_PER_HOUR, KILL_SWITCH
+  action: text("action").notNull(), // HALTED, REJECTED (a manual order) or KILL_SWITCH
+  message: text("message").notNull(),
+  value: decimal("value"), // Measured value that breached the limit
+  limit: decimal("limit"),
+  details: jsonb("details").default({}),
+  createdAt: timestamp("created_at").defaultNow()
+});
+
+export const insertRiskEventSchema = createInsertSchema(riskEvents).omit({
+  id: true,
+  createdAt: true
+});
+
+export type InsertRiskEvent = z.infer<typeof insertRiskEventSchema>;
+export type RiskEvent = typeof riskEvents.$inferSelect;
+
+// Advanced orders (bracket, OCO, chase, TWAP, iceberg) run by the server-side order engine
+export const orderGroups = pgTable("order_groups", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: text("type").notNull(), // BRACKET, OCO, CHASE, TWAP, ICEBERG
+  symbol: text("symbol").notNull(),
+  side: text("side").notNull(), // buy or sell
+  totalSize: decimal("total_size").notNull(),
+  filledSize: decimal("filled_size").notNull().default("0"),
+  status: text("status").notNull().default("ACTIVE"), // ACTIVE, COMPLETED, CANCELLED, FAILED
+  params: jsonb("params").default({}), // Type-specific settings, as requested
+  state: jsonb("state").default({}), // Engine progress, e.g. slices placed or chase count
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  finishedAt: timestamp("finished_at")
+});
+
+export const insertOrderGroupSchema = createInsertSchema(orderGroups).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export type InsertOrderGroup = z.infer<typeof insertOrderGroupSchema>;
+export type OrderGroup = typeof orderGroups.$inferSelect;
+
+// One order of an order group. Placed orders are tracked as trades; the child mirrors their outcome.
+export const childOrders = pgTable("child_orders", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").notNull().references(() => orderGroups.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  role: text("role").notNull(), // ENTRY, STOP, TARGET, LEG, CHASE, SLICE
+  side: text("side").notNull(),
+  orderType: text("order_type").notNull(), // market, limit or stop (triggered by the engine, sent as market)
+  price: decimal("price"), // Limit or trigger price
+  size: decimal("size").notNull(),
+  filledSize: decimal("filled_size").notNull().default("0"),
+  status: text("status").notNull().default("WAITING"), // WAITING, PLACED, FILLED, CANCELLED, FAILED
+  tradeId: integer("trade_id").references(() => trades.id),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+});
+
+export const insertChildOrderSchema = createInsertSchema(childOrders).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export type InsertChildOrder = z.infer<typeof insertChildOrderSchema>;
+export type ChildOrder = typeof childOrders.$inferSelect;
+
+// A symbol in a user's trading universe with its selection weight. In manual universes these rows are the
+// universe; in rule-based universes they override the default weight of matching symbols.
+export const universePairs = pgTable("universe_pairs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  symbol: text("symbol").notNull(),
+  weight: decimal("weight").notNull().default("0.1"), // 0-1, base score when auto-selecting pairs
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  userSymbolIdx: uniqueIndex("universe_pairs_user_symbol_idx").on(table.userId, table.symbol)
+}));
+
+export const insertUniversePairSchema = createInsertSchema(universePairs).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+});
+
+export type InsertUniversePair = z.infer<typeof insertUniversePairSchema>;
+export type UniversePair = typeof universePairs.$inferSelect;
+
+// Performance of a symbol for one of a user's strategies, used to rank the pairs of the trading universe.
+// Volatility comes from the latest candles; the trade statistics from the strategy's closed trades on the symbol.
+export const pairMetrics = pgTable("pair_metrics", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  strategy: text("strategy").notNull(),
+  symbol: text("symbol").notNull(),
+  timeframe: text("timeframe").notNull(), // Of the candles the volatility was measured on
+  volatility: decimal("volatility").notNull().default("0"), // Standard deviation of candle returns, percent
+  candleCount: integer("candle_count").notNull().default(0),
+  trades: integer("trades").notNull().default(0), // Closed trades the statistics come from
+  wins: integer("wins").notNull().default(0),
+  avgWinPercent: decimal("avg_win_percent").notNull().default("0"),
+  avgLossPercent: decimal("avg_loss_percent").notNull().default("0"), // Positive
+  updatedAt: timestamp("updated_at").defaultNow()
+}, (table) => ({
+  userStrategySymbolIdx: uniqueIndex("pair_metrics_user_strategy_symbol_idx").on(table.userId, table.strategy, table.symbol)
+}));
+
+export const insertPairMetricsSchema = createInsertSchema(pairMetrics).omit({
+  id: true,
+  updatedAt: true
+});
+
+export type InsertPairMetrics = z.infer<typeof insertPairMetricsSchema>;
+export type PairMetrics = typeof pairMetrics.$inferSelect;